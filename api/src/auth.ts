@@ -1,8 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import path from "path";
 import fs from "fs/promises";
+import { getProjectRoot } from "./utils.js";
 
-const PROJECT_ROOT = process.env.PHOUSE_PROJECT_ROOT || path.resolve(process.cwd(), "..");
+const PROJECT_ROOT = getProjectRoot();
 const ENV_FILE = path.join(PROJECT_ROOT, "api/.env.local");
 
 let cachedPassword: string | null = null;
@@ -2,9 +2,11 @@ import express from "express";
 import cors from "cors";
 import path from "path";
 import { fileURLToPath } from "url";
+import { getPhouseConfig, validatePhouseConfig } from "phouse-core/config";
 
 // Import auth middleware
 import { authMiddleware, verifyAuth } from "./auth.js";
+import { requireKnownProfile } from "./utils.js";
 
 // Import routes
 import statusRouter from "./routes/status.js";
@@ -19,17 +21,37 @@ import chatRouter from "./routes/chat.js";
 import chatFilesRouter from "./routes/chat-files.js";
 import oauthRouter from "./routes/oauth.js";
 import discordRouter from "./routes/discord.js";
+import telegramRouter from "./routes/telegram.js";
 import gchatRouter from "./routes/gchat.js";
 import watcherFixRouter from "./routes/watcher-fix.js";
+import watcherRouter from "./routes/watcher.js";
 import systemRouter from "./routes/system.js";
 import cronRouter from "./routes/cron.js";
 import sitesRouter from "./routes/sites.js";
 import processesRouter from "./routes/processes.js";
 import navRouter from "./routes/nav.js";
+import budgetRouter from "./routes/budget.js";
+import personasRouter from "./routes/personas.js";
+import profilesRouter from "./routes/profiles.js";
+import webhooksRouter from "./routes/webhooks.js";
+import contactsRouter from "./routes/contacts.js";
+import approvalsRouter from "./routes/approvals.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Same checks the watcher runs at startup - both read paths from core/src/config.ts
+const configProblems = validatePhouseConfig(getPhouseConfig());
+for (const warning of configProblems.warnings) {
+  console.warn(`Config warning: ${warning}`);
+}
+if (configProblems.errors.length > 0) {
+  for (const error of configProblems.errors) {
+    console.error(`Config error: ${error}`);
+  }
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.API_PORT || 3100;
 
@@ -62,19 +84,27 @@ app.use("/api/status", authMiddleware, statusRouter);
 app.use("/api/logs", authMiddleware, logsRouter);
 app.use("/api/sessions", authMiddleware, sessionsRouter);
 app.use("/api/skills", authMiddleware, skillsRouter);
-app.use("/api/memory", authMiddleware, memoryRouter);
+app.use("/api/memory", authMiddleware, requireKnownProfile, memoryRouter);
 app.use("/api/jobs", authMiddleware, jobsRouter);
 app.use("/api/mcp", authMiddleware, mcpRouter);
-app.use("/api/config", authMiddleware, configRouter);
+app.use("/api/config", authMiddleware, requireKnownProfile, configRouter);
 app.use("/api/chat", authMiddleware, chatRouter);
 app.use("/api/discord", authMiddleware, discordRouter);
+app.use("/api/telegram", authMiddleware, telegramRouter);
 app.use("/api/gchat", authMiddleware, gchatRouter);
 app.use("/api/watcher/fix", authMiddleware, watcherFixRouter);
+app.use("/api/watcher", authMiddleware, watcherRouter);
 app.use("/api/system", authMiddleware, systemRouter);
-app.use("/api/cron", authMiddleware, cronRouter);
+app.use("/api/cron", authMiddleware, requireKnownProfile, cronRouter);
 app.use("/api/sites", authMiddleware, sitesRouter);
 app.use("/api/processes", authMiddleware, processesRouter);
 app.use("/api/nav", authMiddleware, navRouter);
+app.use("/api/budget", authMiddleware, budgetRouter);
+app.use("/api/personas", authMiddleware, requireKnownProfile, personasRouter);
+app.use("/api/profiles", authMiddleware, profilesRouter);
+app.use("/api/webhooks", authMiddleware, webhooksRouter);
+app.use("/api/contacts", authMiddleware, contactsRouter);
+app.use("/api/approvals", authMiddleware, approvalsRouter);
 
 // Error handling
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from "express";
+import {
+  ApprovalStore,
+  loadApprovalsConfig,
+  validateApprovalsConfig,
+  type ApprovalsConfig,
+} from "phouse-core/approvals";
+import { WatcherControlClient, WatcherUnavailableError, getControlSocketPath } from "phouse-core/control";
+import { getPhouseConfig } from "phouse-core/config";
+import { writeJsonFile } from "../utils.js";
+
+const router = Router();
+
+const { approvalsConfig: APPROVALS_CONFIG_FILE, approvalsDir: APPROVALS_DIR } = getPhouseConfig().paths;
+const approvalStore = new ApprovalStore(APPROVALS_DIR);
+const watcherControl = new WatcherControlClient(getControlSocketPath());
+
+const RECENT_LIMIT = 50;
+
+// GET /api/approvals - Rules, requests waiting for a decision and recent decisions
+router.get("/", (_req: Request, res: Response) => {
+  try {
+    const requests = approvalStore.list();
+    res.json({
+      config: loadApprovalsConfig(APPROVALS_CONFIG_FILE),
+      pending: requests.filter(r => r.status === "pending"),
+      recent: requests.filter(r => r.status !== "pending").slice(0, RECENT_LIMIT),
+    });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load approvals", details: String(err) });
+  }
+});
+
+// POST /api/approvals/config - Save rules (the watcher applies them from the next job)
+router.post("/config", async (req: Request, res: Response) => {
+  const config = req.body as ApprovalsConfig;
+  const errors = typeof config === "object" && config !== null
+    ? validateApprovalsConfig(config)
+    : ["Config must be an object"];
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors[0], details: errors });
+    return;
+  }
+
+  try {
+    await writeJsonFile(APPROVALS_CONFIG_FILE, config);
+    res.json({ success: true, message: "Approval rules saved" });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to save approval rules", details: String(err) });
+  }
+});
+
+// POST /api/approvals/:id/approve and /api/approvals/:id/deny - Answer a pending request
+for (const decision of ["approve", "deny"] as const) {
+  router.post(`/:id/${decision}`, async (req: Request, res: Response) => {
+    try {
+      const result = await watcherControl.decideApproval(req.params.id as string, {
+        approved: decision === "approve",
+        by: "dashboard",
+        reason: typeof req.body?.reason === "string" ? req.body.reason : undefined,
+      });
+      if (!result.success) {
+        res.status(404).json({ error: result.error || "Approval request is not pending" });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      if (err instanceof WatcherUnavailableError) {
+        res.status(503).json({ error: err.message });
+        return;
+      }
+      res.status(500).json({ error: "Failed to answer approval request", details: String(err) });
+    }
+  });
+}
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from "express";
+import fs from "fs";
+import { loadBudgetConfig, validateBudgetConfig, getBudgetStatus, type BudgetConfig } from "phouse-core/budget";
+import { getPhouseConfig } from "phouse-core/config";
+import { writeJsonFile } from "../utils.js";
+
+const router = Router();
+
+const { jobsDir: JOBS_DIR, budgetsConfig: BUDGETS_CONFIG_FILE } = getPhouseConfig().paths;
+
+// GET /api/budget - Current spend and the state of every budget. A broken
+// budgets.json comes back as an error with the file's text, so it can be fixed.
+router.get("/", (_req: Request, res: Response) => {
+  try {
+    const config = loadBudgetConfig(BUDGETS_CONFIG_FILE);
+    const raw = config.error ? fs.readFileSync(BUDGETS_CONFIG_FILE, "utf-8") : undefined;
+    res.json({ config, status: getBudgetStatus(config, JOBS_DIR), error: config.error, raw });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to compute budget status", details: String(err) });
+  }
+});
+
+// POST /api/budget/config - Save budgets (picked up by the watcher on the next job)
+router.post("/config", async (req: Request, res: Response) => {
+  const config = req.body as BudgetConfig;
+  const error = validateBudgetConfig(config);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    await writeJsonFile(BUDGETS_CONFIG_FILE, config);
+    res.json({ success: true, message: "Budgets saved" });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to save budgets", details: String(err) });
+  }
+});
+
+export default router;
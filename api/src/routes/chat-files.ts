@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
 import path from "path";
+import { getPhouseConfig } from "phouse-core/config";
 import { getProjectRoot, getAssistantRoot } from "../utils.js";
 
 const router = Router();
@@ -12,7 +13,7 @@ const FILES_DIR = path.join(ASSISTANT_ROOT, "memory", "dashboard", "files");
 // Allowed directories for serving files
 const ALLOWED_DIRS = [
   FILES_DIR,                                     // memory/dashboard/files
-  "/home/ubuntu/hosted-sites",                   // hosted site files
+  getPhouseConfig().paths.hostedSitesDir,        // hosted site files
   path.join(PROJECT_ROOT, "dashboard", "public"),// dashboard public assets
   "/tmp/claude-",                                // scratchpad files
 ];
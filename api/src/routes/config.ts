@@ -1,25 +1,33 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
 import path from "path";
-import { getProjectRoot, getAssistantRoot, parseEnvFile, writeEnvFile, readJsonFile, writeJsonFile } from "../utils.js";
+import { loadJobRetentionSettings } from "phouse-core/job-retention";
+import { getPhouseConfig } from "phouse-core/config";
+import { readChannelManifests } from "phouse-core/channel-registry";
+import { loadInboundHooksConfig, validateInboundHooksConfig, type InboundHooksConfig } from "phouse-core/inbound-hooks";
+import { getProjectRoot, getRequestProfile, parseEnvFile, writeEnvFile, readJsonFile, writeJsonFile } from "../utils.js";
 
 const router = Router();
 
 const PROJECT_ROOT = getProjectRoot();
-const ASSISTANT_ROOT = getAssistantRoot();
-const MCP_ROOT = path.resolve(PROJECT_ROOT, "../pHouseMcp");
-const MCP_ENV_FILE = path.join(MCP_ROOT, ".env");
-const GOOGLE_TOKEN_FILE = path.join(MCP_ROOT, "credentials/tokens.json");
-const GOOGLE_CREDENTIALS_FILE = path.join(MCP_ROOT, "credentials/client_secret.json");
 const API_ENV_FILE = path.join(PROJECT_ROOT, "api/.env.local");
-// Config files live in assistant directory
-const CHANNELS_CONFIG = path.join(ASSISTANT_ROOT, "config/channels.json");
-const EMAIL_SECURITY_CONFIG = path.join(ASSISTANT_ROOT, "config/email-security.json");
-const GCHAT_SECURITY_CONFIG = path.join(ASSISTANT_ROOT, "config/gchat-security.json");
-const DISCORD_SECURITY_CONFIG = path.join(ASSISTANT_ROOT, "config/discord-security.json");
-const MEMORY_SETTINGS_CONFIG = path.join(ASSISTANT_ROOT, "config/memory-settings.json");
-const SOUL_MD_FILE = path.join(ASSISTANT_ROOT, "SOUL.md");
-const SYSTEM_MD_FILE = path.join(ASSISTANT_ROOT, "SYSTEM.md");
+// Shared with the watcher (see core/src/config.ts) - config files live in the assistant directory
+const {
+  mcpEnvFile: MCP_ENV_FILE,
+  googleTokenFile: GOOGLE_TOKEN_FILE,
+  googleCredentialsFile: GOOGLE_CREDENTIALS_FILE,
+  channelsConfig: CHANNELS_CONFIG,
+  emailSecurityConfig: EMAIL_SECURITY_CONFIG,
+  gchatSecurityConfig: GCHAT_SECURITY_CONFIG,
+  discordSecurityConfig: DISCORD_SECURITY_CONFIG,
+  telegramSecurityConfig: TELEGRAM_SECURITY_CONFIG,
+  jobRetentionConfig: JOB_RETENTION_CONFIG,
+  channelPluginsDir: CHANNEL_PLUGINS_DIR,
+  inboundHooksConfig: INBOUND_HOOKS_CONFIG,
+} = getPhouseConfig().paths;
+// What the Telegram channel does with messages from senders not on its allowlist
+const TELEGRAM_UNKNOWN_SENDER_POLICIES = ["ignore", "reply", "forward"];
+// SOUL.md, SYSTEM.md and memory settings belong to the selected profile (getRequestProfile)
 
 // Config schema - keys exposed in UI
 export const CONFIG_SCHEMA = {
@@ -123,10 +131,12 @@ Or if you have an existing token JSON, paste it here.`,
   },
 };
 
-router.get("/", async (_req: Request, res: Response) => {
+router.get("/", async (req: Request, res: Response) => {
   try {
+    const profile = getRequestProfile(req).paths;
+
     // Read all config sources
-    const [envVars, apiVars, googleToken, googleCredentials, channelsConfig, emailSecurityConfig, gchatSecurityConfig, discordSecurityConfig, memorySettingsConfig, soulMd, systemMd] = await Promise.all([
+    const [envVars, apiVars, googleToken, googleCredentials, channelsConfig, emailSecurityConfig, gchatSecurityConfig, discordSecurityConfig, telegramSecurityConfig, memorySettingsConfig, soulMd, systemMd] = await Promise.all([
       parseEnvFile(MCP_ENV_FILE),
       parseEnvFile(API_ENV_FILE),
       readJsonFile(GOOGLE_TOKEN_FILE),
@@ -135,9 +145,10 @@ router.get("/", async (_req: Request, res: Response) => {
       readJsonFile(EMAIL_SECURITY_CONFIG),
       readJsonFile(GCHAT_SECURITY_CONFIG),
       readJsonFile(DISCORD_SECURITY_CONFIG),
-      readJsonFile(MEMORY_SETTINGS_CONFIG),
-      fs.readFile(SOUL_MD_FILE, "utf-8").catch(() => ""),
-      fs.readFile(SYSTEM_MD_FILE, "utf-8").catch(() => ""),
+      readJsonFile(TELEGRAM_SECURITY_CONFIG),
+      readJsonFile(profile.memorySettingsFile),
+      fs.readFile(profile.soulFile, "utf-8").catch(() => ""),
+      fs.readFile(profile.systemFile, "utf-8").catch(() => ""),
     ]);
 
     // Helper to mask sensitive values
@@ -230,12 +241,15 @@ router.get("/", async (_req: Request, res: Response) => {
         const defaults = {
           global: {
             maxConcurrentJobs: 2,
+            reservedInteractiveSlots: 0,
           },
           channels: {
             telegram: { enabled: false },
             email: { enabled: false },
             gchat: { enabled: false },
             discord: { enabled: false },
+            webhook: { enabled: false },
+            inbox: { enabled: true },
           },
         };
 
@@ -258,11 +272,16 @@ router.get("/", async (_req: Request, res: Response) => {
       emailSecurity: emailSecurityConfig,
       gchatSecurity: gchatSecurityConfig || { allowedSpaces: [], myUserId: "" },
       discordSecurity: discordSecurityConfig || { allowedChannels: [], allowedGuilds: [], autoIncludeNewChannels: false, myUserId: null, userNames: {} },
+      telegramSecurity: telegramSecurityConfig || { allowedUserIds: [], allowedChatIds: [], unknownSenderPolicy: "ignore", groupMentionOnly: true },
       memorySettings: memorySettingsConfig || {
         shortTermSizeThreshold: 51200,
         chunkSizeBytes: 25600,
         longTermFileMaxSize: 30720,
       },
+      jobRetention: loadJobRetentionSettings(JOB_RETENTION_CONFIG),
+      inboundHooks: loadInboundHooksConfig(INBOUND_HOOKS_CONFIG),
+      // Channels shipped as plugins - the dashboard builds their settings form from the schema
+      channelPlugins: readChannelManifests(CHANNEL_PLUGINS_DIR).map(({ manifest }) => manifest),
       soulMd: soulMd,
       systemMd: systemMd,
     });
@@ -354,8 +373,10 @@ router.post("/", async (req: Request, res: Response) => {
       }
 
       case "channels": {
-        await writeJsonFile(CHANNELS_CONFIG, data);
-        res.json({ success: true, message: "Channels config updated. Restart required." });
+        // The Channels page only sends the channel toggles - keep global settings
+        const existing = (await readJsonFile(CHANNELS_CONFIG)) || {};
+        await writeJsonFile(CHANNELS_CONFIG, { ...existing, ...data });
+        res.json({ success: true, message: "Channels config updated. The watcher applies it automatically." });
         return;
       }
 
@@ -377,14 +398,60 @@ router.post("/", async (req: Request, res: Response) => {
         return;
       }
 
+      case "telegramSecurity": {
+        if (!TELEGRAM_UNKNOWN_SENDER_POLICIES.includes(data?.unknownSenderPolicy)) {
+          res.status(400).json({ error: `Unknown sender policy must be one of: ${TELEGRAM_UNKNOWN_SENDER_POLICIES.join(", ")}` });
+          return;
+        }
+        if (data.unknownSenderPolicy === "forward" && !data.ownerChatId) {
+          res.status(400).json({ error: "Forwarding unknown senders needs your chat ID" });
+          return;
+        }
+        await writeJsonFile(TELEGRAM_SECURITY_CONFIG, data);
+        res.json({ success: true, message: "Telegram security updated. Applies to the next message." });
+        return;
+      }
+
+      case "inboundHooks": {
+        const hooksConfig: InboundHooksConfig = { hooks: Array.isArray(data?.hooks) ? data.hooks : [] };
+        const errors = validateInboundHooksConfig(hooksConfig);
+        if (errors.length > 0) {
+          res.status(400).json({ error: errors[0], details: errors });
+          return;
+        }
+        await writeJsonFile(INBOUND_HOOKS_CONFIG, hooksConfig);
+        res.json({ success: true, message: "Hooks updated. They apply to the next request." });
+        return;
+      }
+
       case "memorySettings": {
-        await writeJsonFile(MEMORY_SETTINGS_CONFIG, data);
-        res.json({ success: true, message: "Memory settings updated. Restart watcher required." });
+        await writeJsonFile(getRequestProfile(req).paths.memorySettingsFile, data);
+        res.json({ success: true, message: "Memory settings updated. Reload or restart the watcher to apply." });
+        return;
+      }
+
+      case "jobRetention": {
+        const fields = ["maxAgeDays", "maxJobs", "archiveMaxMonths", "processedEventsMaxAgeDays", "maxProcessedEvents"] as const;
+        for (const field of fields) {
+          const fieldValue = data?.[field];
+          if (typeof fieldValue !== "number" || !Number.isInteger(fieldValue) || fieldValue < 0) {
+            res.status(400).json({ error: `${field} must be a whole number (0 for no limit)` });
+            return;
+          }
+        }
+        await writeJsonFile(JOB_RETENTION_CONFIG, {
+          maxAgeDays: data.maxAgeDays,
+          maxJobs: data.maxJobs,
+          archiveMaxMonths: data.archiveMaxMonths,
+          processedEventsMaxAgeDays: data.processedEventsMaxAgeDays,
+          maxProcessedEvents: data.maxProcessedEvents,
+        });
+        res.json({ success: true, message: "Job retention updated. Applies at the next nightly run." });
         return;
       }
 
       case "soulMd": {
-        await fs.writeFile(SOUL_MD_FILE, data, "utf-8");
+        await fs.writeFile(getRequestProfile(req).paths.soulFile, data, "utf-8");
         res.json({ success: true, message: "SOUL.md updated." });
         return;
       }
@@ -0,0 +1,78 @@
+import { Router, Request, Response } from "express";
+import {
+  CONTACT_TRUST_LEVELS,
+  loadContacts,
+  validateContacts,
+  type Contact,
+  type ContactsConfig,
+} from "phouse-core/contacts";
+import { getPhouseConfig } from "phouse-core/config";
+import { readJsonFile, writeJsonFile } from "../utils.js";
+
+const router = Router();
+
+const {
+  contactsConfig: CONTACTS_CONFIG_FILE,
+  discordSecurityConfig: DISCORD_SECURITY_CONFIG,
+  gchatSecurityConfig: GCHAT_SECURITY_CONFIG,
+} = getPhouseConfig().paths;
+
+interface SuggestedIdentity {
+  channel: string;
+  id: string;
+  name: string;
+}
+
+// People already named in the Discord and Google Chat userNames maps but not
+// linked to a contact yet - the dashboard offers them as a starting point
+async function getSuggestedIdentities(contacts: Contact[]): Promise<SuggestedIdentity[]> {
+  const linked = new Set(
+    contacts.flatMap(c => (c.identities || []).map(i => `${i.channel}:${i.id.toLowerCase()}`))
+  );
+  const suggestions: SuggestedIdentity[] = [];
+  for (const [channel, file] of [["discord", DISCORD_SECURITY_CONFIG], ["gchat", GCHAT_SECURITY_CONFIG]]) {
+    const config = await readJsonFile(file) as { userNames?: Record<string, string> } | null;
+    for (const [id, name] of Object.entries(config?.userNames || {})) {
+      if (!linked.has(`${channel}:${id.toLowerCase()}`)) {
+        suggestions.push({ channel, id, name });
+      }
+    }
+  }
+  return suggestions;
+}
+
+// GET /api/contacts - Contacts, trust levels and unlinked identities from the channel configs
+router.get("/", async (_req: Request, res: Response) => {
+  try {
+    const config = loadContacts(CONTACTS_CONFIG_FILE);
+    res.json({
+      contacts: config.contacts,
+      trustLevels: CONTACT_TRUST_LEVELS,
+      suggestions: await getSuggestedIdentities(config.contacts),
+    });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load contacts", details: String(err) });
+  }
+});
+
+// PUT /api/contacts - Save contacts (the watcher reads the file for every message)
+router.put("/", async (req: Request, res: Response) => {
+  const body = req.body as Partial<ContactsConfig>;
+  const config: ContactsConfig = {
+    contacts: Array.isArray(body.contacts) ? body.contacts : [],
+  };
+  const errors = validateContacts(config);
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors[0], details: errors });
+    return;
+  }
+
+  try {
+    await writeJsonFile(CONTACTS_CONFIG_FILE, config);
+    res.json({ success: true, message: "Contacts saved" });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to save contacts", details: String(err) });
+  }
+});
+
+export default router;
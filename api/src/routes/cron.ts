@@ -1,10 +1,13 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
+import crypto from "crypto";
+import { getPhouseConfig } from "phouse-core/config";
+import { getRequestProfile } from "../utils.js";
 
 const router = Router();
 
-// Path to the cron config file
-const CRON_CONFIG_FILE = "/home/ubuntu/assistant/config/cron.json";
+// Path to the main assistant's cron config file - the one the cron MCP server manages
+const CRON_CONFIG_FILE = getPhouseConfig().paths.cronConfig;
 const CRON_MCP_URL = "http://localhost:3002/mcp";
 
 // Session management for MCP connection
@@ -16,6 +19,7 @@ interface CronJob {
   description: string;
   prompt: string;
   enabled: boolean;
+  model?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -24,16 +28,60 @@ interface CronConfig {
   jobs: CronJob[];
 }
 
+// The selected profile's cron.json (see getRequestProfile)
+function getCronConfigFile(req: Request): string {
+  return getRequestProfile(req).paths.cronConfigFile;
+}
+
 // Read cron config directly
-async function readCronConfig(): Promise<CronConfig> {
+async function readCronConfig(file: string): Promise<CronConfig> {
   try {
-    const content = await fs.readFile(CRON_CONFIG_FILE, "utf-8");
+    const content = await fs.readFile(file, "utf-8");
     return JSON.parse(content);
   } catch {
     return { jobs: [] };
   }
 }
 
+async function writeCronConfig(file: string, config: CronConfig): Promise<void> {
+  await fs.writeFile(file, JSON.stringify(config, null, 2));
+}
+
+// The cron MCP server doesn't know about per-job models, so they are written
+// straight into the config file after it has applied the rest of the change
+async function setCronJobModel(file: string, jobId: string, model: string | undefined): Promise<void> {
+  const config = await readCronConfig(file);
+  const job = config.jobs.find((j) => j.id === jobId);
+  if (!job || (job.model || undefined) === model) return;
+  if (model) {
+    job.model = model;
+  } else {
+    delete job.model;
+  }
+  await writeCronConfig(file, config);
+}
+
+// The cron MCP server only manages the main assistant's file. Jobs of other
+// profiles are edited in their cron.json directly - the watcher reloads either way.
+function usesCronMcp(file: string): boolean {
+  return file === CRON_CONFIG_FILE;
+}
+
+async function updateCronJobDirect(file: string, jobId: string, changes: Partial<CronJob>): Promise<boolean> {
+  const config = await readCronConfig(file);
+  const job = config.jobs.find((j) => j.id === jobId);
+  if (!job) return false;
+  Object.assign(job, changes, { updated_at: new Date().toISOString() });
+  await writeCronConfig(file, config);
+  return true;
+}
+
+function parseModel(value: unknown): string | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string" && /^[\w.:\[\]-]+$/.test(value)) return value;
+  return null;
+}
+
 // Parse SSE response to extract JSON data
 function parseSSE(text: string): unknown {
   const lines = text.split("\n");
@@ -145,9 +193,9 @@ async function callCronMcp(method: string, params: Record<string, unknown> = {})
 }
 
 // List all jobs - read directly from config file for structured data
-router.get("/", async (_req: Request, res: Response) => {
+router.get("/", async (req: Request, res: Response) => {
   try {
-    const config = await readCronConfig();
+    const config = await readCronConfig(getCronConfigFile(req));
     res.json({ jobs: config.jobs });
   } catch (error) {
     res.status(500).json({ error: String(error) });
@@ -157,7 +205,7 @@ router.get("/", async (_req: Request, res: Response) => {
 // Get single job
 router.get("/:id", async (req: Request, res: Response) => {
   try {
-    const config = await readCronConfig();
+    const config = await readCronConfig(getCronConfigFile(req));
     const job = config.jobs.find((j) => j.id === req.params.id);
     if (!job) {
       res.status(404).json({ error: "Job not found" });
@@ -173,14 +221,44 @@ router.get("/:id", async (req: Request, res: Response) => {
 router.post("/", async (req: Request, res: Response) => {
   try {
     const { schedule, description, prompt, enabled } = req.body;
+    const model = parseModel(req.body.model);
+    if (model === null) {
+      res.status(400).json({ error: "Invalid model name" });
+      return;
+    }
+
+    const file = getCronConfigFile(req);
+    if (!usesCronMcp(file)) {
+      const config = await readCronConfig(file);
+      const now = new Date().toISOString();
+      config.jobs.push({
+        id: crypto.randomUUID().slice(0, 8),
+        schedule,
+        description,
+        prompt,
+        enabled: enabled !== false,
+        ...(model ? { model } : {}),
+        created_at: now,
+        updated_at: now,
+      });
+      await writeCronConfig(file, config);
+      res.json({ success: true, jobs: config.jobs });
+      return;
+    }
+
+    const existingIds = new Set((await readCronConfig(file)).jobs.map((j) => j.id));
     await callCronMcp("create_job", {
       schedule,
       description,
       prompt,
       enabled: enabled !== false,
     });
+    if (model) {
+      const created = (await readCronConfig(file)).jobs.find((j) => !existingIds.has(j.id));
+      if (created) await setCronJobModel(file, created.id, model);
+    }
     // Return updated job list
-    const config = await readCronConfig();
+    const config = await readCronConfig(file);
     res.json({ success: true, jobs: config.jobs });
   } catch (error) {
     res.status(500).json({ error: String(error) });
@@ -191,15 +269,33 @@ router.post("/", async (req: Request, res: Response) => {
 router.put("/:id", async (req: Request, res: Response) => {
   try {
     const { schedule, description, prompt, enabled } = req.body;
+    const model = parseModel(req.body.model);
+    if (model === null) {
+      res.status(400).json({ error: "Invalid model name" });
+      return;
+    }
+
     const params: Record<string, unknown> = { id: req.params.id };
     if (schedule !== undefined) params.schedule = schedule;
     if (description !== undefined) params.description = description;
     if (prompt !== undefined) params.prompt = prompt;
     if (enabled !== undefined) params.enabled = enabled;
 
-    await callCronMcp("edit_job", params);
+    const file = getCronConfigFile(req);
+    if (usesCronMcp(file)) {
+      await callCronMcp("edit_job", params);
+    } else {
+      const { id, ...changes } = params;
+      if (!(await updateCronJobDirect(file, id as string, changes as Partial<CronJob>))) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+    }
+    if (req.body.model !== undefined) {
+      await setCronJobModel(file, req.params.id as string, model);
+    }
     // Return updated job
-    const config = await readCronConfig();
+    const config = await readCronConfig(file);
     const job = config.jobs.find((j) => j.id === req.params.id);
     res.json({ success: true, job });
   } catch (error) {
@@ -211,12 +307,18 @@ router.put("/:id", async (req: Request, res: Response) => {
 router.post("/:id/toggle", async (req: Request, res: Response) => {
   try {
     const { enabled } = req.body;
-    await callCronMcp("toggle_job", {
-      id: req.params.id,
-      enabled,
-    });
+    const file = getCronConfigFile(req);
+    if (usesCronMcp(file)) {
+      await callCronMcp("toggle_job", {
+        id: req.params.id,
+        enabled,
+      });
+    } else if (!(await updateCronJobDirect(file, req.params.id as string, { enabled }))) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
     // Return updated job
-    const config = await readCronConfig();
+    const config = await readCronConfig(file);
     const job = config.jobs.find((j) => j.id === req.params.id);
     res.json({ success: true, job });
   } catch (error) {
@@ -227,7 +329,14 @@ router.post("/:id/toggle", async (req: Request, res: Response) => {
 // Delete job - use MCP then reload config
 router.delete("/:id", async (req: Request, res: Response) => {
   try {
-    await callCronMcp("delete_job", { id: req.params.id });
+    const file = getCronConfigFile(req);
+    if (usesCronMcp(file)) {
+      await callCronMcp("delete_job", { id: req.params.id });
+    } else {
+      const config = await readCronConfig(file);
+      config.jobs = config.jobs.filter((j) => j.id !== req.params.id);
+      await writeCronConfig(file, config);
+    }
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: String(error) });
@@ -1,13 +1,10 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
-import path from "path";
-import { getProjectRoot } from "../utils.js";
+import { getPhouseConfig } from "phouse-core/config";
 
 const router = Router();
 
-const PROJECT_ROOT = getProjectRoot();
-const MCP_ROOT = path.resolve(PROJECT_ROOT, "../pHouseMcp");
-const MCP_ENV_FILE = path.join(MCP_ROOT, ".env");
+const MCP_ENV_FILE = getPhouseConfig().paths.mcpEnvFile;
 
 const DISCORD_API_BASE = "https://discord.com/api/v10";
 
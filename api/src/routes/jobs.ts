@@ -1,31 +1,18 @@
 import { Router, Request, Response } from "express";
-import fs from "fs/promises";
 import path from "path";
-import { getProjectRoot } from "../utils.js";
+import { createAgentRunner } from "phouse-core/runner";
+import { JobStore, type JobStatus, type JobSummary, type JobEvent } from "phouse-core/job-store";
+import { JobArchive, type ArchivedJobSummary } from "phouse-core/job-retention";
+import { WatcherControlClient, WatcherUnavailableError, getControlSocketPath } from "phouse-core/control";
+import { getPhouseConfig } from "phouse-core/config";
 
 const router = Router();
 
-const JOBS_DIR = path.join(getProjectRoot(), "logs", "jobs");
-
-interface JobFile {
-  id: string;
-  startTime: string;
-  endTime?: string;
-  channel: string;
-  trigger: string;
-  fullPrompt?: string;
-  status: "running" | "completed" | "error" | "stopped";
-  pid?: number;
-  model?: string;
-  cost?: number;
-  durationMs?: number;
-  toolCount: number;
-  events: Array<{
-    ts: string;
-    type: string;
-    [key: string]: unknown;
-  }>;
-}
+const JOBS_DIR = getPhouseConfig().paths.jobsDir;
+const jobStore = new JobStore(JOBS_DIR);
+// Jobs moved out by the watcher's retention policy - listed and opened like live ones
+const jobArchive = new JobArchive(path.join(JOBS_DIR, "archive"));
+const watcherControl = new WatcherControlClient(getControlSocketPath());
 
 interface JobStep {
   ts: string;
@@ -41,14 +28,17 @@ interface Job {
   startTime: string;
   endTime?: string;
   channel: string;
+  profile?: string;
   model?: string;
   cost?: number;
   durationMs?: number;
   steps: JobStep[];
-  status: "running" | "completed" | "error" | "stopped";
+  status: JobStatus;
+  statusReason?: string;
   triggerText?: string;
   fullPrompt?: string;
   toolCount: number;
+  archived?: boolean;
 }
 
 function truncate(str: string, maxLen: number = 200): string {
@@ -88,16 +78,12 @@ function extractToolResults(message: any): Array<{ toolId: string; content: stri
     });
 }
 
-async function readJobFile(filePath: string): Promise<JobFile | null> {
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return null;
-  }
+function matchesQuery(job: JobSummary, query: string): boolean {
+  return [job.id, job.channel, job.trigger, job.status, job.statusReason, job.sessionKey]
+    .some(value => value?.toLowerCase().includes(query));
 }
 
-function buildJobFromFile(jobFile: JobFile, truncateContent: boolean): Job {
+function buildJobFromFile(jobFile: JobSummary, events: JobEvent[], truncateContent: boolean): Job {
   const steps: JobStep[] = [];
 
   // Add trigger as first step
@@ -108,7 +94,7 @@ function buildJobFromFile(jobFile: JobFile, truncateContent: boolean): Job {
   });
 
   // Process events
-  for (const event of jobFile.events) {
+  for (const event of events) {
     switch (event.type) {
       case "system":
         if (event.subtype === "init") {
@@ -171,6 +157,19 @@ function buildJobFromFile(jobFile: JobFile, truncateContent: boolean): Job {
         break;
       }
 
+      case "approval": {
+        const by = event.decidedBy ? ` by ${event.decidedBy}` : "";
+        const reason = event.reason ? ` - ${event.reason}` : "";
+        steps.push({
+          ts: event.ts,
+          type: "system",
+          content: event.status === "pending"
+            ? `Waiting for approval to use ${event.tool} [${event.approvalId}] (${event.rule})`
+            : `Approval ${event.approvalId} for ${event.tool}: ${event.status}${by}${reason}`,
+        });
+        break;
+      }
+
       case "error":
         steps.push({
           ts: event.ts,
@@ -187,11 +186,13 @@ function buildJobFromFile(jobFile: JobFile, truncateContent: boolean): Job {
     startTime: jobFile.startTime,
     endTime: jobFile.endTime,
     channel: jobFile.channel,
+    profile: jobFile.profile,
     model: jobFile.model,
     cost: jobFile.cost,
     durationMs: jobFile.durationMs,
     steps,
     status: jobFile.status,
+    statusReason: jobFile.statusReason,
     triggerText: truncateContent ? truncate(jobFile.trigger, 100) : jobFile.trigger,
     fullPrompt: truncateContent ? undefined : jobFile.fullPrompt,
     toolCount: jobFile.toolCount,
@@ -202,63 +203,65 @@ router.get("/", async (req: Request, res: Response) => {
   const limitParam = req.query.limit as string | undefined;
   const offsetParam = req.query.offset as string | undefined;
   const jobIdParam = req.query.job_id as string | undefined;
+  const query = (req.query.q as string | undefined)?.trim().toLowerCase();
   const limit = limitParam ? parseInt(limitParam, 10) : 20;
   const offset = offsetParam ? parseInt(offsetParam, 10) : 0;
 
   try {
-    // Ensure jobs directory exists
-    try {
-      await fs.access(JOBS_DIR);
-    } catch {
-      res.json({ jobs: [], total: 0, hasMore: false });
-      return;
-    }
-
     // If requesting a specific job, return just that one with full details
     if (jobIdParam) {
-      const jobFile = await readJobFile(path.join(JOBS_DIR, `${jobIdParam}.json`));
-      if (!jobFile) {
+      const jobId = path.basename(jobIdParam);
+      const jobFile = jobStore.readSummary(jobId);
+      if (jobFile) {
+        const job = buildJobFromFile(jobFile, jobStore.readEvents(jobId), false); // full details
+        res.json({ job });
+        return;
+      }
+      const archivedJob = jobArchive.read(jobId);
+      if (!archivedJob) {
         res.status(404).json({ error: "Job not found" });
         return;
       }
-      const job = buildJobFromFile(jobFile, false); // full details
-      res.json({ job });
+      res.json({ job: { ...buildJobFromFile(archivedJob, archivedJob.events, false), archived: true } });
       return;
     }
 
-    // List all job files with their modification times
-    const files = await fs.readdir(JOBS_DIR);
-    const jsonFiles = files.filter(f => f.endsWith(".json"));
-
-    // Get file stats to sort by mtime (faster than reading/parsing each file)
-    const fileStats = await Promise.all(
-      jsonFiles.map(async (file) => {
-        const filePath = path.join(JOBS_DIR, file);
-        const stat = await fs.stat(filePath);
-        return { file, mtime: stat.mtime.getTime() };
-      })
-    );
-
-    // Sort by modification time descending (newest first)
-    fileStats.sort((a, b) => b.mtime - a.mtime);
+    // Job IDs start with their start time, so sorting IDs gives newest first.
+    // Archived entries carry their summary; live ones are read per page.
+    const liveIds = jobStore.listIds();
+    const live = new Set(liveIds);
+    let entries: Array<{ id: string; archived?: ArchivedJobSummary }> = [
+      ...liveIds.map(id => ({ id })),
+      ...jobArchive.list().filter(s => !live.has(s.id)).map(s => ({ id: s.id, archived: s })),
+    ];
+    entries.sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+
+    if (query) {
+      entries = entries.filter(entry => {
+        const summary = entry.archived || jobStore.readSummary(entry.id);
+        return summary !== null && matchesQuery(summary, query);
+      });
+    }
 
-    const total = fileStats.length;
+    const total = entries.length;
 
-    // Only read the files we need for this page
-    const pageFiles = fileStats.slice(offset, offset + limit);
+    // Only read the jobs we need for this page
+    const pageEntries = entries.slice(offset, offset + limit);
 
     const jobs: Job[] = [];
-    for (const { file } of pageFiles) {
-      const jobFile = await readJobFile(path.join(JOBS_DIR, file));
+    for (const entry of pageEntries) {
+      if (entry.archived) {
+        // The list doesn't show steps, so archived jobs aren't decompressed here
+        jobs.push({ ...buildJobFromFile(entry.archived, [], true), archived: true });
+        continue;
+      }
+      const jobFile = jobStore.readSummary(entry.id);
       if (jobFile) {
-        const job = buildJobFromFile(jobFile, true); // truncated for list
+        const job = buildJobFromFile(jobFile, jobStore.readEvents(entry.id), true); // truncated for list
         jobs.push(job);
       }
     }
 
-    // Sort jobs by startTime in case mtime differs from startTime
-    jobs.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
-
     res.json({
       jobs,
       total,
@@ -273,17 +276,17 @@ router.get("/", async (req: Request, res: Response) => {
 
 // Stop a job
 router.post("/:id/stop", async (req: Request, res: Response) => {
-  const jobId = req.params.id;
+  const jobId = req.params.id as string;
 
   try {
-    // Read the job file to get the PID
-    const jobPath = path.join(JOBS_DIR, `${jobId}.json`);
-
-    let jobFile: JobFile;
-    try {
-      const content = await fs.readFile(jobPath, "utf-8");
-      jobFile = JSON.parse(content);
-    } catch {
+    // Read the job summary to get the PID
+    const jobFile = jobStore.readSummary(path.basename(jobId));
+    if (!jobFile) {
+      const archived = jobArchive.readSummary(path.basename(jobId));
+      if (archived) {
+        res.status(400).json({ error: `Job is already ${archived.status} (archived)` });
+        return;
+      }
       res.status(404).json({ error: "Job not found" });
       return;
     }
@@ -294,21 +297,40 @@ router.post("/:id/stop", async (req: Request, res: Response) => {
       return;
     }
 
+    // Jobs the watcher runs are stopped through it, so it finalizes the job
+    // and releases its slot and session lock
+    if (jobFile.channel !== "dashboard-fix") {
+      try {
+        const result = await watcherControl.stopJob(jobFile.id);
+        if (result.success) {
+          res.json({ success: true, message: `Job ${jobId} stopped` });
+          return;
+        }
+      } catch (err) {
+        if (!(err instanceof WatcherUnavailableError)) throw err;
+        // No watcher - nothing is tracking the job, so fall back to its PID
+      }
+    }
+
     // Try to kill by PID
     if (!jobFile.pid) {
       res.status(400).json({ error: "Job has no PID recorded" });
       return;
     }
 
+    // The job may have died with the watcher and its PID been reused since -
+    // only signal it if it's still an agent process
+    if (!createAgentRunner().ownsProcess(jobFile.pid, jobFile.pidStartTime)) {
+      jobStore.finalize(jobFile.id, "orphaned", { reason: "Process was gone when the job was stopped" });
+      res.status(400).json({ error: "Process not found (marked as orphaned)" });
+      return;
+    }
+
     try {
       process.kill(jobFile.pid, "SIGTERM");
 
-      // Update job file to stopped status
-      const fullJobContent = await fs.readFile(jobPath, "utf-8");
-      const fullJob = JSON.parse(fullJobContent);
-      fullJob.status = "stopped";
-      fullJob.endTime = new Date().toISOString();
-      await fs.writeFile(jobPath, JSON.stringify(fullJob, null, 2));
+      // Update job summary to stopped status
+      jobStore.finalize(jobFile.id, "stopped");
 
       res.json({ success: true, message: `Job ${jobId} stopped` });
     } catch (killError: any) {
@@ -1,11 +1,11 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
 import path from "path";
-import { getProjectRoot } from "../utils.js";
+import { getPhouseConfig } from "phouse-core/config";
 
 const router = Router();
 
-const LOGS_DIR = path.join(getProjectRoot(), "logs");
+const LOGS_DIR = getPhouseConfig().paths.logsDir;
 
 interface LogFile {
   name: string;
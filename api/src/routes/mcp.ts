@@ -1,14 +1,11 @@
 import { Router, Request, Response } from "express";
 import { execSync } from "child_process";
 import fs from "fs";
-import path from "path";
+import { getPhouseConfig } from "phouse-core/config";
 
 const router = Router();
 
-const DISABLED_SERVERS_FILE = path.join(
-  process.env.HOME || "/home/ubuntu",
-  ".claude-disabled-mcp.json"
-);
+const { mcpRoot: MCP_ROOT, paths: { claudeConfigFile: CLAUDE_CONFIG_FILE, disabledMcpServersFile: DISABLED_SERVERS_FILE } } = getPhouseConfig();
 
 interface McpServerConfig {
   type: string;
@@ -103,11 +100,7 @@ function parseMcpList(): McpServer[] {
 function getServerConfig(name: string): McpServerConfig | null {
   try {
     // Read from ~/.claude.json
-    const claudeConfigPath = path.join(
-      process.env.HOME || "/home/ubuntu",
-      ".claude.json"
-    );
-    const config = JSON.parse(fs.readFileSync(claudeConfigPath, "utf-8"));
+    const config = JSON.parse(fs.readFileSync(CLAUDE_CONFIG_FILE, "utf-8"));
     return config.mcpServers?.[name] || null;
   } catch {
     return null;
@@ -178,12 +171,10 @@ router.post("/", async (req: Request, res: Response) => {
 
     if (action === "restart") {
       // Rebuild pHouseMcp and restart the systemd service
-      const mcpDir = path.join(process.env.HOME || "/home/ubuntu", "pHouseMcp");
-
       try {
         // Step 1: Build
         execSync("npm run build", {
-          cwd: mcpDir,
+          cwd: MCP_ROOT,
           encoding: "utf-8",
           timeout: 120000, // 2 minutes for build
         });
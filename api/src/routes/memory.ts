@@ -1,14 +1,16 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
 import path from "path";
-import { getProjectRoot } from "../utils.js";
+import { getRequestProfile } from "../utils.js";
 
 const router = Router();
 
+// The watcher keeps memory in the assistant directory of each profile
+
 // List all long-term memory files
-router.get("/files", async (_req: Request, res: Response) => {
+router.get("/files", async (req: Request, res: Response) => {
   try {
-    const memoryDir = path.join(getProjectRoot(), "memory", "long-term");
+    const memoryDir = getRequestProfile(req).paths.longTermDir;
     const files = await fs.readdir(memoryDir);
 
     const fileList = await Promise.all(
@@ -35,9 +37,9 @@ router.get("/files", async (_req: Request, res: Response) => {
 });
 
 // Get short-term memory status
-router.get("/short-term", async (_req: Request, res: Response) => {
+router.get("/short-term", async (req: Request, res: Response) => {
   try {
-    const bufferPath = path.join(getProjectRoot(), "memory", "short-term", "buffer.txt");
+    const bufferPath = path.join(getRequestProfile(req).paths.shortTermDir, "buffer.txt");
     const stats = await fs.stat(bufferPath);
     const content = await fs.readFile(bufferPath, "utf-8");
 
@@ -60,7 +62,13 @@ router.get("/", async (req: Request, res: Response) => {
   }
 
   // Security: ensure path is within memory directory
-  const memoryDir = path.join(getProjectRoot(), "memory");
+  let memoryDir: string;
+  try {
+    memoryDir = getRequestProfile(req).paths.memoryDir;
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load profiles", details: String(err) });
+    return;
+  }
   const resolvedPath = path.resolve(memoryDir, filePath);
 
   if (!resolvedPath.startsWith(memoryDir)) {
@@ -14,6 +14,8 @@ const ALL_NAV_ITEMS = [
   { href: "/", label: "Home", icon: "home" },
   { href: "/chat", label: "Chat", icon: "chat" },
   { href: "/jobs", label: "Jobs", icon: "briefcase" },
+  { href: "/budget", label: "Budget", icon: "currency" },
+  { href: "/approvals", label: "Approvals", icon: "shield" },
   { href: "/memory", label: "Memory", icon: "brain" },
   { href: "/system", label: "System", icon: "book" },
   { href: "/skills", label: "Skills", icon: "bolt" },
@@ -117,6 +119,13 @@ router.get("/config", async (_req: Request, res: Response) => {
       .map(href => ALL_NAV_ITEMS.find(i => i.href === href))
       .filter(Boolean);
 
+    // Pages added since the config was last saved go under "More" until the next analysis
+    for (const item of ALL_NAV_ITEMS) {
+      if (!config.primary.includes(item.href) && !config.secondary.includes(item.href)) {
+        secondaryItems.push(item);
+      }
+    }
+
     res.json({
       primary: primaryItems,
       secondary: secondaryItems,
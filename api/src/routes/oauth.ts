@@ -1,16 +1,14 @@
 import { Router, Request, Response } from "express";
 import fs from "fs/promises";
 import path from "path";
+import { getPhouseConfig } from "phouse-core/config";
 import { getProjectRoot, parseEnvFile } from "../utils.js";
 
 const router = Router();
 
 const PROJECT_ROOT = getProjectRoot();
-const MCP_ROOT = path.resolve(PROJECT_ROOT, "../pHouseMcp");
-const MCP_ENV_FILE = path.join(MCP_ROOT, ".env");
+const { mcpEnvFile: MCP_ENV_FILE, googleTokenFile: GOOGLE_TOKEN_FILE, googleCredentialsFile: GOOGLE_CREDENTIALS_FILE } = getPhouseConfig().paths;
 const API_ENV_FILE = path.join(PROJECT_ROOT, "api/.env.local");
-const GOOGLE_TOKEN_FILE = path.join(MCP_ROOT, "credentials/tokens.json");
-const GOOGLE_CREDENTIALS_FILE = path.join(MCP_ROOT, "credentials/client_secret.json");
 
 // Google OAuth scopes - kitchen sink edition
 const SCOPES = [
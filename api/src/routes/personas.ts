@@ -0,0 +1,77 @@
+import { Router, Request, Response } from "express";
+import { PersonaStore, isValidPersonaName } from "phouse-core/personas";
+import { getRequestProfile } from "../utils.js";
+
+const router = Router();
+
+// Same directory the watcher reads overlays from, in the selected profile
+function getPersonaStore(req: Request): PersonaStore {
+  return new PersonaStore(getRequestProfile(req).paths.personasDir);
+}
+
+// GET /api/personas - All overlays (channel names and session keys)
+router.get("/", (req: Request, res: Response) => {
+  try {
+    res.json({ personas: getPersonaStore(req).list() });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list personas", details: String(error) });
+  }
+});
+
+// GET /api/personas/:name - Overlay content
+router.get("/:name", (req: Request, res: Response) => {
+  const name = req.params.name as string;
+  if (!isValidPersonaName(name)) {
+    res.status(400).json({ error: "Invalid persona name" });
+    return;
+  }
+
+  const content = getPersonaStore(req).read(name);
+  if (content === null) {
+    res.status(404).json({ error: "Persona not found" });
+    return;
+  }
+  res.json({ name, content });
+});
+
+// PUT /api/personas/:name - Create or replace an overlay
+router.put("/:name", (req: Request, res: Response) => {
+  const name = req.params.name as string;
+  const { content } = req.body || {};
+  if (!isValidPersonaName(name)) {
+    res.status(400).json({ error: "Invalid persona name" });
+    return;
+  }
+  if (typeof content !== "string") {
+    res.status(400).json({ error: "content must be a string" });
+    return;
+  }
+
+  try {
+    getPersonaStore(req).write(name, content);
+    res.json({ success: true, message: `personas/${name}.md saved. Applies from the next message.` });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save persona", details: String(error) });
+  }
+});
+
+// DELETE /api/personas/:name
+router.delete("/:name", (req: Request, res: Response) => {
+  const name = req.params.name as string;
+  if (!isValidPersonaName(name)) {
+    res.status(400).json({ error: "Invalid persona name" });
+    return;
+  }
+
+  try {
+    if (!getPersonaStore(req).remove(name)) {
+      res.status(404).json({ error: "Persona not found" });
+      return;
+    }
+    res.json({ success: true, message: `personas/${name}.md deleted` });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete persona", details: String(error) });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { exec, execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import { getPhouseConfig } from "phouse-core/config";
 
 const router = Router();
 
@@ -214,8 +215,8 @@ router.get("/:name/logs", (req: Request, res: Response) => {
   // MCP gateway logs are in a file
   if (name === "mcp-gateway") {
     try {
-      const logFile = "/home/ubuntu/pHouseMcp/logs/gateway.log";
-      const output = execSync(`tail -n ${lines} ${logFile} 2>&1`, {
+      const logFile = getPhouseConfig().paths.mcpGatewayLogFile;
+      const output = execSync(`tail -n ${lines} "${logFile}" 2>&1`, {
         encoding: "utf-8",
         timeout: 5000,
       });
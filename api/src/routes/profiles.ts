@@ -0,0 +1,73 @@
+import { Router, Request, Response } from "express";
+import fs from "fs";
+import {
+  loadProfilesConfig,
+  getImplicitProfilesConfig,
+  validateProfilesConfig,
+  getProfilesConfigPath,
+  type ProfilesConfig,
+} from "phouse-core/profiles";
+import { WatcherControlClient, getControlSocketPath } from "phouse-core/control";
+import { getAssistantRoot, writeJsonFile } from "../utils.js";
+
+const router = Router();
+
+const PROFILES_CONFIG_FILE = getProfilesConfigPath(getAssistantRoot());
+const watcherControl = new WatcherControlClient(getControlSocketPath());
+
+// GET /api/profiles - Profiles, routing rules, and whether profiles.json exists yet.
+// A broken profiles.json comes back as an error next to the implicit profile, so it
+// can be fixed here - the watcher keeps the profiles it has until then.
+router.get("/", (_req: Request, res: Response) => {
+  try {
+    let config: ProfilesConfig;
+    let error: string | undefined;
+    try {
+      config = loadProfilesConfig(getAssistantRoot());
+    } catch (err) {
+      config = getImplicitProfilesConfig(getAssistantRoot());
+      error = err instanceof Error ? err.message : String(err);
+    }
+    const profiles = Object.entries(config.profiles).map(([name, profile]) => ({
+      name,
+      label: profile.label || name,
+      root: profile.root,
+      exists: fs.existsSync(profile.root),
+    }));
+    res.json({ config, profiles, configured: fs.existsSync(PROFILES_CONFIG_FILE), error });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load profiles", details: String(err) });
+  }
+});
+
+// PUT /api/profiles - Save profiles.json and ask the watcher to reload it
+router.put("/", async (req: Request, res: Response) => {
+  const body = req.body as Partial<ProfilesConfig>;
+  const config: ProfilesConfig = {
+    defaultProfile: body.defaultProfile || "",
+    profiles: body.profiles || {},
+    routes: Array.isArray(body.routes) ? body.routes : [],
+  };
+  const errors = validateProfilesConfig(config);
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors[0], details: errors });
+    return;
+  }
+
+  try {
+    await writeJsonFile(PROFILES_CONFIG_FILE, config);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to save profiles", details: String(err) });
+    return;
+  }
+
+  // Routing applies once the watcher reloads - restarting it works too
+  try {
+    await watcherControl.reload();
+    res.json({ success: true, message: "Profiles saved and applied" });
+  } catch {
+    res.json({ success: true, message: "Profiles saved. Reload or restart the watcher to apply." });
+  }
+});
+
+export default router;
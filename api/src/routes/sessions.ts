@@ -15,6 +15,7 @@ interface SessionData {
   queueModes: Record<string, string>;
   transcriptLines: Record<string, number>;
   responseStyles: Record<string, string>;
+  models: Record<string, string>;
 }
 
 async function loadSessionData(): Promise<SessionData> {
@@ -22,7 +23,7 @@ async function loadSessionData(): Promise<SessionData> {
     const content = await fs.readFile(SESSIONS_FILE, "utf-8");
     const data = JSON.parse(content);
     if (Array.isArray(data)) {
-      return { known: data, generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {} };
+      return { known: data, generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {}, models: {} };
     }
     return {
       ...data,
@@ -30,9 +31,10 @@ async function loadSessionData(): Promise<SessionData> {
       queueModes: data.queueModes || {},
       transcriptLines: data.transcriptLines || {},
       responseStyles: data.responseStyles || {},
+      models: data.models || {},
     };
   } catch {
-    return { known: [], generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {} };
+    return { known: [], generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {}, models: {} };
   }
 }
 
@@ -48,6 +50,7 @@ router.get("/", async (_req: Request, res: Response) => {
       queueModes: data.queueModes,
       transcriptLines: data.transcriptLines,
       responseStyles: data.responseStyles,
+      models: data.models,
     });
   } catch (error) {
     res.status(500).json({ error: String(error) });
@@ -72,7 +75,7 @@ router.post("/", async (req: Request, res: Response) => {
       }
 
       case "queueMode": {
-        if (value === "queue" || value === "interrupt") {
+        if (value === "queue" || value === "interrupt" || value === "steer") {
           data.queueModes[channel] = value;
           await saveSessionData(data);
           res.json({ success: true, message: `Queue mode set to ${value} for ${channel}` });
@@ -95,7 +98,7 @@ router.post("/", async (req: Request, res: Response) => {
       }
 
       case "responseStyle": {
-        if (value === "streaming" || value === "bundled" || value === "final") {
+        if (value === "streaming" || value === "bundled" || value === "final" || value === "live") {
           data.responseStyles[channel] = value;
           await saveSessionData(data);
           res.json({ success: true, message: `Response style set to ${value} for ${channel}` });
@@ -105,6 +108,24 @@ router.post("/", async (req: Request, res: Response) => {
         return;
       }
 
+      case "model": {
+        // Empty value clears the override so the CLI default is used
+        if (value === "" || value === null || value === undefined) {
+          delete data.models[channel];
+          await saveSessionData(data);
+          res.json({ success: true, message: `Model reset to default for ${channel}` });
+          return;
+        }
+        if (typeof value === "string" && /^[\w.:\[\]-]+$/.test(value)) {
+          data.models[channel] = value;
+          await saveSessionData(data);
+          res.json({ success: true, message: `Model set to ${value} for ${channel}` });
+          return;
+        }
+        res.status(400).json({ error: "Invalid model name" });
+        return;
+      }
+
       default:
         res.status(400).json({ error: "Unknown setting type" });
     }
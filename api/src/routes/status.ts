@@ -2,18 +2,25 @@ import { Router, Request, Response } from "express";
 import { execSync } from "child_process";
 import fs from "fs";
 import path from "path";
+import { WatcherControlClient, getControlSocketPath, type WatcherState } from "phouse-core/control";
+import { getPhouseConfig } from "phouse-core/config";
 import { getProjectRoot } from "../utils.js";
 
 const router = Router();
 
 const PROJECT_ROOT = getProjectRoot();
 const PID_FILE = path.join(PROJECT_ROOT, "watcher.pid");
+const watcherControl = new WatcherControlClient(getControlSocketPath());
 
 interface ProcessStatus {
   running: boolean;
   pid?: number;
 }
 
+interface WatcherStatus extends ProcessStatus {
+  state?: WatcherState;  // Live state from the control socket
+}
+
 interface McpStatus {
   total: number;
   healthy: number;
@@ -47,6 +54,16 @@ function checkWatcherByPidFile(): ProcessStatus {
   }
 }
 
+// Ask the watcher itself; fall back to the PID file if its socket doesn't answer
+async function checkWatcher(): Promise<WatcherStatus> {
+  try {
+    const state = await watcherControl.getState();
+    return { running: true, pid: state.pid, state };
+  } catch {
+    return checkWatcherByPidFile();
+  }
+}
+
 function checkPort(port: number): ProcessStatus {
   try {
     const output = execSync(`fuser ${port}/tcp 2>/dev/null || true`, {
@@ -76,8 +93,7 @@ function getMcpStatus(): McpStatus {
     const health = JSON.parse(output);
     if (health.status === "ok") {
       // Gateway is healthy - count servers from Claude config
-      const claudeConfigPath = path.join(process.env.HOME || "/home/ubuntu", ".claude.json");
-      const config = JSON.parse(fs.readFileSync(claudeConfigPath, "utf-8"));
+      const config = JSON.parse(fs.readFileSync(getPhouseConfig().paths.claudeConfigFile, "utf-8"));
       const mcpServers = config.mcpServers || {};
       // Count HTTP servers pointing to gateway (exclude stdio like playwright)
       const gatewayServers = Object.values(mcpServers).filter(
@@ -91,9 +107,8 @@ function getMcpStatus(): McpStatus {
   }
 }
 
-router.get("/", (_req: Request, res: Response) => {
-  // Use PID file for watcher (more reliable than pgrep pattern matching)
-  const watcher = checkWatcherByPidFile();
+router.get("/", async (_req: Request, res: Response) => {
+  const watcher = await checkWatcher();
   const dashboard = checkPort(3100); // API server port
   const mcp = getMcpStatus();
 
@@ -0,0 +1,41 @@
+import { Router, Request, Response } from "express";
+import { getPhouseConfig } from "phouse-core/config";
+import { readJsonFile } from "../utils.js";
+
+const router = Router();
+
+// Written by the watcher's Telegram channel for every message it gets, allowed or not
+const SEEN_CHATS_FILE = getPhouseConfig().paths.telegramSeenChatsFile;
+
+interface SeenChat {
+  id: string;
+  type: string;
+  title: string;
+  lastSeen: string;
+}
+
+interface SeenUser {
+  id: string;
+  name: string;
+  username?: string;
+  lastSeen: string;
+}
+
+// The Bot API can't list a bot's chats (and getUpdates would steal the
+// watcher's messages), so the picker offers whoever has written to the bot
+router.get("/chats", async (_req: Request, res: Response) => {
+  try {
+    const seen = (await readJsonFile(SEEN_CHATS_FILE)) as { chats?: Record<string, SeenChat>; users?: Record<string, SeenUser> } | null;
+    const newestFirst = (a: { lastSeen: string }, b: { lastSeen: string }) => b.lastSeen.localeCompare(a.lastSeen);
+    res.json({
+      chats: Object.values(seen?.chats || {}).sort(newestFirst),
+      users: Object.values(seen?.users || {}).sort(newestFirst),
+    });
+  } catch (error: unknown) {
+    console.error("Error reading Telegram chats:", error);
+    const message = error instanceof Error ? error.message : "Failed to read Telegram chats";
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,105 +1,45 @@
 import { Router, Request, Response } from "express";
-import { spawn } from "child_process";
-import fs from "fs/promises";
-import * as syncFs from "fs";
 import path from "path";
-import { randomUUID } from "crypto";
+import { createAgentRunner, getProcessStartTime } from "phouse-core/runner";
+import { JobStore, generateJobId, type JobRecord } from "phouse-core/job-store";
+import { getPhouseConfig } from "phouse-core/config";
 import { getProjectRoot } from "../utils.js";
 
 const router = Router();
 
-const JOBS_DIR = path.join(getProjectRoot(), "logs", "jobs");
-
-interface JobData {
-  id: string;
-  startTime: string;
-  endTime?: string;
-  channel: string;
-  trigger: string;
-  fullPrompt?: string;
-  status: "running" | "completed" | "error" | "stopped";
-  pid?: number;
-  model?: string;
-  cost?: number;
-  durationMs?: number;
-  toolCount: number;
-  events: any[];
-}
-
-function generateJobId(): string {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[:.]/g, "-");
-  const uuid = randomUUID().slice(0, 8);
-  return `${timestamp}-${uuid}`;
-}
-
-function getJobFilePath(jobId: string): string {
-  return path.join(JOBS_DIR, `${jobId}.json`);
-}
-
-function createJobFile(jobId: string, channel: string, trigger: string, pid?: number, fullPrompt?: string): void {
-  const jobData: JobData = {
-    id: jobId,
-    startTime: new Date().toISOString(),
-    channel,
-    trigger,
-    fullPrompt,
-    status: "running",
-    pid,
-    toolCount: 0,
-    events: [],
-  };
-  syncFs.writeFileSync(getJobFilePath(jobId), JSON.stringify(jobData, null, 2));
-}
+// Fix jobs are written in the same format as the watcher's jobs
+const jobStore = new JobStore(getPhouseConfig().paths.jobsDir);
 
 function appendJobEvent(jobId: string, event: any): void {
-  const filePath = getJobFilePath(jobId);
   try {
-    const jobData: JobData = JSON.parse(syncFs.readFileSync(filePath, "utf-8"));
-    const eventWithTs = { ts: new Date().toISOString(), ...event };
-    jobData.events.push(eventWithTs);
-
-    // Count tool uses
-    if (event.type === "assistant" && event.message?.content) {
-      const toolUses = event.message.content.filter((c: any) => c.type === "tool_use");
-      jobData.toolCount += toolUses.length;
-    }
-
-    // Capture model from init
-    if (event.type === "system" && event.subtype === "init" && event.model) {
-      jobData.model = event.model;
-    }
-
-    syncFs.writeFileSync(filePath, JSON.stringify(jobData, null, 2));
+    jobStore.appendEvent(jobId, event);
   } catch (err) {
     console.error(`[Fix] Error appending event to ${jobId}: ${err}`);
   }
 }
 
-function finalizeJob(jobId: string, status: "completed" | "error" | "stopped", cost?: number, durationMs?: number): void {
-  const filePath = getJobFilePath(jobId);
+function finalizeJob(jobId: string, status: "completed" | "error" | "stopped", durationMs?: number): void {
   try {
-    const jobData: JobData = JSON.parse(syncFs.readFileSync(filePath, "utf-8"));
-    jobData.status = status;
-    jobData.endTime = new Date().toISOString();
-    if (cost !== undefined) jobData.cost = cost;
-    if (durationMs !== undefined) jobData.durationMs = durationMs;
-    syncFs.writeFileSync(filePath, JSON.stringify(jobData, null, 2));
+    jobStore.finalize(jobId, status, { durationMs });
   } catch (err) {
     console.error(`[Fix] Error finalizing ${jobId}: ${err}`);
   }
 }
 
-const FIX_PROMPT = `The watcher service is having trouble starting. Your job is to diagnose and fix the issue.
+// Paths come from the shared config, so the prompt matches this installation
+function getFixPrompt(): string {
+  const { projectRoot, paths } = getPhouseConfig();
+  const coreDir = path.join(projectRoot, "core");
+  return `The watcher service is having trouble starting. Your job is to diagnose and fix the issue.
 
 ## Context
 - The watcher is the main orchestration service that handles incoming messages from various channels (Telegram, Gmail, Google Chat, etc.)
-- It runs from: /home/ubuntu/pHouseClawd/core/src/watcher.ts
+- It runs from: ${path.join(coreDir, "src", "watcher.ts")}
 - Started via: tsx core/src/watcher.ts
 - The dashboard is calling you because the user clicked "Emergency Fix" - meaning the watcher won't start
 
 ## Diagnostic Steps
-1. First, check what's in the watcher logs: /home/ubuntu/pHouseClawd/logs/watcher.log (tail the last 100 lines)
+1. First, check what's in the watcher logs: ${paths.watcherLogFile} (tail the last 100 lines)
 2. Check if any processes are already running that might conflict: pgrep -f "tsx.*watcher"
 3. Look for common issues:
    - Missing npm dependencies (npm install not run in core/)
@@ -109,13 +49,13 @@ const FIX_PROMPT = `The watcher service is having trouble starting. Your job is
    - MCP server startup failures
 
 ## Common Fixes
-- If missing dependencies: cd /home/ubuntu/pHouseClawd/core && npm install
+- If missing dependencies: cd ${coreDir} && npm install
 - If TypeScript errors: Check the specific file mentioned and fix the issue
 - If environment issues: Check .env files exist and have required values
 - If port conflicts: Kill the conflicting process
 
 ## After Fixing
-1. Try to start the watcher: cd /home/ubuntu/pHouseClawd && ./watcher-restart.sh
+1. Try to start the watcher: pm2 restart watcher (or, if pm2 doesn't know it: cd ${projectRoot} && pm2 start "npx tsx core/src/watcher.ts" --name watcher)
 2. Wait 5 seconds, then check if it's running: pgrep -f "tsx.*watcher"
 3. Check the logs again to confirm it started successfully
 
@@ -126,74 +66,64 @@ Provide a clear summary of:
 3. Whether the watcher is now running
 
 Be concise but thorough. This output will be shown to the user in the dashboard.`;
+}
 
 router.post("/", async (_req: Request, res: Response) => {
   const projectRoot = getProjectRoot();
   const startTime = Date.now();
 
   try {
-    // Ensure jobs directory exists
-    await fs.mkdir(JOBS_DIR, { recursive: true });
-
-    // Generate job ID and create job file (same format as watcher)
     const jobId = generateJobId();
+    const prompt = getFixPrompt();
 
-    // Spawn Claude Code in print mode with JSON output
-    const proc = spawn("claude", [
-      "-p", // print mode (non-interactive)
-      "--verbose",
-      "--output-format", "stream-json",
-      "--dangerously-skip-permissions",
-      "--model", "sonnet",
-      FIX_PROMPT,
-    ], {
+    // Start the agent (Claude Code in print mode unless PHOUSE_AGENT_RUNNER says otherwise)
+    const proc = createAgentRunner().start({
+      prompt,
       cwd: projectRoot,
-      env: { ...process.env, FORCE_COLOR: "0" },
-      stdio: ["ignore", "pipe", "pipe"],
+      model: "sonnet",
     });
 
     // Create job file after we have the PID
-    createJobFile(jobId, "dashboard-fix", "Emergency watcher fix triggered via dashboard", proc.pid, FIX_PROMPT);
+    jobStore.create({
+      id: jobId,
+      startTime: new Date().toISOString(),
+      channel: "dashboard-fix",
+      trigger: "Emergency watcher fix triggered via dashboard",
+      fullPrompt: prompt,
+      pid: proc.pid,
+      pidStartTime: proc.pid !== undefined ? getProcessStartTime(proc.pid) ?? undefined : undefined,
+    });
 
     let finalOutput = "";
-    let lineBuffer = "";
-
-    proc.stdout?.on("data", (data) => {
-      lineBuffer += data.toString();
-      const lines = lineBuffer.split("\n");
-      lineBuffer = lines.pop() || "";
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const event = JSON.parse(line);
-          appendJobEvent(jobId, event);
+    proc.on("event", (event) => {
+      appendJobEvent(jobId, event);
 
-          // Extract text output for response
-          if (event.type === "assistant" && event.message?.content) {
-            for (const block of event.message.content) {
-              if (block.type === "text") {
-                finalOutput += block.text;
-              }
-            }
+      // Extract text output for response
+      if (event.type === "assistant" && event.message?.content) {
+        for (const block of event.message.content) {
+          if (block.type === "text") {
+            finalOutput += block.text;
           }
-        } catch {
-          // Not JSON, just append as text
-          finalOutput += line + "\n";
         }
       }
     });
 
-    proc.stderr?.on("data", (data) => {
+    proc.on("output", (line) => {
+      // Not JSON, just append as text
+      finalOutput += line + "\n";
+    });
+
+    proc.on("stderr", (chunk) => {
       // Log stderr but don't fail
-      console.error(`[Fix] stderr: ${data.toString()}`);
+      console.error(`[Fix] stderr: ${chunk}`);
     });
 
     // Wait for completion with timeout
     const result = await new Promise<{ success: boolean; output: string; error?: string }>((resolve) => {
       const timeout = setTimeout(() => {
         proc.kill();
-        finalizeJob(jobId, "stopped", undefined, Date.now() - startTime);
+        finalizeJob(jobId, "stopped", Date.now() - startTime);
         resolve({
           success: false,
           output: finalOutput,
@@ -205,7 +135,7 @@ router.post("/", async (_req: Request, res: Response) => {
         clearTimeout(timeout);
         const durationMs = Date.now() - startTime;
         const status = code === 0 ? "completed" : "error";
-        finalizeJob(jobId, status, undefined, durationMs);
+        finalizeJob(jobId, status, durationMs);
         resolve({
           success: code === 0,
           output: finalOutput,
@@ -215,11 +145,11 @@ router.post("/", async (_req: Request, res: Response) => {
 
       proc.on("error", (err) => {
         clearTimeout(timeout);
-        finalizeJob(jobId, "error", undefined, Date.now() - startTime);
+        finalizeJob(jobId, "error", Date.now() - startTime);
         resolve({
           success: false,
           output: finalOutput,
-          error: `Failed to spawn Claude: ${err.message}`
+          error: `Failed to start agent: ${err.message}`
         });
       });
     });
@@ -244,24 +174,13 @@ router.post("/", async (_req: Request, res: Response) => {
 // GET endpoint to check the status of the last fix attempt
 router.get("/", async (_req: Request, res: Response) => {
   try {
-    const files = await fs.readdir(JOBS_DIR);
-    const fixJobs = files
-      .filter(f => f.endsWith(".json"))
-      .map(f => ({ name: f, path: path.join(JOBS_DIR, f) }));
-
-    // Find most recent fix job
-    let latestFixJob: JobData | null = null;
-    for (const { path: filePath } of fixJobs) {
-      try {
-        const content = await fs.readFile(filePath, "utf-8");
-        const job: JobData = JSON.parse(content);
-        if (job.channel === "dashboard-fix") {
-          if (!latestFixJob || new Date(job.startTime) > new Date(latestFixJob.startTime)) {
-            latestFixJob = job;
-          }
-        }
-      } catch {
-        continue;
+    // Find most recent fix job (IDs are listed newest first)
+    let latestFixJob: JobRecord | null = null;
+    for (const jobId of jobStore.listIds()) {
+      const summary = jobStore.readSummary(jobId);
+      if (summary?.channel === "dashboard-fix") {
+        latestFixJob = jobStore.read(jobId);
+        break;
       }
     }
 
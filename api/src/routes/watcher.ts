@@ -0,0 +1,49 @@
+import { Router, Request, Response } from "express";
+import { WatcherControlClient, WatcherUnavailableError, getControlSocketPath } from "phouse-core/control";
+
+const router = Router();
+
+const watcherControl = new WatcherControlClient(getControlSocketPath());
+
+function sendControlError(res: Response, err: unknown): void {
+  if (err instanceof WatcherUnavailableError) {
+    res.status(503).json({ error: err.message });
+    return;
+  }
+  res.status(500).json({ error: "Watcher control failed", details: String(err) });
+}
+
+// GET /api/watcher/state - Running jobs, session queues, global queue and cron tasks
+router.get("/state", async (_req: Request, res: Response) => {
+  try {
+    res.json(await watcherControl.getState());
+  } catch (err) {
+    sendControlError(res, err);
+  }
+});
+
+// POST /api/watcher/clear-queue - Drop queued messages for one session, or all of them
+router.post("/clear-queue", async (req: Request, res: Response) => {
+  const { lockKey } = req.body || {};
+  if (lockKey !== undefined && typeof lockKey !== "string") {
+    res.status(400).json({ error: "lockKey must be a string" });
+    return;
+  }
+
+  try {
+    res.json(await watcherControl.clearQueue(lockKey));
+  } catch (err) {
+    sendControlError(res, err);
+  }
+});
+
+// POST /api/watcher/reload - Re-read cron, scheduler and memory config without a restart
+router.post("/reload", async (_req: Request, res: Response) => {
+  try {
+    res.json(await watcherControl.reload());
+  } catch (err) {
+    sendControlError(res, err);
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from "express";
+import {
+  WebhookDispatcher,
+  WEBHOOK_EVENTS,
+  loadWebhooksConfig,
+  validateWebhooksConfig,
+  type WebhooksConfig,
+} from "phouse-core/webhooks";
+import { WatcherControlClient, WatcherUnavailableError, getControlSocketPath } from "phouse-core/control";
+import { getPhouseConfig } from "phouse-core/config";
+import { writeJsonFile } from "../utils.js";
+
+const router = Router();
+
+const { webhooksConfig: WEBHOOKS_CONFIG_FILE, webhookDeliveriesDir: DELIVERIES_DIR } = getPhouseConfig().paths;
+// Only reads the delivery log - the watcher sends everything, replays included
+const dispatcher = new WebhookDispatcher(WEBHOOKS_CONFIG_FILE, DELIVERIES_DIR);
+const watcherControl = new WatcherControlClient(getControlSocketPath());
+
+const DEFAULT_DELIVERY_LIMIT = 100;
+
+// GET /api/webhooks - Endpoints, known event types and recent deliveries
+router.get("/", (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || DEFAULT_DELIVERY_LIMIT;
+    res.json({
+      config: loadWebhooksConfig(WEBHOOKS_CONFIG_FILE),
+      events: WEBHOOK_EVENTS,
+      deliveries: dispatcher.list(limit),
+    });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load webhooks", details: String(err) });
+  }
+});
+
+// PUT /api/webhooks - Save endpoints (the watcher reads the file on every event)
+router.put("/", async (req: Request, res: Response) => {
+  const body = req.body as Partial<WebhooksConfig>;
+  const config: WebhooksConfig = {
+    endpoints: Array.isArray(body.endpoints) ? body.endpoints : [],
+    ...(body.maxAttempts !== undefined ? { maxAttempts: body.maxAttempts } : {}),
+  };
+  const errors = validateWebhooksConfig(config);
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors[0], details: errors });
+    return;
+  }
+
+  try {
+    await writeJsonFile(WEBHOOKS_CONFIG_FILE, config);
+    res.json({ success: true, message: "Webhooks saved" });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to save webhooks", details: String(err) });
+  }
+});
+
+// POST /api/webhooks/deliveries/:id/replay - Send a delivery again with its original body
+router.post("/deliveries/:id/replay", async (req: Request, res: Response) => {
+  try {
+    const result = await watcherControl.replayWebhookDelivery(req.params.id as string);
+    if (!result.success) {
+      res.status(400).json({ error: result.error || "Delivery can't be replayed" });
+      return;
+    }
+    res.json(result);
+  } catch (err) {
+    if (err instanceof WatcherUnavailableError) {
+      res.status(503).json({ error: err.message });
+      return;
+    }
+    res.status(500).json({ error: "Failed to replay delivery", details: String(err) });
+  }
+});
+
+export default router;
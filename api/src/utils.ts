@@ -1,9 +1,11 @@
 import path from "path";
 import fs from "fs/promises";
+import type { Request, Response, NextFunction } from "express";
+import { loadProfilesConfig, getProfilePaths, type ProfilePaths } from "phouse-core/profiles";
+import { getPhouseConfig } from "phouse-core/config";
 
-// Timezone configuration via environment variable
-// Default: America/Toronto (EST/EDT)
-const TIMEZONE = process.env.PHOUSE_TIMEZONE || "America/Toronto";
+// Timezone from the shared config (PHOUSE_TIMEZONE, default America/Toronto)
+const TIMEZONE = getPhouseConfig().timezone;
 
 // Map common timezone identifiers to their abbreviations
 function getTimezoneAbbreviation(timezone: string): string {
@@ -49,14 +51,52 @@ export function getLocalTimestamp(): string {
  * Get the project root path (pHouseClawd - infra code)
  */
 export function getProjectRoot(): string {
-  return process.env.PHOUSE_PROJECT_ROOT || path.resolve(process.cwd(), "..");
+  return getPhouseConfig().projectRoot;
 }
 
 /**
  * Get the assistant root path (where Claude runs, memory lives)
  */
 export function getAssistantRoot(): string {
-  return process.env.PHOUSE_ASSISTANT_ROOT || "/home/ubuntu/assistant";
+  return getPhouseConfig().assistantRoot;
+}
+
+/**
+ * The assistant profile a dashboard request is about (see core/src/profiles.ts).
+ * The dashboard's profile switcher sends it in the X-Assistant-Profile header;
+ * without one it's the default profile. Throws if profiles.json is broken or
+ * the profile isn't defined (renamed or deleted) rather than guessing which
+ * directory is meant.
+ */
+export function getRequestProfile(req: Request): { name: string; paths: ProfilePaths } {
+  const config = loadProfilesConfig(getAssistantRoot());
+  const requested = req.get("X-Assistant-Profile");
+  if (requested && !config.profiles[requested]) {
+    throw new Error(`Unknown profile: ${requested}`);
+  }
+  const name = requested || config.defaultProfile;
+  return { name, paths: getProfilePaths(config.profiles[name].root) };
+}
+
+/**
+ * Middleware for routes that use getRequestProfile - a request for a profile
+ * that isn't defined gets a 400 instead of reaching another profile's files
+ */
+export function requireKnownProfile(req: Request, res: Response, next: NextFunction): void {
+  const requested = req.get("X-Assistant-Profile");
+  if (requested) {
+    let known = true;
+    try {
+      known = !!loadProfilesConfig(getAssistantRoot()).profiles[requested];
+    } catch {
+      // A broken profiles.json is reported by the route itself
+    }
+    if (!known) {
+      res.status(400).json({ error: `Unknown profile: ${requested}`, details: "Pick a profile from the switcher" });
+      return;
+    }
+  }
+  next();
 }
 
 /**
@@ -104,8 +144,11 @@ export async function readJsonFile(filePath: string): Promise<unknown> {
 }
 
 /**
- * Write data to a JSON file
+ * Write data to a JSON file. Goes through a temp file and a rename, so the
+ * watcher never reads a half-written config.
  */
 export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2) + "\n", "utf-8");
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2) + "\n", "utf-8");
+  await fs.rename(tmpPath, filePath);
 }
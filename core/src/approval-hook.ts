@@ -0,0 +1,85 @@
+/**
+ * PreToolUse hook that holds tool calls for approval (see approvals.ts)
+ *
+ * The Claude CLI runs this before each tool an approval rule could match,
+ * with the call as JSON on stdin. Calls no rule holds go through untouched.
+ * Held calls are sent to the watcher, and the hook waits for the decision.
+ * The rules are the ones the job started with, from its environment - not
+ * approvals.json, which the job itself could edit. If the watcher can't be
+ * reached, or the rules are missing or broken, the call is denied.
+ */
+
+import { WatcherControlClient, getControlSocketPath } from "./control.js";
+import {
+  parseApprovalsSnapshot,
+  APPROVALS_SNAPSHOT_ENV,
+  findApprovalRule,
+  describeApprovalRule,
+  getApprovalTimeoutSeconds,
+  type ApprovalRequest,
+} from "./approvals.js";
+
+interface PreToolUseInput {
+  tool_name: string;
+  tool_input?: Record<string, unknown>;
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    process.stdin.on("data", (chunk) => { data += chunk; });
+    process.stdin.on("end", () => resolve(data));
+    process.stdin.on("error", reject);
+  });
+}
+
+function respond(decision: "allow" | "deny", reason: string): void {
+  process.stdout.write(JSON.stringify({
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      permissionDecision: decision,
+      permissionDecisionReason: reason,
+    },
+  }));
+}
+
+function describeDecision(request: ApprovalRequest): string {
+  const by = request.decidedBy ? ` by ${request.decidedBy}` : "";
+  const reason = request.reason ? `: ${request.reason}` : "";
+  switch (request.status) {
+    case "approved":
+      return `Approved${by}${reason}`;
+    case "denied":
+      return `Denied${by}${reason}. Don't retry it - tell the owner what you wanted to do instead.`;
+    default:
+      return `No approval (${request.status}${reason}). Don't retry it - tell the owner it needs their approval.`;
+  }
+}
+
+async function main(): Promise<void> {
+  const call = JSON.parse(await readStdin()) as PreToolUseInput;
+  const input = call.tool_input || {};
+  const config = parseApprovalsSnapshot(process.env[APPROVALS_SNAPSHOT_ENV]);
+  if (config.error) {
+    respond("deny", `Tool calls that may need approval are blocked: ${config.error}. Tell the owner to fix it.`);
+    return;
+  }
+  const rule = findApprovalRule(config, call.tool_name, input);
+  if (!rule) return;
+
+  const jobId = process.env.PHOUSE_JOB_ID || "unknown";
+  try {
+    const client = new WatcherControlClient(getControlSocketPath());
+    const request = await client.requestApproval(
+      { jobId, tool: call.tool_name, input, rule: describeApprovalRule(rule) },
+      (getApprovalTimeoutSeconds(config) + 30) * 1000
+    );
+    respond(request.status === "approved" ? "allow" : "deny", describeDecision(request));
+  } catch (err) {
+    respond("deny", `This action needs approval, but the request failed: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+main().catch((err) => {
+  respond("deny", `Approval hook failed: ${err}`);
+});
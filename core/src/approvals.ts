@@ -0,0 +1,389 @@
+/**
+ * Approval gateway for sensitive actions
+ *
+ * Jobs run with every permission, so tools that reach the outside world
+ * (sending email, posting to Discord, running shell commands) can be made to
+ * wait for a human. Rules live in config/approvals.json:
+ *
+ *   {
+ *     "rules": [
+ *       { "tool": "mcp__gmail__send_*", "description": "Sends email" },
+ *       { "tool": "Bash", "match": "\\b(rm|git push|curl)\\b", "description": "Destructive or networked shell command" }
+ *     ],
+ *     "timeoutSeconds": 600,
+ *     "notify": { "channel": "telegram", "to": "5473044160" }
+ *   }
+ *
+ * `tool` is a tool name with * wildcards. `match` is an optional regex tested
+ * against the tool input (the command for Bash, the JSON input otherwise).
+ *
+ * The Claude CLI runs approval-hook.ts before every tool a rule could match.
+ * The hook asks the watcher over the control socket, and the watcher keeps the
+ * request pending until someone answers /approve or /deny in the notify chat
+ * (or decides on the dashboard's Approvals page), or until it times out -
+ * which counts as a denial. The job blocks the whole time. Requests are kept
+ * in logs/approvals/<id>.json, and every decision goes into the job log.
+ *
+ * A config file that exists but can't be parsed or validated never means "no
+ * rules": the watcher keeps the rules it last loaded, and the hook denies the
+ * calls it sees until the file is fixed.
+ *
+ * approvals.json sits in the assistant directory the job works in, so the hook
+ * doesn't read it: the watcher passes each job the rules it started with (in
+ * PHOUSE_APPROVALS_CONFIG), and while any rule is active, a tool call that
+ * could change approvals.json is always held.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+
+export interface ApprovalRule {
+  tool: string;          // Tool name, * wildcards allowed (e.g. "Bash", "mcp__discord__*")
+  match?: string;        // Regex tested against the tool input (case-insensitive)
+  description?: string;  // Why the tool needs sign-off, shown in the request
+}
+
+export interface ApprovalsConfig {
+  enabled?: boolean;          // Default: true
+  rules: ApprovalRule[];
+  timeoutSeconds?: number;    // Default: 600, then the request is denied
+  notify?: {                  // Where requests are sent (telegram, discord or gchat)
+    channel: string;
+    to: string;
+  };
+  error?: string;             // Set by loadApprovalsConfig when the file is unusable
+}
+
+// "expired" - nobody answered in time. "cancelled" - the job ended first.
+export type ApprovalStatus = "pending" | "approved" | "denied" | "expired" | "cancelled";
+
+export interface ApprovalRequest {
+  id: string;
+  jobId: string;
+  channel?: string;       // Channel of the job that asked
+  sessionKey?: string;
+  tool: string;
+  input: Record<string, unknown>;
+  rule: string;           // The rule that matched, as shown to the approver
+  status: ApprovalStatus;
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;     // Who answered (e.g., "telegram:Jane", "dashboard")
+  reason?: string;
+}
+
+export type ApprovalDetails = Pick<ApprovalRequest, "jobId" | "channel" | "sessionKey" | "tool" | "input" | "rule">;
+
+export const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 600;
+
+// Environment variable with the rules a job started with, for the hook
+export const APPROVALS_SNAPSHOT_ENV = "PHOUSE_APPROVALS_CONFIG";
+
+// Tools that can write files - held whenever they might touch approvals.json
+const FILE_WRITING_TOOLS = ["Write", "Edit", "MultiEdit", "NotebookEdit", "Bash"];
+const APPROVALS_CONFIG_RULE: ApprovalRule = { tool: "*", description: "Could change the approval rules (approvals.json)" };
+
+/**
+ * The approval rules. No file means no rules; a file that doesn't parse or
+ * validate comes back with `error` set, which holds every tool.
+ */
+export function loadApprovalsConfig(configFile: string): ApprovalsConfig {
+  if (!fs.existsSync(configFile)) {
+    return { rules: [] };
+  }
+  try {
+    const data = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+    if (typeof data !== "object" || data === null) {
+      throw new Error("config must be an object");
+    }
+    const errors = validateApprovalsConfig(data);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    return data;
+  } catch (err) {
+    return { rules: [], error: `${path.basename(configFile)} is invalid: ${err instanceof Error ? err.message : err}` };
+  }
+}
+
+/**
+ * The rules the watcher passed to this job (see APPROVALS_SNAPSHOT_ENV). Missing
+ * or unreadable rules come back with `error` set, which holds every tool.
+ */
+export function parseApprovalsSnapshot(snapshot: string | undefined): ApprovalsConfig {
+  try {
+    const data = JSON.parse(snapshot || "");
+    if (typeof data !== "object" || data === null || !Array.isArray(data.rules)) {
+      throw new Error("no rules");
+    }
+    return data;
+  } catch {
+    return { rules: [], error: "the job was started without its approval rules" };
+  }
+}
+
+export function isApprovalGatewayActive(config: ApprovalsConfig): boolean {
+  if (config.error) return true;
+  return config.enabled !== false && config.rules.length > 0;
+}
+
+export function getApprovalTimeoutSeconds(config: ApprovalsConfig): number {
+  return config.timeoutSeconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Problems with an approvals config, or an empty list if it's usable
+ */
+export function validateApprovalsConfig(config: ApprovalsConfig): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(config.rules)) {
+    return ["rules must be a list"];
+  }
+  for (const rule of config.rules) {
+    if (!rule.tool?.trim()) {
+      errors.push("Every rule needs a tool name");
+      continue;
+    }
+    if (rule.match) {
+      try {
+        new RegExp(rule.match);
+      } catch {
+        errors.push(`Rule for ${rule.tool} has an invalid match pattern: ${rule.match}`);
+      }
+    }
+  }
+  if (config.timeoutSeconds !== undefined && (typeof config.timeoutSeconds !== "number" || config.timeoutSeconds < 10)) {
+    errors.push("timeoutSeconds must be at least 10");
+  }
+  if (config.notify && (!config.notify.channel || !config.notify.to)) {
+    errors.push("notify needs a channel and a chat to send requests to");
+  }
+  return errors;
+}
+
+// What a rule's match pattern is tested against
+export function getToolInputText(input: Record<string, unknown>): string {
+  return typeof input.command === "string" ? input.command : JSON.stringify(input);
+}
+
+/**
+ * The first rule that puts this tool call on hold, or null if it can run
+ */
+export function findApprovalRule(config: ApprovalsConfig, tool: string, input: Record<string, unknown>): ApprovalRule | null {
+  if (!isApprovalGatewayActive(config)) return null;
+  // Unknown rules hold everything
+  if (config.error) return { tool: "*", description: config.error };
+  const text = getToolInputText(input);
+  // A job doesn't get to edit the rules that hold it
+  if (FILE_WRITING_TOOLS.includes(tool) && /approvals/i.test(text)) {
+    return APPROVALS_CONFIG_RULE;
+  }
+  return config.rules.find(rule => {
+    if (!rule.tool || !globToRegExp(rule.tool).test(tool)) return false;
+    if (!rule.match) return true;
+    try {
+      return new RegExp(rule.match, "i").test(text);
+    } catch {
+      // A broken pattern holds the call rather than letting it through
+      return true;
+    }
+  }) || null;
+}
+
+export function describeApprovalRule(rule: ApprovalRule): string {
+  return rule.description || (rule.match ? `${rule.tool} matching /${rule.match}/` : rule.tool);
+}
+
+// Core package root, for the hook command (this file is core/src/approvals.ts)
+const CORE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+/**
+ * Claude CLI settings that install the approval hook, or undefined when no
+ * rules are configured. Only tools a rule could match, and the tools that can
+ * write approvals.json, trigger the hook - every tool, if the config is unusable.
+ */
+export function getApprovalHookSettings(config: ApprovalsConfig): Record<string, unknown> | undefined {
+  if (!isApprovalGatewayActive(config)) return undefined;
+  const tools = config.error
+    ? ["*"]
+    : [...new Set([...config.rules.map(rule => rule.tool).filter(Boolean), ...FILE_WRITING_TOOLS])];
+  const matcher = `^(${tools.map(tool => globToRegExp(tool).source.slice(1, -1)).join("|")})$`;
+  const tsx = path.join(CORE_DIR, "node_modules", ".bin", "tsx");
+  const hookScript = path.join(CORE_DIR, "src", "approval-hook.ts");
+  return {
+    hooks: {
+      PreToolUse: [{
+        matcher,
+        hooks: [{
+          type: "command",
+          command: `"${tsx}" "${hookScript}"`,
+          // Outlive the approval itself so the watcher's timeout decides
+          timeout: getApprovalTimeoutSeconds(config) + 60,
+        }],
+      }],
+    },
+  };
+}
+
+/**
+ * How a request is put to the approver in a chat
+ */
+export function formatApprovalRequest(request: ApprovalRequest): string {
+  const input = getToolInputText(request.input);
+  const minutes = Math.max(1, Math.round((Date.parse(request.expiresAt) - Date.parse(request.requestedAt)) / 60000));
+  return [
+    `Approval needed [${request.id}]`,
+    `Job ${request.jobId}${request.channel ? ` (${request.channel})` : ""} wants to use ${request.tool}:`,
+    input.length > 500 ? `${input.slice(0, 500)}...` : input,
+    `Rule: ${request.rule}`,
+    `Reply /approve ${request.id} or /deny ${request.id} - denied automatically in ${minutes} min.`,
+  ].join("\n");
+}
+
+/**
+ * One JSON file per request
+ */
+export class ApprovalStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  save(request: ApprovalRequest): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const filePath = path.join(this.dir, `${request.id}.json`);
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(request, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  read(id: string): ApprovalRequest | null {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.dir, `${path.basename(id)}.json`), "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Requests, newest first
+   */
+  list(limit?: number): ApprovalRequest[] {
+    if (!fs.existsSync(this.dir)) return [];
+    const requests = fs.readdirSync(this.dir)
+      .filter(f => f.endsWith(".json"))
+      .map(f => this.read(f.slice(0, -".json".length)))
+      .filter((r): r is ApprovalRequest => r !== null)
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+    return limit === undefined ? requests : requests.slice(0, limit);
+  }
+}
+
+interface WaitingApproval {
+  resolve: (request: ApprovalRequest) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Pending requests of this watcher process. The hook's control request stays
+ * open until decision resolves.
+ */
+export class ApprovalGate {
+  private store: ApprovalStore;
+  private onSettled: (request: ApprovalRequest) => void;
+  private waiting: Map<string, WaitingApproval> = new Map();
+
+  constructor(store: ApprovalStore, onSettled: (request: ApprovalRequest) => void = () => {}) {
+    this.store = store;
+    this.onSettled = onSettled;
+  }
+
+  open(details: ApprovalDetails, timeoutMs: number): { request: ApprovalRequest; decision: Promise<ApprovalRequest> } {
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      ...details,
+      id: randomUUID().slice(0, 8),
+      status: "pending",
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutMs).toISOString(),
+    };
+    this.store.save(request);
+
+    const decision = new Promise<ApprovalRequest>((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(request.id, "expired", undefined, "Nobody answered in time");
+      }, timeoutMs);
+      this.waiting.set(request.id, { resolve, timer });
+    });
+    return { request, decision };
+  }
+
+  /**
+   * Answer a pending request. Returns null if it isn't pending (anymore).
+   */
+  decide(id: string, approved: boolean, by: string, reason?: string): ApprovalRequest | null {
+    return this.settle(id.toLowerCase(), approved ? "approved" : "denied", by, reason);
+  }
+
+  /**
+   * Settle a job's requests once it has ended - nobody is waiting for them
+   */
+  cancelForJob(jobId: string, reason: string): number {
+    let cancelled = 0;
+    for (const request of this.pending()) {
+      if (request.jobId === jobId && this.settle(request.id, "cancelled", undefined, reason)) {
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Requests a previous watcher left pending - their jobs are gone
+   */
+  settleLeftovers(reason: string): number {
+    let settled = 0;
+    for (const request of this.store.list()) {
+      if (request.status === "pending" && !this.waiting.has(request.id)) {
+        this.store.save({ ...request, status: "cancelled", decidedAt: new Date().toISOString(), reason });
+        settled++;
+      }
+    }
+    return settled;
+  }
+
+  pending(): ApprovalRequest[] {
+    return [...this.waiting.keys()]
+      .map(id => this.store.read(id))
+      .filter((r): r is ApprovalRequest => r !== null);
+  }
+
+  private settle(id: string, status: Exclude<ApprovalStatus, "pending">, by?: string, reason?: string): ApprovalRequest | null {
+    const waiting = this.waiting.get(id);
+    const request = this.store.read(id);
+    if (!waiting || !request) return null;
+
+    clearTimeout(waiting.timer);
+    this.waiting.delete(id);
+    const settled: ApprovalRequest = {
+      ...request,
+      status,
+      decidedAt: new Date().toISOString(),
+      ...(by ? { decidedBy: by } : {}),
+      ...(reason ? { reason } : {}),
+    };
+    this.store.save(settled);
+    this.onSettled(settled);
+    waiting.resolve(settled);
+    return settled;
+  }
+}
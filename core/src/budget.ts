@@ -0,0 +1,389 @@
+/**
+ * Spending budgets
+ *
+ * Daily and monthly budgets (USD) set globally, per channel and per cron job
+ * in config/budgets.json. Spend is computed from the cost recorded in job
+ * files (and the job archive index), so the watcher, the API and the /budget
+ * command all agree.
+ *
+ * When a budget is near its limit the watcher warns; once exceeded it applies
+ * the budget's action:
+ * - "warn":    keep going, just warn
+ * - "degrade": refuse cron jobs and only serve the owner's sessions
+ * - "stop":    refuse all new jobs (commands still work)
+ *
+ * A budgets.json that doesn't parse or validate never means "no budgets": the
+ * watcher keeps the budgets it last loaded, or refuses every job but the
+ * dashboard's until the file is fixed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getLocalDateKey } from "./utils.js";
+import { JobArchive, type ArchivedJobSummary } from "./job-retention.js";
+import type { JobSummary } from "./job-store.js";
+
+export type BudgetAction = "warn" | "degrade" | "stop";
+export type BudgetPeriod = "daily" | "monthly";
+
+export interface BudgetLimit {
+  daily?: number;
+  monthly?: number;
+  onExceeded?: BudgetAction;   // Overrides the top-level action for this budget
+}
+
+export interface BudgetConfig {
+  warnAt?: number;             // Fraction of a budget that triggers a warning. Default: 0.8
+  onExceeded?: BudgetAction;   // Default: "degrade"
+  owners?: string[];           // Session keys still served when degraded (dashboard always is)
+  global?: BudgetLimit;
+  channels?: Record<string, BudgetLimit>;
+  cronJobs?: Record<string, BudgetLimit>;
+  error?: string;              // Set by loadBudgetConfig when the file is unusable
+}
+
+export interface SpendTotals {
+  total: number;
+  byChannel: Record<string, number>;
+  byCronJob: Record<string, number>;
+}
+
+export interface BudgetScopeStatus {
+  scope: string;               // "global", "channel:<name>" or "cron:<id>"
+  period: BudgetPeriod;
+  spent: number;
+  limit: number;
+  state: "ok" | "warning" | "exceeded";
+  action: BudgetAction;
+}
+
+export interface BudgetStatus {
+  day: string;                 // YYYY-MM-DD in the configured timezone
+  month: string;               // YYYY-MM
+  spend: { daily: SpendTotals; monthly: SpendTotals };
+  scopes: BudgetScopeStatus[];
+  error?: string;              // budgets.json is broken (see loadBudgetConfig)
+}
+
+export interface BudgetTarget {
+  kind: "interactive" | "cron" | "rollup";
+  channel: string;
+  sessionKey: string;
+  cronJobId?: string;
+}
+
+export interface BudgetDecision {
+  allowed: boolean;
+  reason?: string;                  // Why the job was refused
+  blocking?: BudgetScopeStatus;
+  warnings: BudgetScopeStatus[];    // Budgets near or over their limit that still allowed the job
+}
+
+export const DEFAULT_WARN_AT = 0.8;
+export const DEFAULT_BUDGET_ACTION: BudgetAction = "degrade";
+
+const ACTION_SEVERITY: Record<BudgetAction, number> = { warn: 0, degrade: 1, stop: 2 };
+
+const BUDGET_ACTIONS: BudgetAction[] = ["warn", "degrade", "stop"];
+
+/**
+ * Problems with a budget config - an error message, or null if it's usable
+ */
+export function validateBudgetConfig(config: BudgetConfig): string | null {
+  if (typeof config !== "object" || config === null) return "Config must be an object";
+  if (config.warnAt !== undefined && (typeof config.warnAt !== "number" || config.warnAt <= 0 || config.warnAt > 1)) {
+    return "warnAt must be a number between 0 and 1";
+  }
+  if (config.onExceeded !== undefined && !BUDGET_ACTIONS.includes(config.onExceeded)) {
+    return `onExceeded must be one of: ${BUDGET_ACTIONS.join(", ")}`;
+  }
+  if (config.owners !== undefined && !Array.isArray(config.owners)) return "owners must be a list of session keys";
+
+  const limits = [
+    config.global,
+    ...Object.values(config.channels || {}),
+    ...Object.values(config.cronJobs || {}),
+  ];
+  for (const limit of limits) {
+    if (!limit) continue;
+    for (const period of ["daily", "monthly"] as const) {
+      if (limit[period] !== undefined && (typeof limit[period] !== "number" || limit[period]! < 0)) {
+        return `${period} budgets must be non-negative numbers`;
+      }
+    }
+    if (limit.onExceeded !== undefined && !BUDGET_ACTIONS.includes(limit.onExceeded)) {
+      return `onExceeded must be one of: ${BUDGET_ACTIONS.join(", ")}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The budgets. No file means no budgets; a file that doesn't parse or
+ * validate comes back with `error` set and no budgets in it.
+ */
+export function loadBudgetConfig(configFile: string): BudgetConfig {
+  if (!fs.existsSync(configFile)) {
+    return {};
+  }
+  try {
+    const config = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+    const error = validateBudgetConfig(config);
+    if (error) {
+      throw new Error(error);
+    }
+    return config;
+  } catch (err) {
+    return { error: `${path.basename(configFile)} is invalid: ${err instanceof Error ? err.message : err}` };
+  }
+}
+
+// Cost summaries per job file, keyed by file name and invalidated by mtime.
+// Job files can be large, so each finished job is only parsed once.
+interface JobCostEntry {
+  mtimeMs: number;
+  day: string;
+  channel: string;
+  cronJobId?: string;
+  cost: number;
+}
+const jobCostCache: Map<string, JobCostEntry> = new Map();
+
+type JobCostSource = Pick<JobSummary, "startTime" | "channel" | "sessionKey" | "profile" | "cronJobId" | "cost">;
+
+// Job files written before cronJobId was stored only have the session key:
+// cron-<id>, or cron-<profile>-<id> for profiles other than the default
+function getLegacyCronJobId(job: JobCostSource): string | undefined {
+  const sessionKey = job.sessionKey;
+  if (job.channel !== "cron" || !sessionKey?.startsWith("cron-")) return undefined;
+  const profilePrefix = job.profile ? `cron-${job.profile}-` : undefined;
+  return profilePrefix && sessionKey.startsWith(profilePrefix) ? sessionKey.slice(profilePrefix.length) : sessionKey.slice(5);
+}
+
+function toJobCostEntry(job: JobCostSource, mtimeMs: number): JobCostEntry {
+  return {
+    mtimeMs,
+    day: getLocalDateKey(new Date(job.startTime)),
+    channel: job.channel,
+    cronJobId: job.cronJobId ?? getLegacyCronJobId(job),
+    cost: typeof job.cost === "number" ? job.cost : 0,
+  };
+}
+
+function readJobCost(filePath: string, mtimeMs: number): JobCostEntry | null {
+  const cached = jobCostCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached;
+
+  try {
+    const entry = toJobCostEntry(JSON.parse(fs.readFileSync(filePath, "utf-8")), mtimeMs);
+    jobCostCache.set(filePath, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+// Jobs archived by retention still count towards this month's spend
+const jobArchives: Map<string, JobArchive> = new Map();
+
+function listArchivedJobs(jobsDir: string): ArchivedJobSummary[] {
+  let archive = jobArchives.get(jobsDir);
+  if (!archive) {
+    archive = new JobArchive(path.join(jobsDir, "archive"));
+    jobArchives.set(jobsDir, archive);
+  }
+  return archive.list();
+}
+
+function emptyTotals(): SpendTotals {
+  return { total: 0, byChannel: {}, byCronJob: {} };
+}
+
+function addSpend(totals: SpendTotals, entry: JobCostEntry): void {
+  totals.total += entry.cost;
+  totals.byChannel[entry.channel] = (totals.byChannel[entry.channel] || 0) + entry.cost;
+  if (entry.cronJobId) {
+    totals.byCronJob[entry.cronJobId] = (totals.byCronJob[entry.cronJobId] || 0) + entry.cost;
+  }
+}
+
+/**
+ * Sum job costs for the current day and month
+ */
+export function computeSpend(jobsDir: string, now: Date = new Date()): { day: string; month: string; daily: SpendTotals; monthly: SpendTotals } {
+  const day = getLocalDateKey(now);
+  const month = day.slice(0, 7);
+  const daily = emptyTotals();
+  const monthly = emptyTotals();
+
+  if (!fs.existsSync(jobsDir)) {
+    return { day, month, daily, monthly };
+  }
+
+  // Job IDs start with their UTC start time - only files from this UTC month or
+  // the one before can belong to the local month
+  const previous = new Date(now.getTime());
+  previous.setUTCDate(1);
+  previous.setUTCMonth(previous.getUTCMonth() - 1);
+  const prefixes = [now.toISOString().slice(0, 7), previous.toISOString().slice(0, 7)];
+
+  const counted: Set<string> = new Set();
+  for (const file of fs.readdirSync(jobsDir)) {
+    if (!file.endsWith(".json") || !prefixes.some(p => file.startsWith(p))) continue;
+    counted.add(file.slice(0, -".json".length));
+
+    const filePath = path.join(jobsDir, file);
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(filePath).mtimeMs;
+    } catch {
+      continue;
+    }
+
+    const entry = readJobCost(filePath, mtimeMs);
+    if (!entry || entry.cost === 0 || !entry.day.startsWith(month)) continue;
+
+    addSpend(monthly, entry);
+    if (entry.day === day) {
+      addSpend(daily, entry);
+    }
+  }
+
+  for (const job of listArchivedJobs(jobsDir)) {
+    if (!prefixes.includes(job.archive) || counted.has(job.id)) continue;
+
+    const entry = toJobCostEntry(job, 0);
+    if (entry.cost === 0 || !entry.day.startsWith(month)) continue;
+
+    addSpend(monthly, entry);
+    if (entry.day === day) {
+      addSpend(daily, entry);
+    }
+  }
+
+  return { day, month, daily, monthly };
+}
+
+function scopeStatuses(scope: string, limit: BudgetLimit | undefined, spent: { daily: number; monthly: number }, config: BudgetConfig): BudgetScopeStatus[] {
+  if (!limit) return [];
+  const warnAt = config.warnAt ?? DEFAULT_WARN_AT;
+  const action = limit.onExceeded || config.onExceeded || DEFAULT_BUDGET_ACTION;
+  const statuses: BudgetScopeStatus[] = [];
+
+  for (const period of ["daily", "monthly"] as const) {
+    const max = limit[period];
+    if (!max || max <= 0) continue;
+    const value = spent[period];
+    statuses.push({
+      scope,
+      period,
+      spent: value,
+      limit: max,
+      state: value >= max ? "exceeded" : value >= max * warnAt ? "warning" : "ok",
+      action,
+    });
+  }
+  return statuses;
+}
+
+/**
+ * Spend and state of every configured budget
+ */
+export function getBudgetStatus(config: BudgetConfig, jobsDir: string, now: Date = new Date()): BudgetStatus {
+  const { day, month, daily, monthly } = computeSpend(jobsDir, now);
+  const scopes: BudgetScopeStatus[] = [
+    ...scopeStatuses("global", config.global, { daily: daily.total, monthly: monthly.total }, config),
+  ];
+
+  for (const [channel, limit] of Object.entries(config.channels || {})) {
+    scopes.push(...scopeStatuses(`channel:${channel}`, limit, {
+      daily: daily.byChannel[channel] || 0,
+      monthly: monthly.byChannel[channel] || 0,
+    }, config));
+  }
+
+  for (const [jobId, limit] of Object.entries(config.cronJobs || {})) {
+    scopes.push(...scopeStatuses(`cron:${jobId}`, limit, {
+      daily: daily.byCronJob[jobId] || 0,
+      monthly: monthly.byCronJob[jobId] || 0,
+    }, config));
+  }
+
+  return { day, month, spend: { daily, monthly }, scopes, ...(config.error ? { error: config.error } : {}) };
+}
+
+export function isBudgetOwner(config: BudgetConfig, target: BudgetTarget): boolean {
+  return target.channel === "dashboard" || (config.owners || []).includes(target.sessionKey);
+}
+
+/**
+ * Decide whether a job may start given the current budget status
+ */
+export function checkBudget(status: BudgetStatus, config: BudgetConfig, target: BudgetTarget): BudgetDecision {
+  const applicable = status.scopes.filter(s =>
+    s.scope === "global" ||
+    s.scope === `channel:${target.channel}` ||
+    (target.cronJobId !== undefined && s.scope === `cron:${target.cronJobId}`)
+  );
+
+  // The most severe exceeded budget decides
+  const exceeded = applicable
+    .filter(s => s.state === "exceeded")
+    .sort((a, b) => ACTION_SEVERITY[b.action] - ACTION_SEVERITY[a.action]);
+  const warnings = applicable.filter(s => s.state !== "ok");
+  const worst = exceeded[0];
+
+  if (!worst || worst.action === "warn") {
+    return { allowed: true, warnings };
+  }
+
+  if (worst.action === "stop") {
+    return { allowed: false, blocking: worst, warnings, reason: `${describeScope(worst)} is used up - all jobs are paused` };
+  }
+
+  // degrade: cron is refused, rollups keep memory healthy, interactive is owner-only
+  if (target.kind === "rollup" || (target.kind === "interactive" && isBudgetOwner(config, target))) {
+    return { allowed: true, warnings };
+  }
+  return {
+    allowed: false,
+    blocking: worst,
+    warnings,
+    reason: target.kind === "cron"
+      ? `${describeScope(worst)} is used up - scheduled tasks are paused`
+      : `${describeScope(worst)} is used up - only the owner can use the assistant right now`,
+  };
+}
+
+export function describeScope(status: BudgetScopeStatus): string {
+  const name = status.scope === "global"
+    ? "The overall"
+    : status.scope.startsWith("channel:")
+      ? `The ${status.scope.slice(8)} channel's`
+      : `Cron job ${status.scope.slice(5)}'s`;
+  return `${name} ${status.period} budget ($${status.spent.toFixed(2)} of $${status.limit.toFixed(2)})`;
+}
+
+/**
+ * Plain-text summary for the /budget command
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const lines = [
+    ...(status.error ? [`Warning: ${status.error}`, ""] : []),
+    `Spend today (${status.day}): $${status.spend.daily.total.toFixed(2)}`,
+    `Spend this month (${status.month}): $${status.spend.monthly.total.toFixed(2)}`,
+  ];
+
+  if (status.scopes.length === 0) {
+    lines.push("", "No budgets configured.");
+    return lines.join("\n");
+  }
+
+  lines.push("", "Budgets:");
+  for (const s of status.scopes) {
+    const pct = Math.round((s.spent / s.limit) * 100);
+    const flag = s.state === "exceeded" ? ` - EXCEEDED (${s.action})` : s.state === "warning" ? " - near limit" : "";
+    lines.push(`- ${s.scope} ${s.period}: $${s.spent.toFixed(2)} / $${s.limit.toFixed(2)} (${pct}%)${flag}`);
+  }
+  return lines.join("\n");
+}
@@ -1,11 +1,10 @@
 import * as fs from "fs";
 import * as path from "path";
-import { fileURLToPath } from "url";
+import { getPhouseConfig } from "../config.js";
 import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, StreamEvent } from "./types.js";
+import type { ChannelPlugin } from "./registry.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
 
 const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
 const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
@@ -383,6 +382,19 @@ export const DashboardChannel: Channel & ChannelDefinition = {
 - Respond directly - your text output will be displayed to the user
 - No need to use MCP tools for basic replies
 - If user sends images, use the Read tool to view them at the provided path
-- To send images/files back: Save to /home/ubuntu/pHouseClawd/memory/dashboard/files/ and include the path in your response - the UI will render images inline`;
+- To send images/files back: Save to ${path.join(MEMORY_DIR, "dashboard/files")}/ and include the path in your response - the UI will render images inline`;
+  },
+};
+
+export const DashboardPlugin: ChannelPlugin = {
+  manifest: {
+    name: "dashboard",
+    description: "Chat tab in the dashboard",
+    defaultResponseStyle: "streaming",
+    supportsCommands: true,
+  },
+  createChannel: () => DashboardChannel,
+  getMemoryEntry(payload) {
+    return { from: "User", text: payload.text || payload.message || "" };
   },
 };
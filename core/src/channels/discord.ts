@@ -3,13 +3,14 @@ import { spawn, ChildProcess } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
 import * as https from "https";
-import { fileURLToPath } from "url";
+import { getPhouseConfig } from "../config.js";
 import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, StreamEvent } from "./types.js";
+import type { ChannelPlugin } from "./registry.js";
 import { OutputHandler, type Verbosity } from "./output-handler.js";
+import { LiveMessage } from "./live-message.js";
+import { isAudioFile, transcribeAudio, describeAudioForPrompt, appendTranscripts } from "../transcription.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
 
 const SEND_SCRIPT = path.join(PROJECT_ROOT, "listeners/discord/send.ts");
 const TYPING_SCRIPT = path.join(PROJECT_ROOT, "listeners/discord/typing.ts");
@@ -29,7 +30,8 @@ function log(message: string) {
 }
 
 // Security config file path
-const DISCORD_SECURITY_CONFIG_FILE = path.join(PROJECT_ROOT, "config/discord-security.json");
+const DISCORD_SECURITY_CONFIG_FILE = getPhouseConfig().paths.discordSecurityConfig;
+const TRANSCRIPTION_CONFIG_FILE = getPhouseConfig().paths.transcriptionConfig;
 
 interface DiscordSecurityConfig {
   allowedChannels: string[]; // Channel IDs to listen to
@@ -120,25 +122,36 @@ function isSentMessage(text: string): boolean {
   return false;
 }
 
+// The helper scripts take a profile's own bot token in DISCORD_PROFILE_BOT_TOKEN
+function getScriptEnv(profileBotToken?: string): NodeJS.ProcessEnv | undefined {
+  return profileBotToken ? { ...process.env, DISCORD_PROFILE_BOT_TOKEN: profileBotToken } : undefined;
+}
+
+// Discord has a 2000 character limit
+const MAX_MESSAGE_LENGTH = 1900;
+// Discord allows 5 edits per 5 seconds on a channel
+const LIVE_EDIT_INTERVAL_MS = 1200;
+
 // Stream handler for Discord - handles output back to channel
 class DiscordStreamHandler implements StreamHandler {
   private channelId: string;
   private messageId: string;
   private discordClient: Client | null = null;
   private typingProcess: ChildProcess | null = null;
+  private liveMessage: LiveMessage<Message> | null = null;
+  private botToken?: string;
 
-  constructor(channelId: string, messageId: string, discordClient?: Client) {
+  constructor(channelId: string, messageId: string, discordClient?: Client, botToken?: string) {
     this.channelId = channelId;
     this.messageId = messageId;
     this.discordClient = discordClient || null;
+    this.botToken = botToken;
   }
 
   async relayMessage(text: string): Promise<void> {
     if (!text || !text.trim()) return;
 
-    // Discord has a 2000 character limit - split long messages
-    const MAX_LENGTH = 1900;
-    const chunks = this.splitMessage(text, MAX_LENGTH);
+    const chunks = this.splitMessage(text, MAX_MESSAGE_LENGTH);
 
     log(`[DiscordChannel] Sending ${text.length} chars in ${chunks.length} chunk(s) to ${this.channelId}`);
 
@@ -169,6 +182,7 @@ class DiscordStreamHandler implements StreamHandler {
           cwd: PROJECT_ROOT,
           stdio: ["ignore", "ignore", "ignore"],
           detached: true,
+          env: getScriptEnv(this.botToken),
         });
         proc.unref();
       } catch (err) {
@@ -177,6 +191,40 @@ class DiscordStreamHandler implements StreamHandler {
     }
   }
 
+  // "live" style - one message, edited as the reply grows (needs the client)
+  updateLiveMessage(text: string, done: boolean): void {
+    if (!this.liveMessage) {
+      this.liveMessage = new LiveMessage<Message>(
+        {
+          send: async (part) => {
+            const channel = await this.discordClient?.channels.fetch(this.channelId);
+            if (!channel || !(channel instanceof TextChannel || channel instanceof DMChannel || channel instanceof NewsChannel)) {
+              throw new Error(`Channel ${this.channelId} is not a text channel`);
+            }
+            trackSentMessage(part);
+            return channel.send(part);
+          },
+          edit: async (message, part) => {
+            trackSentMessage(part);
+            await message.edit(part);
+          },
+        },
+        {
+          split: (reply) => this.splitMessage(reply, MAX_MESSAGE_LENGTH),
+          minEditIntervalMs: LIVE_EDIT_INTERVAL_MS,
+          log: (message) => log(`[DiscordChannel] ${message} (channel ${this.channelId})`),
+        }
+      );
+    }
+
+    if (done) {
+      log(`[DiscordChannel] Live reply to ${this.channelId} finished (${text.length} chars)`);
+      this.liveMessage.finish(text);
+    } else {
+      this.liveMessage.update(text);
+    }
+  }
+
   async startTyping(): Promise<void> {
     try {
       // Kill old typing process before spawning a new one to prevent buildup
@@ -192,6 +240,7 @@ class DiscordStreamHandler implements StreamHandler {
         cwd: PROJECT_ROOT,
         stdio: ["ignore", "ignore", "ignore"],
         detached: false, // Don't detach so we can track and kill it
+        env: getScriptEnv(this.botToken),
       });
       this.typingProcess = proc;
 
@@ -287,11 +336,15 @@ class DiscordEventHandler implements ChannelEventHandler {
   private outputHandler: OutputHandler;
   private typingInterval: ReturnType<typeof setInterval> | null = null;
 
-  constructor(channelId: string, messageId: string, verbosity: Verbosity = "streaming", discordClient?: Client) {
-    this.streamHandler = new DiscordStreamHandler(channelId, messageId, discordClient);
+  constructor(channelId: string, messageId: string, verbosity: Verbosity = "streaming", discordClient?: Client, botToken?: string) {
+    this.streamHandler = new DiscordStreamHandler(channelId, messageId, discordClient, botToken);
     this.outputHandler = new OutputHandler(
       { verbosity },
-      { onSend: (message) => this.streamHandler.relayMessage(message) }
+      {
+        onSend: (message) => this.streamHandler.relayMessage(message),
+        // Editing needs the client - without it, live replies stream as separate messages
+        onUpdate: discordClient ? (text, done) => this.streamHandler.updateLiveMessage(text, done) : undefined,
+      }
     );
   }
 
@@ -328,173 +381,231 @@ class DiscordEventHandler implements ChannelEventHandler {
   }
 }
 
-// Discord channel definition
-export const DiscordChannel: Channel & ChannelDefinition = {
-  name: "discord",
-  concurrency: "session",
-
-  // New interface: listen()
-  async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
-    return this.startListener(onEvent);
-  },
-
-  // Legacy interface: startListener()
-  async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
-    const botToken = process.env.DISCORD_BOT_TOKEN;
-    if (!botToken) {
-      throw new Error("DISCORD_BOT_TOKEN not set");
-    }
-
-    const client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.DirectMessages,
-        GatewayIntentBits.MessageContent,
-      ],
-    });
-
-    // Store client reference for handlers
-    (DiscordChannel as any)._client = client;
-
-    client.on("messageCreate", async (msg: Message) => {
-      // Skip bot messages (including our own)
-      if (msg.author.bot) return;
-
-      const config = loadSecurityConfig();
-      const channelId = msg.channel.id;
-      const guildId = msg.guild?.id;
-
-      // Check if this channel is allowed
-      // If autoIncludeNewChannels is true, allow any channel from an allowed guild
-      // Otherwise, require explicit channel allowlist
-      let isAllowed = false;
-      if (config.autoIncludeNewChannels && guildId && config.allowedGuilds?.includes(guildId)) {
-        // Auto-include mode: accept any channel from allowed guilds
-        isAllowed = true;
-      } else if (config.allowedChannels.length > 0) {
-        // Explicit channel list mode
-        isAllowed = config.allowedChannels.includes(channelId);
-      } else {
-        // No restrictions configured
-        isAllowed = true;
-      }
-
-      if (!isAllowed) {
-        return;
-      }
+// A profile with its own bot - its channels get their own session keys, since
+// both bots can be in the same channel
+interface DiscordBotProfile {
+  name: string;
+  botToken: string;
+}
 
-      // Skip if this is an echo of our own message
-      if (msg.content && isSentMessage(msg.content)) {
-        log(`[DiscordChannel] Skipping echo message: ${msg.content.slice(0, 30)}...`);
-        return;
+// Discord channel definition - the shared bot, or one profile's own
+function createDiscordChannel(botProfile?: DiscordBotProfile): Channel & ChannelDefinition {
+  const sessionKeyFor = (channelId: string) =>
+    botProfile ? `discord-${botProfile.name}-${channelId}` : `discord-${channelId}`;
+  const botLabel = botProfile ? ` (${botProfile.name}'s bot)` : "";
+  // The logged-in client, for handlers of events that were persisted without it
+  let currentClient: Client | null = null;
+
+  return {
+    name: "discord",
+    concurrency: "session",
+    profile: botProfile?.name,
+
+    // New interface: listen()
+    async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      return this.startListener(onEvent);
+    },
+
+    // Legacy interface: startListener()
+    async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      const botToken = botProfile?.botToken || process.env.DISCORD_BOT_TOKEN;
+      if (!botToken) {
+        throw new Error("DISCORD_BOT_TOKEN not set");
       }
 
-      const text = msg.content || "";
-      if (!text.trim() && msg.attachments.size === 0) return;
-
-      const from = msg.author.displayName || msg.author.username || "Someone";
-      const messageId = msg.id;
-
-      log(`[DiscordChannel] New message from ${from}: ${text.slice(0, 50)}...`);
+      const client = new Client({
+        intents: [
+          GatewayIntentBits.Guilds,
+          GatewayIntentBits.GuildMessages,
+          GatewayIntentBits.DirectMessages,
+          GatewayIntentBits.MessageContent,
+        ],
+      });
 
-      // Download attachments if present
-      const downloadedFiles: { path: string; name: string; type: string }[] = [];
-      for (const [, attachment] of msg.attachments) {
-        const timestamp = Date.now();
-        const safeFileName = (attachment.name || "file").replace(/[^a-zA-Z0-9._-]/g, "_");
-        const filename = `${timestamp}_${safeFileName}`;
-        const filePath = path.join(FILES_DIR, filename);
+      // Store client reference for handlers
+      currentClient = client;
+
+      // Transcribing a voice note can take minutes, so each channel hands its
+      // messages over from its own queue: other channels aren't held up, and a
+      // text sent after the note still reaches the assistant after it.
+      const deliveryQueues = new Map<string, Promise<void>>();
+      const deliverInOrder = (channelId: string, deliver: () => Promise<void>) => {
+        const queued = (deliveryQueues.get(channelId) ?? Promise.resolve())
+          .then(deliver)
+          .catch((err) => log(`[DiscordChannel] Failed to deliver message in ${channelId}: ${err}`));
+        deliveryQueues.set(channelId, queued);
+        queued.then(() => {
+          if (deliveryQueues.get(channelId) === queued) deliveryQueues.delete(channelId);
+        });
+      };
 
-        try {
-          await downloadAttachment(attachment.url, filePath);
-          downloadedFiles.push({
-            path: filePath,
-            name: attachment.name || "file",
-            type: attachment.contentType || "application/octet-stream",
-          });
-          log(`[DiscordChannel] Downloaded attachment: ${attachment.name} -> ${filePath}`);
-        } catch (err: any) {
-          log(`[DiscordChannel] Failed to download attachment ${attachment.name}: ${err.message}`);
+      client.on("messageCreate", async (msg: Message) => {
+        // Skip bot messages (including our own)
+        if (msg.author.bot) return;
+
+        const config = loadSecurityConfig();
+        const channelId = msg.channel.id;
+        const guildId = msg.guild?.id;
+
+        // Check if this channel is allowed
+        // If autoIncludeNewChannels is true, allow any channel from an allowed guild
+        // Otherwise, require explicit channel allowlist
+        let isAllowed = false;
+        if (config.autoIncludeNewChannels && guildId && config.allowedGuilds?.includes(guildId)) {
+          // Auto-include mode: accept any channel from allowed guilds
+          isAllowed = true;
+        } else if (config.allowedChannels.length > 0) {
+          // Explicit channel list mode
+          isAllowed = config.allowedChannels.includes(channelId);
+        } else {
+          // No restrictions configured
+          isAllowed = true;
         }
-      }
 
-      const sessionKey = `discord-${channelId}`;
-
-      // Build prompt with file paths
-      let prompt = `[Discord from ${from} | channel: ${channelId} | msg: ${messageId}]: ${text}`;
-      if (downloadedFiles.length > 0) {
-        for (const file of downloadedFiles) {
-          const isImage = file.type.startsWith("image/");
-          const isPdf = file.type === "application/pdf";
-          if (isImage) {
-            prompt += `\n\n[Image: ${file.name}]\nIMPORTANT: Use the Read tool to view the image at: ${file.path}`;
-          } else if (isPdf) {
-            prompt += `\n\n[PDF: ${file.name}]\nIMPORTANT: The PDF has been saved to: ${file.path}`;
-          } else {
-            prompt += `\n\n[File: ${file.name} (${file.type})]\nIMPORTANT: The file has been saved to: ${file.path}`;
-          }
+        if (!isAllowed) {
+          return;
         }
-      }
 
-      onEvent({
-        sessionKey,
-        prompt,
-        payload: {
-          type: "message",
-          channel_id: channelId,
-          from,
-          text,
-          message_id: messageId,
-          downloaded_files: downloadedFiles,
-          _client: client,
-        },
-        message: {
-          text,
-          from,
-          isMessage: true,
-        },
-      });
-    });
-
-    await client.login(botToken);
-    log(`[DiscordChannel] Bot logged in as ${client.user?.tag}`);
-
-    // Return stop function
-    return () => {
-      client.destroy();
-      log("[DiscordChannel] Bot stopped");
-    };
-  },
+        // Skip if this is an echo of our own message
+        if (msg.content && isSentMessage(msg.content)) {
+          log(`[DiscordChannel] Skipping echo message: ${msg.content.slice(0, 30)}...`);
+          return;
+        }
 
-  // New interface: createStreamHandler()
-  createStreamHandler(event: ChannelEvent): StreamHandler {
-    const discordClient = event.payload._client || (DiscordChannel as any)._client;
-    return new DiscordStreamHandler(event.payload.channel_id, event.payload.message_id, discordClient);
-  },
+        const text = msg.content || "";
+        if (!text.trim() && msg.attachments.size === 0) return;
+
+        const from = msg.author.displayName || msg.author.username || "Someone";
+        const messageId = msg.id;
+
+        log(`[DiscordChannel] New message from ${from}: ${text.slice(0, 50)}...`);
+
+        const sessionKey = sessionKeyFor(channelId);
+
+        deliverInOrder(channelId, async () => {
+          // Download attachments if present
+          const downloadedFiles: { path: string; name: string; type: string; transcript?: string }[] = [];
+          for (const [, attachment] of msg.attachments) {
+            const timestamp = Date.now();
+            const safeFileName = (attachment.name || "file").replace(/[^a-zA-Z0-9._-]/g, "_");
+            const filename = `${timestamp}_${safeFileName}`;
+            const filePath = path.join(FILES_DIR, filename);
+
+            try {
+              await downloadAttachment(attachment.url, filePath);
+              downloadedFiles.push({
+                path: filePath,
+                name: attachment.name || "file",
+                type: attachment.contentType || "application/octet-stream",
+              });
+              log(`[DiscordChannel] Downloaded attachment: ${attachment.name} -> ${filePath}`);
+            } catch (err: any) {
+              log(`[DiscordChannel] Failed to download attachment ${attachment.name}: ${err.message}`);
+            }
+          }
 
-  // Legacy interface: createHandler()
-  createHandler(event: ChannelEvent): ChannelEventHandler {
-    const verbosity = event.payload.verbosity || "streaming";
-    const discordClient = event.payload._client || (DiscordChannel as any)._client;
-    return new DiscordEventHandler(event.payload.channel_id, event.payload.message_id, verbosity, discordClient);
-  },
+          // Build prompt with file paths
+          let prompt = `[Discord from ${from} | channel: ${channelId} | msg: ${messageId}]: ${text}`;
+          if (downloadedFiles.length > 0) {
+            for (const file of downloadedFiles) {
+              const isImage = file.type.startsWith("image/");
+              const isPdf = file.type === "application/pdf";
+              if (isImage) {
+                prompt += `\n\n[Image: ${file.name}]\nIMPORTANT: Use the Read tool to view the image at: ${file.path}`;
+              } else if (isPdf) {
+                prompt += `\n\n[PDF: ${file.name}]\nIMPORTANT: The PDF has been saved to: ${file.path}`;
+              } else if (isAudioFile(file.type, file.name)) {
+                file.transcript = (await transcribeAudio(TRANSCRIPTION_CONFIG_FILE, file.path, log)) ?? undefined;
+                prompt += `\n\n${describeAudioForPrompt(file.name, file.path, file.transcript ?? null)}`;
+              } else {
+                prompt += `\n\n[File: ${file.name} (${file.type})]\nIMPORTANT: The file has been saved to: ${file.path}`;
+              }
+            }
+          }
 
-  getSessionKey(payload: any): string {
-    return `discord-${payload.channel_id}`;
-  },
+          onEvent({
+            sessionKey,
+            prompt,
+            payload: {
+              type: "message",
+              channel_id: channelId,
+              from,
+              user_id: msg.author.id,
+              username: msg.author.username,
+              text,
+              message_id: messageId,
+              downloaded_files: downloadedFiles,
+              _client: client,
+            },
+            message: {
+              text,
+              from,
+              isMessage: true,
+            },
+          });
+        });
+      });
 
-  // New interface: getCustomPrompt()
-  getCustomPrompt(): string {
-    return this.getChannelContext!();
-  },
+      await client.login(botToken);
+      log(`[DiscordChannel] Bot logged in as ${client.user?.tag}${botLabel}`);
 
-  // Legacy interface: getChannelContext()
-  getChannelContext(): string {
-    return `[Channel: Discord]
+      // Return stop function
+      return () => {
+        client.destroy();
+        log(`[DiscordChannel] Bot stopped${botLabel}`);
+      };
+    },
+
+    // New interface: createStreamHandler()
+    createStreamHandler(event: ChannelEvent): StreamHandler {
+      const discordClient = event.payload._client || currentClient || undefined;
+      return new DiscordStreamHandler(event.payload.channel_id, event.payload.message_id, discordClient, botProfile?.botToken);
+    },
+
+    // Legacy interface: createHandler()
+    createHandler(event: ChannelEvent): ChannelEventHandler {
+      const verbosity = event.payload.verbosity || "streaming";
+      const discordClient = event.payload._client || currentClient || undefined;
+      return new DiscordEventHandler(event.payload.channel_id, event.payload.message_id, verbosity, discordClient, botProfile?.botToken);
+    },
+
+    getSessionKey(payload: any): string {
+      return sessionKeyFor(payload.channel_id);
+    },
+
+    // New interface: getCustomPrompt()
+    getCustomPrompt(): string {
+      return this.getChannelContext!();
+    },
+
+    // Legacy interface: getChannelContext()
+    getChannelContext(): string {
+      return `[Channel: Discord]
 - To send files: Use mcp__discord__send_file with the channel ID and file path
 - To add reactions: Use mcp__discord__add_reaction with channel ID, message ID, and emoji
 - To remove reactions: Use mcp__discord__remove_reaction
 - Channel ID for this conversation is in the payload`;
+    },
+  };
+}
+
+export const DiscordChannel = createDiscordChannel();
+
+export const DiscordPlugin: ChannelPlugin = {
+  manifest: {
+    name: "discord",
+    description: "Discord channels and DMs",
+    defaultResponseStyle: "streaming",
+    supportsCommands: true,
+  },
+  createChannel: () => DiscordChannel,
+  profileCredentialKeys: ["DISCORD_BOT_TOKEN"],
+  createProfileChannel: (settings, profile, credentials) =>
+    createDiscordChannel({ name: profile, botToken: credentials.DISCORD_BOT_TOKEN }),
+  getMemoryEntry(payload) {
+    return { from: payload.from || "Unknown", text: appendTranscripts(payload.text, payload.downloaded_files) };
+  },
+  getSenderIds(payload) {
+    return [payload.user_id, payload.username];
   },
 };
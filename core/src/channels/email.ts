@@ -2,16 +2,15 @@ import { google } from "googleapis";
 import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
-import { fileURLToPath } from "url";
 import { marked } from "marked";
+import { getPhouseConfig } from "../config.js";
 import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, StreamEvent } from "./types.js";
+import type { ChannelPlugin } from "./registry.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
 
-const CREDENTIALS_PATH = "/home/ubuntu/pHouseMcp/credentials/client_secret.json";
-const TOKEN_PATH = "/home/ubuntu/pHouseMcp/credentials/tokens.json";
+const CREDENTIALS_PATH = getPhouseConfig().paths.googleCredentialsFile;
+const TOKEN_PATH = getPhouseConfig().paths.googleTokenFile;
 const STATE_PATH = path.join(PROJECT_ROOT, "listeners/gmail/last_history_id.txt");
 const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
 const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
@@ -27,7 +26,7 @@ if (!fs.existsSync(FILES_DIR)) {
 }
 
 // Email security config
-const EMAIL_SECURITY_CONFIG_FILE = path.join(PROJECT_ROOT, "config/email-security.json");
+const EMAIL_SECURITY_CONFIG_FILE = getPhouseConfig().paths.emailSecurityConfig;
 
 interface EmailSecurityConfig {
   trustedEmailAddresses: string[];
@@ -604,3 +603,23 @@ ${email.body}`;
 - Each email thread runs independently - different threads can process in parallel`;
   },
 };
+
+export const EmailPlugin: ChannelPlugin = {
+  manifest: {
+    name: "email",
+    description: "Gmail threads",
+    defaultResponseStyle: "final",
+    supportsCommands: true,
+    // Anyone can put any address in From
+    forgeableSenderIds: true,
+  },
+  createChannel: () => EmailChannel,
+  getMemoryEntry(payload) {
+    return { from: payload.from, text: `Subject: ${payload.subject} | ${payload.body}` };
+  },
+  getSenderIds(payload) {
+    // "Name <email@address.com>" - just the address
+    const from: string = payload.from || "";
+    return [from.match(/<(.+)>/)?.[1] || from];
+  },
+};
@@ -2,16 +2,16 @@ import { google } from "googleapis";
 import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
-import { fileURLToPath } from "url";
+import { getPhouseConfig } from "../config.js";
 import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, StreamEvent } from "./types.js";
+import type { ChannelPlugin } from "./registry.js";
 import { OutputHandler, type Verbosity } from "./output-handler.js";
+import { isAudioFile, transcribeAudio, describeAudioForPrompt, appendTranscripts } from "../transcription.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
 
-const CREDENTIALS_PATH = "/home/ubuntu/pHouseMcp/credentials/client_secret.json";
-const TOKEN_PATH = "/home/ubuntu/pHouseMcp/credentials/tokens.json";
+const CREDENTIALS_PATH = getPhouseConfig().paths.googleCredentialsFile;
+const TOKEN_PATH = getPhouseConfig().paths.googleTokenFile;
 const STATE_PATH = path.join(PROJECT_ROOT, "listeners/gchat/last_message_time.txt");
 const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
 const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
@@ -56,7 +56,8 @@ function isSentMessage(text: string): boolean {
 }
 
 // Security config file path
-const GCHAT_SECURITY_CONFIG_FILE = path.join(PROJECT_ROOT, "config/gchat-security.json");
+const GCHAT_SECURITY_CONFIG_FILE = getPhouseConfig().paths.gchatSecurityConfig;
+const TRANSCRIPTION_CONFIG_FILE = getPhouseConfig().paths.transcriptionConfig;
 
 interface GChatSecurityConfig {
   allowedSpaces: string[];
@@ -302,6 +303,20 @@ export const GChatChannel: Channel & ChannelDefinition = {
     const recentMessageTexts = new Map<string, number>();
     const ECHO_DETECTION_WINDOW_MS = 60000; // 1 minute window
 
+    // Transcribing a voice note can take minutes, so messages are handed over
+    // from a queue per space instead of inside the polling loop. Other spaces
+    // keep being polled; later messages in the same space wait their turn.
+    const deliveryQueues = new Map<string, Promise<void>>();
+    function deliverInOrder(spaceName: string, deliver: () => Promise<void>) {
+      const queued = (deliveryQueues.get(spaceName) ?? Promise.resolve())
+        .then(deliver)
+        .catch((err) => log(`[GChatChannel] Failed to deliver message in ${spaceName}: ${err}`));
+      deliveryQueues.set(spaceName, queued);
+      queued.then(() => {
+        if (deliveryQueues.get(spaceName) === queued) deliveryQueues.delete(spaceName);
+      });
+    }
+
     async function checkForNewMessages() {
       const config = loadSecurityConfig();
 
@@ -424,7 +439,7 @@ export const GChatChannel: Channel & ChannelDefinition = {
 
               // Extract and download attachments if present
               const rawAttachments = msg.attachment || [];
-              const downloadedFiles: { path: string; name: string; type: string }[] = [];
+              const downloadedFiles: { path: string; name: string; type: string; transcript?: string }[] = [];
 
               for (const att of rawAttachments) {
                 const resourceName = att.attachmentDataRef?.resourceName;
@@ -448,39 +463,44 @@ export const GChatChannel: Channel & ChannelDefinition = {
 
               const sessionKey = `gchat-${spaceName.replace(/\//g, "-")}`;
 
-              // Build prompt with file paths like Telegram does
-              let prompt = `[Google Chat from ${senderDisplayName || "Someone"} | space: ${spaceName} | msg: ${msgName}]: ${text}`;
-              if (downloadedFiles.length > 0) {
-                for (const file of downloadedFiles) {
-                  const isImage = file.type.startsWith("image/");
-                  const isPdf = file.type === "application/pdf";
-                  if (isImage) {
-                    prompt += `\n\n[Image: ${file.name}]\nIMPORTANT: Use the Read tool to view the image at: ${file.path}`;
-                  } else if (isPdf) {
-                    prompt += `\n\n[PDF: ${file.name}]\nIMPORTANT: The PDF has been saved to: ${file.path}`;
-                  } else {
-                    prompt += `\n\n[File: ${file.name} (${file.type})]\nIMPORTANT: The file has been saved to: ${file.path}`;
+              deliverInOrder(spaceName, async () => {
+                // Build prompt with file paths like Telegram does
+                let prompt = `[Google Chat from ${senderDisplayName || "Someone"} | space: ${spaceName} | msg: ${msgName}]: ${text}`;
+                if (downloadedFiles.length > 0) {
+                  for (const file of downloadedFiles) {
+                    const isImage = file.type.startsWith("image/");
+                    const isPdf = file.type === "application/pdf";
+                    if (isImage) {
+                      prompt += `\n\n[Image: ${file.name}]\nIMPORTANT: Use the Read tool to view the image at: ${file.path}`;
+                    } else if (isPdf) {
+                      prompt += `\n\n[PDF: ${file.name}]\nIMPORTANT: The PDF has been saved to: ${file.path}`;
+                    } else if (isAudioFile(file.type, file.name)) {
+                      file.transcript = (await transcribeAudio(TRANSCRIPTION_CONFIG_FILE, file.path, log)) ?? undefined;
+                      prompt += `\n\n${describeAudioForPrompt(file.name, file.path, file.transcript ?? null)}`;
+                    } else {
+                      prompt += `\n\n[File: ${file.name} (${file.type})]\nIMPORTANT: The file has been saved to: ${file.path}`;
+                    }
                   }
                 }
-              }
 
-              onEvent({
-                sessionKey,
-                prompt,
-                payload: {
-                  type: "message",
-                  space_name: spaceName,
-                  sender_name: senderDisplayName || "Someone",
-                  sender_user_id: senderUserId,
-                  text,
-                  message_name: msgName,
-                  downloaded_files: downloadedFiles,
-                },
-                message: {
-                  text,
-                  from: senderDisplayName || "Someone",
-                  isMessage: true,
-                },
+                onEvent({
+                  sessionKey,
+                  prompt,
+                  payload: {
+                    type: "message",
+                    space_name: spaceName,
+                    sender_name: senderDisplayName || "Someone",
+                    sender_user_id: senderUserId,
+                    text,
+                    message_name: msgName,
+                    downloaded_files: downloadedFiles,
+                  },
+                  message: {
+                    text,
+                    from: senderDisplayName || "Someone",
+                    isMessage: true,
+                  },
+                });
               });
             }
           } catch (err: any) {
@@ -553,3 +573,19 @@ export const GChatChannel: Channel & ChannelDefinition = {
 - To send attachments: Use mcp__google-chat__send_attachment with the space name and file path`;
   },
 };
+
+export const GChatPlugin: ChannelPlugin = {
+  manifest: {
+    name: "gchat",
+    description: "Google Chat spaces",
+    defaultResponseStyle: "streaming",
+    supportsCommands: true,
+  },
+  createChannel: () => GChatChannel,
+  getMemoryEntry(payload) {
+    return { from: payload.sender_name || "Unknown", text: appendTranscripts(payload.text, payload.downloaded_files) };
+  },
+  getSenderIds(payload) {
+    return [payload.sender_user_id];
+  },
+};
@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getPhouseConfig } from "../config.js";
+import {
+  getPendingEvents,
+  updatePendingEvent,
+  markProcessed,
+  INBOX_EVENT_TYPE,
+  type Event as StoredEvent,
+  type InboxMessage,
+} from "../events.js";
+import type { Channel, ChannelEvent, StreamEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, ConcurrencyMode } from "./types.js";
+import type { ChannelPlugin, ChannelSettings } from "./registry.js";
+import { createReplyHandler, createReplyStreamHandler, type ReplyTarget } from "./reply-targets.js";
+
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
+
+const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
+const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
+
+const DEFAULT_POLL_SECONDS = 2;
+// Same limit as the watcher's own replays - an event that keeps crashing it is dropped
+const MAX_ATTEMPTS = 3;
+const CONCURRENCY_MODES: ConcurrencyMode[] = ["none", "global", "session"];
+
+// Events handed to the watcher by this process - they stay in pending until acked,
+// and a listener restarted for new settings mustn't hand them over again
+const claimed = new Set<string>();
+
+function log(message: string) {
+  const timestamp = new Date().toISOString();
+  const line = `[${timestamp}] ${message}\n`;
+  fs.appendFileSync(LOG_FILE, line);
+}
+
+// Session keys and lock groups only take word characters and dashes
+function toKeyPart(value: string): string {
+  return value.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 64) || "default";
+}
+
+function buildPrompt(from: string, message: InboxMessage): string {
+  let prompt = `[Inbox from ${from}]: ${message.text}`;
+  const attachments = message.attachments || [];
+  if (attachments.length > 0) {
+    const lines = attachments.map(file => fs.existsSync(file) ? `- ${file}` : `- ${file} (not found)`);
+    prompt += `\n\nAttachments:\n${lines.join("\n")}`;
+  }
+  return prompt;
+}
+
+// The event file doubles as the durable queue record, so the watcher acks it
+// in place instead of persisting a copy
+function toChannelEvent(stored: StoredEvent): ChannelEvent {
+  const message = stored.payload as unknown as InboxMessage;
+  const from = message.from || stored.source;
+  const attachments = (message.attachments || []).filter(file => typeof file === "string");
+  return {
+    sessionKey: `inbox-${toKeyPart(message.sessionKey || stored.source)}`,
+    prompt: buildPrompt(from, { ...message, attachments }),
+    payload: {
+      source: stored.source,
+      from,
+      text: message.text,
+      attachments,
+      reply: message.replyTo,
+    },
+    message: {
+      text: message.text,
+      from,
+      isMessage: true,
+    },
+    eventId: stored.id,
+    ...(message.concurrency && CONCURRENCY_MODES.includes(message.concurrency) ? { concurrency: message.concurrency } : {}),
+    concurrencyGroup: `inbox-${toKeyPart(stored.source)}`,
+  };
+}
+
+// Why an inbox event can't be handled, or null if it can
+function getRejectReason(stored: StoredEvent): string | null {
+  const message = stored.payload as Partial<InboxMessage>;
+  if (typeof message.text !== "string" || !message.text.trim()) {
+    return "Inbox events need a text field";
+  }
+  if (message.attachments !== undefined && !Array.isArray(message.attachments)) {
+    return "attachments must be a list of file paths";
+  }
+  if (message.replyTo && (typeof message.replyTo.channel !== "string" || !message.replyTo.to)) {
+    return "replyTo needs a channel and a destination";
+  }
+  return null;
+}
+
+// Relays to the reply destination (if any) and records the reply on the event,
+// so it ends up in events/processed alongside the watcher's outcome
+class InboxEventHandler implements ChannelEventHandler {
+  private textBuffer = "";
+  private isComplete = false;
+
+  constructor(private event: ChannelEvent, private reply: ChannelEventHandler) {}
+
+  onWorkStarted(): void {
+    this.reply.onWorkStarted?.();
+  }
+
+  onStreamEvent(event: StreamEvent): void {
+    if (event.type === "assistant" && event.message?.content) {
+      const text = event.message.content
+        .filter((c: any) => c.type === "text")
+        .map((c: any) => c.text)
+        .join("");
+      if (text) this.textBuffer += (this.textBuffer ? "\n\n" : "") + text;
+    }
+    this.reply.onStreamEvent(event);
+  }
+
+  onWorkComplete(): void {
+    this.reply.onWorkComplete?.();
+  }
+
+  onComplete(code: number): void {
+    this.reply.onComplete(code);
+    if (this.isComplete) return;
+    this.isComplete = true;
+
+    // A merged event answers every message it was built from
+    const parts = this.event.parts || [this.event];
+    for (const part of parts) {
+      if (!part.eventId) continue;
+      try {
+        updatePendingEvent(part.eventId, { result: { reply: this.textBuffer.trim(), exitCode: code } });
+      } catch (err) {
+        log(`[InboxChannel] Failed to record the reply for ${part.eventId}: ${err}`);
+      }
+    }
+  }
+}
+
+export function createInboxChannel(settings: ChannelSettings = {}): Channel & ChannelDefinition {
+  const pollSeconds = typeof settings.pollSeconds === "number" && settings.pollSeconds > 0
+    ? settings.pollSeconds
+    : DEFAULT_POLL_SECONDS;
+
+  return {
+    name: "inbox",
+    // Each event can pick its own mode - this is the default for events that don't
+    concurrency: "session",
+
+    // New interface: listen()
+    async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      return this.startListener(onEvent);
+    },
+
+    // Legacy interface: startListener()
+    async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      const checkInbox = () => {
+        const pending = getPendingEvents();
+        const pendingIds = new Set(pending.map(e => e.id));
+        for (const id of claimed) {
+          if (!pendingIds.has(id)) claimed.delete(id);
+        }
+
+        for (const stored of pending) {
+          if (stored.type !== INBOX_EVENT_TYPE || claimed.has(stored.id)) continue;
+
+          // Held by crash recovery: it was running when the watcher went down, and
+          // nobody is there to ask about a retry - the sender can drop it again
+          if (stored.held) {
+            log(`[InboxChannel] Event ${stored.id} from ${stored.source} was interrupted by a restart`);
+            markProcessed(stored.id, { outcome: "interrupted", error: "The watcher restarted while this event was running" });
+            continue;
+          }
+
+          const rejectReason = getRejectReason(stored);
+          if (rejectReason) {
+            log(`[InboxChannel] Rejected event ${stored.id} from ${stored.source}: ${rejectReason}`);
+            markProcessed(stored.id, { outcome: "rejected", error: rejectReason });
+            continue;
+          }
+
+          // Each run hands an event over once - still pending after a few runs means it keeps crashing the watcher
+          const attempts = (stored.attempts || 0) + 1;
+          if (attempts > MAX_ATTEMPTS) {
+            log(`[InboxChannel] Abandoning event ${stored.id} after ${MAX_ATTEMPTS} attempts`);
+            markProcessed(stored.id, { outcome: "abandoned" });
+            continue;
+          }
+          updatePendingEvent(stored.id, { attempts });
+
+          claimed.add(stored.id);
+          const event = toChannelEvent(stored);
+          log(`[InboxChannel] Received event ${stored.id} from ${stored.source} for ${event.sessionKey}`);
+          onEvent(event);
+        }
+      };
+
+      const poll = () => {
+        try {
+          checkInbox();
+        } catch (err) {
+          log(`[InboxChannel] Error checking the inbox: ${err}`);
+        }
+      };
+
+      poll();
+      const interval = setInterval(poll, pollSeconds * 1000);
+      log(`[InboxChannel] Watching events/pending every ${pollSeconds}s`);
+
+      return () => {
+        clearInterval(interval);
+        log("[InboxChannel] Listener stopped");
+      };
+    },
+
+    // New interface: createStreamHandler()
+    createStreamHandler(event: ChannelEvent): StreamHandler {
+      return createReplyStreamHandler(event, event.payload.reply as ReplyTarget | undefined);
+    },
+
+    // Legacy interface: createHandler()
+    createHandler(event: ChannelEvent): ChannelEventHandler {
+      return new InboxEventHandler(event, createReplyHandler(event, event.payload.reply as ReplyTarget | undefined));
+    },
+
+    getSessionKey(payload: any): string {
+      return `inbox-${toKeyPart(payload.source)}`;
+    },
+
+    // New interface: getCustomPrompt()
+    getCustomPrompt(): string {
+      return this.getChannelContext!();
+    },
+
+    // Legacy interface: getChannelContext()
+    getChannelContext(): string {
+      return `[Channel: Inbox]
+- This request was dropped in the event inbox by a local script, MCP server or scheduled job, not typed by a person
+- Your final reply is written to the event's result for the sender to pick up, and relayed to its reply-to destination if it has one
+- Attachments are local file paths - read them with your file tools`;
+    },
+  };
+}
+
+export const InboxPlugin: ChannelPlugin = {
+  manifest: {
+    name: "inbox",
+    description: "Events dropped in events/pending by local scripts, MCP servers and cron jobs",
+    defaultResponseStyle: "final",
+    supportsCommands: false,
+    // Anything that can write to events/pending gets a prompt in, so only when asked
+    defaultEnabled: false,
+    configSchema: {
+      pollSeconds: { type: "number", label: "Check every (seconds)", description: `Default: ${DEFAULT_POLL_SECONDS}` },
+    },
+  },
+  createChannel: createInboxChannel,
+  getMemoryEntry(payload) {
+    return { from: `inbox ${payload.from}`, text: payload.text };
+  },
+};
@@ -1,7 +1,10 @@
 // Channel types and definitions
 export * from "./types.js";
-export { TelegramChannel } from "./telegram.js";
-export { EmailChannel } from "./email.js";
-export { GChatChannel } from "./gchat.js";
-export { DiscordChannel } from "./discord.js";
-export { DashboardChannel } from "./dashboard.js";
+export * from "./registry.js";
+export { TelegramChannel, TelegramPlugin } from "./telegram.js";
+export { EmailChannel, EmailPlugin } from "./email.js";
+export { GChatChannel, GChatPlugin } from "./gchat.js";
+export { DiscordChannel, DiscordPlugin } from "./discord.js";
+export { DashboardChannel, DashboardPlugin } from "./dashboard.js";
+export { createWebhookChannel, WebhookPlugin } from "./webhook.js";
+export { createInboxChannel, InboxPlugin } from "./inbox.js";
@@ -0,0 +1,101 @@
+/**
+ * Edit-in-place replies for the "live" response style
+ *
+ * Instead of a new message for every chunk, the reply is posted once and then
+ * edited as text arrives. Edits are spaced out to stay under the platform's
+ * rate limit - updates that come in between are folded into the next edit.
+ * Once the reply outgrows one message, the full part is left as it is and
+ * the rest continues in a new message.
+ */
+
+export interface LiveMessageTransport<Id> {
+  send(text: string): Promise<Id>;
+  edit(id: Id, text: string): Promise<void>;
+}
+
+export interface LiveMessageOptions {
+  // Splits the reply into message-sized parts (earlier parts must not change as text is appended)
+  split: (text: string) => string[];
+  minEditIntervalMs: number;
+  log?: (message: string) => void;
+}
+
+const FINISH_ATTEMPTS = 3;
+
+export class LiveMessage<Id> {
+  private transport: LiveMessageTransport<Id>;
+  private options: LiveMessageOptions;
+  private messages: Array<{ id: Id; text: string }> = [];
+  private latest = "";
+  private lastFlushAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<boolean> | null = null;
+  private finished = false;
+
+  constructor(transport: LiveMessageTransport<Id>, options: LiveMessageOptions) {
+    this.transport = transport;
+    this.options = options;
+  }
+
+  /**
+   * The whole reply so far - shown with the next edit
+   */
+  update(text: string): void {
+    this.latest = text;
+    if (this.finished || this.timer || this.flushing) return;
+    const wait = Math.max(0, this.lastFlushAt + this.options.minEditIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, wait);
+  }
+
+  /**
+   * Show the final text, retrying a failed edit a couple of times
+   */
+  async finish(text: string): Promise<void> {
+    this.latest = text;
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (let attempt = 0; attempt < FINISH_ATTEMPTS; attempt++) {
+      if (this.flushing) await this.flushing;
+      const wait = this.lastFlushAt + this.options.minEditIntervalMs - Date.now();
+      if (wait > 0) await new Promise(r => setTimeout(r, wait));
+      if (await this.flush()) return;
+    }
+  }
+
+  private flush(): Promise<boolean> {
+    const text = this.latest;
+    const run = async (): Promise<boolean> => {
+      const parts = this.options.split(text).filter(part => part.trim());
+      try {
+        for (let i = 0; i < parts.length; i++) {
+          const sent = this.messages[i];
+          if (!sent) {
+            this.messages.push({ id: await this.transport.send(parts[i]), text: parts[i] });
+          } else if (sent.text !== parts[i]) {
+            await this.transport.edit(sent.id, parts[i]);
+            sent.text = parts[i];
+          }
+        }
+        return true;
+      } catch (err) {
+        this.options.log?.(`[LiveMessage] Update failed: ${err}`);
+        return false;
+      } finally {
+        this.lastFlushAt = Date.now();
+      }
+    };
+
+    this.flushing = run().finally(() => {
+      this.flushing = null;
+      // Text that arrived during the edit goes out with the next one
+      if (this.latest !== text) this.update(this.latest);
+    });
+    return this.flushing;
+  }
+}
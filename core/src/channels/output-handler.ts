@@ -1,6 +1,6 @@
 import type { StreamEvent } from "./types.js";
 
-export type Verbosity = "streaming" | "bundled" | "progress" | "final";
+export type Verbosity = "streaming" | "live" | "bundled" | "progress" | "final";
 
 export interface OutputHandlerConfig {
   verbosity?: Verbosity;
@@ -8,11 +8,15 @@ export interface OutputHandlerConfig {
 
 export interface OutputHandlerCallbacks {
   onSend: (message: string) => void;
+  // live: the whole reply so far, every time it grows (done on the last call).
+  // Channels that can edit messages show it in place - without this, live streams.
+  onUpdate?: (text: string, done: boolean) => void;
 }
 
 /**
  * Simple output handler - no buffering, no timers.
  * - streaming: send each text chunk immediately
+ * - live: accumulate, and hand the growing reply to onUpdate after every chunk
  * - bundled/final: accumulate everything, send at the end
  * - progress: send tool notifications only
  */
@@ -24,6 +28,9 @@ export class OutputHandler {
 
   constructor(config: OutputHandlerConfig, callbacks: OutputHandlerCallbacks) {
     this.verbosity = config.verbosity || "streaming";
+    if (this.verbosity === "live" && !callbacks.onUpdate) {
+      this.verbosity = "streaming";
+    }
     this.callbacks = callbacks;
   }
 
@@ -44,11 +51,14 @@ export class OutputHandler {
         // Send immediately - no buffering
         this.callbacks.onSend(text);
       } else {
-        // bundled or final - accumulate
+        // live, bundled or final - accumulate
         if (isNewTurn && this.textBuffer.trim()) {
           this.textBuffer += "\n\n";
         }
         this.textBuffer += text;
+        if (this.verbosity === "live") {
+          this.callbacks.onUpdate!(this.textBuffer.trim(), false);
+        }
       }
     }
 
@@ -64,6 +74,12 @@ export class OutputHandler {
     if (this.isComplete) return;
     this.isComplete = true;
 
+    if (this.verbosity === "live") {
+      this.callbacks.onUpdate!(this.textBuffer.trim(), true);
+      this.textBuffer = "";
+      return;
+    }
+
     // Send any accumulated text (bundled/final modes)
     if (this.textBuffer.trim()) {
       this.callbacks.onSend(this.textBuffer.trim());
@@ -0,0 +1,246 @@
+/**
+ * Channel registry
+ *
+ * Everything the watcher needs to know about a channel beyond listening and
+ * replying - its default response style, whether it takes /commands, how its
+ * messages are logged to memory and what settings it needs - lives in the
+ * channel's manifest, so adding a channel doesn't mean patching the watcher.
+ *
+ * The built-in channels register themselves from their own modules. Others
+ * are discovered in the plugins directory (PHOUSE_CHANNEL_PLUGINS_DIR, see
+ * config.ts), one directory per channel:
+ *
+ *   channels/matrix/manifest.json
+ *   {
+ *     "name": "matrix",
+ *     "description": "Matrix rooms",
+ *     "entry": "index.ts",
+ *     "defaultResponseStyle": "streaming",
+ *     "supportsCommands": true,
+ *     "configSchema": {
+ *       "homeserver": { "type": "string", "label": "Homeserver URL", "required": true },
+ *       "accessToken": { "type": "string", "label": "Access token", "required": true, "sensitive": true }
+ *     }
+ *   }
+ *
+ *   channels/matrix/index.ts
+ *   export function createChannel(settings): ChannelDefinition
+ *   export function getMemoryEntry(payload): { from?, text } | null   (optional)
+ *   export function getSenderIds(payload): string[]                  (optional)
+ *
+ * Settings come from channels.json (channels.<name>.settings) and are checked
+ * against the schema before the channel starts. A channel whose sender ids
+ * can be forged sets "forgeableSenderIds": contacts matched on them are shown
+ * to the assistant as unverified, without their trust level or notes.
+ *
+ * A channel that logs in with a bot token can also run one listener per
+ * assistant profile: profileCredentialKeys names the variables a profile's
+ * .env may set, and createProfileChannel builds a listener on them. Its
+ * events go to that profile whatever the routing rules say.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type { ChannelDefinition } from "./types.js";
+
+export type ChannelResponseStyle = "streaming" | "bundled" | "final" | "live";
+
+export interface ChannelConfigField {
+  type: "string" | "number" | "boolean" | "string[]";
+  label: string;
+  description?: string;
+  required?: boolean;
+  sensitive?: boolean;   // Masked in the dashboard
+}
+
+export interface ChannelManifest {
+  name: string;
+  description?: string;
+  entry?: string;                               // Module to load, relative to the manifest. Default: index.ts
+  defaultResponseStyle?: ChannelResponseStyle;  // Default: streaming
+  supportsCommands?: boolean;                   // /stop, /new, ... Default: false
+  defaultEnabled?: boolean;                     // When channels.json doesn't say. Default: true
+  forgeableSenderIds?: boolean;                 // Anyone can claim a sender id (an email's From). Default: false
+  configSchema?: Record<string, ChannelConfigField>;
+}
+
+// What gets written to short-term memory for an incoming message
+export interface ChannelMemoryEntry {
+  from?: string;
+  text: string;
+}
+
+export type ChannelSettings = Record<string, unknown>;
+
+export interface ChannelPlugin {
+  manifest: ChannelManifest;
+  createChannel(settings: ChannelSettings): ChannelDefinition;
+  // Memory-logging hook - null (or no hook) means the message isn't logged
+  getMemoryEntry?(payload: any): ChannelMemoryEntry | null;
+  // Stable ids for the sender of a message, matched against contacts (contacts.ts)
+  getSenderIds?(payload: any): string[];
+  // Variables in a profile's .env that give it its own listener (e.g. TELEGRAM_BOT_TOKEN)
+  profileCredentialKeys?: string[];
+  // That listener - the channel's name stays the same, with channel.profile set
+  createProfileChannel?(settings: ChannelSettings, profile: string, credentials: Record<string, string>): ChannelDefinition;
+  source?: string;  // Plugin directory, unset for built-ins
+}
+
+const RESPONSE_STYLES: ChannelResponseStyle[] = ["streaming", "bundled", "final", "live"];
+const FIELD_TYPES: ChannelConfigField["type"][] = ["string", "number", "boolean", "string[]"];
+
+// Channel names prefix session keys ("telegram-123"), so no dashes
+export function isValidChannelName(name: string): boolean {
+  return /^[a-z][a-z0-9_]*$/.test(name) && name.length <= 32;
+}
+
+/**
+ * Problems with a manifest, or an empty list if it's usable
+ */
+export function validateChannelManifest(manifest: ChannelManifest): string[] {
+  const errors: string[] = [];
+  if (typeof manifest.name !== "string" || !isValidChannelName(manifest.name)) {
+    errors.push(`Invalid channel name: ${manifest.name} (lowercase letters, digits and underscores)`);
+  }
+  if (manifest.defaultResponseStyle && !RESPONSE_STYLES.includes(manifest.defaultResponseStyle)) {
+    errors.push(`Unknown response style: ${manifest.defaultResponseStyle}`);
+  }
+  for (const [key, field] of Object.entries(manifest.configSchema || {})) {
+    if (!field || !FIELD_TYPES.includes(field.type)) {
+      errors.push(`Setting ${key} has an unknown type: ${field?.type}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Problems with a channel's settings, or an empty list if they match its schema
+ */
+export function validateChannelSettings(manifest: ChannelManifest, settings: ChannelSettings): string[] {
+  const errors: string[] = [];
+  for (const [key, field] of Object.entries(manifest.configSchema || {})) {
+    const value = settings[key];
+    if (value === undefined || value === null || value === "") {
+      if (field.required) errors.push(`${field.label || key} is required`);
+      continue;
+    }
+    const matches =
+      field.type === "string[]"
+        ? Array.isArray(value) && value.every(item => typeof item === "string")
+        : typeof value === field.type;
+    if (!matches) {
+      errors.push(`${field.label || key} must be a ${field.type}`);
+    }
+  }
+  return errors;
+}
+
+export class ChannelRegistry {
+  private plugins: Map<string, ChannelPlugin> = new Map();
+
+  register(plugin: ChannelPlugin): void {
+    const errors = validateChannelManifest(plugin.manifest);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    if (this.plugins.has(plugin.manifest.name)) {
+      throw new Error(`Channel ${plugin.manifest.name} is already registered`);
+    }
+    this.plugins.set(plugin.manifest.name, plugin);
+  }
+
+  get(name: string): ChannelPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  list(): ChannelPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  names(): string[] {
+    return [...this.plugins.keys()];
+  }
+
+  supportsCommands(name: string): boolean {
+    return this.plugins.get(name)?.manifest.supportsCommands === true;
+  }
+
+  getDefaultResponseStyle(name: string): ChannelResponseStyle | undefined {
+    return this.plugins.get(name)?.manifest.defaultResponseStyle;
+  }
+
+  getMemoryEntry(name: string, payload: any): ChannelMemoryEntry | null {
+    const plugin = this.plugins.get(name);
+    if (!plugin?.getMemoryEntry) return null;
+    return plugin.getMemoryEntry(payload);
+  }
+
+  getSenderIds(name: string, payload: any): string[] {
+    const plugin = this.plugins.get(name);
+    if (!plugin?.getSenderIds) return [];
+    return plugin.getSenderIds(payload).filter(id => typeof id === "string" && id.length > 0);
+  }
+
+  hasForgeableSenderIds(name: string): boolean {
+    return this.plugins.get(name)?.manifest.forgeableSenderIds === true;
+  }
+}
+
+/**
+ * Manifests in the plugins directory, without loading any code (for the
+ * dashboard API). Unreadable manifests are skipped.
+ */
+export function readChannelManifests(pluginsDir: string): Array<{ dir: string; manifest: ChannelManifest }> {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(pluginsDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const manifests: Array<{ dir: string; manifest: ChannelManifest }> = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(pluginsDir, entry.name);
+    try {
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, "manifest.json"), "utf-8")) as ChannelManifest;
+      manifests.push({ dir, manifest });
+    } catch {
+      // Not a channel plugin
+    }
+  }
+  return manifests;
+}
+
+/**
+ * Load the plugins directory into the registry. A broken plugin is logged and
+ * skipped so it can't take the other channels down with it.
+ */
+export async function loadChannelPlugins(
+  pluginsDir: string,
+  registry: ChannelRegistry,
+  log: (message: string) => void
+): Promise<string[]> {
+  const loaded: string[] = [];
+  for (const { dir, manifest } of readChannelManifests(pluginsDir)) {
+    try {
+      const entry = path.resolve(dir, manifest.entry || "index.ts");
+      const module = await import(pathToFileURL(entry).href);
+      if (typeof module.createChannel !== "function") {
+        throw new Error(`${entry} doesn't export createChannel()`);
+      }
+      registry.register({
+        manifest,
+        createChannel: module.createChannel,
+        getMemoryEntry: typeof module.getMemoryEntry === "function" ? module.getMemoryEntry : undefined,
+        getSenderIds: typeof module.getSenderIds === "function" ? module.getSenderIds : undefined,
+        source: dir,
+      });
+      loaded.push(manifest.name);
+    } catch (err) {
+      log(`[Channels] Failed to load plugin in ${dir}: ${err}`);
+    }
+  }
+  return loaded;
+}
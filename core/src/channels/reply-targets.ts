@@ -0,0 +1,66 @@
+// Reply destinations for channels with no conversation of their own (webhook, inbox):
+// the answer is relayed through another channel's handler instead
+import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler } from "./types.js";
+import { TelegramChannel } from "./telegram.js";
+import { DiscordChannel } from "./discord.js";
+import { GChatChannel } from "./gchat.js";
+
+export interface ReplyTarget {
+  channel: string;  // telegram, discord or gchat
+  to: string;       // Chat ID, channel ID or space name
+}
+
+// By the payload fields each channel's handler reads
+const REPLY_CHANNELS: Record<string, { channel: ChannelDefinition & Channel; payload: (to: string) => Record<string, unknown> }> = {
+  telegram: { channel: TelegramChannel, payload: (to) => ({ chat_id: Number(to), message_id: null }) },
+  discord: { channel: DiscordChannel, payload: (to) => ({ channel_id: to }) },
+  gchat: { channel: GChatChannel, payload: (to) => ({ space_name: to }) },
+};
+
+export const REPLY_CHANNEL_NAMES = Object.keys(REPLY_CHANNELS);
+
+// For events without a reply destination - the answer is still in the job log and memory
+export class SilentHandler implements ChannelEventHandler, StreamHandler {
+  async relayMessage(): Promise<void> {}
+  onStreamEvent(): void {}
+  onComplete(): void {}
+}
+
+// The event as the reply channel's own handler expects it
+function toReplyEvent(event: ChannelEvent, reply: ReplyTarget | undefined): { channel: ChannelDefinition & Channel; event: ChannelEvent } | null {
+  const target = reply ? REPLY_CHANNELS[reply.channel] : undefined;
+  if (!reply || !target) return null;
+  return {
+    channel: target.channel,
+    event: { ...event, payload: { ...target.payload(reply.to), verbosity: event.payload.verbosity } },
+  };
+}
+
+export function createReplyHandler(event: ChannelEvent, reply: ReplyTarget | undefined): ChannelEventHandler {
+  const target = toReplyEvent(event, reply);
+  return target ? target.channel.createHandler(target.event) : new SilentHandler();
+}
+
+/**
+ * Send a one-off message to a reply target (e.g., an approval request)
+ */
+export function sendToReplyTarget(reply: ReplyTarget, message: string): void {
+  const handler = createReplyHandler({ sessionKey: `notify-${reply.channel}`, prompt: "", payload: {}, message: { isMessage: false } }, reply);
+  handler.onStreamEvent({ type: "assistant", message: { content: [{ type: "text", text: message }] } });
+  handler.onComplete(0);
+}
+
+/**
+ * Did this payload come from the reply target's chat?
+ */
+export function isFromReplyTarget(channelName: string, payload: Record<string, unknown>, reply: ReplyTarget | undefined): boolean {
+  const target = reply && reply.channel === channelName ? REPLY_CHANNELS[reply.channel] : undefined;
+  if (!reply || !target) return false;
+  return Object.entries(target.payload(reply.to))
+    .every(([key, value]) => value === null || String(payload[key]) === String(value));
+}
+
+export function createReplyStreamHandler(event: ChannelEvent, reply: ReplyTarget | undefined): StreamHandler {
+  const target = toReplyEvent(event, reply);
+  return target ? target.channel.createStreamHandler(target.event) : new SilentHandler();
+}
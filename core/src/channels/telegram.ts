@@ -1,15 +1,16 @@
-import { Telegraf } from "telegraf";
+import { Telegraf, Telegram, type Context } from "telegraf";
 import { spawn, ChildProcess } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
 import * as https from "https";
-import { fileURLToPath } from "url";
+import { getPhouseConfig } from "../config.js";
 import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler, StreamEvent } from "./types.js";
+import type { ChannelPlugin } from "./registry.js";
 import { OutputHandler, type Verbosity } from "./output-handler.js";
+import { LiveMessage } from "./live-message.js";
+import { transcribeAudio, describeAudioForPrompt } from "../transcription.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
 
 const SEND_SCRIPT = path.join(PROJECT_ROOT, "listeners/telegram/send.ts");
 const TYPING_SCRIPT = path.join(PROJECT_ROOT, "listeners/telegram/typing.ts");
@@ -19,6 +20,7 @@ const HISTORY_SCRIPT = path.join(PROJECT_ROOT, "listeners/telegram/history.js");
 const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
 const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
 const FILES_DIR = path.join(PROJECT_ROOT, "memory/telegram/files");
+const TRANSCRIPTION_CONFIG_FILE = getPhouseConfig().paths.transcriptionConfig;
 
 // Ensure directories exist
 if (!fs.existsSync(FILES_DIR)) {
@@ -39,6 +41,186 @@ function saveMessage(chatId: number, message: { role: string; name?: string; tex
   log(`[TelegramChannel] Would save to history for chat ${chatId}: ${message.text.slice(0, 50)}...`);
 }
 
+// Security config file path
+const TELEGRAM_SECURITY_CONFIG_FILE = getPhouseConfig().paths.telegramSecurityConfig;
+// Chats and senders the bot has heard from, allowed or not - the dashboard picks from these
+const SEEN_CHATS_FILE = getPhouseConfig().paths.telegramSeenChatsFile;
+const MAX_SEEN = 100;
+
+type UnknownSenderPolicy = "ignore" | "reply" | "forward";
+
+interface TelegramSecurityConfig {
+  allowedUserIds: string[]; // Senders allowed in any chat
+  allowedChatIds: string[]; // Chats (private or group) where anyone may talk to the bot
+  unknownSenderPolicy: UnknownSenderPolicy; // What happens to everyone else's messages
+  unknownSenderReply?: string; // Sent back for "reply"
+  ownerChatId?: string; // Where "forward" sends them
+  groupMentionOnly: boolean; // In groups, only react when mentioned, replied to or sent a /command
+  denyAll?: boolean; // The config couldn't be read - nobody gets through
+}
+
+const DEFAULT_UNKNOWN_SENDER_REPLY = "Sorry, I only talk to people I know.";
+// Unknown senders get at most one auto-reply per chat in this window
+const UNKNOWN_REPLY_INTERVAL_MS = 60 * 60 * 1000;
+const lastUnknownReply: Map<number, number> = new Map();
+
+// The last config that loaded, used while the file is broken
+let lastGoodSecurityConfig: TelegramSecurityConfig | null = null;
+
+function loadSecurityConfig(): TelegramSecurityConfig {
+  // Only a missing file means no restrictions
+  if (!fs.existsSync(TELEGRAM_SECURITY_CONFIG_FILE)) {
+    return { allowedUserIds: [], allowedChatIds: [], unknownSenderPolicy: "ignore", groupMentionOnly: true };
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(TELEGRAM_SECURITY_CONFIG_FILE, "utf-8"));
+    for (const key of ["allowedUserIds", "allowedChatIds"]) {
+      if (config[key] !== undefined && !Array.isArray(config[key])) {
+        throw new Error(`${key} must be a list`);
+      }
+    }
+    lastGoodSecurityConfig = {
+      allowedUserIds: (config.allowedUserIds || []).map(String),
+      allowedChatIds: (config.allowedChatIds || []).map(String),
+      unknownSenderPolicy: config.unknownSenderPolicy || "ignore",
+      unknownSenderReply: config.unknownSenderReply || undefined,
+      ownerChatId: config.ownerChatId ? String(config.ownerChatId) : undefined,
+      groupMentionOnly: config.groupMentionOnly !== false,
+    };
+    return lastGoodSecurityConfig;
+  } catch (err) {
+    if (lastGoodSecurityConfig) {
+      log(`[TelegramChannel] ERROR: telegram-security.json is invalid (${err}) - keeping the previous allowlist`);
+      return lastGoodSecurityConfig;
+    }
+    log(`[TelegramChannel] ERROR: telegram-security.json is invalid (${err}) - ignoring ALL senders until it is fixed`);
+    return { allowedUserIds: [], allowedChatIds: [], unknownSenderPolicy: "ignore", groupMentionOnly: true, denyAll: true };
+  }
+}
+
+// No allowlist at all means no restrictions, as before there was one
+function isAllowedSender(config: TelegramSecurityConfig, chatId: number, userId: number | undefined): boolean {
+  if (config.denyAll) return false;
+  if (config.allowedUserIds.length === 0 && config.allowedChatIds.length === 0) return true;
+  return config.allowedChatIds.includes(String(chatId)) ||
+    (userId !== undefined && config.allowedUserIds.includes(String(userId)));
+}
+
+function isGroupChat(ctx: Context): boolean {
+  return ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+}
+
+// "@mybot" but not "@mybot2"
+function botMentionPattern(username: string): RegExp {
+  return new RegExp(`@${username}\\b`, "gi");
+}
+
+function getMessageText(ctx: Context): string {
+  const message = ctx.message;
+  if (!message) return "";
+  if ("text" in message) return message.text;
+  return ("caption" in message && message.caption) || "";
+}
+
+// Mentioned by @username, replying to one of the bot's messages, or a /command
+function isAddressedToBot(ctx: Context): boolean {
+  const message = ctx.message;
+  const text = getMessageText(ctx);
+  const username = ctx.botInfo?.username;
+  if (username && botMentionPattern(username).test(text)) return true;
+  if (message && "reply_to_message" in message && message.reply_to_message?.from?.id === ctx.botInfo?.id) return true;
+  // "/stop" is for every bot in the group, "/stop@otherbot" isn't for us
+  const command = text.startsWith("/") ? text.split(/\s/)[0] : "";
+  return !!command && !command.includes("@");
+}
+
+// "@mybot what's up" -> "what's up", "/stop@mybot" -> "/stop"
+function stripBotMention(text: string, username: string | undefined): string {
+  if (!username) return text;
+  return text.replace(botMentionPattern(username), "").replace(/\s{2,}/g, " ").trim();
+}
+
+function describeMessage(ctx: Context): string {
+  const message = ctx.message;
+  if (!message) return "[Unsupported message]";
+  const caption = ("caption" in message && message.caption) || "";
+  if ("text" in message) return message.text;
+  if ("photo" in message) return `[Photo] ${caption}`.trim();
+  if ("document" in message) return `[Document: ${message.document.file_name || "file"}] ${caption}`.trim();
+  if ("voice" in message) return "[Voice message]";
+  if ("audio" in message) return `[Audio: ${message.audio.file_name || message.audio.title || "audio"}] ${caption}`.trim();
+  return "[Unsupported message]";
+}
+
+interface SeenChats {
+  chats: Record<string, { id: string; type: string; title: string; lastSeen: string }>;
+  users: Record<string, { id: string; name: string; username?: string; lastSeen: string }>;
+}
+
+function keepNewest<T extends { lastSeen: string }>(entries: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(entries).sort(([, a], [, b]) => b.lastSeen.localeCompare(a.lastSeen)).slice(0, MAX_SEEN)
+  );
+}
+
+function recordSeenChat(ctx: Context): void {
+  if (!ctx.chat) return;
+  try {
+    let seen: SeenChats = { chats: {}, users: {} };
+    if (fs.existsSync(SEEN_CHATS_FILE)) {
+      seen = { ...seen, ...JSON.parse(fs.readFileSync(SEEN_CHATS_FILE, "utf-8")) };
+    }
+    const now = new Date().toISOString();
+    const chat = ctx.chat;
+    const chatId = String(chat.id);
+    const title = "title" in chat
+      ? chat.title
+      : [chat.first_name, "last_name" in chat ? chat.last_name : undefined].filter(Boolean).join(" ") || chat.username;
+    seen.chats[chatId] = {
+      id: chatId,
+      type: chat.type,
+      title: title || chatId,
+      lastSeen: now,
+    };
+    if (ctx.from) {
+      const userId = String(ctx.from.id);
+      seen.users[userId] = {
+        id: userId,
+        name: [ctx.from.first_name, ctx.from.last_name].filter(Boolean).join(" ") || ctx.from.username || userId,
+        username: ctx.from.username,
+        lastSeen: now,
+      };
+    }
+    fs.writeFileSync(SEEN_CHATS_FILE, JSON.stringify({ chats: keepNewest(seen.chats), users: keepNewest(seen.users) }, null, 2));
+  } catch (err) {
+    log(`[TelegramChannel] Failed to record chat: ${err}`);
+  }
+}
+
+async function handleUnknownSender(bot: Telegraf, config: TelegramSecurityConfig, ctx: Context, from: string): Promise<void> {
+  const chatId = ctx.chat!.id;
+  const userId = ctx.from?.id;
+  log(`[TelegramChannel] Message from unknown sender ${from} (user ${userId}, chat ${chatId}) - policy: ${config.unknownSenderPolicy}`);
+
+  try {
+    if (config.unknownSenderPolicy === "reply") {
+      const last = lastUnknownReply.get(chatId) || 0;
+      if (Date.now() - last < UNKNOWN_REPLY_INTERVAL_MS) return;
+      lastUnknownReply.set(chatId, Date.now());
+      await bot.telegram.sendMessage(chatId, config.unknownSenderReply || DEFAULT_UNKNOWN_SENDER_REPLY);
+    } else if (config.unknownSenderPolicy === "forward" && config.ownerChatId) {
+      const where = isGroupChat(ctx) && ctx.chat && "title" in ctx.chat ? ` in ${ctx.chat.title || chatId}` : "";
+      await bot.telegram.sendMessage(
+        config.ownerChatId,
+        `Message from unknown Telegram sender ${from} (user ${userId}, chat ${chatId})${where}:\n\n${describeMessage(ctx)}`
+      );
+    }
+  } catch (err) {
+    log(`[TelegramChannel] Failed to handle unknown sender: ${err}`);
+  }
+}
+
 // Download file from Telegram
 async function downloadFile(bot: Telegraf, fileId: string, destPath: string): Promise<void> {
   const fileLink = await bot.telegram.getFileLink(fileId);
@@ -59,23 +241,51 @@ async function downloadFile(bot: Telegraf, fileId: string, destPath: string): Pr
   });
 }
 
+// Telegram has a 4096 character limit
+const MAX_MESSAGE_LENGTH = 4000;
+// Live replies are edited at most about once a second in private chats;
+// groups allow only 20 messages a minute
+const LIVE_EDIT_INTERVAL_MS = 1000;
+const LIVE_EDIT_INTERVAL_GROUP_MS = 3000;
+
+// Bot API clients for sending and editing live replies in-process, by bot token
+const telegramApis: Map<string, Telegram> = new Map();
+function getTelegramApi(profileBotToken?: string): Telegram {
+  const botToken = profileBotToken || process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    throw new Error("TELEGRAM_BOT_TOKEN not set");
+  }
+  let api = telegramApis.get(botToken);
+  if (!api) {
+    api = new Telegram(botToken);
+    telegramApis.set(botToken, api);
+  }
+  return api;
+}
+
+// The helper scripts read TELEGRAM_BOT_TOKEN - a profile's own bot passes its token
+function getScriptEnv(profileBotToken?: string): NodeJS.ProcessEnv | undefined {
+  return profileBotToken ? { ...process.env, TELEGRAM_BOT_TOKEN: profileBotToken } : undefined;
+}
+
 // Stream handler for Telegram - handles output back to chat
 class TelegramStreamHandler implements StreamHandler {
   private chatId: number;
   private messageId: number | null;
   private typingProcess: ChildProcess | null = null;
+  private liveMessage: LiveMessage<number> | null = null;
+  private botToken?: string;
 
-  constructor(chatId: number, messageId: number | null) {
+  constructor(chatId: number, messageId: number | null, botToken?: string) {
     this.chatId = chatId;
     this.messageId = messageId;
+    this.botToken = botToken;
   }
 
   async relayMessage(text: string): Promise<void> {
     if (!text || !text.trim()) return;
 
-    // Telegram has a 4096 character limit - split long messages
-    const MAX_LENGTH = 4000;
-    const chunks = this.splitMessage(text, MAX_LENGTH);
+    const chunks = this.splitMessage(text, MAX_MESSAGE_LENGTH);
 
     log(`[TelegramChannel] Sending ${text.length} chars in ${chunks.length} chunk(s) to ${this.chatId}`);
 
@@ -87,6 +297,7 @@ class TelegramStreamHandler implements StreamHandler {
           cwd: PROJECT_ROOT,
           stdio: ["ignore", "ignore", "ignore"],
           detached: true,
+          env: getScriptEnv(this.botToken),
         });
         proc.unref();
       } catch (err) {
@@ -95,6 +306,33 @@ class TelegramStreamHandler implements StreamHandler {
     }
   }
 
+  // "live" style - one message, edited as the reply grows
+  updateLiveMessage(text: string, done: boolean): void {
+    if (!this.liveMessage) {
+      this.liveMessage = new LiveMessage<number>(
+        {
+          send: async (part) => (await getTelegramApi(this.botToken).sendMessage(this.chatId, part)).message_id,
+          edit: async (id, part) => {
+            await getTelegramApi(this.botToken).editMessageText(this.chatId, id, undefined, part);
+          },
+        },
+        {
+          split: (reply) => this.splitMessage(reply, MAX_MESSAGE_LENGTH),
+          // Group chat IDs are negative
+          minEditIntervalMs: this.chatId < 0 ? LIVE_EDIT_INTERVAL_GROUP_MS : LIVE_EDIT_INTERVAL_MS,
+          log: (message) => log(`[TelegramChannel] ${message} (chat ${this.chatId})`),
+        }
+      );
+    }
+
+    if (done) {
+      log(`[TelegramChannel] Live reply to ${this.chatId} finished (${text.length} chars)`);
+      this.liveMessage.finish(text);
+    } else {
+      this.liveMessage.update(text);
+    }
+  }
+
   async startTyping(): Promise<void> {
     try {
       // Kill old typing process before spawning a new one to prevent buildup
@@ -110,6 +348,7 @@ class TelegramStreamHandler implements StreamHandler {
         cwd: PROJECT_ROOT,
         stdio: ["ignore", "ignore", "ignore"],
         detached: false, // Don't detach so we can track and kill it
+        env: getScriptEnv(this.botToken),
       });
       this.typingProcess = proc;
 
@@ -143,6 +382,7 @@ class TelegramStreamHandler implements StreamHandler {
         cwd: PROJECT_ROOT,
         stdio: ["ignore", "ignore", "ignore"],
         detached: true,
+        env: getScriptEnv(this.botToken),
       });
       proc.unref();
       log(`[TelegramChannel] Added working reaction to ${this.messageId}`);
@@ -159,6 +399,7 @@ class TelegramStreamHandler implements StreamHandler {
         cwd: PROJECT_ROOT,
         stdio: ["ignore", "ignore", "ignore"],
         detached: true,
+        env: getScriptEnv(this.botToken),
       });
       proc.unref();
       log(`[TelegramChannel] Removed working reaction from ${this.messageId}`);
@@ -204,11 +445,14 @@ class TelegramEventHandler implements ChannelEventHandler {
   private outputHandler: OutputHandler;
   private typingInterval: NodeJS.Timeout | null = null;
 
-  constructor(chatId: number, messageId: number | null, verbosity: Verbosity = "streaming") {
-    this.streamHandler = new TelegramStreamHandler(chatId, messageId);
+  constructor(chatId: number, messageId: number | null, verbosity: Verbosity = "streaming", botToken?: string) {
+    this.streamHandler = new TelegramStreamHandler(chatId, messageId, botToken);
     this.outputHandler = new OutputHandler(
       { verbosity },
-      { onSend: (message) => this.streamHandler.relayMessage(message) }
+      {
+        onSend: (message) => this.streamHandler.relayMessage(message),
+        onUpdate: (text, done) => this.streamHandler.updateLiveMessage(text, done),
+      }
     );
   }
 
@@ -246,201 +490,337 @@ class TelegramEventHandler implements ChannelEventHandler {
   }
 }
 
-// Telegram channel definition
-export const TelegramChannel: Channel & ChannelDefinition = {
-  name: "telegram",
-  concurrency: "session",
-
-  // New interface: listen()
-  async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
-    return this.startListener(onEvent);
-  },
-
-  // Legacy interface: startListener()
-  async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (!botToken) {
-      throw new Error("TELEGRAM_BOT_TOKEN not set");
-    }
+// A profile with its own bot - its chats get their own session keys, since the
+// same chat id can talk to the shared bot too
+interface TelegramBotProfile {
+  name: string;
+  botToken: string;
+}
 
-    const bot = new Telegraf(botToken);
+// Telegram channel definition - the shared bot, or one profile's own
+function createTelegramChannel(botProfile?: TelegramBotProfile): Channel & ChannelDefinition {
+  const sessionKeyFor = (chatId: number | string) =>
+    botProfile ? `telegram-${botProfile.name}-${chatId}` : `telegram-${chatId}`;
+  const botLabel = botProfile ? ` (${botProfile.name}'s bot)` : "";
+
+  return {
+    name: "telegram",
+    concurrency: "session",
+    profile: botProfile?.name,
+
+    // New interface: listen()
+    async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      return this.startListener(onEvent);
+    },
+
+    // Legacy interface: startListener()
+    async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      const botToken = botProfile?.botToken || process.env.TELEGRAM_BOT_TOKEN;
+      if (!botToken) {
+        throw new Error("TELEGRAM_BOT_TOKEN not set");
+      }
 
-    bot.on("message", async (ctx) => {
-      const chatId = ctx.chat.id;
-      const from = ctx.from?.first_name || ctx.from?.username || String(chatId);
+      const bot = new Telegraf(botToken);
 
-      // Handle text messages
-      if ("text" in ctx.message) {
-        const text = ctx.message.text;
-        const messageId = ctx.message.message_id;
+      const security = loadSecurityConfig();
+      if (!security.denyAll && security.allowedUserIds.length === 0 && security.allowedChatIds.length === 0) {
+        log("[TelegramChannel] No allowlist in telegram-security.json - anyone who finds the bot can use it");
+      }
 
-        saveMessage(chatId, {
-          role: "user",
-          name: from,
-          text,
-          timestamp: new Date().toISOString(),
-        });
+      bot.on("message", async (ctx) => {
+        const chatId = ctx.chat.id;
+        const from = ctx.from?.first_name || ctx.from?.username || String(chatId);
 
-        onEvent({
-          sessionKey: `telegram-${chatId}`,
-          prompt: `[Telegram from ${from}]: ${text}`,
-          payload: {
-            type: "message",
-            chat_id: chatId,
-            message_id: messageId,
-            from,
-            text,
-          },
-          message: {
-            text,
-            from,
-            isMessage: true,
-          },
-        });
+        recordSeenChat(ctx);
 
-        log(`[TelegramChannel] Received message from ${from}: ${text.slice(0, 50)}...`);
-      }
+        // In groups, only messages meant for the bot - unknown senders included, so
+        // a busy group doesn't get an auto-reply for every message
+        const security = loadSecurityConfig();
+        if (isGroupChat(ctx) && security.groupMentionOnly && !isAddressedToBot(ctx)) {
+          return;
+        }
 
-      // Handle photo messages
-      if ("photo" in ctx.message) {
-        const photo = ctx.message.photo;
-        const largestPhoto = photo[photo.length - 1];
-        const caption = ctx.message.caption || "";
-        const messageId = ctx.message.message_id;
-        const timestamp = Date.now();
-        const filename = `${chatId}_${timestamp}.jpg`;
-        const imagePath = path.join(FILES_DIR, filename);
+        if (!isAllowedSender(security, chatId, ctx.from?.id)) {
+          await handleUnknownSender(bot, security, ctx, from);
+          return;
+        }
+        const botUsername = ctx.botInfo?.username;
 
-        try {
-          await downloadFile(bot, largestPhoto.file_id, imagePath);
+        // Handle text messages
+        if ("text" in ctx.message) {
+          const text = stripBotMention(ctx.message.text, botUsername);
+          const messageId = ctx.message.message_id;
 
           saveMessage(chatId, {
             role: "user",
             name: from,
-            text: caption ? `[Photo] ${caption}` : "[Photo]",
+            text,
             timestamp: new Date().toISOString(),
           });
 
-          const prompt = caption
-            ? `[Telegram photo from ${from}]: ${caption}\n\nIMPORTANT: User sent an image. Use the Read tool to view the image at: ${imagePath}`
-            : `[Telegram photo from ${from}]: User sent an image with no caption.\n\nIMPORTANT: Use the Read tool to view the image at: ${imagePath}`;
-
           onEvent({
-            sessionKey: `telegram-${chatId}`,
-            prompt,
+            sessionKey: sessionKeyFor(chatId),
+            prompt: `[Telegram from ${from}]: ${text}`,
             payload: {
-              type: "photo",
+              type: "message",
               chat_id: chatId,
               message_id: messageId,
               from,
-              caption,
-              image_path: imagePath,
+              user_id: ctx.from?.id,
+              username: ctx.from?.username,
+              text,
             },
             message: {
-              text: caption,
+              text,
               from,
               isMessage: true,
             },
           });
 
-          log(`[TelegramChannel] Received photo from ${from}`);
-        } catch (err) {
-          log(`[TelegramChannel] Failed to download photo: ${err}`);
+          log(`[TelegramChannel] Received message from ${from}: ${text.slice(0, 50)}...`);
         }
-      }
 
-      // Handle document messages
-      if ("document" in ctx.message) {
-        const doc = ctx.message.document;
-        const caption = ctx.message.caption || "";
-        const messageId = ctx.message.message_id;
-        const timestamp = Date.now();
-        const originalName = doc.file_name || "document";
-        const filename = `${chatId}_${timestamp}_${originalName}`;
-        const filePath = path.join(FILES_DIR, filename);
+        // Handle photo messages
+        if ("photo" in ctx.message) {
+          const photo = ctx.message.photo;
+          const largestPhoto = photo[photo.length - 1];
+          const caption = stripBotMention(ctx.message.caption || "", botUsername);
+          const messageId = ctx.message.message_id;
+          const timestamp = Date.now();
+          const filename = `${chatId}_${timestamp}.jpg`;
+          const imagePath = path.join(FILES_DIR, filename);
+
+          try {
+            await downloadFile(bot, largestPhoto.file_id, imagePath);
+
+            saveMessage(chatId, {
+              role: "user",
+              name: from,
+              text: caption ? `[Photo] ${caption}` : "[Photo]",
+              timestamp: new Date().toISOString(),
+            });
+
+            const prompt = caption
+              ? `[Telegram photo from ${from}]: ${caption}\n\nIMPORTANT: User sent an image. Use the Read tool to view the image at: ${imagePath}`
+              : `[Telegram photo from ${from}]: User sent an image with no caption.\n\nIMPORTANT: Use the Read tool to view the image at: ${imagePath}`;
+
+            onEvent({
+              sessionKey: sessionKeyFor(chatId),
+              prompt,
+              payload: {
+                type: "photo",
+                chat_id: chatId,
+                message_id: messageId,
+                from,
+                user_id: ctx.from?.id,
+                username: ctx.from?.username,
+                caption,
+                image_path: imagePath,
+              },
+              message: {
+                text: caption,
+                from,
+                isMessage: true,
+              },
+            });
+
+            log(`[TelegramChannel] Received photo from ${from}`);
+          } catch (err) {
+            log(`[TelegramChannel] Failed to download photo: ${err}`);
+          }
+        }
 
-        try {
-          await downloadFile(bot, doc.file_id, filePath);
+        // Handle document messages
+        if ("document" in ctx.message) {
+          const doc = ctx.message.document;
+          const caption = stripBotMention(ctx.message.caption || "", botUsername);
+          const messageId = ctx.message.message_id;
+          const timestamp = Date.now();
+          const originalName = doc.file_name || "document";
+          // The name comes from the sender - keep it inside FILES_DIR
+          const safeFileName = originalName.replace(/[^a-zA-Z0-9._-]/g, "_");
+          const filename = `${chatId}_${timestamp}_${safeFileName}`;
+          const filePath = path.join(FILES_DIR, filename);
+
+          try {
+            await downloadFile(bot, doc.file_id, filePath);
+
+            saveMessage(chatId, {
+              role: "user",
+              name: from,
+              text: caption ? `[Document: ${originalName}] ${caption}` : `[Document: ${originalName}]`,
+              timestamp: new Date().toISOString(),
+            });
+
+            const prompt = caption
+              ? `[Telegram document from ${from}]: ${caption}\n\nFile: ${originalName} (${doc.mime_type || "unknown"})\n\nIMPORTANT: The file has been saved to: ${filePath}`
+              : `[Telegram document from ${from}]: User sent a file.\n\nFile: ${originalName} (${doc.mime_type || "unknown"})\n\nIMPORTANT: The file has been saved to: ${filePath}`;
+
+            onEvent({
+              sessionKey: sessionKeyFor(chatId),
+              prompt,
+              payload: {
+                type: "document",
+                chat_id: chatId,
+                message_id: messageId,
+                from,
+                user_id: ctx.from?.id,
+                username: ctx.from?.username,
+                caption,
+                file_path: filePath,
+                file_name: originalName,
+                mime_type: doc.mime_type || "application/octet-stream",
+              },
+              message: {
+                text: caption,
+                from,
+                isMessage: true,
+              },
+            });
+
+            log(`[TelegramChannel] Received document from ${from}: ${originalName}`);
+          } catch (err) {
+            log(`[TelegramChannel] Failed to download document: ${err}`);
+          }
+        }
 
-          saveMessage(chatId, {
-            role: "user",
-            name: from,
-            text: caption ? `[Document: ${originalName}] ${caption}` : `[Document: ${originalName}]`,
-            timestamp: new Date().toISOString(),
+        // Handle voice notes and audio files - transcribed so the prompt and
+        // short-term memory carry what was said
+        if ("voice" in ctx.message || "audio" in ctx.message) {
+          const isVoice = "voice" in ctx.message;
+          const audio = "voice" in ctx.message ? ctx.message.voice : ctx.message.audio;
+          const caption = stripBotMention(("caption" in ctx.message && ctx.message.caption) || "", botUsername);
+          const messageId = ctx.message.message_id;
+          const timestamp = Date.now();
+          const originalName = "audio" in ctx.message ? ctx.message.audio.file_name || "audio" : "voice.ogg";
+          const safeFileName = originalName.replace(/[^a-zA-Z0-9._-]/g, "_");
+          const filename = `${chatId}_${timestamp}_${safeFileName}`;
+          const filePath = path.join(FILES_DIR, filename);
+          const kind = isVoice ? "voice message" : "audio";
+
+          // Transcription can take minutes - done in the background so the bot
+          // keeps handling other updates (like /stop) meanwhile. A text sent right
+          // after the note may reach the assistant first.
+          const receiveAudio = async () => {
+            await downloadFile(bot, audio.file_id, filePath);
+
+            const transcript = await transcribeAudio(TRANSCRIPTION_CONFIG_FILE, filePath, log);
+            const label = isVoice ? "[Voice]" : `[Audio: ${originalName}]`;
+
+            saveMessage(chatId, {
+              role: "user",
+              name: from,
+              text: [label, transcript, caption].filter(Boolean).join(" "),
+              timestamp: new Date().toISOString(),
+            });
+
+            const intro = caption || (isVoice ? "User sent a voice message." : "User sent an audio file.");
+            const prompt = `[Telegram ${kind} from ${from}]: ${intro}\n\n${describeAudioForPrompt(originalName, filePath, transcript)}`;
+
+            onEvent({
+              sessionKey: sessionKeyFor(chatId),
+              prompt,
+              payload: {
+                type: isVoice ? "voice" : "audio",
+                chat_id: chatId,
+                message_id: messageId,
+                from,
+                user_id: ctx.from?.id,
+                username: ctx.from?.username,
+                caption,
+                file_path: filePath,
+                file_name: originalName,
+                mime_type: audio.mime_type || "audio/ogg",
+                duration: audio.duration,
+                transcript,
+              },
+              message: {
+                text: caption,
+                from,
+                isMessage: true,
+              },
+            });
+
+            log(`[TelegramChannel] Received ${kind} from ${from}${transcript ? " (transcribed)" : ""}`);
+          };
+
+          receiveAudio().catch((err) => {
+            log(`[TelegramChannel] Failed to receive ${kind}: ${err}`);
           });
-
-          const prompt = caption
-            ? `[Telegram document from ${from}]: ${caption}\n\nFile: ${originalName} (${doc.mime_type || "unknown"})\n\nIMPORTANT: The file has been saved to: ${filePath}`
-            : `[Telegram document from ${from}]: User sent a file.\n\nFile: ${originalName} (${doc.mime_type || "unknown"})\n\nIMPORTANT: The file has been saved to: ${filePath}`;
-
-          onEvent({
-            sessionKey: `telegram-${chatId}`,
-            prompt,
-            payload: {
-              type: "document",
-              chat_id: chatId,
-              message_id: messageId,
-              from,
-              caption,
-              file_path: filePath,
-              file_name: originalName,
-              mime_type: doc.mime_type || "application/octet-stream",
-            },
-            message: {
-              text: caption,
-              from,
-              isMessage: true,
-            },
-          });
-
-          log(`[TelegramChannel] Received document from ${from}: ${originalName}`);
-        } catch (err) {
-          log(`[TelegramChannel] Failed to download document: ${err}`);
         }
-      }
-    });
-
-    // Start bot without awaiting - launch() returns a Promise that only resolves
-    // when the bot is stopped, so we'd block forever if we awaited it
-    bot.launch().catch((err) => {
-      log(`[TelegramChannel] Bot error: ${err}`);
-    });
-    log("[TelegramChannel] Bot started");
-
-    // Return stop function
-    return () => {
-      bot.stop("SIGTERM");
-      log("[TelegramChannel] Bot stopped");
-    };
-  },
+      });
 
-  // New interface: createStreamHandler()
-  createStreamHandler(event: ChannelEvent): StreamHandler {
-    const messageId = event.payload.message_id || null;
-    return new TelegramStreamHandler(event.payload.chat_id, messageId);
-  },
+      // Start bot without awaiting - launch() returns a Promise that only resolves
+      // when the bot is stopped, so we'd block forever if we awaited it
+      bot.launch().catch((err) => {
+        log(`[TelegramChannel] Bot error: ${err}`);
+      });
+      log(`[TelegramChannel] Bot started${botLabel}`);
+
+      // Return stop function
+      return () => {
+        bot.stop("SIGTERM");
+        log(`[TelegramChannel] Bot stopped${botLabel}`);
+      };
+    },
+
+    // New interface: createStreamHandler()
+    createStreamHandler(event: ChannelEvent): StreamHandler {
+      const messageId = event.payload.message_id || null;
+      return new TelegramStreamHandler(event.payload.chat_id, messageId, botProfile?.botToken);
+    },
+
+    // Legacy interface: createHandler()
+    createHandler(event: ChannelEvent): ChannelEventHandler {
+      const verbosity = event.payload.verbosity || "streaming";
+      const messageId = event.payload.message_id || null;
+      return new TelegramEventHandler(event.payload.chat_id, messageId, verbosity, botProfile?.botToken);
+    },
+
+    getSessionKey(payload: any): string {
+      return sessionKeyFor(payload.chat_id);
+    },
+
+    // New interface: getCustomPrompt()
+    getCustomPrompt(): string {
+      return this.getChannelContext!();
+    },
+
+    // Legacy interface: getChannelContext()
+    getChannelContext(): string {
+      return `[Channel: Telegram]
+- To send images: Use mcp__telegram__send_photo (renders inline in chat)
+- To send files: Use mcp__telegram__send_document
+- Chat ID for this conversation is in the payload`;
+    },
+  };
+}
 
-  // Legacy interface: createHandler()
-  createHandler(event: ChannelEvent): ChannelEventHandler {
-    const verbosity = event.payload.verbosity || "streaming";
-    const messageId = event.payload.message_id || null;
-    return new TelegramEventHandler(event.payload.chat_id, messageId, verbosity);
-  },
+export const TelegramChannel = createTelegramChannel();
 
-  getSessionKey(payload: any): string {
-    return `telegram-${payload.chat_id}`;
+export const TelegramPlugin: ChannelPlugin = {
+  manifest: {
+    name: "telegram",
+    description: "Telegram bot chats",
+    defaultResponseStyle: "streaming",
+    supportsCommands: true,
   },
-
-  // New interface: getCustomPrompt()
-  getCustomPrompt(): string {
-    return this.getChannelContext!();
+  createChannel: () => TelegramChannel,
+  profileCredentialKeys: ["TELEGRAM_BOT_TOKEN"],
+  createProfileChannel: (settings, profile, credentials) =>
+    createTelegramChannel({ name: profile, botToken: credentials.TELEGRAM_BOT_TOKEN }),
+  getMemoryEntry(payload) {
+    const from = payload.from || "Unknown";
+    if (payload.type === "message") return { from, text: payload.text };
+    if (payload.type === "photo") return { from, text: `[Photo] ${payload.caption || ""}` };
+    if (payload.type === "document") return { from, text: `[Document: ${payload.file_name}] ${payload.caption || ""}` };
+    if (payload.type === "voice" || payload.type === "audio") {
+      const text = [payload.transcript, payload.caption].filter(Boolean).join("\n");
+      return { from, text: text || (payload.type === "voice" ? "[Voice]" : `[Audio: ${payload.file_name}]`) };
+    }
+    return null;
   },
-
-  // Legacy interface: getChannelContext()
-  getChannelContext(): string {
-    return `[Channel: Telegram]
-- To send images: Use mcp__telegram__send_photo (renders inline in chat)
-- To send files: Use mcp__telegram__send_document
-- Chat ID for this conversation is in the payload`;
+  getSenderIds(payload) {
+    return [payload.user_id ? String(payload.user_id) : "", payload.username ? `@${payload.username}` : ""];
   },
 };
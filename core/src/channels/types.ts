@@ -19,6 +19,10 @@ export interface ChannelEvent {
   prompt: string;      // What to send to Claude
   payload: any;        // Raw event data for the handler (channel-specific)
   message: NormalizedMessage;  // Normalized common fields
+  eventId?: string;    // Durable queue ID, set by the watcher once the event is persisted
+  parts?: ChannelEvent[];  // Messages merged into this event by the coalescing window, in arrival order
+  concurrency?: ConcurrencyMode;  // Overrides the channel's mode for this event (e.g., per inbound hook)
+  concurrencyGroup?: string;      // Lock shared by "global" events - defaults to the channel name
 }
 
 // Handler for streaming output back to a channel
@@ -82,6 +86,7 @@ export interface ChannelEventHandler {
 export interface ChannelDefinition {
   name: string;
   concurrency: ConcurrencyMode;
+  profile?: string;  // Set on a listener running on one profile's own credentials
   startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void>;
   createHandler(event: ChannelEvent): ChannelEventHandler;
   getSessionKey(payload: any): string;
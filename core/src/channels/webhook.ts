@@ -0,0 +1,218 @@
+import * as http from "http";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { getPhouseConfig } from "../config.js";
+import {
+  loadInboundHooksConfig,
+  verifyHookRequest,
+  renderHookTemplate,
+  getHookSessionKey,
+  type InboundHook,
+} from "../inbound-hooks.js";
+import type { Channel, ChannelEvent, StreamHandler, ChannelDefinition, ChannelEventHandler } from "./types.js";
+import type { ChannelPlugin, ChannelSettings } from "./registry.js";
+import { createReplyHandler, createReplyStreamHandler } from "./reply-targets.js";
+
+const PROJECT_ROOT = getPhouseConfig().projectRoot;
+
+const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
+const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
+const HOOKS_CONFIG_FILE = getPhouseConfig().paths.inboundHooksConfig;
+
+const DEFAULT_PORT = 3200;
+// Local only by default - put a reverse proxy in front, or set host to 0.0.0.0
+const DEFAULT_HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function log(message: string) {
+  const timestamp = new Date().toISOString();
+  const line = `[${timestamp}] ${message}\n`;
+  fs.appendFileSync(LOG_FILE, line);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+// JSON bodies as-is, form submissions as a flat object
+function parseBody(rawBody: string, contentType: string): unknown {
+  if (!rawBody.trim()) return {};
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  return JSON.parse(rawBody);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  onEvent: (event: ChannelEvent) => void
+): Promise<void> {
+  const match = (req.url || "").split("?")[0].match(/^\/hooks\/([^/]+)\/?$/);
+  if (!match) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Use POST" });
+    return;
+  }
+
+  const hookName = decodeURIComponent(match[1]);
+  const hook = loadInboundHooksConfig(HOOKS_CONFIG_FILE).hooks.find(h => h.name === hookName && h.enabled !== false);
+  if (!hook) {
+    sendJson(res, 404, { error: "Unknown hook" });
+    return;
+  }
+
+  let rawBody: string;
+  try {
+    rawBody = await readBody(req);
+  } catch (err) {
+    sendJson(res, 413, { error: String(err) });
+    return;
+  }
+
+  if (!verifyHookRequest(hook, req.headers, rawBody)) {
+    log(`[WebhookChannel] Rejected request for ${hook.name}: bad secret or signature`);
+    sendJson(res, 401, { error: "Unauthorized" });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = parseBody(rawBody, req.headers["content-type"] || "");
+  } catch {
+    sendJson(res, 400, { error: "Body is not valid JSON" });
+    return;
+  }
+
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const text = renderHookTemplate(hook.prompt, hook.name, body);
+  const sessionKey = getHookSessionKey(hook, body, requestId);
+
+  onEvent({
+    sessionKey,
+    prompt: `[Webhook ${hook.name}]: ${text}`,
+    payload: {
+      hook: hook.name,
+      request_id: requestId,
+      text,
+      reply: hook.reply,
+    },
+    message: {
+      text,
+      from: `webhook ${hook.name}`,
+      isMessage: true,
+    },
+    concurrency: hook.concurrency || "session",
+    concurrencyGroup: `webhook-${hook.name}`,
+  });
+
+  log(`[WebhookChannel] Accepted ${hook.name} request ${requestId} for ${sessionKey}`);
+  sendJson(res, 202, { accepted: true, requestId });
+}
+
+export function createWebhookChannel(settings: ChannelSettings = {}): Channel & ChannelDefinition {
+  const port = typeof settings.port === "number" ? settings.port : DEFAULT_PORT;
+  const host = typeof settings.host === "string" && settings.host ? settings.host : DEFAULT_HOST;
+
+  return {
+    name: "webhook",
+    // Each hook picks its own mode - this is the default for events that don't
+    concurrency: "session",
+
+    // New interface: listen()
+    async listen(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      return this.startListener(onEvent);
+    },
+
+    // Legacy interface: startListener()
+    async startListener(onEvent: (event: ChannelEvent) => void): Promise<() => void> {
+      const server = http.createServer((req, res) => {
+        handleRequest(req, res, onEvent).catch((err) => {
+          log(`[WebhookChannel] Request failed: ${err}`);
+          if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+        });
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+      log(`[WebhookChannel] Listening on http://${host}:${port}/hooks/<name>`);
+
+      return () => {
+        server.close();
+      };
+    },
+
+    // New interface: createStreamHandler()
+    createStreamHandler(event: ChannelEvent): StreamHandler {
+      return createReplyStreamHandler(event, event.payload.reply as InboundHook["reply"]);
+    },
+
+    // Legacy interface: createHandler()
+    createHandler(event: ChannelEvent): ChannelEventHandler {
+      return createReplyHandler(event, event.payload.reply as InboundHook["reply"]);
+    },
+
+    getSessionKey(payload: any): string {
+      return `webhook-${payload.hook}`;
+    },
+
+    // New interface: getCustomPrompt()
+    getCustomPrompt(): string {
+      return this.getChannelContext!();
+    },
+
+    // Legacy interface: getChannelContext()
+    getChannelContext(): string {
+      return `[Channel: Webhook]
+- This request came from an automated HTTP hook, not a person typing
+- Your reply is relayed to the hook's configured destination, if it has one - otherwise nobody sees it, so use MCP tools to notify anyone who should know`;
+    },
+  };
+}
+
+export const WebhookPlugin: ChannelPlugin = {
+  manifest: {
+    name: "webhook",
+    description: "Authenticated HTTP hooks (config/inbound-hooks.json) - GitHub pushes, form submissions, alerts",
+    defaultResponseStyle: "final",
+    supportsCommands: false,
+    // Opens a port, so only when asked
+    defaultEnabled: false,
+    configSchema: {
+      port: { type: "number", label: "Port", description: `Default: ${DEFAULT_PORT}` },
+      host: { type: "string", label: "Listen address", description: `Default: ${DEFAULT_HOST} (local only)` },
+    },
+  },
+  createChannel: createWebhookChannel,
+  getMemoryEntry(payload) {
+    return { from: `webhook ${payload.hook}`, text: payload.text };
+  },
+};
@@ -1,7 +1,7 @@
 /**
  * Unified command parser for all chat channels
  *
- * Supports: /new, /restart, /memory, /queue, /stop
+ * Supports: /new, /restart, /memory, /queue, /model, /stop, /budget, /retry, /approve, /deny
  * Works across: telegram, gchat, discord, dashboard
  */
 
@@ -13,15 +13,26 @@ export type CommandType =
   | "memory_status"
   | "queue_on"
   | "queue_off"
+  | "queue_steer"
   | "queue_status"
+  | "model_set"
+  | "model_reset"
+  | "model_status"
   | "stop"
-  | "stop_job";
+  | "stop_job"
+  | "budget"
+  | "retry"
+  | "approve"
+  | "deny";
 
 export interface ParsedCommand {
   type: CommandType;
   args?: {
     jobId?: string;        // For /stop <job-id>
     lines?: number;        // For /memory transcript <lines>
+    model?: string;        // For /model <name>
+    approvalId?: string;   // For /approve and /deny - optional while one request is pending
+    reason?: string;       // For /approve and /deny
   };
   raw: string;             // Original text
 }
@@ -80,11 +91,32 @@ export function parseCommand(text: string | undefined): ParsedCommand | null {
     return { type: "queue_off", raw: trimmed };
   }
 
+  // /queue steer - Fold messages sent mid-job into a follow-up turn
+  if (lower === "/queue steer") {
+    return { type: "queue_steer", raw: trimmed };
+  }
+
   // /queue - Show current queue mode
   if (lower === "/queue") {
     return { type: "queue_status", raw: trimmed };
   }
 
+  // /model default - Go back to the CLI default model
+  if (lower === "/model default") {
+    return { type: "model_reset", raw: trimmed };
+  }
+
+  // /model <name> - Use a specific model for this session (e.g. sonnet, opus, claude-opus-4-1)
+  const modelMatch = trimmed.match(/^\/model\s+([\w.:\[\]-]+)$/i);
+  if (modelMatch) {
+    return { type: "model_set", args: { model: modelMatch[1] }, raw: trimmed };
+  }
+
+  // /model - Show current model
+  if (lower === "/model") {
+    return { type: "model_status", raw: trimmed };
+  }
+
   // /stop [job-id] - Stop running job (optionally specific job)
   if (lower === "/stop" || lower.startsWith("/stop ")) {
     const parts = trimmed.split(/\s+/);
@@ -96,6 +128,30 @@ export function parseCommand(text: string | undefined): ParsedCommand | null {
     };
   }
 
+  // /budget - Show spend and budget status
+  if (lower === "/budget") {
+    return { type: "budget", raw: trimmed };
+  }
+
+  // /retry - Re-run a message whose reply was cut off by a restart
+  if (lower === "/retry") {
+    return { type: "retry", raw: trimmed };
+  }
+
+  // /approve [id] [reason], /deny [id] [reason] - Answer a pending approval request
+  const approvalMatch = trimmed.match(/^\/(approve|deny)\b(?:\s+([0-9a-f]{8})\b)?\s*(.*)$/is);
+  if (approvalMatch) {
+    const reason = approvalMatch[3].trim();
+    return {
+      type: approvalMatch[1].toLowerCase() as "approve" | "deny",
+      args: {
+        ...(approvalMatch[2] ? { approvalId: approvalMatch[2].toLowerCase() } : {}),
+        ...(reason ? { reason } : {}),
+      },
+      raw: trimmed
+    };
+  }
+
   // Not a recognized command
   return null;
 }
@@ -119,20 +175,29 @@ export function getCommandDescription(cmd: ParsedCommand): string {
       return "Enable queue mode";
     case "queue_off":
       return "Disable queue mode (interrupt mode)";
+    case "queue_steer":
+      return "Enable steer mode (mid-job messages become one follow-up turn)";
     case "queue_status":
       return "Show current queue mode";
+    case "model_set":
+      return `Use model ${cmd.args?.model}`;
+    case "model_reset":
+      return "Use the default model";
+    case "model_status":
+      return "Show current model";
     case "stop":
       return "Stop the currently running job";
     case "stop_job":
       return `Stop job ${cmd.args?.jobId}`;
+    case "budget":
+      return "Show spend and budget status";
+    case "retry":
+      return "Retry a message interrupted by a restart";
+    case "approve":
+      return `Approve ${cmd.args?.approvalId ? `request ${cmd.args.approvalId}` : "the pending request"}`;
+    case "deny":
+      return `Deny ${cmd.args?.approvalId ? `request ${cmd.args.approvalId}` : "the pending request"}`;
     default:
       return "Unknown command";
   }
 }
-
-/**
- * Check if a channel supports interactive commands
- */
-export function supportsCommands(channelName: string): boolean {
-  return ["telegram", "gchat", "discord", "dashboard", "email"].includes(channelName);
-}
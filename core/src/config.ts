@@ -0,0 +1,206 @@
+/**
+ * Installation config shared by the watcher and the dashboard API
+ *
+ * Every path either side reads or writes comes from here, so the two can't
+ * drift apart. Defaults match the standard layout (pHouseClawd, pHouseMcp,
+ * assistant and hosted-sites side by side in the home directory); environment
+ * variables override them:
+ *
+ *   PHOUSE_PROJECT_ROOT     pHouseClawd checkout (logs, events, listeners)
+ *   PHOUSE_ASSISTANT_ROOT   where the agent runs - SOUL.md, memory, config/*.json
+ *   PHOUSE_MCP_ROOT         pHouseMcp checkout - shared .env and Google credentials
+ *   PHOUSE_TIMEZONE         IANA timezone for cron schedules and timestamps
+ *   PHOUSE_CONTROL_SOCKET   watcher control socket (see control.ts)
+ *   PHOUSE_CHANNEL_PLUGINS_DIR  extra channels (see channels/registry.ts)
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface PhousePaths {
+  logsDir: string;
+  jobsDir: string;
+  eventsDir: string;
+  sessionsFile: string;
+  controlSocket: string;
+  channelPluginsDir: string;
+  webhookDeliveriesDir: string;
+  telegramSeenChatsFile: string;
+  approvalsDir: string;
+  watcherLogFile: string;
+  hostedSitesDir: string;
+  // In the assistant directory
+  configDir: string;
+  channelsConfig: string;
+  cronConfig: string;
+  budgetsConfig: string;
+  jobRetentionConfig: string;
+  memorySettingsConfig: string;
+  emailSecurityConfig: string;
+  gchatSecurityConfig: string;
+  discordSecurityConfig: string;
+  telegramSecurityConfig: string;
+  transcriptionConfig: string;
+  webhooksConfig: string;
+  inboundHooksConfig: string;
+  contactsConfig: string;
+  approvalsConfig: string;
+  // In pHouseMcp
+  mcpEnvFile: string;
+  googleCredentialsFile: string;
+  googleTokenFile: string;
+  mcpGatewayLogFile: string;
+  // Claude CLI files in the home directory
+  claudeConfigFile: string;
+  disabledMcpServersFile: string;
+}
+
+export interface PhouseConfig {
+  projectRoot: string;
+  assistantRoot: string;
+  mcpRoot: string;
+  timezone: string;
+  paths: PhousePaths;
+}
+
+export const DEFAULT_TIMEZONE = "America/Toronto";
+
+// This file is core/src/config.ts, wherever the API imports it from
+const DEFAULT_PROJECT_ROOT = path.resolve(__dirname, "../..");
+const DEFAULT_ASSISTANT_ROOT = "/home/ubuntu/assistant";
+
+/**
+ * Build the config from the environment (or an explicit one, for scripts)
+ */
+export function loadPhouseConfig(env: NodeJS.ProcessEnv = process.env): PhouseConfig {
+  const projectRoot = env.PHOUSE_PROJECT_ROOT || DEFAULT_PROJECT_ROOT;
+  const assistantRoot = env.PHOUSE_ASSISTANT_ROOT || DEFAULT_ASSISTANT_ROOT;
+  const mcpRoot = env.PHOUSE_MCP_ROOT || path.resolve(projectRoot, "../pHouseMcp");
+  const logsDir = path.join(projectRoot, "logs");
+  const configDir = path.join(assistantRoot, "config");
+  const homeDir = env.HOME || os.homedir();
+
+  return {
+    projectRoot,
+    assistantRoot,
+    mcpRoot,
+    timezone: env.PHOUSE_TIMEZONE || DEFAULT_TIMEZONE,
+    paths: {
+      logsDir,
+      jobsDir: path.join(logsDir, "jobs"),
+      eventsDir: path.join(projectRoot, "events"),
+      sessionsFile: path.join(logsDir, "sessions.json"),
+      controlSocket: env.PHOUSE_CONTROL_SOCKET || path.join(logsDir, "watcher.sock"),
+      channelPluginsDir: env.PHOUSE_CHANNEL_PLUGINS_DIR || path.join(projectRoot, "channels"),
+      webhookDeliveriesDir: path.join(logsDir, "webhooks"),
+      telegramSeenChatsFile: path.join(logsDir, "telegram-chats.json"),
+      approvalsDir: path.join(logsDir, "approvals"),
+      watcherLogFile: path.join(logsDir, "watcher.log"),
+      hostedSitesDir: path.resolve(projectRoot, "../hosted-sites"),
+      configDir,
+      channelsConfig: path.join(configDir, "channels.json"),
+      cronConfig: path.join(configDir, "cron.json"),
+      budgetsConfig: path.join(configDir, "budgets.json"),
+      jobRetentionConfig: path.join(configDir, "job-retention.json"),
+      memorySettingsConfig: path.join(configDir, "memory-settings.json"),
+      emailSecurityConfig: path.join(configDir, "email-security.json"),
+      gchatSecurityConfig: path.join(configDir, "gchat-security.json"),
+      discordSecurityConfig: path.join(configDir, "discord-security.json"),
+      telegramSecurityConfig: path.join(configDir, "telegram-security.json"),
+      transcriptionConfig: path.join(configDir, "transcription.json"),
+      webhooksConfig: path.join(configDir, "webhooks.json"),
+      inboundHooksConfig: path.join(configDir, "inbound-hooks.json"),
+      contactsConfig: path.join(configDir, "contacts.json"),
+      approvalsConfig: path.join(configDir, "approvals.json"),
+      mcpEnvFile: path.join(mcpRoot, ".env"),
+      googleCredentialsFile: path.join(mcpRoot, "credentials", "client_secret.json"),
+      googleTokenFile: path.join(mcpRoot, "credentials", "tokens.json"),
+      mcpGatewayLogFile: path.join(mcpRoot, "logs", "gateway.log"),
+      claudeConfigFile: path.join(homeDir, ".claude.json"),
+      disabledMcpServersFile: path.join(homeDir, ".claude-disabled-mcp.json"),
+    },
+  };
+}
+
+let cachedConfig: PhouseConfig | null = null;
+
+/**
+ * The process-wide config, read from the environment on first use
+ */
+export function getPhouseConfig(): PhouseConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadPhouseConfig();
+  }
+  return cachedConfig;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface ConfigProblems {
+  errors: string[];     // The process can't run like this
+  warnings: string[];   // Worth a log line - e.g. a directory a fresh install hasn't created yet
+}
+
+/**
+ * Check the config at startup
+ */
+export function validatePhouseConfig(config: PhouseConfig): ConfigProblems {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [name, dir] of [
+    ["PHOUSE_PROJECT_ROOT", config.projectRoot],
+    ["PHOUSE_ASSISTANT_ROOT", config.assistantRoot],
+    ["PHOUSE_MCP_ROOT", config.mcpRoot],
+  ] as const) {
+    if (!path.isAbsolute(dir)) {
+      errors.push(`${name} must be an absolute path (got ${dir})`);
+    } else if (!fs.existsSync(dir)) {
+      warnings.push(`${name} directory does not exist: ${dir}`);
+    }
+  }
+
+  if (!isValidTimezone(config.timezone)) {
+    errors.push(`PHOUSE_TIMEZONE is not a valid IANA timezone: ${config.timezone}`);
+  }
+
+  if (!fs.existsSync(config.paths.googleCredentialsFile)) {
+    warnings.push(`Google credentials not found at ${config.paths.googleCredentialsFile} - email and Google Chat won't connect`);
+  }
+
+  return { errors, warnings };
+}
+
+// Security configs used to be read from pHouseClawd/config while the dashboard
+// wrote them to assistant/config - the assistant copy is the one used now
+const LEGACY_CONFIG_FILES = ["email-security.json", "gchat-security.json", "discord-security.json"];
+
+/**
+ * Copy security configs from the old project location if the assistant
+ * directory doesn't have them yet. Returns the files that were copied.
+ */
+export function migrateLegacyConfigFiles(config: PhouseConfig): string[] {
+  const migrated: string[] = [];
+  for (const file of LEGACY_CONFIG_FILES) {
+    const legacyPath = path.join(config.projectRoot, "config", file);
+    const currentPath = path.join(config.paths.configDir, file);
+    if (fs.existsSync(legacyPath) && !fs.existsSync(currentPath)) {
+      fs.mkdirSync(config.paths.configDir, { recursive: true });
+      fs.copyFileSync(legacyPath, currentPath);
+      migrated.push(file);
+    }
+  }
+  return migrated;
+}
@@ -0,0 +1,133 @@
+/**
+ * Contacts
+ *
+ * One record per person, linking the identities they show up with on each
+ * channel. Lives in config/contacts.json and is re-read for every message:
+ *
+ *   {
+ *     "contacts": [
+ *       {
+ *         "id": "jane",
+ *         "name": "Jane Doe",
+ *         "trust": "trusted",
+ *         "notes": "My sister. Prefers short answers.",
+ *         "identities": [
+ *           { "channel": "telegram", "id": "123456789" },
+ *           { "channel": "email", "id": "jane@example.com" },
+ *           { "channel": "discord", "id": "987654321098765432" },
+ *           { "channel": "gchat", "id": "users/112233445566" }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * Identity ids are whatever the channel reports as stable sender ids (see
+ * getSenderIds in channels/registry.ts) - Telegram user ids or @usernames,
+ * email addresses, Discord user ids, Google Chat users/<id>. Matching ignores
+ * case. The watcher uses a matched contact's name in short-term memory and
+ * tells the assistant who it is talking to, with their trust level and notes.
+ * On channels whose sender ids can be forged (an email's From address), the
+ * contact is only named and marked unverified - the trust level and notes
+ * stay out of the prompt.
+ */
+
+import * as fs from "fs";
+
+export const CONTACT_TRUST_LEVELS = ["owner", "trusted", "known", "untrusted"] as const;
+
+export type ContactTrust = typeof CONTACT_TRUST_LEVELS[number];
+
+export interface ContactIdentity {
+  channel: string;   // Channel name (telegram, email, discord, gchat, or a plugin)
+  id: string;        // Sender id on that channel
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  identities: ContactIdentity[];
+  trust?: ContactTrust;   // Default: "known"
+  notes?: string;         // Shown to the assistant with every message from them
+}
+
+export interface ContactsConfig {
+  contacts: Contact[];
+}
+
+export function loadContacts(configFile: string): ContactsConfig {
+  try {
+    if (fs.existsSync(configFile)) {
+      const data = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+      return { contacts: Array.isArray(data.contacts) ? data.contacts : [] };
+    }
+  } catch {
+    // Fall through to no contacts
+  }
+  return { contacts: [] };
+}
+
+function identityKey(channel: string, id: string): string {
+  return `${channel}:${id.trim().toLowerCase()}`;
+}
+
+/**
+ * Problems with a contacts config, or an empty list if it's usable
+ */
+export function validateContacts(config: ContactsConfig): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  // Each identity can belong to one person only
+  const owners = new Map<string, string>();
+  for (const contact of config.contacts) {
+    const name = contact.name || contact.id || "(unnamed)";
+    if (!contact.id || !/^[\w-]+$/.test(contact.id)) {
+      errors.push(`Contact ${name} needs an id (letters, digits, - and _)`);
+    } else if (ids.has(contact.id)) {
+      errors.push(`Duplicate contact id: ${contact.id}`);
+    }
+    ids.add(contact.id);
+    if (!contact.name?.trim()) {
+      errors.push(`Contact ${contact.id || "(unnamed)"} needs a name`);
+    }
+    if (contact.trust && !CONTACT_TRUST_LEVELS.includes(contact.trust)) {
+      errors.push(`Contact ${name} has an unknown trust level: ${contact.trust}`);
+    }
+    for (const identity of contact.identities || []) {
+      if (!identity.channel || !identity.id?.trim()) {
+        errors.push(`Contact ${name} has an identity without a channel or id`);
+        continue;
+      }
+      const key = identityKey(identity.channel, identity.id);
+      const owner = owners.get(key);
+      if (owner && owner !== name) {
+        errors.push(`${identity.channel} identity ${identity.id} is linked to both ${owner} and ${name}`);
+      }
+      owners.set(key, name);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The contact behind a message, by any of the sender ids the channel reported
+ */
+export function findContact(config: ContactsConfig, channel: string, senderIds: string[]): Contact | null {
+  if (senderIds.length === 0) return null;
+  const wanted = new Set(senderIds.map(id => identityKey(channel, id)));
+  return config.contacts.find(contact =>
+    (contact.identities || []).some(identity => wanted.has(identityKey(identity.channel, identity.id)))
+  ) || null;
+}
+
+/**
+ * How a contact is introduced to the assistant in a prompt - without trust or
+ * notes when the match could have been forged
+ */
+export function describeContact(contact: Contact, verified = true): string {
+  if (!verified) {
+    return `${contact.name} (contact "${contact.id}", unverified - this channel's sender ids can be forged)`;
+  }
+  const trust = contact.trust || "known";
+  const notes = contact.notes?.trim() ? ` - ${contact.notes.trim().replace(/\s*\n\s*/g, " ")}` : "";
+  return `${contact.name} (contact "${contact.id}", trust: ${trust})${notes}`;
+}
@@ -0,0 +1,310 @@
+/**
+ * Watcher control socket
+ *
+ * The watcher serves a small JSON-over-HTTP API on a unix socket so the
+ * dashboard API can read its live state and control jobs through the
+ * watcher's own bookkeeping (finalizing jobs, releasing slots and session
+ * locks) instead of guessing from files and signalling PIDs directly.
+ *
+ *   GET  /state               running jobs, session queues, scheduler, cron tasks, live channels
+ *   POST /jobs/<id>/stop      stop a running job
+ *   POST /queues/clear        drop queued events ({ lockKey } or all sessions)
+ *   POST /reload              re-read config files
+ *   POST /approvals           hold a tool call for approval - answers once it's decided
+ *   POST /approvals/<id>/decide   approve or deny a pending request
+ *   POST /webhooks/deliveries/<id>/replay   send a webhook delivery again
+ *
+ * The socket lives at logs/watcher.sock unless PHOUSE_CONTROL_SOCKET is set
+ * (see config.ts).
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import type { QueuedJobInfo } from "./scheduler.js";
+import type { ApprovalDetails, ApprovalRequest } from "./approvals.js";
+import type { WebhookDelivery } from "./webhooks.js";
+import { getPhouseConfig } from "./config.js";
+
+export interface RunningJobState {
+  id: string;
+  channel: string;
+  trigger: string;
+  startTime: string;
+  sessionKey?: string;
+  pid?: number;
+}
+
+export interface SessionQueueState {
+  lockKey: string;
+  active: boolean;      // A job currently holds this session's lock
+  queued: number;       // Events waiting for the lock
+}
+
+export interface CronTaskState {
+  id: string;
+  kind: "recurring" | "one-off";
+  schedule?: string;
+  description?: string;
+}
+
+export interface WatcherState {
+  pid: number;
+  startedAt: string;
+  runningJobs: RunningJobState[];
+  sessions: SessionQueueState[];
+  scheduler: {
+    running: number;
+    maxConcurrentJobs: number;
+    reservedInteractiveSlots: number;
+    queued: QueuedJobInfo[];  // Jobs waiting for a global slot
+  };
+  cronTasks: CronTaskState[];
+  heldEvents: number;         // Interrupted messages waiting for /retry
+  pendingApprovals: number;   // Tool calls waiting for /approve or /deny
+  channels: string[];         // Channels with a running listener
+}
+
+export interface ControlHandlers {
+  getState(): WatcherState;
+  stopJob(jobId: string): boolean;
+  clearQueue(lockKey?: string): number;
+  reload(): string[];
+  requestApproval(details: Omit<ApprovalDetails, "channel" | "sessionKey">): Promise<ApprovalRequest>;
+  decideApproval(id: string, approved: boolean, by: string, reason?: string): ApprovalRequest | null;
+  replayWebhookDelivery(id: string): WebhookDelivery;  // Throws if it can't be replayed
+}
+
+// The watcher isn't running, or is too old to have a control socket
+export class WatcherUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WatcherUnavailableError";
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+export function getControlSocketPath(): string {
+  return getPhouseConfig().paths.controlSocket;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => { data += chunk; });
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Start serving the control API. Returns a function that closes the socket.
+ */
+export function startControlServer(
+  socketPath: string,
+  handlers: ControlHandlers,
+  logger: (message: string) => void = () => {}
+): () => void {
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = req.url || "/";
+
+      if (req.method === "GET" && url === "/state") {
+        sendJson(res, 200, handlers.getState());
+        return;
+      }
+
+      const stopMatch = url.match(/^\/jobs\/([^/]+)\/stop$/);
+      if (req.method === "POST" && stopMatch) {
+        const jobId = decodeURIComponent(stopMatch[1]);
+        if (handlers.stopJob(jobId)) {
+          sendJson(res, 200, { success: true, message: `Job ${jobId} stopped` });
+        } else {
+          sendJson(res, 404, { error: "Job is not running" });
+        }
+        return;
+      }
+
+      if (req.method === "POST" && url === "/queues/clear") {
+        const body = await readBody(req);
+        const cleared = handlers.clearQueue(typeof body.lockKey === "string" ? body.lockKey : undefined);
+        sendJson(res, 200, { success: true, cleared, message: `Cleared ${cleared} queued event(s)` });
+        return;
+      }
+
+      if (req.method === "POST" && url === "/reload") {
+        const reloaded = handlers.reload();
+        sendJson(res, 200, { success: true, reloaded, message: `Reloaded ${reloaded.join(", ")}` });
+        return;
+      }
+
+      if (req.method === "POST" && url === "/approvals") {
+        const body = await readBody(req);
+        if (typeof body.tool !== "string" || typeof body.jobId !== "string") {
+          sendJson(res, 400, { error: "jobId and tool are required" });
+          return;
+        }
+        const request = await handlers.requestApproval({
+          jobId: body.jobId,
+          tool: body.tool,
+          input: body.input && typeof body.input === "object" ? body.input : {},
+          rule: typeof body.rule === "string" ? body.rule : body.tool,
+        });
+        sendJson(res, 200, request);
+        return;
+      }
+
+      const decideMatch = url.match(/^\/approvals\/([^/]+)\/decide$/);
+      if (req.method === "POST" && decideMatch) {
+        const body = await readBody(req);
+        const request = handlers.decideApproval(
+          decodeURIComponent(decideMatch[1]),
+          body.approved === true,
+          typeof body.by === "string" ? body.by : "dashboard",
+          typeof body.reason === "string" && body.reason ? body.reason : undefined
+        );
+        if (request) {
+          sendJson(res, 200, { success: true, request, message: `Request ${request.id} ${request.status}` });
+        } else {
+          sendJson(res, 404, { error: "Approval request is not pending" });
+        }
+        return;
+      }
+
+      const replayMatch = url.match(/^\/webhooks\/deliveries\/([^/]+)\/replay$/);
+      if (req.method === "POST" && replayMatch) {
+        try {
+          const delivery = handlers.replayWebhookDelivery(decodeURIComponent(replayMatch[1]));
+          sendJson(res, 200, { success: true, delivery, message: "Delivery queued" });
+        } catch (err) {
+          sendJson(res, 400, { error: err instanceof Error ? err.message : String(err) });
+        }
+        return;
+      }
+
+      sendJson(res, 404, { error: "Unknown control command" });
+    } catch (err) {
+      sendJson(res, 500, { error: "Control command failed", details: String(err) });
+    }
+  });
+
+  // A socket left behind by a watcher that crashed would block listen()
+  fs.rmSync(socketPath, { force: true });
+  server.listen(socketPath, () => {
+    fs.chmodSync(socketPath, 0o600);
+    logger(`[Control] Listening on ${socketPath}`);
+  });
+  server.on("error", (err) => {
+    logger(`[Control] Socket error: ${err}`);
+  });
+
+  return () => {
+    server.close();
+    fs.rmSync(socketPath, { force: true });
+  };
+}
+
+/**
+ * Client used by the dashboard API
+ */
+export class WatcherControlClient {
+  readonly socketPath: string;
+
+  constructor(socketPath: string) {
+    this.socketPath = socketPath;
+  }
+
+  getState(): Promise<WatcherState> {
+    return this.request("GET", "/state");
+  }
+
+  stopJob(jobId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.request("POST", `/jobs/${encodeURIComponent(jobId)}/stop`, undefined, [404]);
+  }
+
+  clearQueue(lockKey?: string): Promise<{ success: boolean; cleared: number; message: string }> {
+    return this.request("POST", "/queues/clear", { lockKey });
+  }
+
+  reload(): Promise<{ success: boolean; reloaded: string[]; message: string }> {
+    return this.request("POST", "/reload");
+  }
+
+  // Blocks until the request is decided or expires
+  requestApproval(details: Omit<ApprovalDetails, "channel" | "sessionKey">, timeoutMs: number): Promise<ApprovalRequest> {
+    return this.request("POST", "/approvals", details, [], timeoutMs);
+  }
+
+  decideApproval(
+    id: string,
+    decision: { approved: boolean; by?: string; reason?: string }
+  ): Promise<{ success: boolean; request?: ApprovalRequest; message?: string; error?: string }> {
+    return this.request("POST", `/approvals/${encodeURIComponent(id)}/decide`, decision, [404]);
+  }
+
+  replayWebhookDelivery(id: string): Promise<{ success: boolean; delivery?: WebhookDelivery; message?: string; error?: string }> {
+    return this.request("POST", `/webhooks/deliveries/${encodeURIComponent(id)}/replay`, undefined, [400]);
+  }
+
+  private request<T>(
+    method: string,
+    urlPath: string,
+    body?: unknown,
+    allowedStatuses: number[] = [],
+    timeoutMs: number = REQUEST_TIMEOUT_MS
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        { socketPath: this.socketPath, path: urlPath, method, headers: { "Content-Type": "application/json" } },
+        (res) => {
+          let data = "";
+          res.on("data", (chunk) => { data += chunk; });
+          res.on("end", () => {
+            let parsed: any;
+            try {
+              parsed = JSON.parse(data);
+            } catch {
+              reject(new Error(`Invalid response from watcher: ${data.slice(0, 200)}`));
+              return;
+            }
+            const status = res.statusCode || 500;
+            if (status >= 400 && !allowedStatuses.includes(status)) {
+              reject(new Error(parsed.error || `Watcher returned ${status}`));
+              return;
+            }
+            resolve(parsed);
+          });
+        }
+      );
+
+      req.setTimeout(timeoutMs, () => {
+        req.destroy(new WatcherUnavailableError("Watcher did not respond"));
+      });
+      req.on("error", (err: NodeJS.ErrnoException) => {
+        if (err instanceof WatcherUnavailableError) {
+          reject(err);
+        } else if (err.code === "ENOENT" || err.code === "ECONNREFUSED") {
+          reject(new WatcherUnavailableError("Watcher is not running"));
+        } else {
+          reject(err);
+        }
+      });
+
+      if (body !== undefined) {
+        req.write(JSON.stringify(body));
+      }
+      req.end();
+    });
+  }
+}
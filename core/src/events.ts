@@ -1,12 +1,9 @@
 import * as fs from "fs";
 import * as path from "path";
 import { randomUUID } from "crypto";
-import { fileURLToPath } from "url";
+import { getPhouseConfig } from "./config.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../..");
-const EVENTS_DIR = path.join(PROJECT_ROOT, "events");
+const EVENTS_DIR = getPhouseConfig().paths.eventsDir;
 const PENDING_DIR = path.join(EVENTS_DIR, "pending");
 const PROCESSED_DIR = path.join(EVENTS_DIR, "processed");
 
@@ -16,6 +13,35 @@ export interface Event {
   source: string;
   timestamp: string;
   payload: Record<string, unknown>;
+  attempts?: number;                  // Times a consumer has started handling this event
+  held?: boolean;                     // Set aside (not replayed) until someone asks to retry it
+  processedAt?: string;
+  result?: Record<string, unknown>;   // Outcome recorded when the event is acked
+}
+
+// Events of this type are prompts for the inbox channel (channels/inbox.ts)
+export const INBOX_EVENT_TYPE = "inbox";
+
+// What a script, MCP server or cron job drops in the inbox
+export interface InboxMessage {
+  text: string;                              // The prompt
+  from?: string;                             // Shown to the assistant and in memory. Default: the event's source
+  sessionKey?: string;                       // Events with the same key share a session. Default: the source
+  attachments?: string[];                    // Absolute paths to files the assistant should look at
+  replyTo?: { channel: string; to: string }; // telegram, discord or gchat - otherwise the reply is only in the result
+  concurrency?: "none" | "global" | "session";
+}
+
+function ensureEventDirs(): void {
+  fs.mkdirSync(PENDING_DIR, { recursive: true });
+  fs.mkdirSync(PROCESSED_DIR, { recursive: true });
+}
+
+// Write atomically so a crash never leaves a half-written event behind
+function writeEventFile(filePath: string, event: Event): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(event, null, 2));
+  fs.renameSync(tmpPath, filePath);
 }
 
 // Push an event to the queue
@@ -33,11 +59,16 @@ export function pushEvent(
     payload,
   };
 
-  const filePath = path.join(PENDING_DIR, `${id}.json`);
-  fs.writeFileSync(filePath, JSON.stringify(event, null, 2));
+  ensureEventDirs();
+  writeEventFile(path.join(PENDING_DIR, `${id}.json`), event);
   return id;
 }
 
+// Drop a prompt in the inbox - the result lands in events/processed/<id>.json
+export function pushInboxEvent(source: string, message: InboxMessage): string {
+  return pushEvent(INBOX_EVENT_TYPE, source, { ...message });
+}
+
 // Get all pending events (sorted by timestamp)
 export function getPendingEvents(): Event[] {
   if (!fs.existsSync(PENDING_DIR)) return [];
@@ -46,8 +77,12 @@ export function getPendingEvents(): Event[] {
   const events: Event[] = [];
 
   for (const file of files) {
-    const content = fs.readFileSync(path.join(PENDING_DIR, file), "utf-8");
-    events.push(JSON.parse(content));
+    try {
+      const content = fs.readFileSync(path.join(PENDING_DIR, file), "utf-8");
+      events.push(JSON.parse(content));
+    } catch {
+      // Skip unreadable files (e.g., acked by another consumer mid-read)
+    }
   }
 
   return events.sort(
@@ -55,13 +90,80 @@ export function getPendingEvents(): Event[] {
   );
 }
 
-// Mark an event as processed
-export function markProcessed(eventId: string): void {
+// Update fields of a pending event in place (e.g., bump attempts before a replay)
+export function updatePendingEvent(eventId: string, update: Partial<Event>): Event | null {
+  const filePath = path.join(PENDING_DIR, `${eventId}.json`);
+  if (!fs.existsSync(filePath)) return null;
+
+  const event: Event = { ...JSON.parse(fs.readFileSync(filePath, "utf-8")), ...update };
+  writeEventFile(filePath, event);
+  return event;
+}
+
+// Mark an event as processed, optionally recording its outcome
+export function markProcessed(eventId: string, result?: Record<string, unknown>): void {
   const src = path.join(PENDING_DIR, `${eventId}.json`);
   const dst = path.join(PROCESSED_DIR, `${eventId}.json`);
 
-  if (fs.existsSync(src)) {
+  if (!fs.existsSync(src)) return;
+  ensureEventDirs();
+
+  if (result) {
+    const event: Event = JSON.parse(fs.readFileSync(src, "utf-8"));
+    // Keep anything the consumer already recorded (e.g., the inbox's reply text)
+    writeEventFile(dst, { ...event, processedAt: new Date().toISOString(), result: { ...event.result, ...result } });
+    fs.unlinkSync(src);
+  } else {
     fs.renameSync(src, dst);
+    // Retention goes by when the event was acked (see pruneProcessedEvents)
+    const now = new Date();
+    fs.utimesSync(dst, now, now);
+  }
+}
+
+/**
+ * Delete acked events older than maxAgeDays or beyond the newest maxEvents
+ * (0 = no limit), by when they were acked. Returns how many were deleted.
+ */
+export function pruneProcessedEvents(maxAgeDays: number, maxEvents: number, now: Date = new Date()): number {
+  if (!fs.existsSync(PROCESSED_DIR)) return 0;
+  const ageCutoff = maxAgeDays > 0 ? now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  const files = fs.readdirSync(PROCESSED_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => {
+      const filePath = path.join(PROCESSED_DIR, f);
+      try {
+        return { filePath, mtimeMs: fs.statSync(filePath).mtimeMs };
+      } catch {
+        return null;
+      }
+    })
+    .filter((f): f is { filePath: string; mtimeMs: number } => f !== null)
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  let pruned = 0;
+  files.forEach(({ filePath, mtimeMs }, index) => {
+    const overCount = maxEvents > 0 && index >= maxEvents;
+    const tooOld = ageCutoff !== null && mtimeMs < ageCutoff;
+    if (!overCount && !tooOld) return;
+    try {
+      fs.unlinkSync(filePath);
+      pruned++;
+    } catch {
+      // Already gone
+    }
+  });
+  return pruned;
+}
+
+// Read an acked event and its result, or null if it's still pending (or unknown)
+export function getProcessedEvent(eventId: string): Event | null {
+  const filePath = path.join(PROCESSED_DIR, `${path.basename(eventId)}.json`);
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    return null;
   }
 }
 
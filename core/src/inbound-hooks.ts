@@ -0,0 +1,174 @@
+/**
+ * Inbound hooks
+ *
+ * Definitions for the webhook channel (channels/webhook.ts): each hook is an
+ * HTTP endpoint, POST /hooks/<name>, that turns the request body into a prompt.
+ * Hooks live in config/inbound-hooks.json and are re-read on every request:
+ *
+ *   {
+ *     "hooks": [
+ *       {
+ *         "name": "github",
+ *         "secret": "...",
+ *         "prompt": "New push to {{repository.full_name}} by {{pusher.name}}:\n{{commits}}",
+ *         "sessionKey": "{{repository.name}}",
+ *         "reply": { "channel": "telegram", "to": "5473044160" },
+ *         "concurrency": "session"
+ *       }
+ *     ]
+ *   }
+ *
+ * Requests authenticate with the hook's secret, either as a bearer token or
+ * as a GitHub-style HMAC of the raw body (X-Hub-Signature-256). Templates
+ * fill {{path.to.field}} from the JSON (or form) body; {{body}} is the whole
+ * body and {{hook}} the hook's name.
+ */
+
+import * as fs from "fs";
+import * as crypto from "crypto";
+import type { ConcurrencyMode } from "./channels/types.js";
+
+export type InboundHookReplyChannel = "telegram" | "discord" | "gchat";
+
+export interface InboundHook {
+  name: string;                   // URL path segment
+  secret: string;
+  prompt: string;                 // Template for the prompt
+  // Which session requests share: "hook" (all of them, default), "request"
+  // (a fresh one each time) or a template such as "{{repository.name}}"
+  sessionKey?: string;
+  // Where the reply goes - without it the answer only lands in the job log and memory
+  reply?: { channel: InboundHookReplyChannel; to: string };
+  concurrency?: ConcurrencyMode;  // Default: "session"
+  enabled?: boolean;              // Default: true
+}
+
+export interface InboundHooksConfig {
+  hooks: InboundHook[];
+}
+
+const REPLY_CHANNELS: InboundHookReplyChannel[] = ["telegram", "discord", "gchat"];
+const CONCURRENCY_MODES: ConcurrencyMode[] = ["none", "global", "session"];
+const MIN_SECRET_LENGTH = 16;
+
+export function loadInboundHooksConfig(configFile: string): InboundHooksConfig {
+  try {
+    if (fs.existsSync(configFile)) {
+      const data = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+      return { hooks: Array.isArray(data.hooks) ? data.hooks : [] };
+    }
+  } catch {
+    // Fall through to no hooks
+  }
+  return { hooks: [] };
+}
+
+function hasUsableSecret(hook: InboundHook): boolean {
+  return typeof hook.secret === "string" && hook.secret.length >= MIN_SECRET_LENGTH;
+}
+
+export function isValidHookName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]*$/i.test(name) && name.length <= 64;
+}
+
+/**
+ * Problems with an inbound hooks config, or an empty list if it's usable
+ */
+export function validateInboundHooksConfig(config: InboundHooksConfig): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+  for (const hook of config.hooks) {
+    const name = hook.name || "(unnamed)";
+    if (!hook.name || !isValidHookName(hook.name)) {
+      errors.push(`Invalid hook name: ${name} (letters, digits, - and _)`);
+    } else if (names.has(hook.name)) {
+      errors.push(`Duplicate hook name: ${hook.name}`);
+    }
+    names.add(hook.name);
+    if (!hasUsableSecret(hook)) {
+      errors.push(`Hook ${name} needs a secret of at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    if (!hook.prompt?.trim()) {
+      errors.push(`Hook ${name} needs a prompt template`);
+    }
+    if (hook.reply && (!REPLY_CHANNELS.includes(hook.reply.channel) || !hook.reply.to)) {
+      errors.push(`Hook ${name} replies need a channel (${REPLY_CHANNELS.join(", ")}) and a destination`);
+    }
+    if (hook.concurrency && !CONCURRENCY_MODES.includes(hook.concurrency)) {
+      errors.push(`Hook ${name} has an unknown concurrency mode: ${hook.concurrency}`);
+    }
+  }
+  return errors;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Check a request against the hook's secret - a bearer token, X-Hook-Secret,
+ * or an HMAC-SHA256 of the raw body in X-Hub-Signature-256. A hook with a
+ * missing or short secret (a hand-edited config) accepts nothing - anyone can
+ * sign with an empty key.
+ */
+export function verifyHookRequest(
+  hook: InboundHook,
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: string
+): boolean {
+  if (!hasUsableSecret(hook)) return false;
+
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const signature = header("x-hub-signature-256");
+  if (signature) {
+    const expected = "sha256=" + crypto.createHmac("sha256", hook.secret).update(rawBody).digest("hex");
+    return safeEqual(signature, expected);
+  }
+
+  const authorization = header("authorization");
+  const token = authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : header("x-hook-secret");
+  return !!token && safeEqual(token, hook.secret);
+}
+
+function lookup(data: unknown, fieldPath: string): unknown {
+  let value: unknown = data;
+  for (const key of fieldPath.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Fill {{field}} placeholders from the request body. Objects and arrays are
+ * inserted as JSON, missing fields as an empty string.
+ */
+export function renderHookTemplate(template: string, hookName: string, body: unknown): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, field: string) => {
+    const value = field === "hook" ? hookName : field === "body" ? body : lookup(body, field);
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value, null, 2) : String(value);
+  });
+}
+
+/**
+ * Session key for a request - always prefixed "webhook-<hook>" so per-channel
+ * settings apply and hooks never share a session
+ */
+export function getHookSessionKey(hook: InboundHook, body: unknown, requestId: string): string {
+  const strategy = hook.sessionKey || "hook";
+  const base = `webhook-${hook.name}`;
+  if (strategy === "hook") return base;
+  if (strategy === "request") return `${base}-${requestId}`;
+  const rendered = renderHookTemplate(strategy, hook.name, body)
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+  return rendered ? `${base}-${rendered}` : base;
+}
@@ -0,0 +1,246 @@
+/**
+ * Job retention and archival
+ *
+ * Finished jobs older than maxAgeDays, or beyond the newest maxJobs, are moved
+ * out of logs/jobs into monthly gzip archives:
+ * - archive/<YYYY-MM>.jsonl.gz  full job records (summary + events), one per line
+ * - archive/index.jsonl         job summaries with the archive they live in
+ *
+ * The index stays uncompressed so archived jobs can be listed and searched
+ * without opening any archive. Each archival pass appends a new gzip member
+ * to the month's file, which gunzip reads back as one stream.
+ *
+ * Acked events in events/processed (every channel message, and the results
+ * inbox senders collect) are deleted after processedEventsMaxAgeDays, or
+ * beyond the newest maxProcessedEvents - see pruneProcessedEvents in events.ts.
+ *
+ * Settings live in config/job-retention.json next to memory-settings.json.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import type { JobStore, JobSummary, JobRecord } from "./job-store.js";
+
+export interface JobRetentionSettings {
+  maxAgeDays: number;        // Archive finished jobs older than this (0 = no age limit)
+  maxJobs: number;           // Keep at most this many jobs unarchived (0 = no count limit)
+  archiveMaxMonths: number;  // Delete archives older than this many months (0 = keep forever)
+  processedEventsMaxAgeDays: number;  // Delete acked events older than this (0 = no age limit)
+  maxProcessedEvents: number;         // Keep at most this many acked events (0 = no count limit)
+}
+
+export const JOB_RETENTION_DEFAULTS: JobRetentionSettings = {
+  maxAgeDays: 30,
+  maxJobs: 1000,
+  archiveMaxMonths: 0,
+  processedEventsMaxAgeDays: 14,
+  maxProcessedEvents: 5000,
+};
+
+export interface ArchivedJobSummary extends Omit<JobSummary, "fullPrompt"> {
+  archive: string;  // YYYY-MM
+}
+
+export interface RetentionResult {
+  archived: number;
+  prunedArchives: string[];
+}
+
+export function loadJobRetentionSettings(configFile: string): JobRetentionSettings {
+  try {
+    const loaded = JSON.parse(fs.readFileSync(configFile, "utf-8")) as Partial<JobRetentionSettings>;
+    return {
+      maxAgeDays: loaded.maxAgeDays ?? JOB_RETENTION_DEFAULTS.maxAgeDays,
+      maxJobs: loaded.maxJobs ?? JOB_RETENTION_DEFAULTS.maxJobs,
+      archiveMaxMonths: loaded.archiveMaxMonths ?? JOB_RETENTION_DEFAULTS.archiveMaxMonths,
+      processedEventsMaxAgeDays: loaded.processedEventsMaxAgeDays ?? JOB_RETENTION_DEFAULTS.processedEventsMaxAgeDays,
+      maxProcessedEvents: loaded.maxProcessedEvents ?? JOB_RETENTION_DEFAULTS.maxProcessedEvents,
+    };
+  } catch {
+    return { ...JOB_RETENTION_DEFAULTS };
+  }
+}
+
+const ARCHIVE_BATCH_SIZE = 100;
+
+// Job IDs start with their UTC start time
+function getJobMonth(jobId: string): string {
+  return jobId.slice(0, 7);
+}
+
+export class JobArchive {
+  readonly dir: string;
+  private indexCache: { mtimeMs: number; entries: ArchivedJobSummary[] } | null = null;
+  // Last opened month, since a job detail page is usually followed by its neighbours
+  private monthCache: { month: string; mtimeMs: number; records: Map<string, JobRecord> } | null = null;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  get indexPath(): string {
+    return path.join(this.dir, "index.jsonl");
+  }
+
+  monthPath(month: string): string {
+    return path.join(this.dir, `${month}.jsonl.gz`);
+  }
+
+  /**
+   * Summaries of every archived job, newest first
+   */
+  list(): ArchivedJobSummary[] {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.indexPath).mtimeMs;
+    } catch {
+      return [];
+    }
+    if (this.indexCache && this.indexCache.mtimeMs === mtimeMs) {
+      return this.indexCache.entries;
+    }
+
+    // A job archived twice (crash before its live files were removed) keeps one entry
+    const byId: Map<string, ArchivedJobSummary> = new Map();
+    for (const line of fs.readFileSync(this.indexPath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: ArchivedJobSummary = JSON.parse(line);
+        byId.set(entry.id, entry);
+      } catch {
+        // Skip a torn line
+      }
+    }
+    const entries = [...byId.values()].sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+    this.indexCache = { mtimeMs, entries };
+    return entries;
+  }
+
+  readSummary(jobId: string): ArchivedJobSummary | null {
+    return this.list().find(e => e.id === jobId) || null;
+  }
+
+  read(jobId: string): JobRecord | null {
+    const summary = this.readSummary(jobId);
+    if (!summary) return null;
+    return this.readMonth(summary.archive).get(jobId) || null;
+  }
+
+  /**
+   * Append finished jobs to their month's archive and the index
+   */
+  add(records: JobRecord[]): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const byMonth: Map<string, JobRecord[]> = new Map();
+    for (const record of records) {
+      const month = getJobMonth(record.id);
+      byMonth.set(month, [...(byMonth.get(month) || []), record]);
+    }
+
+    for (const [month, monthRecords] of byMonth) {
+      const lines = monthRecords.map(r => JSON.stringify(r) + "\n").join("");
+      fs.appendFileSync(this.monthPath(month), zlib.gzipSync(lines));
+
+      const indexLines = monthRecords.map(({ events, fullPrompt, ...summary }) =>
+        JSON.stringify({ ...summary, archive: month }) + "\n"
+      ).join("");
+      fs.appendFileSync(this.indexPath, indexLines);
+    }
+  }
+
+  /**
+   * Delete archives from before the given month (YYYY-MM). Returns the months removed.
+   */
+  pruneBefore(month: string): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    const pruned: string[] = [];
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith(".jsonl.gz")) continue;
+      const fileMonth = file.slice(0, 7);
+      if (fileMonth >= month) continue;
+      fs.unlinkSync(path.join(this.dir, file));
+      pruned.push(fileMonth);
+    }
+
+    if (pruned.length > 0) {
+      const kept = this.list().filter(e => !pruned.includes(e.archive));
+      const tmpPath = `${this.indexPath}.tmp`;
+      fs.writeFileSync(tmpPath, kept.reverse().map(e => JSON.stringify(e) + "\n").join(""));
+      fs.renameSync(tmpPath, this.indexPath);
+    }
+    return pruned;
+  }
+
+  private readMonth(month: string): Map<string, JobRecord> {
+    const filePath = this.monthPath(month);
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(filePath).mtimeMs;
+    } catch {
+      return new Map();
+    }
+    if (this.monthCache && this.monthCache.month === month && this.monthCache.mtimeMs === mtimeMs) {
+      return this.monthCache.records;
+    }
+
+    const records: Map<string, JobRecord> = new Map();
+    const content = zlib.gunzipSync(fs.readFileSync(filePath)).toString("utf-8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record: JobRecord = JSON.parse(line);
+        records.set(record.id, record);
+      } catch {
+        // Skip a torn line
+      }
+    }
+    this.monthCache = { month, mtimeMs, records };
+    return records;
+  }
+}
+
+/**
+ * Move jobs past the retention limits into the archive, then drop expired archives
+ */
+export function applyJobRetention(
+  store: JobStore,
+  archive: JobArchive,
+  settings: JobRetentionSettings,
+  now: Date = new Date()
+): RetentionResult {
+  const ageCutoff = settings.maxAgeDays > 0 ? now.getTime() - settings.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  const toArchive: string[] = [];
+  store.listIds().forEach((jobId, index) => {
+    const overCount = settings.maxJobs > 0 && index >= settings.maxJobs;
+    if (!overCount && ageCutoff === null) return;
+
+    const summary = store.readSummary(jobId);
+    if (!summary || summary.status === "running") return;
+
+    const tooOld = ageCutoff !== null && new Date(summary.startTime).getTime() < ageCutoff;
+    if (overCount || tooOld) toArchive.push(jobId);
+  });
+
+  // In batches, so a first run over a large backlog doesn't load every job at once
+  for (let i = 0; i < toArchive.length; i += ARCHIVE_BATCH_SIZE) {
+    const records = toArchive.slice(i, i + ARCHIVE_BATCH_SIZE)
+      .map(jobId => store.read(jobId))
+      .filter((r): r is JobRecord => r !== null);
+    archive.add(records);
+    for (const record of records) {
+      store.remove(record.id);
+    }
+  }
+
+  let prunedArchives: string[] = [];
+  if (settings.archiveMaxMonths > 0) {
+    const cutoff = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - settings.archiveMaxMonths, 1));
+    prunedArchives = archive.pruneBefore(cutoff.toISOString().slice(0, 7));
+  }
+
+  return { archived: toArchive.length, prunedArchives };
+}
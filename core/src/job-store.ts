@@ -0,0 +1,230 @@
+/**
+ * Job log storage
+ *
+ * Each job is two files in the jobs directory:
+ * - <id>.json          small summary record (status, cost, toolCount, ...)
+ * - <id>.events.jsonl  append-only stream events, one JSON object per line
+ *
+ * Appending an event never rewrites the event log, and the summary is only
+ * rewritten (atomically) when one of its fields changes. The watcher, the
+ * dashboard's emergency fix and the jobs API all go through this module.
+ *
+ * Older job files kept every event in an `events` array inside <id>.json.
+ * Those are still readable as-is, and migrateLegacyJobs() splits them into
+ * the new layout.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+
+// "timeout"/"limit" - killed by the watchdog for crossing a per-job limit
+// "orphaned" - the watcher died while the job was running (found at startup)
+export type JobStatus = "running" | "completed" | "error" | "stopped" | "timeout" | "limit" | "orphaned";
+
+export interface JobSummary {
+  id: string;
+  startTime: string;
+  endTime?: string;
+  channel: string;
+  trigger: string;
+  fullPrompt?: string;
+  status: JobStatus;
+  statusReason?: string;  // Why a job was cut short (e.g., which limit it hit)
+  pid?: number;
+  pidStartTime?: string;  // When pid started (getProcessStartTime in runner.ts) - tells a reused PID apart
+  model?: string;
+  cost?: number;
+  durationMs?: number;
+  toolCount: number;
+  sessionKey?: string;
+  eventId?: string;       // Durable queue event that triggered this job
+  eventIds?: string[];    // Every durable event behind a job that merged several messages
+  profile?: string;       // Assistant profile that ran the job (see profiles.ts)
+  cronJobId?: string;     // The cron.json entry behind a cron job
+}
+
+export interface JobEvent {
+  ts: string;
+  type: string;
+  [key: string]: any;
+}
+
+export interface JobRecord extends JobSummary {
+  events: JobEvent[];
+}
+
+const SUMMARY_SUFFIX = ".json";
+const EVENTS_SUFFIX = ".events.jsonl";
+
+export function generateJobId(): string {
+  const now = new Date();
+  const timestamp = now.toISOString().replace(/[:.]/g, "-");
+  const uuid = randomUUID().slice(0, 8);
+  return `${timestamp}-${uuid}`;
+}
+
+export class JobStore {
+  readonly dir: string;
+  // Summaries of jobs this process is writing, so appends don't re-read them
+  private active: Map<string, JobSummary> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  summaryPath(jobId: string): string {
+    return path.join(this.dir, `${jobId}${SUMMARY_SUFFIX}`);
+  }
+
+  eventsPath(jobId: string): string {
+    return path.join(this.dir, `${jobId}${EVENTS_SUFFIX}`);
+  }
+
+  create(summary: Omit<JobSummary, "status" | "toolCount">): JobSummary {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const job: JobSummary = { ...summary, status: "running", toolCount: 0 };
+    this.writeSummary(job);
+    fs.writeFileSync(this.eventsPath(job.id), "");
+    this.active.set(job.id, job);
+    return job;
+  }
+
+  appendEvent(jobId: string, event: Record<string, any>): void {
+    const entry: JobEvent = { ts: new Date().toISOString(), ...event } as JobEvent;
+    fs.appendFileSync(this.eventsPath(jobId), JSON.stringify(entry) + "\n");
+
+    // Only touch the summary when a tracked field changes
+    let toolUses = 0;
+    if (event.type === "assistant" && event.message?.content) {
+      toolUses = event.message.content.filter((c: any) => c.type === "tool_use").length;
+    }
+    const model = event.type === "system" && event.subtype === "init" ? event.model : undefined;
+    if (toolUses === 0 && !model) return;
+
+    this.update(jobId, (job) => {
+      job.toolCount += toolUses;
+      if (model) job.model = model;
+    });
+  }
+
+  finalize(
+    jobId: string,
+    status: Exclude<JobStatus, "running">,
+    details: { cost?: number; durationMs?: number; reason?: string } = {}
+  ): void {
+    this.update(jobId, (job) => {
+      job.status = status;
+      job.endTime = new Date().toISOString();
+      if (details.cost !== undefined) job.cost = details.cost;
+      if (details.durationMs !== undefined) job.durationMs = details.durationMs;
+      if (details.reason !== undefined) job.statusReason = details.reason;
+    });
+    this.active.delete(jobId);
+  }
+
+  /**
+   * Apply a change to a job's summary and write it back
+   */
+  update(jobId: string, change: (job: JobSummary) => void): JobSummary | null {
+    const job = this.active.get(jobId) || this.readSummary(jobId);
+    if (!job) return null;
+    change(job);
+    this.writeSummary(job);
+    return job;
+  }
+
+  readSummary(jobId: string): JobSummary | null {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.summaryPath(jobId), "utf-8"));
+      // Legacy files carry their events inline - keep summaries small
+      delete data.events;
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  readEvents(jobId: string): JobEvent[] {
+    if (fs.existsSync(this.eventsPath(jobId))) {
+      const events: JobEvent[] = [];
+      for (const line of fs.readFileSync(this.eventsPath(jobId), "utf-8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          events.push(JSON.parse(line));
+        } catch {
+          // Skip a torn last line from a crash mid-write
+        }
+      }
+      return events;
+    }
+
+    // Legacy layout
+    try {
+      const data = JSON.parse(fs.readFileSync(this.summaryPath(jobId), "utf-8"));
+      return Array.isArray(data.events) ? data.events : [];
+    } catch {
+      return [];
+    }
+  }
+
+  read(jobId: string): JobRecord | null {
+    const summary = this.readSummary(jobId);
+    if (!summary) return null;
+    return { ...summary, events: this.readEvents(jobId) };
+  }
+
+  /**
+   * Delete a job's files (used once it has been archived)
+   */
+  remove(jobId: string): void {
+    fs.rmSync(this.eventsPath(jobId), { force: true });
+    fs.rmSync(this.summaryPath(jobId), { force: true });
+    this.active.delete(jobId);
+  }
+
+  /**
+   * All job IDs, newest first (IDs start with their start time)
+   */
+  listIds(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(f => f.endsWith(SUMMARY_SUFFIX))
+      .map(f => f.slice(0, -SUMMARY_SUFFIX.length))
+      .sort()
+      .reverse();
+  }
+
+  /**
+   * Split legacy single-file jobs into summary + event log. Returns how many were migrated.
+   */
+  migrateLegacyJobs(): number {
+    let migrated = 0;
+    for (const jobId of this.listIds()) {
+      if (fs.existsSync(this.eventsPath(jobId))) continue;
+
+      let data: any;
+      try {
+        data = JSON.parse(fs.readFileSync(this.summaryPath(jobId), "utf-8"));
+      } catch {
+        continue;
+      }
+      if (!Array.isArray(data.events)) continue;
+
+      // Event log first, so a crash in between leaves the legacy file intact
+      const lines = data.events.map((e: JobEvent) => JSON.stringify(e) + "\n").join("");
+      fs.writeFileSync(this.eventsPath(jobId), lines);
+      delete data.events;
+      this.writeSummary(data);
+      migrated++;
+    }
+    return migrated;
+  }
+
+  private writeSummary(job: JobSummary): void {
+    const filePath = this.summaryPath(job.id);
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(job, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  }
+}
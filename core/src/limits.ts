@@ -0,0 +1,137 @@
+/**
+ * Per-job runaway protection
+ *
+ * Limits come from channels.json (global + per channel) and cron.json
+ * (top level + per job). A watchdog follows each job's stream events and
+ * reports the first limit it crosses so the watcher can kill the job.
+ */
+
+import type { StreamEvent } from "./channels/types.js";
+
+export interface JobLimits {
+  maxDurationSeconds?: number;  // Wall-clock time from start
+  maxToolCalls?: number;        // Same count as toolCount in the job file
+  maxCostUsd?: number;          // Estimated from token usage while running
+}
+
+export interface LimitBreach {
+  status: "timeout" | "limit";
+  reason: string;
+}
+
+/**
+ * Merge limit layers - later layers override earlier ones.
+ * A value of 0 in a later layer removes the limit.
+ */
+export function resolveJobLimits(...layers: Array<JobLimits | undefined>): JobLimits {
+  const resolved: JobLimits = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of ["maxDurationSeconds", "maxToolCalls", "maxCostUsd"] as const) {
+      if (layer[key] !== undefined) {
+        resolved[key] = layer[key]! > 0 ? layer[key] : undefined;
+      }
+    }
+  }
+  return resolved;
+}
+
+export function hasJobLimits(limits: JobLimits): boolean {
+  return !!(limits.maxDurationSeconds || limits.maxToolCalls || limits.maxCostUsd);
+}
+
+// USD per million tokens, matched by model family. The CLI only reports the
+// real cost in the final result event, so running cost is an estimate.
+const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: "opus", input: 15, output: 75 },
+  { match: "sonnet", input: 3, output: 15 },
+  { match: "haiku", input: 1, output: 5 },
+];
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+function estimateMessageCost(model: string | undefined, usage: any): number {
+  const pricing = MODEL_PRICING.find(p => model?.includes(p.match)) || MODEL_PRICING[1];
+  const input = (usage.input_tokens || 0)
+    + (usage.cache_creation_input_tokens || 0) * CACHE_WRITE_MULTIPLIER
+    + (usage.cache_read_input_tokens || 0) * CACHE_READ_MULTIPLIER;
+  const output = usage.output_tokens || 0;
+  return (input * pricing.input + output * pricing.output) / 1_000_000;
+}
+
+export class JobLimitWatchdog {
+  private limits: JobLimits;
+  private onBreach: (breach: LimitBreach) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private toolCount = 0;
+  private model?: string;
+  // Usage per message ID - the CLI repeats a message's usage on each of its content events
+  private messageCosts: Map<string, number> = new Map();
+  public breach: LimitBreach | null = null;
+
+  constructor(limits: JobLimits, onBreach: (breach: LimitBreach) => void) {
+    this.limits = limits;
+    this.onBreach = onBreach;
+  }
+
+  start(): void {
+    if (this.limits.maxDurationSeconds) {
+      const seconds = this.limits.maxDurationSeconds;
+      this.timer = setTimeout(() => {
+        this.trip({ status: "timeout", reason: `ran longer than ${formatDuration(seconds)}` });
+      }, seconds * 1000);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get estimatedCost(): number {
+    let total = 0;
+    for (const cost of this.messageCosts.values()) total += cost;
+    return total;
+  }
+
+  observe(event: StreamEvent): void {
+    if (this.breach) return;
+
+    if (event.type === "system" && event.subtype === "init" && event.model) {
+      this.model = event.model;
+    }
+
+    if (event.type !== "assistant" || !event.message) return;
+
+    if (event.message.content) {
+      this.toolCount += event.message.content.filter((c: any) => c.type === "tool_use").length;
+    }
+    if (this.limits.maxToolCalls && this.toolCount > this.limits.maxToolCalls) {
+      this.trip({ status: "limit", reason: `used more than ${this.limits.maxToolCalls} tool calls` });
+      return;
+    }
+
+    if (event.message.usage) {
+      const messageId = event.message.id || `msg-${this.messageCosts.size}`;
+      this.messageCosts.set(messageId, estimateMessageCost(event.message.model || this.model, event.message.usage));
+    }
+    if (this.limits.maxCostUsd && this.estimatedCost > this.limits.maxCostUsd) {
+      this.trip({ status: "limit", reason: `cost more than $${this.limits.maxCostUsd.toFixed(2)} (estimated $${this.estimatedCost.toFixed(2)})` });
+    }
+  }
+
+  private trip(breach: LimitBreach): void {
+    if (this.breach) return;
+    this.breach = breach;
+    this.stop();
+    this.onBreach(breach);
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Persona overlays
+ *
+ * SOUL.md sets the assistant's personality everywhere. Overlays in the
+ * personas directory adjust it for one channel or one conversation:
+ * - personas/<channel>.md      e.g. personas/gchat.md
+ * - personas/<sessionKey>.md   e.g. personas/discord-123456789.md
+ *
+ * CLAUDE.md is shared by every job, so overlays are not written into it.
+ * The watcher composes the matching overlays per event and hands them to
+ * the runner as extra system prompt. The session overlay comes last so it
+ * wins over the channel one.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface PersonaInfo {
+  name: string;        // Channel name or session key
+  size: number;
+  updatedAt: string;
+}
+
+const PERSONA_SUFFIX = ".md";
+
+// Names become file names - no separators or dot-files
+export function isValidPersonaName(name: string): boolean {
+  return /^[\w-][\w.-]*$/.test(name) && name.length <= 200;
+}
+
+export class PersonaStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  personaPath(name: string): string {
+    if (!isValidPersonaName(name)) {
+      throw new Error(`Invalid persona name: ${name}`);
+    }
+    return path.join(this.dir, `${name}${PERSONA_SUFFIX}`);
+  }
+
+  list(): PersonaInfo[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(f => f.endsWith(PERSONA_SUFFIX))
+      .map(f => {
+        const stat = fs.statSync(path.join(this.dir, f));
+        return { name: f.slice(0, -PERSONA_SUFFIX.length), size: stat.size, updatedAt: stat.mtime.toISOString() };
+      })
+      .filter(p => isValidPersonaName(p.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  read(name: string): string | null {
+    try {
+      return fs.readFileSync(this.personaPath(name), "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  write(name: string, content: string): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.personaPath(name), content);
+  }
+
+  remove(name: string): boolean {
+    const filePath = this.personaPath(name);
+    if (!fs.existsSync(filePath)) return false;
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  /**
+   * Overlays for an event, most general first. Returns null when none exist.
+   */
+  compose(names: (string | null | undefined)[]): string | null {
+    const sections: string[] = [];
+    const seen = new Set<string>();
+    for (const name of names) {
+      if (!name || seen.has(name) || !isValidPersonaName(name)) continue;
+      seen.add(name);
+      const content = this.read(name)?.trim();
+      if (content) {
+        sections.push(`# Persona overlay: ${name}\n\n${content}`);
+      }
+    }
+    return sections.length > 0 ? sections.join("\n\n---\n\n") : null;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Assistant profiles
+ *
+ * One watcher can host several assistants (e.g. "work" and "personal"). Each
+ * profile is its own assistant directory with its own SOUL.md, SYSTEM.md,
+ * personas, memory, config/cron.json and .env (credentials for the agent's
+ * tools). Routing rules decide which profile handles a channel or session:
+ *
+ *   config/profiles.json (in the main assistant directory)
+ *   {
+ *     "defaultProfile": "personal",
+ *     "profiles": {
+ *       "personal": { "root": "/home/ubuntu/assistant" },
+ *       "work": { "root": "/home/ubuntu/assistant-work", "label": "Work" }
+ *     },
+ *     "routes": [
+ *       { "match": "gchat", "profile": "work" },
+ *       { "match": "discord-1234*", "profile": "work" }
+ *     ]
+ *   }
+ *
+ * Rules are checked in order and the first whose pattern matches the session
+ * key or the channel name wins ("*" matches anything). Without the file there
+ * is a single "default" profile at the main assistant directory, as before.
+ * A file that exists but doesn't validate is an error, not a reason to fall
+ * back to one profile - that would put "work" messages in the wrong memory.
+ *
+ * Each channel has one listener on the shared pHouseMcp .env and credentials,
+ * and routing splits its chats between profiles. A profile that sets its own
+ * bot token (TELEGRAM_BOT_TOKEN, DISCORD_BOT_TOKEN) in its .env also gets its
+ * own listener for that channel, and everything that bot receives goes to the
+ * profile (see getProfileChannelCredentials). Gmail and Google Chat use the
+ * shared Google account only. Sessions, jobs, budgets, channels.json and the
+ * channels' security configs stay shared in the main directory.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseEnv } from "dotenv";
+
+export interface ProfileDefinition {
+  root: string;     // Assistant directory (cwd for the agent)
+  label?: string;   // Display name in the dashboard
+}
+
+export interface ProfileRoute {
+  match: string;    // Session key or channel name, "*" as wildcard
+  profile: string;
+}
+
+export interface ProfilesConfig {
+  defaultProfile: string;
+  profiles: Record<string, ProfileDefinition>;
+  routes: ProfileRoute[];
+}
+
+// Per-profile files, all relative to the profile's root
+export interface ProfilePaths {
+  root: string;
+  soulFile: string;
+  systemFile: string;
+  claudeFile: string;
+  personasDir: string;
+  memoryDir: string;
+  shortTermDir: string;
+  rollupPendingDir: string;
+  longTermDir: string;
+  memorySettingsFile: string;
+  cronConfigFile: string;
+  envFile: string;
+}
+
+export const DEFAULT_PROFILE = "default";
+
+export function getProfilesConfigPath(assistantRoot: string): string {
+  return path.join(assistantRoot, "config", "profiles.json");
+}
+
+export function isValidProfileName(name: string): boolean {
+  return /^[a-z0-9][\w-]*$/i.test(name) && name.length <= 64;
+}
+
+export function getProfilePaths(root: string): ProfilePaths {
+  const memoryDir = path.join(root, "memory");
+  return {
+    root,
+    soulFile: path.join(root, "SOUL.md"),
+    systemFile: path.join(root, "SYSTEM.md"),
+    claudeFile: path.join(root, "CLAUDE.md"),
+    personasDir: path.join(root, "personas"),
+    memoryDir,
+    shortTermDir: path.join(memoryDir, "short-term"),
+    rollupPendingDir: path.join(memoryDir, "rollup-pending"),
+    longTermDir: path.join(memoryDir, "long-term"),
+    memorySettingsFile: path.join(root, "config", "memory-settings.json"),
+    cronConfigFile: path.join(root, "config", "cron.json"),
+    envFile: path.join(root, ".env"),
+  };
+}
+
+// The single profile used when profiles.json doesn't exist
+export function getImplicitProfilesConfig(assistantRoot: string): ProfilesConfig {
+  return {
+    defaultProfile: DEFAULT_PROFILE,
+    profiles: { [DEFAULT_PROFILE]: { root: assistantRoot } },
+    routes: [],
+  };
+}
+
+/**
+ * Problems with a profiles config, or an empty list if it's usable
+ */
+export function validateProfilesConfig(config: ProfilesConfig): string[] {
+  const errors: string[] = [];
+  const names = Object.keys(config.profiles || {});
+  if (names.length === 0) {
+    errors.push("At least one profile is required");
+  }
+  for (const name of names) {
+    if (!isValidProfileName(name)) {
+      errors.push(`Invalid profile name: ${name}`);
+    }
+    const root = config.profiles[name]?.root;
+    if (typeof root !== "string" || !path.isAbsolute(root)) {
+      errors.push(`Profile ${name} needs an absolute root directory`);
+    }
+  }
+  if (!config.profiles?.[config.defaultProfile]) {
+    errors.push(`Default profile ${config.defaultProfile} is not defined`);
+  }
+  for (const route of config.routes || []) {
+    if (!route.match || typeof route.match !== "string") {
+      errors.push("Every route needs a match pattern");
+    } else if (!config.profiles?.[route.profile]) {
+      errors.push(`Route ${route.match} points at unknown profile ${route.profile}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The profiles in profiles.json, or the implicit single profile without it.
+ * Throws if the file exists but can't be parsed or validated - callers keep
+ * the profiles they have, or refuse to start.
+ */
+export function loadProfilesConfig(assistantRoot: string): ProfilesConfig {
+  const file = getProfilesConfigPath(assistantRoot);
+  if (!fs.existsSync(file)) {
+    return getImplicitProfilesConfig(assistantRoot);
+  }
+
+  let loaded: Partial<ProfilesConfig>;
+  try {
+    loaded = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid profiles.json: ${err instanceof Error ? err.message : err}`);
+  }
+  const config: ProfilesConfig = {
+    defaultProfile: loaded.defaultProfile || Object.keys(loaded.profiles || {})[0] || DEFAULT_PROFILE,
+    profiles: loaded.profiles || {},
+    routes: loaded.routes || [],
+  };
+  const errors = validateProfilesConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid profiles.json: ${errors.join("; ")}`);
+  }
+  return config;
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  if (!pattern.includes("*")) return pattern === value;
+  const regex = new RegExp("^" + pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$");
+  return regex.test(value);
+}
+
+/**
+ * Name of the profile that handles a session on a channel
+ */
+export function resolveProfile(config: ProfilesConfig, channelName: string, sessionKey: string): string {
+  for (const route of config.routes) {
+    if (!config.profiles[route.profile]) continue;
+    if (matchesPattern(route.match, sessionKey) || matchesPattern(route.match, channelName)) {
+      return route.profile;
+    }
+  }
+  return config.defaultProfile;
+}
+
+/**
+ * The channel credentials (keys listed by the channel's plugin) a profile sets
+ * in its own .env, or null if it sets none. Values equal to the shared ones
+ * don't count - that bot already has a listener, and a second one would fight
+ * it for updates.
+ */
+export function getProfileChannelCredentials(
+  paths: ProfilePaths,
+  keys: string[],
+  sharedEnv: NodeJS.ProcessEnv
+): Record<string, string> | null {
+  const env = loadProfileEnv(paths);
+  const own = keys.filter(key => env[key] && env[key] !== sharedEnv[key]);
+  if (own.length === 0) return null;
+  return Object.fromEntries(own.map(key => [key, env[key]]));
+}
+
+/**
+ * Variables from the profile's .env, for the agent's tools (API keys, tokens)
+ */
+export function loadProfileEnv(paths: ProfilePaths): Record<string, string> {
+  try {
+    return parseEnv(fs.readFileSync(paths.envFile, "utf-8"));
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Smoke check for the fake agent runner (see runner.ts)
+ *
+ * Replays fixtures/fake-runner/tool-turn.jsonl through createAgentRunner("fake")
+ * and checks what a job would see: the stream events in order, the prompt
+ * filled in, stderr, the exit code, kill() and a broken script. Run it with
+ * `npm run smoke:runner` in core - it needs no network and no Claude CLI.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { createAgentRunner, FakeAgentRunner, type AgentRun } from "./runner.js";
+import type { StreamEvent } from "./channels/types.js";
+
+const FIXTURE = fileURLToPath(new URL("../fixtures/fake-runner/tool-turn.jsonl", import.meta.url));
+
+interface RunResult {
+  events: StreamEvent[];
+  stderr: string;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  error?: Error;
+}
+
+function collect(run: AgentRun): Promise<RunResult> {
+  return new Promise((resolve) => {
+    const result: RunResult = { events: [], stderr: "", code: null, signal: null };
+    run.on("event", (event) => result.events.push(event));
+    run.on("stderr", (chunk) => { result.stderr += chunk; });
+    run.on("close", (code, signal) => resolve({ ...result, code, signal }));
+    run.on("error", (error) => resolve({ ...result, error }));
+  });
+}
+
+const failures: string[] = [];
+
+function check(condition: boolean, description: string): void {
+  console.log(`${condition ? "ok  " : "FAIL"} ${description}`);
+  if (!condition) failures.push(description);
+}
+
+async function main(): Promise<void> {
+  process.env.PHOUSE_FAKE_RUNNER_SCRIPT = FIXTURE;
+  const runner = createAgentRunner("fake");
+  const options = { prompt: "ping", cwd: process.cwd(), session: { id: "smoke", resume: false } };
+
+  // The fixture replays in order, with {{prompt}} filled in
+  const replay = await collect(runner.start(options));
+  check(!replay.error, "fixture replays without an error");
+  check(replay.events.map(e => e.type).join(",") === "system,assistant,user,assistant,result",
+    "stream events arrive in script order");
+  const result = replay.events.at(-1) as any;
+  check(result?.result === "You said: ping", "{{prompt}} is replaced with the prompt");
+  check(result?.total_cost_usd === 0.0123, "result keeps its cost");
+  check(replay.stderr.includes("tool finished"), "stderr directive goes to stderr");
+  check(replay.code === 0 && replay.signal === null, "script without an exit directive exits 0");
+
+  // kill() ends the run with the signal, before the delayed lines
+  const killed = runner.start(options);
+  const killedResult = collect(killed);
+  setTimeout(() => killed.kill("SIGTERM"), 10);
+  const stopped = await killedResult;
+  check(stopped.signal === "SIGTERM" && !stopped.events.some(e => e.type === "result"), "kill() stops the run");
+
+  // A script that doesn't parse fails the run instead of throwing from start()
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "phouse-smoke-"));
+  try {
+    const broken = path.join(dir, "broken.jsonl");
+    fs.writeFileSync(broken, `{"type":"system","subtype":"init"}\n{not json\n`);
+    let started: AgentRun | null = null;
+    try {
+      started = new FakeAgentRunner(broken).start(options);
+    } catch {
+      // Checked below
+    }
+    check(started !== null, "start() doesn't throw on a broken script");
+    if (started) {
+      const failed = await collect(started);
+      check(!!failed.error && failed.error.message.includes("broken.jsonl"), "broken script emits an error event");
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("\nFake runner OK");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,325 @@
+/**
+ * Pluggable agent runner backends
+ *
+ * Everything that starts an agent job (channel events, cron, memory rollups,
+ * the dashboard's emergency fix) goes through an AgentRunner instead of
+ * spawning a CLI directly. The Claude CLI is the default backend; the fake
+ * backend replays canned stream-json so the watcher can run fully offline.
+ *
+ * Select a backend with PHOUSE_AGENT_RUNNER=claude|fake (default: claude).
+ */
+
+import { spawn, execFileSync, ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import type { StreamEvent } from "./channels/types.js";
+
+export interface AgentRunOptions {
+  prompt: string;
+  cwd: string;
+  // Session to start, or to resume when resume is true
+  session?: { id: string; resume: boolean };
+  model?: string;
+  // Extra system prompt for this run only (e.g., persona overlays)
+  appendSystemPrompt?: string;
+  // Extra CLI settings for this run only (e.g., the approval hook)
+  settings?: Record<string, unknown>;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * A single running agent job
+ *
+ * Events:
+ * - "event"  (event: StreamEvent)     parsed stream-json event
+ * - "output" (line: string)           non-JSON line on stdout
+ * - "stdout" (chunk: string)          raw stdout chunk
+ * - "stderr" (chunk: string)          raw stderr chunk
+ * - "close"  (code, signal)           job finished or was killed
+ * - "error"  (err: Error)             job could not be started
+ */
+export interface AgentRun {
+  readonly pid?: number;
+  kill(signal?: NodeJS.Signals): boolean;
+  on(event: "event", listener: (event: StreamEvent) => void): this;
+  on(event: "output" | "stdout" | "stderr", listener: (text: string) => void): this;
+  on(event: "close", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: "error", listener: (err: Error) => void): this;
+  once(event: "close", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  removeListener(event: string, listener: (...args: any[]) => void): this;
+}
+
+export interface AgentRunner {
+  readonly name: string;
+  start(options: AgentRunOptions): AgentRun;
+  // Is this PID still one of this backend's agent processes? Guards against
+  // signalling a PID that was reused after the job ended. startTime is what
+  // getProcessStartTime() returned when the job started, if it was recorded.
+  ownsProcess(pid: number, startTime?: string): boolean;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    // ESRCH: gone. EPERM: exists but belongs to someone else - not ours either way
+    return false;
+  }
+}
+
+/**
+ * When a process started, as an opaque string to compare later - a reused PID
+ * gets a different one. Null if the process doesn't exist.
+ */
+export function getProcessStartTime(pid: number): string | null {
+  if (!isProcessAlive(pid)) return null;
+  try {
+    // Field 22 (starttime, in clock ticks since boot). The command name before
+    // it is in parentheses and may contain spaces, so count from the last ")".
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, "utf-8");
+    return stat.slice(stat.lastIndexOf(")") + 2).split(" ")[19] || null;
+  } catch {
+    // No procfs (e.g., macOS)
+    try {
+      return execFileSync("ps", ["-p", String(pid), "-o", "lstart="], { encoding: "utf-8" }).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Arguments of a live process (argv[0] first), or null if it doesn't exist
+function getProcessArgs(pid: number): string[] | null {
+  if (!isProcessAlive(pid)) return null;
+  try {
+    return fs.readFileSync(`/proc/${pid}/cmdline`, "utf-8").split("\0").filter(Boolean);
+  } catch {
+    // No procfs (e.g., macOS) - arguments with spaces get split, but argv[0] and argv[1] are what matter
+    try {
+      return execFileSync("ps", ["-p", String(pid), "-o", "command="], { encoding: "utf-8" }).trim().split(/\s+/);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Shared stdout handling - splits the stream into lines and parses stream-json
+class AgentProcess extends EventEmitter implements AgentRun {
+  public pid?: number;
+  private lineBuffer = "";
+  private killHandler: (signal: NodeJS.Signals) => boolean;
+
+  constructor(killHandler: (signal: NodeJS.Signals) => boolean) {
+    super();
+    this.killHandler = killHandler;
+  }
+
+  kill(signal: NodeJS.Signals = "SIGTERM"): boolean {
+    return this.killHandler(signal);
+  }
+
+  feedStdout(chunk: string): void {
+    this.emit("stdout", chunk);
+    this.lineBuffer += chunk;
+
+    const lines = this.lineBuffer.split("\n");
+    this.lineBuffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let parsed: StreamEvent;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        this.emit("output", line);
+        continue;
+      }
+      this.emit("event", parsed);
+    }
+  }
+}
+
+// Claude Code CLI in print mode with stream-json output
+export class ClaudeCliRunner implements AgentRunner {
+  readonly name = "claude";
+  private command: string;
+
+  constructor(command: string = process.env.CLAUDE_BIN || "claude") {
+    this.command = command;
+  }
+
+  start(options: AgentRunOptions): AgentRun {
+    const sessionArg = options.session
+      ? (options.session.resume ? ["--resume", options.session.id] : ["--session-id", options.session.id])
+      : [];
+    const modelArg = options.model ? ["--model", options.model] : [];
+    const systemPromptArg = options.appendSystemPrompt ? ["--append-system-prompt", options.appendSystemPrompt] : [];
+    const settingsArg = options.settings ? ["--settings", JSON.stringify(options.settings)] : [];
+
+    let proc: ChildProcess | null = null;
+    const run = new AgentProcess((signal) => proc ? proc.kill(signal) : false);
+
+    proc = spawn(
+      this.command,
+      [
+        ...sessionArg,
+        "-p",
+        "--verbose",
+        "--output-format", "stream-json",
+        "--dangerously-skip-permissions",
+        ...modelArg,
+        ...systemPromptArg,
+        ...settingsArg,
+        options.prompt,
+      ],
+      {
+        cwd: options.cwd,
+        env: { ...(options.env || process.env), FORCE_COLOR: "0" },
+        stdio: ["ignore", "pipe", "pipe"],
+      }
+    );
+    run.pid = proc.pid;
+
+    proc.stdout!.on("data", (data) => run.feedStdout(data.toString()));
+    proc.stderr!.on("data", (data) => run.emit("stderr", data.toString()));
+    proc.on("close", (code, signal) => run.emit("close", code, signal));
+    proc.on("error", (err) => run.emit("error", err));
+
+    return run;
+  }
+
+  ownsProcess(pid: number, startTime?: string): boolean {
+    if (startTime) {
+      return getProcessStartTime(pid) === startTime;
+    }
+    // Jobs from before start times were recorded: the executable itself, or the
+    // script an interpreter runs (the CLI is a node script)
+    const args = getProcessArgs(pid);
+    const executable = path.basename(this.command);
+    return !!args && args.slice(0, 2).some(arg => path.basename(arg) === executable);
+  }
+}
+
+/**
+ * Replays canned stream-json instead of calling a real agent
+ *
+ * The script is a JSONL file (PHOUSE_FAKE_RUNNER_SCRIPT). Each line is emitted
+ * as a stream event, except for these directives:
+ * - {"delay": 500}      wait before the next line
+ * - {"stderr": "..."}   write to stderr
+ * - {"exit": 1}         exit code once the script ends (default 0)
+ * The placeholder {{prompt}} inside any string is replaced with the prompt.
+ * Without a script, a single echo turn is replayed. A script that can't be
+ * read or parsed fails the run with an "error" event, like a CLI that won't
+ * start. core/fixtures/fake-runner/tool-turn.jsonl is a sample script, and
+ * `npm run smoke:runner` in core replays it.
+ */
+export class FakeAgentRunner implements AgentRunner {
+  readonly name = "fake";
+  private scriptPath?: string;
+
+  constructor(scriptPath: string | undefined = process.env.PHOUSE_FAKE_RUNNER_SCRIPT) {
+    this.scriptPath = scriptPath;
+  }
+
+  start(options: AgentRunOptions): AgentRun {
+    let lines: any[];
+    try {
+      lines = this.loadScript(options);
+    } catch (err) {
+      const failed = new AgentProcess(() => false);
+      const error = new Error(`Fake runner script ${this.scriptPath} is invalid: ${err instanceof Error ? err.message : err}`);
+      setImmediate(() => failed.emit("error", error));
+      return failed;
+    }
+    let timer: NodeJS.Timeout | null = null;
+    let finished = false;
+
+    const finish = (code: number | null, signal: NodeJS.Signals | null) => {
+      if (finished) return;
+      finished = true;
+      if (timer) clearTimeout(timer);
+      run.emit("close", code, signal);
+    };
+
+    const run = new AgentProcess((signal) => {
+      if (finished) return false;
+      setImmediate(() => finish(null, signal));
+      return true;
+    });
+
+    let exitCode = 0;
+    let index = 0;
+    const step = () => {
+      timer = null;
+      while (!finished && index < lines.length) {
+        const line = lines[index++];
+        if (typeof line.delay === "number") {
+          timer = setTimeout(step, line.delay);
+          return;
+        }
+        if (typeof line.stderr === "string") {
+          run.emit("stderr", line.stderr);
+          continue;
+        }
+        if (typeof line.exit === "number") {
+          exitCode = line.exit;
+          continue;
+        }
+        run.feedStdout(JSON.stringify(line) + "\n");
+      }
+      finish(exitCode, null);
+    };
+
+    setImmediate(step);
+    return run;
+  }
+
+  // Fake jobs have no process
+  ownsProcess(_pid: number, _startTime?: string): boolean {
+    return false;
+  }
+
+  private loadScript(options: AgentRunOptions): any[] {
+    const fill = (text: string) => text.split("{{prompt}}").join(options.prompt);
+
+    if (this.scriptPath && fs.existsSync(this.scriptPath)) {
+      return fs.readFileSync(this.scriptPath, "utf-8")
+        .split("\n")
+        .filter(l => l.trim())
+        .map(l => JSON.parse(l, (_key, value) => typeof value === "string" ? fill(value) : value));
+    }
+
+    const sessionId = options.session?.id || "fake-session";
+    return [
+      { type: "system", subtype: "init", session_id: sessionId, model: options.model || "fake" },
+      { type: "assistant", message: { content: [{ type: "text", text: `[fake] ${options.prompt.slice(0, 200)}` }] } },
+      { type: "result", subtype: "success", session_id: sessionId, total_cost_usd: 0, duration_ms: 0 },
+    ];
+  }
+}
+
+const runnerFactories = new Map<string, () => AgentRunner>([
+  ["claude", () => new ClaudeCliRunner()],
+  ["fake", () => new FakeAgentRunner()],
+]);
+
+/**
+ * Register an additional runner backend (e.g., another agent CLI)
+ */
+export function registerAgentRunner(name: string, factory: () => AgentRunner): void {
+  runnerFactories.set(name, factory);
+}
+
+/**
+ * Create the configured runner backend
+ */
+export function createAgentRunner(name: string = process.env.PHOUSE_AGENT_RUNNER || "claude"): AgentRunner {
+  const factory = runnerFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown agent runner: ${name} (available: ${[...runnerFactories.keys()].join(", ")})`);
+  }
+  return factory();
+}
@@ -0,0 +1,173 @@
+/**
+ * Global job scheduler
+ *
+ * Hands out the watcher's concurrent job slots. Waiting jobs are served by
+ * priority class instead of strict FIFO, with aging so lower classes still
+ * get a turn: every `agingMs` spent waiting promotes a job by one class.
+ * Optionally some slots are reserved for interactive work, so a burst of
+ * cron jobs or rollups can never occupy every slot.
+ */
+
+export type PriorityClass = "interactive" | "cron" | "rollup" | "maintenance";
+
+// Lower rank is served first
+export const PRIORITY_RANKS: Record<PriorityClass, number> = {
+  interactive: 0,
+  cron: 1,
+  rollup: 2,
+  maintenance: 3,
+};
+
+export interface SchedulerOptions {
+  maxConcurrentJobs: number;
+  reservedInteractiveSlots: number;  // Slots only interactive jobs may use
+  agingMs: number;                   // Waiting time that promotes a job by one class
+}
+
+export interface QueuedJobInfo {
+  label: string;
+  priority: PriorityClass;
+  effectiveRank: number;
+  waitingMs: number;
+}
+
+interface Waiter {
+  label: string;
+  priority: PriorityClass;
+  enqueuedAt: number;
+  seq: number;
+  grant: () => void;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrentJobs: 2,
+  reservedInteractiveSlots: 0,
+  agingMs: 5 * 60 * 1000,
+};
+
+export class JobScheduler {
+  private options: SchedulerOptions;
+  private waiters: Waiter[] = [];
+  private runningByClass: Record<PriorityClass, number> = { interactive: 0, cron: 0, rollup: 0, maintenance: 0 };
+  private seq = 0;
+  private logger: (message: string) => void;
+
+  constructor(options: Partial<SchedulerOptions> = {}, logger: (message: string) => void = () => {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.logger = logger;
+  }
+
+  /**
+   * Update limits (e.g., after channels.json changes) and start any jobs that now fit
+   */
+  configure(options: Partial<SchedulerOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.dispatch();
+  }
+
+  getOptions(): SchedulerOptions {
+    return { ...this.options };
+  }
+
+  get running(): number {
+    return Object.values(this.runningByClass).reduce((sum, n) => sum + n, 0);
+  }
+
+  /**
+   * Wait for a slot. Resolves with a release function - call it exactly when
+   * the job is done (calling it more than once is harmless).
+   */
+  acquire(priority: PriorityClass, label: string): Promise<() => void> {
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        label,
+        priority,
+        enqueuedAt: Date.now(),
+        seq: this.seq++,
+        grant: () => resolve(this.createRelease(priority, label)),
+      };
+
+      if (this.waiters.length === 0 && this.canStart(priority)) {
+        this.start(waiter);
+        return;
+      }
+
+      this.waiters.push(waiter);
+      this.dispatch();
+      if (this.waiters.includes(waiter)) {
+        this.logger(`[Jobs] No slot for ${priority} job ${label} (${this.running}/${this.options.maxConcurrentJobs} running). Queued (${this.waiters.length} waiting)`);
+      }
+    });
+  }
+
+  /**
+   * Jobs still waiting for a slot, in the order they would be served
+   */
+  getQueue(): QueuedJobInfo[] {
+    const now = Date.now();
+    return this.sortedWaiters(now).map(w => ({
+      label: w.label,
+      priority: w.priority,
+      effectiveRank: this.effectiveRank(w, now),
+      waitingMs: now - w.enqueuedAt,
+    }));
+  }
+
+  private createRelease(priority: PriorityClass, label: string): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.runningByClass[priority]--;
+      if (this.waiters.length > 0) {
+        this.logger(`[Jobs] Slot freed by ${label}. ${this.waiters.length} job(s) waiting`);
+      }
+      this.dispatch();
+    };
+  }
+
+  private start(waiter: Waiter): void {
+    this.runningByClass[waiter.priority]++;
+    waiter.grant();
+  }
+
+  private canStart(priority: PriorityClass): boolean {
+    const { maxConcurrentJobs } = this.options;
+    if (this.running >= maxConcurrentJobs) return false;
+    if (priority === "interactive") return true;
+
+    // Keep at least one slot usable by everything else
+    const reserved = Math.min(this.options.reservedInteractiveSlots, maxConcurrentJobs - 1);
+    return this.running < maxConcurrentJobs - Math.max(0, reserved);
+  }
+
+  private effectiveRank(waiter: Waiter, now: number): number {
+    const promotions = this.options.agingMs > 0
+      ? Math.floor((now - waiter.enqueuedAt) / this.options.agingMs)
+      : 0;
+    return Math.max(0, PRIORITY_RANKS[waiter.priority] - promotions);
+  }
+
+  private sortedWaiters(now: number): Waiter[] {
+    return [...this.waiters].sort((a, b) =>
+      this.effectiveRank(a, now) - this.effectiveRank(b, now) || a.seq - b.seq
+    );
+  }
+
+  // Start as many waiting jobs as the current limits allow
+  private dispatch(): void {
+    let started = true;
+    while (started && this.waiters.length > 0) {
+      started = false;
+      for (const waiter of this.sortedWaiters(Date.now())) {
+        if (this.canStart(waiter.priority)) {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          this.logger(`[Jobs] Starting queued ${waiter.priority} job ${waiter.label} (${this.waiters.length} still waiting)`);
+          this.start(waiter);
+          started = true;
+          break;
+        }
+      }
+    }
+  }
+}
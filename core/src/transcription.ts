@@ -0,0 +1,201 @@
+/**
+ * Audio transcription
+ *
+ * Voice notes and audio attachments are transcribed before they reach Claude,
+ * so the prompt (and short-term memory) carries what was said, not just a
+ * file path. The transcriber is picked in config/transcription.json:
+ *
+ *   { "provider": "whisper-cpp",
+ *     "whisperCpp": { "binary": "/opt/whisper.cpp/build/bin/whisper-cli",
+ *                     "model": "/opt/whisper.cpp/models/ggml-base.en.bin",
+ *                     "language": "auto" } }
+ *
+ *   { "provider": "command", "command": "my-transcriber {file}" }
+ *
+ * whisper.cpp wants 16kHz mono WAV, so other formats go through ffmpeg first.
+ * A "command" transcriber is any shell command that prints the transcript to
+ * stdout ({file} is replaced with the quoted audio path). Other providers can
+ * be added with registerTranscriber(). Without a config, audio still arrives
+ * as a file - just without a transcript.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { spawn } from "child_process";
+
+export interface Transcriber {
+  name: string;
+  transcribe(filePath: string): Promise<string>;
+}
+
+export interface TranscriptionConfig {
+  provider: string;          // "whisper-cpp", "command", "none" or a registered provider
+  timeoutSeconds?: number;   // Per file. Default: 300
+  whisperCpp?: {
+    binary: string;
+    model: string;
+    language?: string;       // Default: "auto"
+    ffmpeg?: string;         // Default: "ffmpeg" on the PATH
+  };
+  command?: string;
+  [key: string]: unknown;    // Settings for registered providers
+}
+
+export type TranscriberFactory = (config: TranscriptionConfig) => Transcriber;
+
+const DEFAULT_TIMEOUT_SECONDS = 300;
+
+const AUDIO_EXTENSIONS = [".ogg", ".oga", ".opus", ".mp3", ".m4a", ".wav", ".flac", ".aac", ".webm"];
+
+export function isAudioFile(mimeType: string, fileName: string): boolean {
+  return mimeType.startsWith("audio/") || AUDIO_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+// Run a process to completion, killing it if it takes too long
+function run(command: string, args: string[], timeoutMs: number, options: { shell?: boolean } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], shell: options.shell });
+
+    let stdout = "";
+    let stderr = "";
+    proc.stdout.on("data", (data) => { stdout += data.toString(); });
+    proc.stderr.on("data", (data) => { stderr += data.toString(); });
+
+    const timer = setTimeout(() => {
+      proc.kill("SIGKILL");
+      reject(new Error(`${command} timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    proc.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().slice(-500)}`));
+      }
+    });
+
+    proc.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+function getTimeoutMs(config: TranscriptionConfig): number {
+  return (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+}
+
+function createWhisperCppTranscriber(config: TranscriptionConfig): Transcriber {
+  const settings = config.whisperCpp;
+  if (!settings?.binary || !settings.model) {
+    throw new Error("whisper-cpp needs whisperCpp.binary and whisperCpp.model");
+  }
+  return {
+    name: "whisper-cpp",
+    async transcribe(filePath: string): Promise<string> {
+      const timeoutMs = getTimeoutMs(config);
+      let wavPath = filePath;
+      if (path.extname(filePath).toLowerCase() !== ".wav") {
+        wavPath = `${filePath}.16k.wav`;
+        await run(settings.ffmpeg || "ffmpeg", ["-y", "-i", filePath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath], timeoutMs);
+      }
+      try {
+        const output = await run(settings.binary, ["-m", settings.model, "-f", wavPath, "-l", settings.language || "auto", "-nt"], timeoutMs);
+        return output.split("\n").map(line => line.trim()).filter(Boolean).join(" ");
+      } finally {
+        if (wavPath !== filePath) fs.rmSync(wavPath, { force: true });
+      }
+    },
+  };
+}
+
+function createCommandTranscriber(config: TranscriptionConfig): Transcriber {
+  const command = config.command;
+  if (!command?.includes("{file}")) {
+    throw new Error("command transcriber needs a command with a {file} placeholder");
+  }
+  return {
+    name: "command",
+    async transcribe(filePath: string): Promise<string> {
+      const quoted = `'${filePath.replace(/'/g, "'\\''")}'`;
+      const output = await run(command.replaceAll("{file}", quoted), [], getTimeoutMs(config), { shell: true });
+      return output.trim();
+    },
+  };
+}
+
+const transcriberFactories: Map<string, TranscriberFactory> = new Map([
+  ["whisper-cpp", createWhisperCppTranscriber],
+  ["command", createCommandTranscriber],
+]);
+
+/**
+ * Add a transcription provider, selected by name in transcription.json
+ */
+export function registerTranscriber(provider: string, factory: TranscriberFactory): void {
+  transcriberFactories.set(provider, factory);
+}
+
+export function loadTranscriptionConfig(configFile: string): TranscriptionConfig | null {
+  try {
+    if (fs.existsSync(configFile)) {
+      const config = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+      if (config.provider && config.provider !== "none") return config;
+    }
+  } catch {
+    // Fall through to no transcription
+  }
+  return null;
+}
+
+/**
+ * The configured transcriber, or null if transcription is off
+ */
+export function createTranscriber(config: TranscriptionConfig | null): Transcriber | null {
+  if (!config) return null;
+  const factory = transcriberFactories.get(config.provider);
+  if (!factory) {
+    throw new Error(`Unknown transcription provider: ${config.provider}`);
+  }
+  return factory(config);
+}
+
+/**
+ * Transcribe an audio file with the configured transcriber. Never throws -
+ * a failed transcription just means the message goes through without one.
+ */
+export async function transcribeAudio(
+  configFile: string,
+  filePath: string,
+  log: (message: string) => void = () => {}
+): Promise<string | null> {
+  try {
+    const transcriber = createTranscriber(loadTranscriptionConfig(configFile));
+    if (!transcriber) return null;
+    const started = Date.now();
+    const transcript = await transcriber.transcribe(filePath);
+    log(`[Transcription] ${path.basename(filePath)} transcribed by ${transcriber.name} in ${Date.now() - started}ms`);
+    return transcript || null;
+  } catch (err) {
+    log(`[Transcription] Failed to transcribe ${filePath}: ${err}`);
+    return null;
+  }
+}
+
+/**
+ * A message's text followed by the transcripts of its audio attachments, for memory
+ */
+export function appendTranscripts(text: string | undefined, files: Array<{ transcript?: string }> = []): string {
+  const transcripts = files.map(file => file.transcript).filter(Boolean);
+  return [text, ...transcripts].filter(Boolean).join("\n");
+}
+
+/**
+ * An audio file as it appears in a prompt - the transcript next to the path
+ */
+export function describeAudioForPrompt(name: string, filePath: string, transcript: string | null): string {
+  return transcript
+    ? `[Audio: ${name}]\nTranscript: ${transcript}\nThe audio has been saved to: ${filePath}`
+    : `[Audio: ${name}]\nNo transcript is available. The audio has been saved to: ${filePath}`;
+}
@@ -2,10 +2,10 @@
  * Shared utilities for the pHouseClawd project
  */
 
-// Timezone configuration via environment variable
-// Default: America/Toronto (EST/EDT)
-// Override with: PHOUSE_TIMEZONE=America/New_York or any valid IANA timezone
-const TIMEZONE = process.env.PHOUSE_TIMEZONE || "America/Toronto";
+import { getPhouseConfig } from "./config.js";
+
+// Timezone from the shared config (PHOUSE_TIMEZONE, default America/Toronto)
+const TIMEZONE = getPhouseConfig().timezone;
 
 // Map common timezone identifiers to their abbreviations
 function getTimezoneAbbreviation(timezone: string): string {
@@ -54,3 +54,11 @@ export function getLocalTimestamp(): string {
 export function getConfiguredTimezone(): string {
   return TIMEZONE;
 }
+
+/**
+ * Get the calendar date in the configured timezone
+ * Format: "2026-01-31"
+ */
+export function getLocalDateKey(date: Date = new Date()): string {
+  return date.toLocaleDateString("en-CA", { timeZone: TIMEZONE });
+}
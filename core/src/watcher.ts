@@ -1,8 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
-import { spawn, ChildProcess } from "child_process";
-import { fileURLToPath } from "url";
+import { spawn } from "child_process";
 import { config } from "dotenv";
 import cron from "node-cron";
 import {
@@ -13,21 +12,69 @@ import {
   StreamHandler,
   ConcurrencyMode,
 } from "./channels/index.js";
-import { TelegramChannel } from "./channels/telegram.js";
-import { EmailChannel } from "./channels/email.js";
-import { GChatChannel } from "./channels/gchat.js";
-import { DiscordChannel } from "./channels/discord.js";
-import { DashboardChannel } from "./channels/dashboard.js";
-import { parseCommand, supportsCommands, type ParsedCommand } from "./commands.js";
+import { TelegramPlugin } from "./channels/telegram.js";
+import { EmailPlugin } from "./channels/email.js";
+import { GChatPlugin } from "./channels/gchat.js";
+import { DiscordPlugin } from "./channels/discord.js";
+import { DashboardPlugin } from "./channels/dashboard.js";
+import { WebhookPlugin } from "./channels/webhook.js";
+import { InboxPlugin } from "./channels/inbox.js";
+import { ChannelRegistry, loadChannelPlugins, validateChannelSettings, type ChannelPlugin, type ChannelSettings } from "./channels/registry.js";
+import { parseCommand, type ParsedCommand } from "./commands.js";
 import { getLocalTimestamp } from "./utils.js";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../..");
-const ASSISTANT_ROOT = "/home/ubuntu/assistant";
-
-// Load environment variables from sibling pHouseMcp directory
-config({ path: path.resolve(PROJECT_ROOT, "../pHouseMcp/.env"), override: true });
+import { createAgentRunner, getProcessStartTime, type AgentRun } from "./runner.js";
+import { pushEvent, getPendingEvents, markProcessed, updatePendingEvent, pruneProcessedEvents, type Event as StoredEvent } from "./events.js";
+import { JobScheduler, DEFAULT_SCHEDULER_OPTIONS } from "./scheduler.js";
+import { JobStore, generateJobId, type JobStatus } from "./job-store.js";
+import { JobArchive, applyJobRetention, loadJobRetentionSettings } from "./job-retention.js";
+import { startControlServer, getControlSocketPath, type WatcherState } from "./control.js";
+import { PersonaStore } from "./personas.js";
+import { getPhouseConfig, validatePhouseConfig, migrateLegacyConfigFiles } from "./config.js";
+import {
+  loadProfilesConfig,
+  getImplicitProfilesConfig,
+  resolveProfile,
+  getProfilePaths,
+  loadProfileEnv,
+  getProfileChannelCredentials,
+  DEFAULT_PROFILE,
+  type ProfilesConfig,
+  type ProfilePaths,
+} from "./profiles.js";
+import { JobLimitWatchdog, resolveJobLimits, hasJobLimits, type JobLimits } from "./limits.js";
+import { WebhookDispatcher } from "./webhooks.js";
+import { loadContacts, findContact, describeContact, type Contact, type ContactsConfig } from "./contacts.js";
+import {
+  ApprovalGate,
+  ApprovalStore,
+  loadApprovalsConfig,
+  getApprovalHookSettings,
+  APPROVALS_SNAPSHOT_ENV,
+  getApprovalTimeoutSeconds,
+  formatApprovalRequest,
+  type ApprovalDetails,
+  type ApprovalRequest,
+  type ApprovalsConfig,
+} from "./approvals.js";
+import { sendToReplyTarget, isFromReplyTarget, type ReplyTarget } from "./channels/reply-targets.js";
+import {
+  loadBudgetConfig,
+  getBudgetStatus,
+  checkBudget,
+  describeScope,
+  formatBudgetStatus,
+  type BudgetConfig,
+  type BudgetTarget,
+  type BudgetDecision,
+} from "./budget.js";
+
+// Paths and settings shared with the dashboard API (see config.ts)
+const phouseConfig = getPhouseConfig();
+const PROJECT_ROOT = phouseConfig.projectRoot;
+const ASSISTANT_ROOT = phouseConfig.assistantRoot;
+
+// Load environment variables from the pHouseMcp directory
+config({ path: phouseConfig.paths.mcpEnvFile, override: true });
 
 // Generate a deterministic UUID v5 from a namespace + name
 const NAMESPACE_UUID = "6ba7b810-9dad-11d1-80b4-00c04fd430c8";
@@ -46,31 +93,17 @@ function generateSessionId(name: string): string {
 }
 
 const PDF_SCRIPT = path.join(PROJECT_ROOT, "scripts/pdf-to-text.py");
-const LOGS_DIR = path.join(PROJECT_ROOT, "logs");
-const JOBS_DIR = path.join(LOGS_DIR, "jobs");
+const LOGS_DIR = phouseConfig.paths.logsDir;
+const JOBS_DIR = phouseConfig.paths.jobsDir;
 const LOG_FILE = path.join(LOGS_DIR, "watcher.log");
-const SESSIONS_FILE = path.join(LOGS_DIR, "sessions.json");
-const CRON_CONFIG_FILE = path.join(ASSISTANT_ROOT, "config/cron.json");
+const SESSIONS_FILE = phouseConfig.paths.sessionsFile;
 const PID_FILE = path.join(PROJECT_ROOT, "watcher.pid");
 
-// Source files for CLAUDE.md generation (in assistant directory)
-const SOUL_FILE = path.join(ASSISTANT_ROOT, "SOUL.md");
-const SYSTEM_FILE = path.join(ASSISTANT_ROOT, "SYSTEM.md");
-const CLAUDE_FILE = path.join(ASSISTANT_ROOT, "CLAUDE.md");
-
 // Ensure jobs directory exists
 if (!fs.existsSync(JOBS_DIR)) {
   fs.mkdirSync(JOBS_DIR, { recursive: true });
 }
 
-// Short-term memory (in assistant directory)
-const SHORT_TERM_MEMORY_DIR = path.join(ASSISTANT_ROOT, "memory/short-term");
-const SHORT_TERM_MEMORY_FILE = path.join(SHORT_TERM_MEMORY_DIR, "buffer.txt");
-const ROLLUP_PENDING_DIR = path.join(ASSISTANT_ROOT, "memory/rollup-pending");
-
-// Memory settings file
-const MEMORY_SETTINGS_FILE = path.join(ASSISTANT_ROOT, "config/memory-settings.json");
-
 // Memory config defaults (in bytes)
 const MEMORY_CONFIG_DEFAULTS = {
   shortTermSizeThreshold: 50 * 1024,   // 50KB
@@ -85,44 +118,116 @@ interface MemorySettingsFile {
   longTermFileMaxSize: number;     // bytes
 }
 
-// Get memory config from memory-settings.json (cached after first load)
-let memorySettingsCache: MemorySettingsFile | null = null;
-function getMemorySettings(): MemorySettingsFile {
-  if (memorySettingsCache) {
-    return memorySettingsCache;
+// Assistant profiles (see profiles.ts) - each has its own SOUL.md, personas,
+// memory, cron.json and .env. Without config/profiles.json there is one
+// "default" profile at ASSISTANT_ROOT.
+interface AssistantProfile {
+  name: string;
+  paths: ProfilePaths;
+  personas: PersonaStore;                       // Overlays on top of SOUL.md (personas/<name>.md)
+  shortTermFile: string;                        // memory/short-term/buffer.txt
+  memorySettings: MemorySettingsFile | null;    // Cached after first load
+}
+
+// Loaded when the watcher starts - a profiles.json that doesn't validate stops it
+let profilesConfig: ProfilesConfig = getImplicitProfilesConfig(ASSISTANT_ROOT);
+const assistantProfiles: Map<string, AssistantProfile> = new Map();
+
+function getProfile(name: string): AssistantProfile {
+  const profileName = profilesConfig.profiles[name] ? name : profilesConfig.defaultProfile;
+  const root = profilesConfig.profiles[profileName].root;
+
+  let profile = assistantProfiles.get(profileName);
+  if (!profile || profile.paths.root !== root) {
+    const paths = getProfilePaths(root);
+    profile = {
+      name: profileName,
+      paths,
+      personas: new PersonaStore(paths.personasDir),
+      shortTermFile: path.join(paths.shortTermDir, "buffer.txt"),
+      memorySettings: null,
+    };
+    // Ensure memory directories exist
+    fs.mkdirSync(paths.shortTermDir, { recursive: true });
+    fs.mkdirSync(paths.rollupPendingDir, { recursive: true });
+    assistantProfiles.set(profileName, profile);
+  }
+  return profile;
+}
+
+// The profile that handles a session, per the routing rules in profiles.json.
+// Events from a profile's own listener (its own bot) always go to that profile.
+function getProfileForSession(channel: ChannelDefinition, sessionKey: string): AssistantProfile {
+  if (channel.profile && profilesConfig.profiles[channel.profile]) {
+    return getProfile(channel.profile);
+  }
+  return getProfile(resolveProfile(profilesConfig, channel.name, sessionKey));
+}
+
+function getAllProfiles(): AssistantProfile[] {
+  return Object.keys(profilesConfig.profiles).map(getProfile);
+}
+
+// Environment for an agent job: the watcher's own plus the profile's credentials
+function getProfileEnv(profile: AssistantProfile): NodeJS.ProcessEnv {
+  return { ...process.env, ...loadProfileEnv(profile.paths) };
+}
+
+// Environment and settings for an agent job. The approval hook finds its job
+// through PHOUSE_JOB_ID and gets the rules as they were when the job started,
+// so the job can't loosen them by editing approvals.json.
+function getAgentOptions(profile: AssistantProfile, jobId: string): { env: NodeJS.ProcessEnv; settings?: Record<string, unknown> } {
+  const approvals = getApprovalsConfig();
+  return {
+    env: { ...getProfileEnv(profile), PHOUSE_JOB_ID: jobId, [APPROVALS_SNAPSHOT_ENV]: JSON.stringify(approvals) },
+    settings: getApprovalHookSettings(approvals),
+  };
+}
+
+// The last approval rules that loaded, kept while approvals.json is broken
+let lastGoodApprovalsConfig: ApprovalsConfig | null = null;
+
+// Re-read for every job, so approval rules apply from the next job on. A broken
+// file keeps the previous rules - or blocks every tool if there are none.
+function getApprovalsConfig(): ApprovalsConfig {
+  const config = loadApprovalsConfig(APPROVALS_CONFIG_FILE);
+  if (!config.error) {
+    lastGoodApprovalsConfig = config;
+    return config;
+  }
+  log(`[Approvals] ERROR: ${config.error} - ${lastGoodApprovalsConfig ? "keeping the previous rules" : "blocking every tool until it is fixed"}`);
+  return lastGoodApprovalsConfig || config;
+}
+
+// Get memory config from the profile's memory-settings.json (cached after first load)
+function getMemorySettings(profile: AssistantProfile): MemorySettingsFile {
+  if (profile.memorySettings) {
+    return profile.memorySettings;
   }
   try {
-    const loaded = JSON.parse(fs.readFileSync(MEMORY_SETTINGS_FILE, "utf-8")) as Partial<MemorySettingsFile>;
-    memorySettingsCache = {
+    const loaded = JSON.parse(fs.readFileSync(profile.paths.memorySettingsFile, "utf-8")) as Partial<MemorySettingsFile>;
+    profile.memorySettings = {
       shortTermSizeThreshold: loaded.shortTermSizeThreshold ?? MEMORY_CONFIG_DEFAULTS.shortTermSizeThreshold,
       chunkSizeBytes: loaded.chunkSizeBytes ?? MEMORY_CONFIG_DEFAULTS.chunkSizeBytes,
       longTermFileMaxSize: loaded.longTermFileMaxSize ?? MEMORY_CONFIG_DEFAULTS.longTermFileMaxSize,
     };
   } catch {
-    memorySettingsCache = { ...MEMORY_CONFIG_DEFAULTS };
+    profile.memorySettings = { ...MEMORY_CONFIG_DEFAULTS };
   }
-  return memorySettingsCache;
+  return profile.memorySettings;
 }
 
 // Helper functions to get memory thresholds in bytes
-function getShortTermSizeThreshold(): number {
-  return getMemorySettings().shortTermSizeThreshold;
+function getShortTermSizeThreshold(profile: AssistantProfile): number {
+  return getMemorySettings(profile).shortTermSizeThreshold;
 }
 
-function getChunkSizeBytes(): number {
-  return getMemorySettings().chunkSizeBytes;
+function getChunkSizeBytes(profile: AssistantProfile): number {
+  return getMemorySettings(profile).chunkSizeBytes;
 }
 
-function getLongTermFileMaxSize(): number {
-  return getMemorySettings().longTermFileMaxSize;
-}
-
-// Ensure memory directories exist
-if (!fs.existsSync(SHORT_TERM_MEMORY_DIR)) {
-  fs.mkdirSync(SHORT_TERM_MEMORY_DIR, { recursive: true });
-}
-if (!fs.existsSync(ROLLUP_PENDING_DIR)) {
-  fs.mkdirSync(ROLLUP_PENDING_DIR, { recursive: true });
+function getLongTermFileMaxSize(profile: AssistantProfile): number {
+  return getMemorySettings(profile).longTermFileMaxSize;
 }
 
 // Dashboard chat file (for command responses)
@@ -173,16 +278,52 @@ function sendDashboardCommandResponse(assistantMessageId: string, message: strin
   }
 }
 
+// Helper to send a one-off reply (command responses, notices) - works for all channels
+function sendChannelReply(channel: ChannelDefinition, event: ChannelEvent, message: string): void {
+  if (channel.name === "dashboard") {
+    const assistantMessageId = event.payload.assistantMessageId;
+    if (assistantMessageId) {
+      sendDashboardCommandResponse(assistantMessageId, message);
+    }
+  } else {
+    const handler = channel.createHandler(event);
+    handler.onStreamEvent({
+      type: "assistant",
+      message: { content: [{ type: "text", text: message }] }
+    });
+    handler.onComplete(0);
+  }
+}
+
+// Every channel the watcher can run - the built-ins plus plugins found at startup (see channels/registry.ts)
+const BUILTIN_CHANNELS: ChannelPlugin[] = [
+  TelegramPlugin,
+  EmailPlugin,
+  GChatPlugin,
+  DiscordPlugin,
+  DashboardPlugin,
+  WebhookPlugin,
+  InboxPlugin,
+];
+const channelRegistry = new ChannelRegistry();
+
 // Channel config
-const CHANNELS_CONFIG_FILE = path.join(ASSISTANT_ROOT, "config/channels.json");
+const CHANNELS_CONFIG_FILE = phouseConfig.paths.channelsConfig;
 
 // Channel config types
 interface ChannelConfig {
   enabled: boolean;
+  limits?: JobLimits;  // Overrides global limits for this channel's jobs
+  coalesceWindowMs?: number;  // Overrides the global coalescing window for this channel
+  settings?: ChannelSettings;  // Plugin settings, checked against the manifest's configSchema
 }
 
 interface GlobalConfig {
-  maxConcurrentJobs?: number;  // Default: 2
+  maxConcurrentJobs?: number;         // Default: 2
+  reservedInteractiveSlots?: number;  // Slots cron/rollup jobs can't use. Default: 0
+  priorityAgingSeconds?: number;      // Waiting this long bumps a job up one priority class. Default: 300
+  limits?: JobLimits;                 // Default per-job limits for every job. Default: none
+  coalesceWindowMs?: number;          // Merge messages for a session that arrive within this window. Default: 0 (off)
 }
 
 interface ChannelsConfig {
@@ -190,13 +331,29 @@ interface ChannelsConfig {
   global?: GlobalConfig;
 }
 
+// The last channels.json that loaded, kept while the file is broken
+let lastGoodChannelsConfig: ChannelsConfig | null = null;
+
 function loadChannelsConfig(): ChannelsConfig {
-  try {
-    if (fs.existsSync(CHANNELS_CONFIG_FILE)) {
-      return JSON.parse(fs.readFileSync(CHANNELS_CONFIG_FILE, "utf-8"));
+  if (fs.existsSync(CHANNELS_CONFIG_FILE)) {
+    try {
+      const config = JSON.parse(fs.readFileSync(CHANNELS_CONFIG_FILE, "utf-8"));
+      if (typeof config?.channels !== "object" || config.channels === null) {
+        throw new Error("channels must be an object");
+      }
+      lastGoodChannelsConfig = config;
+      return config;
+    } catch (err) {
+      // Never fall back to the defaults - they would start channels the owner turned off
+      if (lastGoodChannelsConfig) {
+        log(`[Channels] Failed to load channels config: ${err} - keeping the current config`);
+        return lastGoodChannelsConfig;
+      }
+      log(`[Channels] Failed to load channels config: ${err} - no channels start until it is fixed`);
+      return {
+        channels: Object.fromEntries(channelRegistry.list().map(plugin => [plugin.manifest.name, { enabled: false }])),
+      };
     }
-  } catch (err) {
-    log(`[Channels] Failed to load channels config: ${err}`);
   }
   // Default: all channels enabled if no config exists
   return {
@@ -218,16 +375,30 @@ interface CronJob {
   prompt: string;
   run_once?: boolean;
   run_at?: string;
+  limits?: JobLimits;
+  model?: string;  // Overrides the cron session's model
 }
 
 interface CronConfig {
   jobs: CronJob[];
+  limits?: JobLimits;  // Default limits for all cron jobs
+  notify?: ReplyTarget;  // Where notices about cron jobs go (defaults to the approvals notify chat)
 }
 
-// Track active cron tasks and one-off timeouts
+// Track active cron tasks and one-off timeouts (keyed by cronTaskKey)
 const activeCronTasks: Map<string, cron.ScheduledTask> = new Map();
 const activeTimeouts: Map<string, NodeJS.Timeout> = new Map();
 
+// Every profile has its own cron.json, so job ids can repeat across profiles.
+// Jobs of the default profile keep their plain id and session key.
+function cronTaskKey(profile: AssistantProfile, jobId: string): string {
+  return profile.name === profilesConfig.defaultProfile ? jobId : `${profile.name}:${jobId}`;
+}
+
+function getCronSessionKey(profile: AssistantProfile, jobId: string): string {
+  return profile.name === profilesConfig.defaultProfile ? `cron-${jobId}` : `cron-${profile.name}-${jobId}`;
+}
+
 // Ensure logs directory exists
 if (!fs.existsSync(LOGS_DIR)) {
   fs.mkdirSync(LOGS_DIR, { recursive: true });
@@ -235,16 +406,17 @@ if (!fs.existsSync(LOGS_DIR)) {
 
 // Session management
 type MemoryMode = "session" | "transcript";
-type QueueMode = "queue" | "interrupt";
-type ResponseStyle = "streaming" | "bundled" | "final";
+type QueueMode = "queue" | "interrupt" | "steer";
+type ResponseStyle = "streaming" | "bundled" | "final" | "live";
 
 interface SessionData {
   known: string[];
   generations: Record<string, number>;
   modes: Record<string, MemoryMode>; // Per-channel memory mode (session vs transcript)
-  queueModes: Record<string, QueueMode>; // Per-channel queue mode (queue vs interrupt)
+  queueModes: Record<string, QueueMode>; // Per-channel queue mode (queue, interrupt or steer)
   transcriptLines: Record<string, number>; // Per-channel transcript context lines
-  responseStyles: Record<string, ResponseStyle>; // Per-channel response style (streaming, bundled, final)
+  responseStyles: Record<string, ResponseStyle>; // Per-channel response style (streaming, bundled, final, live)
+  models: Record<string, string>; // Per-channel model override (unset = CLI default)
 }
 
 function loadSessionData(): SessionData {
@@ -252,7 +424,7 @@ function loadSessionData(): SessionData {
     if (fs.existsSync(SESSIONS_FILE)) {
       const data = JSON.parse(fs.readFileSync(SESSIONS_FILE, "utf-8"));
       if (Array.isArray(data)) {
-        return { known: data, generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {} };
+        return { known: data, generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {}, models: {} };
       }
       return {
         ...data,
@@ -260,16 +432,17 @@ function loadSessionData(): SessionData {
         queueModes: data.queueModes || {},
         transcriptLines: data.transcriptLines || {},
         responseStyles: data.responseStyles || {},
+        models: data.models || {},
       };
     }
   } catch {}
-  return { known: [], generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {} };
+  return { known: [], generations: {}, modes: {}, queueModes: {}, transcriptLines: {}, responseStyles: {}, models: {} };
 }
 
 // Get base channel name for settings fallback (e.g., "email-abc123" -> "email")
 function getBaseChannelName(sessionKey: string): string | null {
-  const match = sessionKey.match(/^(telegram|email|gchat|discord|dashboard)-/);
-  return match ? match[1] : null;
+  const match = sessionKey.match(/^([a-z][a-z0-9_]*)-/);
+  return match && channelRegistry.get(match[1]) ? match[1] : null;
 }
 
 function getMemoryMode(sessionKey: string): MemoryMode {
@@ -331,15 +504,6 @@ function setTranscriptLines(sessionKey: string, lines: number): void {
   saveSessionData(data);
 }
 
-// Default response styles per channel type
-const DEFAULT_RESPONSE_STYLES: Record<string, ResponseStyle> = {
-  telegram: "streaming",
-  gchat: "streaming",
-  discord: "streaming",
-  email: "final",
-  dashboard: "streaming",
-};
-
 function getResponseStyle(sessionKey: string): ResponseStyle {
   const data = loadSessionData();
   // Try exact key first, then fall back to base channel
@@ -350,9 +514,10 @@ function getResponseStyle(sessionKey: string): ResponseStyle {
   if (baseChannel && data.responseStyles[baseChannel]) {
     return data.responseStyles[baseChannel];
   }
-  // Return channel-specific default
-  if (baseChannel && DEFAULT_RESPONSE_STYLES[baseChannel]) {
-    return DEFAULT_RESPONSE_STYLES[baseChannel];
+  // Return channel-specific default (from its manifest)
+  const channelDefault = baseChannel ? channelRegistry.getDefaultResponseStyle(baseChannel) : undefined;
+  if (channelDefault) {
+    return channelDefault;
   }
   return "streaming"; // Fallback default
 }
@@ -363,6 +528,31 @@ function setResponseStyle(sessionKey: string, style: ResponseStyle): void {
   saveSessionData(data);
 }
 
+// Returns undefined when no override is set, so the runner uses the CLI default
+function getSessionModel(sessionKey: string): string | undefined {
+  const data = loadSessionData();
+  // Try exact key first, then fall back to base channel
+  if (data.models[sessionKey]) {
+    return data.models[sessionKey];
+  }
+  const baseChannel = getBaseChannelName(sessionKey);
+  if (baseChannel && data.models[baseChannel]) {
+    return data.models[baseChannel];
+  }
+  return undefined;
+}
+
+// Pass null to go back to the default model
+function setSessionModel(sessionKey: string, model: string | null): void {
+  const data = loadSessionData();
+  if (model) {
+    data.models[sessionKey] = model;
+  } else {
+    delete data.models[sessionKey];
+  }
+  saveSessionData(data);
+}
+
 function saveSessionData(data: SessionData): void {
   fs.writeFileSync(SESSIONS_FILE, JSON.stringify(data, null, 2));
 }
@@ -401,9 +591,9 @@ const eventQueues: Map<string, ChannelEvent[]> = new Map();
 // Mutex locks to prevent race conditions when checking/modifying activeSessions
 const sessionMutexes: Map<string, Promise<void>> = new Map();
 
-// Global job queue - wait when too many jobs are running
-const globalJobQueue: Array<{ resolve: () => void; event: ChannelEvent }> = [];
-let maxConcurrentJobs = 2; // Will be overwritten by config
+// Global job scheduler - wait for a slot when too many jobs are running
+// Limits are overwritten by config at startup
+const jobScheduler = new JobScheduler({}, log);
 
 function log(message: string) {
   const timestamp = new Date().toISOString();
@@ -412,125 +602,228 @@ function log(message: string) {
   process.stdout.write(line);
 }
 
+// Persona overlays for an event: the channel's, then the session's own
+function getPersonaOverlay(profile: AssistantProfile, channelName: string, sessionKey: string): string | undefined {
+  try {
+    return profile.personas.compose([channelName, sessionKey]) ?? undefined;
+  } catch (err) {
+    log(`[Watcher] Error reading persona overlays for ${sessionKey}: ${err}`);
+    return undefined;
+  }
+}
+
 // Merge SOUL.md + SYSTEM.md into CLAUDE.md before each job
 // This ensures Claude Code always sees the latest combined context
-function refreshClaudeMd(): void {
+function refreshClaudeMd(profile: AssistantProfile): void {
+  const { soulFile, systemFile, claudeFile } = profile.paths;
   try {
     let content = "";
 
     // Read SOUL.md (identity/personality)
-    if (fs.existsSync(SOUL_FILE)) {
-      content += fs.readFileSync(SOUL_FILE, "utf-8").trim();
+    if (fs.existsSync(soulFile)) {
+      content += fs.readFileSync(soulFile, "utf-8").trim();
     } else {
-      log("[Watcher] Warning: SOUL.md not found");
+      log(`[Watcher] Warning: SOUL.md not found for profile ${profile.name}`);
     }
 
     // Add separator and SYSTEM.md (technical reference)
-    if (fs.existsSync(SYSTEM_FILE)) {
+    if (fs.existsSync(systemFile)) {
       if (content) content += "\n\n---\n\n";
-      content += fs.readFileSync(SYSTEM_FILE, "utf-8").trim();
+      content += fs.readFileSync(systemFile, "utf-8").trim();
     } else {
-      log("[Watcher] Warning: SYSTEM.md not found");
+      log(`[Watcher] Warning: SYSTEM.md not found for profile ${profile.name}`);
     }
 
     // Write merged content to CLAUDE.md
     if (content) {
-      fs.writeFileSync(CLAUDE_FILE, content + "\n");
+      fs.writeFileSync(claudeFile, content + "\n");
     }
   } catch (err) {
-    log(`[Watcher] Error refreshing CLAUDE.md: ${err}`);
+    log(`[Watcher] Error refreshing CLAUDE.md for profile ${profile.name}: ${err}`);
   }
 }
 
-// Job file management
-interface JobData {
-  id: string;
-  startTime: string;
-  endTime?: string;
-  channel: string;
-  trigger: string;
-  fullPrompt?: string;
-  status: "running" | "completed" | "error" | "stopped";
-  pid?: number;
-  model?: string;
-  cost?: number;
-  durationMs?: number;
-  toolCount: number;
-  events: any[];
-}
-
-// Track running Claude processes for kill capability
-const runningJobs: Map<string, ChildProcess> = new Map();
-// Track which session each job belongs to (for interrupt mode)
-const jobToSession: Map<string, string> = new Map();
+// Job files - summary + append-only event log per job (see job-store.ts)
+const jobStore = new JobStore(JOBS_DIR);
+// Outbound webhooks for lifecycle events (config/webhooks.json, see webhooks.ts)
+const webhooks = new WebhookDispatcher(phouseConfig.paths.webhooksConfig, phouseConfig.paths.webhookDeliveriesDir, log);
 
-function generateJobId(): string {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[:.]/g, "-");
-  const uuid = crypto.randomUUID().slice(0, 8);
-  return `${timestamp}-${uuid}`;
-}
+// Tool calls held until the owner approves them (config/approvals.json, see approvals.ts)
+const APPROVALS_CONFIG_FILE = phouseConfig.paths.approvalsConfig;
+const approvalGate = new ApprovalGate(new ApprovalStore(phouseConfig.paths.approvalsDir), recordApprovalDecision);
 
-function getJobFilePath(jobId: string): string {
-  return path.join(JOBS_DIR, `${jobId}.json`);
+// Old jobs are moved into monthly archives (see job-retention.ts)
+const JOB_RETENTION_FILE = phouseConfig.paths.jobRetentionConfig;
+const jobArchive = new JobArchive(path.join(JOBS_DIR, "archive"));
+
+// Settings are re-read on every run, so changes apply from the next run
+function runJobRetention(): void {
+  try {
+    const settings = loadJobRetentionSettings(JOB_RETENTION_FILE);
+    const result = applyJobRetention(jobStore, jobArchive, settings);
+    if (result.archived > 0) {
+      log(`[Jobs] Archived ${result.archived} job(s) (max age ${settings.maxAgeDays} days, max ${settings.maxJobs} jobs)`);
+    }
+    if (result.prunedArchives.length > 0) {
+      log(`[Jobs] Deleted expired job archives: ${result.prunedArchives.join(", ")}`);
+    }
+    const prunedEvents = pruneProcessedEvents(settings.processedEventsMaxAgeDays, settings.maxProcessedEvents);
+    if (prunedEvents > 0) {
+      log(`[Events] Deleted ${prunedEvents} processed event(s) (max age ${settings.processedEventsMaxAgeDays} days, max ${settings.maxProcessedEvents} events)`);
+    }
+  } catch (err) {
+    log(`[Jobs] Job retention failed: ${err}`);
+  }
 }
 
-function createJobFile(jobId: string, channel: string, trigger: string, pid?: number, fullPrompt?: string): void {
-  const jobData: JobData = {
+// Agent backend used for every job (Claude CLI unless PHOUSE_AGENT_RUNNER says otherwise)
+const agentRunner = createAgentRunner();
+
+// Track running agent jobs for kill capability
+const runningJobs: Map<string, AgentRun> = new Map();
+// Track which session each job belongs to (for interrupt mode)
+const jobToSession: Map<string, string> = new Map();
+
+function createJobFile(
+  jobId: string,
+  channel: string,
+  trigger: string,
+  pid?: number,
+  fullPrompt?: string,
+  origin?: { sessionKey?: string; eventId?: string; eventIds?: string[]; profile?: string; cronJobId?: string }
+): void {
+  jobStore.create({
     id: jobId,
     startTime: new Date().toISOString(),
     channel,
     trigger,
     fullPrompt,
-    status: "running",
     pid,
-    toolCount: 0,
-    events: [],
-  };
-  fs.writeFileSync(getJobFilePath(jobId), JSON.stringify(jobData, null, 2));
+    pidStartTime: pid !== undefined ? getProcessStartTime(pid) ?? undefined : undefined,
+    sessionKey: origin?.sessionKey,
+    eventId: origin?.eventId,
+    eventIds: origin?.eventIds,
+    profile: origin?.profile,
+    cronJobId: origin?.cronJobId,
+  });
+  webhooks.emit("job.started", { jobId, channel, trigger, sessionKey: origin?.sessionKey, profile: origin?.profile });
 }
 
 function appendJobEvent(jobId: string, event: any): void {
-  const filePath = getJobFilePath(jobId);
   try {
-    const jobData: JobData = JSON.parse(fs.readFileSync(filePath, "utf-8"));
-    const eventWithTs = { ts: new Date().toISOString(), ...event };
-    jobData.events.push(eventWithTs);
-
-    // Count tool uses
-    if (event.type === "assistant" && event.message?.content) {
-      const toolUses = event.message.content.filter((c: any) => c.type === "tool_use");
-      jobData.toolCount += toolUses.length;
-    }
-
-    // Capture model from init
-    if (event.type === "system" && event.subtype === "init" && event.model) {
-      jobData.model = event.model;
-    }
-
-    fs.writeFileSync(filePath, JSON.stringify(jobData, null, 2));
+    jobStore.appendEvent(jobId, event);
   } catch (err) {
     log(`[Jobs] Error appending event to ${jobId}: ${err}`);
   }
 }
 
-function finalizeJob(jobId: string, status: "completed" | "error" | "stopped", cost?: number, durationMs?: number): void {
-  const filePath = getJobFilePath(jobId);
+function finalizeJob(jobId: string, status: Exclude<JobStatus, "running">, cost?: number, durationMs?: number, reason?: string): void {
   try {
-    const jobData: JobData = JSON.parse(fs.readFileSync(filePath, "utf-8"));
-    jobData.status = status;
-    jobData.endTime = new Date().toISOString();
-    if (cost !== undefined) jobData.cost = cost;
-    if (durationMs !== undefined) jobData.durationMs = durationMs;
-    fs.writeFileSync(filePath, JSON.stringify(jobData, null, 2));
+    // A killed job is finalized twice (the kill, then its close handler) - announce it once
+    const summary = jobStore.readSummary(jobId);
+    jobStore.finalize(jobId, status, { cost, durationMs, reason });
+    if (summary?.status === "running") {
+      webhooks.emit(status === "completed" ? "job.completed" : "job.failed", {
+        jobId,
+        status,
+        reason,
+        channel: summary.channel,
+        trigger: summary.trigger,
+        sessionKey: summary.sessionKey,
+        profile: summary.profile,
+        cost,
+        durationMs,
+      });
+    }
   } catch (err) {
     log(`[Jobs] Error finalizing ${jobId}: ${err}`);
   }
+  approvalGate.cancelForJob(jobId, "The job ended before anyone answered");
   // Clean up from running jobs map and session tracking
   runningJobs.delete(jobId);
   jobToSession.delete(jobId);
 }
 
+// Hold a tool call until it's approved, denied or expires (asked by approval-hook.ts)
+async function requestApproval(details: Omit<ApprovalDetails, "channel" | "sessionKey">): Promise<ApprovalRequest> {
+  const config = getApprovalsConfig();
+  const job = jobStore.readSummary(details.jobId);
+  const { request, decision } = approvalGate.open(
+    { ...details, channel: job?.channel, sessionKey: job?.sessionKey },
+    getApprovalTimeoutSeconds(config) * 1000
+  );
+  log(`[Approvals] Job ${details.jobId} is waiting for approval to use ${details.tool} [${request.id}]`);
+  appendJobEvent(details.jobId, {
+    type: "approval",
+    approvalId: request.id,
+    status: request.status,
+    tool: request.tool,
+    input: request.input,
+    rule: request.rule,
+  });
+
+  if (config.notify) {
+    try {
+      sendToReplyTarget(config.notify, formatApprovalRequest(request));
+    } catch (err) {
+      log(`[Approvals] Failed to send request ${request.id} to ${config.notify.channel}: ${err}`);
+    }
+  }
+  return decision;
+}
+
+// Every outcome goes into the job log
+function recordApprovalDecision(request: ApprovalRequest): void {
+  log(`[Approvals] Request ${request.id} (${request.tool}, job ${request.jobId}) ${request.status}${request.decidedBy ? ` by ${request.decidedBy}` : ""}`);
+  appendJobEvent(request.jobId, {
+    type: "approval",
+    approvalId: request.id,
+    status: request.status,
+    tool: request.tool,
+    decidedBy: request.decidedBy,
+    reason: request.reason,
+  });
+
+  const notify = getApprovalsConfig().notify;
+  if (request.status === "expired" && notify) {
+    try {
+      sendToReplyTarget(notify, `Approval request ${request.id} expired - ${request.tool} was not allowed.`);
+    } catch (err) {
+      log(`[Approvals] Failed to send expiry of ${request.id} to ${notify.channel}: ${err}`);
+    }
+  }
+}
+
+// /approve and /deny - only the dashboard and the chat requests are sent to may
+// answer. Contacts don't count: some identities (an email's From) can be forged.
+function answerApprovalCommand(channel: ChannelDefinition, event: ChannelEvent, cmd: ParsedCommand): string {
+  const config = getApprovalsConfig();
+  const isOwner = channel.name === "dashboard" || isFromReplyTarget(channel.name, event.payload, config.notify);
+  if (!isOwner) {
+    return "Only the owner can answer approval requests.";
+  }
+
+  let approvalId = cmd.args?.approvalId;
+  if (!approvalId) {
+    const pending = approvalGate.pending();
+    if (pending.length === 0) {
+      return "No approval requests are waiting.";
+    }
+    if (pending.length > 1) {
+      return `${pending.length} requests are waiting - answer one by id:\n${pending.map(r => `${r.id} - ${r.tool} (job ${r.jobId})`).join("\n")}`;
+    }
+    approvalId = pending[0].id;
+  }
+
+  const contact = findSenderContact(loadContacts(CONTACTS_CONFIG_FILE), channel.name, event.payload);
+  const by = `${channel.name}:${contact?.name || event.message?.from || "unknown"}`;
+  const request = approvalGate.decide(approvalId, cmd.type === "approve", by, cmd.args?.reason);
+  if (!request) {
+    return `Request ${approvalId} isn't waiting - it was already answered or has expired.`;
+  }
+  return `${request.status === "approved" ? "Approved" : "Denied"} ${request.tool} for job ${request.jobId}.`;
+}
+
 // Kill a running job by ID
 function killJob(jobId: string): boolean {
   // Try in-memory process first (preferred)
@@ -543,11 +836,16 @@ function killJob(jobId: string): boolean {
   }
 
   // Fallback: try to kill by PID from job file
-  const filePath = getJobFilePath(jobId);
   try {
-    if (fs.existsSync(filePath)) {
-      const jobData: JobData = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const jobData = jobStore.readSummary(jobId);
+    if (jobData) {
       if (jobData.status === "running" && jobData.pid) {
+        // The PID may have been reused since the job ended
+        if (!agentRunner.ownsProcess(jobData.pid, jobData.pidStartTime)) {
+          log(`[Jobs] Job ${jobId} PID ${jobData.pid} is no longer an agent process - marking orphaned`);
+          finalizeJob(jobId, "orphaned", undefined, undefined, ORPHANED_REASON);
+          return false;
+        }
         log(`[Jobs] Killing job ${jobId} via PID ${jobData.pid} (fallback)`);
         process.kill(jobData.pid, "SIGTERM");
         finalizeJob(jobId, "stopped");
@@ -560,6 +858,131 @@ function killJob(jobId: string): boolean {
   return false;
 }
 
+// Watch a job's limits and kill it when one is crossed.
+// The job's close handler finalizes it with the breach status.
+function startJobWatchdog(jobId: string, proc: AgentRun, limits: JobLimits): JobLimitWatchdog {
+  const watchdog = new JobLimitWatchdog(limits, (breach) => {
+    log(`[Jobs] Job ${jobId} ${breach.reason} - killing it (${breach.status})`);
+    proc.kill("SIGTERM");
+  });
+  if (hasJobLimits(limits)) {
+    watchdog.start();
+  }
+  return watchdog;
+}
+
+// Final status for a job whose process has exited
+function getExitStatus(code: number | null, signal: NodeJS.Signals | null, watchdog: JobLimitWatchdog): Exclude<JobStatus, "running"> {
+  if (watchdog.breach) return watchdog.breach.status;
+  const wasKilled = signal === "SIGTERM" || signal === "SIGKILL";
+  return wasKilled ? "stopped" : (code === 0 ? "completed" : "error");
+}
+
+// Budgets - spend is recomputed from job files before each job starts
+const BUDGETS_CONFIG_FILE = phouseConfig.paths.budgetsConfig;
+// Budget warnings already sent, so each budget warns once per day/month
+const sentBudgetWarnings: Set<string> = new Set();
+
+// The last budgets that loaded, kept while budgets.json is broken
+let lastGoodBudgetConfig: BudgetConfig | null = null;
+
+// Re-read for every job. A broken file keeps the previous budgets (with `error`
+// set, for /budget) - with none, checkJobBudget refuses jobs until it's fixed.
+function getBudgetConfig(): BudgetConfig {
+  const config = loadBudgetConfig(BUDGETS_CONFIG_FILE);
+  if (!config.error) {
+    lastGoodBudgetConfig = config;
+    return config;
+  }
+  log(`[Budget] ERROR: ${config.error} - ${lastGoodBudgetConfig ? "keeping the previous budgets" : "refusing jobs until it is fixed"}`);
+  return lastGoodBudgetConfig ? { ...lastGoodBudgetConfig, error: config.error } : config;
+}
+
+function getCurrentBudgetStatus() {
+  return getBudgetStatus(getBudgetConfig(), JOBS_DIR);
+}
+
+// Check budgets for a job about to start. Returns the decision plus any
+// warnings that haven't been sent yet this period.
+function checkJobBudget(target: BudgetTarget): { decision: BudgetDecision; notices: string[] } {
+  const config = getBudgetConfig();
+  // Unknown budgets - only the dashboard, where they can be fixed, gets through
+  if (config.error && !lastGoodBudgetConfig) {
+    const allowed = target.channel === "dashboard";
+    if (!allowed) {
+      log(`[Budget] Refusing ${target.kind} job for ${target.sessionKey}: ${config.error}`);
+    }
+    return {
+      decision: { allowed, warnings: [], reason: allowed ? undefined : `${config.error} - jobs are paused until it is fixed` },
+      notices: [],
+    };
+  }
+  if (!config.global && !config.channels && !config.cronJobs) {
+    return { decision: { allowed: true, warnings: [] }, notices: [] };
+  }
+
+  const status = getBudgetStatus(config, JOBS_DIR);
+  const decision = checkBudget(status, config, target);
+
+  const notices: string[] = [];
+  for (const warning of decision.warnings) {
+    const periodKey = warning.period === "daily" ? status.day : status.month;
+    const key = `${warning.scope}:${warning.period}:${periodKey}:${warning.state}`;
+    if (sentBudgetWarnings.has(key)) continue;
+    sentBudgetWarnings.add(key);
+    notices.push(`${describeScope(warning)} is ${warning.state === "exceeded" ? "used up" : "almost used up"}.`);
+  }
+
+  for (const notice of notices) {
+    log(`[Budget] ${notice}`);
+  }
+  if (!decision.allowed) {
+    log(`[Budget] Refusing ${target.kind} job for ${target.sessionKey}: ${decision.reason}`);
+  }
+  return { decision, notices };
+}
+
+// Crash recovery: jobs a previous watcher left "running" have nobody reading
+// their output. They're marked orphaned at startup, and the message that
+// triggered each one is held back from replay until the user asks to /retry.
+const ORPHANED_REASON = "Watcher stopped while the job was running";
+const EXTERNAL_JOB_CHANNELS = ["dashboard-fix"];
+
+function reconcileOrphanedJobs(): string[] {
+  const heldEventIds: string[] = [];
+  for (const jobId of jobStore.listIds()) {
+    const jobData = jobStore.readSummary(jobId);
+    if (!jobData || jobData.status !== "running") continue;
+
+    const pid = jobData.pid;
+    const isAlive = pid !== undefined && agentRunner.ownsProcess(pid, jobData.pidStartTime);
+
+    // The dashboard's emergency fix runs from the API, not the watcher - and
+    // usually restarts the watcher itself
+    if (isAlive && EXTERNAL_JOB_CHANNELS.includes(jobData.channel)) continue;
+
+    if (isAlive) {
+      log(`[Jobs] Job ${jobData.id} is still running without a watcher (PID ${pid}) - stopping it`);
+      try {
+        process.kill(pid, "SIGTERM");
+      } catch (err) {
+        log(`[Jobs] Failed to stop PID ${pid}: ${err}`);
+      }
+    }
+
+    log(`[Jobs] Marking job ${jobData.id} (${jobData.channel}) as orphaned`);
+    finalizeJob(jobData.id, "orphaned", undefined, undefined, ORPHANED_REASON);
+
+    const eventIds = jobData.eventIds ?? (jobData.eventId ? [jobData.eventId] : []);
+    for (const eventId of eventIds) {
+      if (updatePendingEvent(eventId, { held: true })) {
+        heldEventIds.push(eventId);
+      }
+    }
+  }
+  return heldEventIds;
+}
+
 // Get the currently running job ID (if any)
 function getRunningJobId(): string | null {
   for (const [jobId] of runningJobs) {
@@ -581,32 +1004,17 @@ function getRunningJobForSession(sessionKey: string): string | null {
 // Export for API access
 export { killJob, getRunningJobId };
 
-// Global concurrency control
-function getRunningJobCount(): number {
-  return runningJobs.size;
-}
-
-async function waitForGlobalSlot(event: ChannelEvent): Promise<void> {
-  if (getRunningJobCount() < maxConcurrentJobs) {
-    return; // Slot available
-  }
-
-  log(`[Jobs] At capacity (${getRunningJobCount()}/${maxConcurrentJobs}). Queuing event from ${event.sessionKey}...`);
-
-  return new Promise((resolve) => {
-    globalJobQueue.push({ resolve, event });
+// Apply scheduler limits from channels.json global settings
+function applySchedulerConfig(global: GlobalConfig | undefined): void {
+  jobScheduler.configure({
+    maxConcurrentJobs: global?.maxConcurrentJobs ?? DEFAULT_SCHEDULER_OPTIONS.maxConcurrentJobs,
+    reservedInteractiveSlots: global?.reservedInteractiveSlots ?? DEFAULT_SCHEDULER_OPTIONS.reservedInteractiveSlots,
+    agingMs: global?.priorityAgingSeconds !== undefined
+      ? global.priorityAgingSeconds * 1000
+      : DEFAULT_SCHEDULER_OPTIONS.agingMs,
   });
 }
 
-function releaseGlobalSlot(): void {
-  // Check if anyone is waiting in the global queue
-  if (globalJobQueue.length > 0) {
-    const next = globalJobQueue.shift()!;
-    log(`[Jobs] Slot freed. Releasing queued event from ${next.event.sessionKey} (${globalJobQueue.length} still waiting)`);
-    next.resolve();
-  }
-}
-
 // Short-term memory logging - JSONL format
 interface ShortTermMemoryEntry {
   ts: string;      // ISO timestamp
@@ -616,7 +1024,7 @@ interface ShortTermMemoryEntry {
   msg: string;     // message content
 }
 
-function logToShortTermMemory(channel: string, direction: "in" | "out", content: string, from?: string): void {
+function logToShortTermMemory(profile: AssistantProfile, channel: string, direction: "in" | "out", content: string, from?: string): void {
   const entry: ShortTermMemoryEntry = {
     ts: new Date().toISOString(),
     ch: channel,
@@ -627,26 +1035,25 @@ function logToShortTermMemory(channel: string, direction: "in" | "out", content:
   if (from) {
     entry.from = from;
   }
-  fs.appendFileSync(SHORT_TERM_MEMORY_FILE, JSON.stringify(entry) + "\n");
+  fs.appendFileSync(profile.shortTermFile, JSON.stringify(entry) + "\n");
 }
 
-function getShortTermMemorySize(): number {
+function getShortTermMemorySize(profile: AssistantProfile): number {
   try {
-    if (fs.existsSync(SHORT_TERM_MEMORY_FILE)) {
-      return fs.statSync(SHORT_TERM_MEMORY_FILE).size;
+    if (fs.existsSync(profile.shortTermFile)) {
+      return fs.statSync(profile.shortTermFile).size;
     }
   } catch {}
   return 0;
 }
 
 // Get recent messages from short-term memory for transcript mode injection
-const LONG_TERM_MEMORY_DIR = path.join(ASSISTANT_ROOT, "memory/long-term");
-
-function getMemoryFilesInfo(): string {
+function getMemoryFilesInfo(profile: AssistantProfile): string {
+  const longTermDir = profile.paths.longTermDir;
   try {
     const files: string[] = [];
-    if (fs.existsSync(LONG_TERM_MEMORY_DIR)) {
-      for (const file of fs.readdirSync(LONG_TERM_MEMORY_DIR)) {
+    if (fs.existsSync(longTermDir)) {
+      for (const file of fs.readdirSync(longTermDir)) {
         if (file.endsWith(".md")) {
           files.push(file);
         }
@@ -683,11 +1090,11 @@ function formatMemoryEntry(entry: ShortTermMemoryEntry): string {
 }
 
 // Parse JSONL buffer into structured entries
-function parseMemoryBuffer(): ShortTermMemoryEntry[] {
-  if (!fs.existsSync(SHORT_TERM_MEMORY_FILE)) {
+function parseMemoryBuffer(profile: AssistantProfile): ShortTermMemoryEntry[] {
+  if (!fs.existsSync(profile.shortTermFile)) {
     return [];
   }
-  const content = fs.readFileSync(SHORT_TERM_MEMORY_FILE, "utf-8");
+  const content = fs.readFileSync(profile.shortTermFile, "utf-8");
   const lines = content.trim().split("\n").filter(l => l.trim());
   const entries: ShortTermMemoryEntry[] = [];
 
@@ -701,11 +1108,11 @@ function parseMemoryBuffer(): ShortTermMemoryEntry[] {
   return entries;
 }
 
-function getRecentTranscriptContext(sessionKey?: string): string {
+function getRecentTranscriptContext(profile: AssistantProfile, sessionKey?: string): string {
   try {
     const contextLines = sessionKey ? getTranscriptLines(sessionKey) : DEFAULT_TRANSCRIPT_LINES;
 
-    const entries = parseMemoryBuffer();
+    const entries = parseMemoryBuffer(profile);
     if (entries.length === 0) {
       return "";
     }
@@ -774,16 +1181,17 @@ function getRecentTranscriptContext(sessionKey?: string): string {
   }
 }
 
-// File-based lock to prevent concurrent rollup jobs
+// File-based lock to prevent concurrent rollup jobs (one per profile, in its rollup-pending dir)
 // Uses a lock file instead of just in-memory flag for extra safety
-const ROLLUP_LOCK_FILE = path.join(ROLLUP_PENDING_DIR, ".rollup.lock");
+const ROLLUP_LOCK_FILE_NAME = ".rollup.lock";
 const ROLLUP_LOCK_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes - stale lock threshold
 
-function acquireRollupLock(): boolean {
+function acquireRollupLock(profile: AssistantProfile): boolean {
+  const lockFile = path.join(profile.paths.rollupPendingDir, ROLLUP_LOCK_FILE_NAME);
   try {
     // Check if lock exists and is recent
-    if (fs.existsSync(ROLLUP_LOCK_FILE)) {
-      const stats = fs.statSync(ROLLUP_LOCK_FILE);
+    if (fs.existsSync(lockFile)) {
+      const stats = fs.statSync(lockFile);
       const lockAge = Date.now() - stats.mtimeMs;
 
       if (lockAge < ROLLUP_LOCK_TIMEOUT_MS) {
@@ -795,7 +1203,7 @@ function acquireRollupLock(): boolean {
     }
 
     // Create lock file with our PID
-    fs.writeFileSync(ROLLUP_LOCK_FILE, `${process.pid}\n${new Date().toISOString()}`);
+    fs.writeFileSync(lockFile, `${process.pid}\n${new Date().toISOString()}`);
     return true;
   } catch (err) {
     log(`[Memory] Failed to acquire rollup lock: ${err}`);
@@ -803,10 +1211,11 @@ function acquireRollupLock(): boolean {
   }
 }
 
-function releaseRollupLock(): void {
+function releaseRollupLock(profile: AssistantProfile): void {
+  const lockFile = path.join(profile.paths.rollupPendingDir, ROLLUP_LOCK_FILE_NAME);
   try {
-    if (fs.existsSync(ROLLUP_LOCK_FILE)) {
-      fs.unlinkSync(ROLLUP_LOCK_FILE);
+    if (fs.existsSync(lockFile)) {
+      fs.unlinkSync(lockFile);
     }
   } catch (err) {
     log(`[Memory] Failed to release rollup lock: ${err}`);
@@ -815,13 +1224,13 @@ function releaseRollupLock(): void {
 
 // Extract a chunk from the beginning of the short-term buffer
 // Returns the path to the chunk file, or null if buffer is too small
-function extractChunkFromBuffer(): string | null {
-  if (!fs.existsSync(SHORT_TERM_MEMORY_FILE)) {
+function extractChunkFromBuffer(profile: AssistantProfile): string | null {
+  if (!fs.existsSync(profile.shortTermFile)) {
     return null;
   }
 
-  const content = fs.readFileSync(SHORT_TERM_MEMORY_FILE, "utf-8");
-  const chunkSizeBytes = getChunkSizeBytes();
+  const content = fs.readFileSync(profile.shortTermFile, "utf-8");
+  const chunkSizeBytes = getChunkSizeBytes(profile);
   if (content.length < chunkSizeBytes) {
     return null;
   }
@@ -845,12 +1254,12 @@ function extractChunkFromBuffer(): string | null {
 
   // Write chunk to pending directory
   const timestamp = Date.now();
-  const chunkFile = path.join(ROLLUP_PENDING_DIR, `chunk-${timestamp}.txt`);
+  const chunkFile = path.join(profile.paths.rollupPendingDir, `chunk-${timestamp}.txt`);
   fs.writeFileSync(chunkFile, chunkContent);
 
   // Remove extracted lines from buffer (keep the rest)
   const remainingLines = lines.slice(chunkLineCount);
-  fs.writeFileSync(SHORT_TERM_MEMORY_FILE, remainingLines.join("\n"));
+  fs.writeFileSync(profile.shortTermFile, remainingLines.join("\n"));
 
   const chunkSizeKB = Math.round(chunkContent.length / 1024);
   const remainingSizeKB = Math.round(remainingLines.join("\n").length / 1024);
@@ -860,42 +1269,43 @@ function extractChunkFromBuffer(): string | null {
 }
 
 // Get all pending chunk files, sorted oldest first
-function getPendingChunks(): string[] {
-  if (!fs.existsSync(ROLLUP_PENDING_DIR)) {
+function getPendingChunks(profile: AssistantProfile): string[] {
+  const pendingDir = profile.paths.rollupPendingDir;
+  if (!fs.existsSync(pendingDir)) {
     return [];
   }
-  return fs.readdirSync(ROLLUP_PENDING_DIR)
+  return fs.readdirSync(pendingDir)
     .filter(f => f.startsWith("chunk-") && f.endsWith(".txt"))
-    .map(f => path.join(ROLLUP_PENDING_DIR, f))
+    .map(f => path.join(pendingDir, f))
     .sort(); // Oldest first (timestamp in filename)
 }
 
-async function checkAndTriggerRollup(): Promise<void> {
-  const size = getShortTermMemorySize();
+async function checkAndTriggerRollup(profile: AssistantProfile): Promise<void> {
+  const size = getShortTermMemorySize(profile);
 
   // First, extract chunks if buffer is over threshold
   // This happens synchronously and immediately, before any Claude job
-  const sizeThreshold = getShortTermSizeThreshold();
+  const sizeThreshold = getShortTermSizeThreshold(profile);
   if (size >= sizeThreshold) {
     log(`[Memory] Short-term buffer at ${Math.round(size / 1024)}KB (threshold: ${Math.round(sizeThreshold / 1024)}KB). Extracting chunks...`);
 
     // Extract chunks until we're under threshold
     let currentSize = size;
     while (currentSize >= sizeThreshold) {
-      const chunkFile = extractChunkFromBuffer();
+      const chunkFile = extractChunkFromBuffer(profile);
       if (!chunkFile) break; // Buffer too small to extract more
-      currentSize = getShortTermMemorySize();
+      currentSize = getShortTermMemorySize(profile);
     }
   }
 
   // Now process any pending chunks
-  const pendingChunks = getPendingChunks();
+  const pendingChunks = getPendingChunks(profile);
   if (pendingChunks.length === 0) {
     return;
   }
 
   // Try to acquire file-based lock (prevents concurrent rollups even across processes)
-  if (!acquireRollupLock()) {
+  if (!acquireRollupLock(profile)) {
     log(`[Memory] Rollup already in progress (lock held), ${pendingChunks.length} chunks waiting.`);
     return;
   }
@@ -904,7 +1314,7 @@ async function checkAndTriggerRollup(): Promise<void> {
     // Process chunks one at a time
     for (const chunkFile of pendingChunks) {
       log(`[Memory] Processing chunk: ${path.basename(chunkFile)}`);
-      await performRollup(chunkFile);
+      await performRollup(profile, chunkFile);
       // Delete chunk after successful processing
       fs.unlinkSync(chunkFile);
       log(`[Memory] Chunk processed and deleted: ${path.basename(chunkFile)}`);
@@ -913,7 +1323,7 @@ async function checkAndTriggerRollup(): Promise<void> {
   } catch (err) {
     log(`[Memory] Rollup failed: ${err}`);
   } finally {
-    releaseRollupLock();
+    releaseRollupLock(profile);
   }
 }
 
@@ -952,7 +1362,7 @@ function convertChunkToReadable(chunkContent: string): string {
   return readable.join("\n");
 }
 
-async function performRollup(chunkFile: string): Promise<void> {
+async function performRollup(profile: AssistantProfile, chunkFile: string): Promise<void> {
   const chunkContent = fs.readFileSync(chunkFile, "utf-8");
   if (!chunkContent.trim()) {
     log(`[Memory] Chunk file is empty, skipping.`);
@@ -1014,74 +1424,66 @@ DO NOT try to clear or modify the chunk file - the watcher handles cleanup.`;
 
   const jobId = generateJobId();
 
+  // Leave the chunk pending if budgets have paused all jobs - it's retried on the next rollup
+  const budget = checkJobBudget({ kind: "rollup", channel: "memory-rollup", sessionKey: "memory-rollup" });
+  if (!budget.decision.allowed) {
+    throw new Error(`Rollup refused: ${budget.decision.reason}`);
+  }
+
   // Wait for a global slot if we're at capacity
-  const dummyEvent: ChannelEvent = { sessionKey: "memory-rollup", prompt: "", payload: {}, message: { isMessage: false, text: "" } };
-  await waitForGlobalSlot(dummyEvent);
+  const releaseSlot = await jobScheduler.acquire("rollup", `memory-rollup ${path.basename(chunkFile)}`);
 
   return new Promise((resolve, reject) => {
     // Refresh CLAUDE.md from SOUL.md + SYSTEM.md before each job
-    refreshClaudeMd();
-
-    log(`[Memory] Starting rollup job ${jobId} for chunk ${path.basename(chunkFile)} (${chunkSizeKB}KB, ${lineCount} lines)`);
-
-    const proc = spawn(
-      "claude",
-      [
-        "-p",
-        "--verbose",
-        "--output-format", "stream-json",
-        "--dangerously-skip-permissions",
-        rollupPrompt
-      ],
-      {
-        cwd: ASSISTANT_ROOT,
-        env: { ...process.env, FORCE_COLOR: "0" },
-        stdio: ["ignore", "pipe", "pipe"],
-      }
-    );
+    refreshClaudeMd(profile);
+
+    log(`[Memory] Starting rollup job ${jobId} for chunk ${path.basename(chunkFile)} (${chunkSizeKB}KB, ${lineCount} lines, profile: ${profile.name})`);
+
+    const proc = agentRunner.start({
+      prompt: rollupPrompt,
+      cwd: profile.paths.root,
+      ...getAgentOptions(profile, jobId),
+    });
 
     // Track in job system
-    createJobFile(jobId, "memory-rollup", `[Rollup] ${path.basename(chunkFile)} (${chunkSizeKB}KB)`, proc.pid, rollupPrompt);
+    createJobFile(jobId, "memory-rollup", `[Rollup] ${path.basename(chunkFile)} (${chunkSizeKB}KB)`, proc.pid, rollupPrompt, { profile: profile.name });
     runningJobs.set(jobId, proc);
+    const watchdog = startJobWatchdog(jobId, proc, resolveJobLimits(loadChannelsConfig().global?.limits));
 
     let stderr = "";
-    let lineBuffer = "";
     let lastCost: number | undefined;
     let lastDurationMs: number | undefined;
 
-    proc.stdout.on("data", (data) => {
-      const chunk = data.toString();
-      lineBuffer += chunk;
-
-      const outputLines = lineBuffer.split("\n");
-      lineBuffer = outputLines.pop() || "";
+    proc.on("event", (streamEvent) => {
+      appendJobEvent(jobId, streamEvent);
+      watchdog.observe(streamEvent);
 
-      for (const line of outputLines) {
-        if (!line.trim()) continue;
-        try {
-          const streamEvent = JSON.parse(line);
-          appendJobEvent(jobId, streamEvent);
-
-          // Capture cost/duration from result events
-          if (streamEvent.type === "result") {
-            lastCost = streamEvent.total_cost_usd;
-            lastDurationMs = streamEvent.duration_ms;
-          }
-        } catch {}
+      // Capture cost/duration from result events
+      if (streamEvent.type === "result") {
+        lastCost = streamEvent.total_cost_usd;
+        lastDurationMs = streamEvent.duration_ms;
       }
     });
 
-    proc.stderr.on("data", (data) => {
-      stderr += data.toString();
+    proc.on("stderr", (chunk) => {
+      stderr += chunk;
     });
 
     proc.on("close", (code, signal) => {
-      const wasKilled = signal === "SIGTERM" || signal === "SIGKILL";
-      const status = wasKilled ? "stopped" : (code === 0 ? "completed" : "error");
-      finalizeJob(jobId, status, lastCost, lastDurationMs);
+      watchdog.stop();
+      finalizeJob(jobId, getExitStatus(code, signal, watchdog), lastCost, lastDurationMs, watchdog.breach?.reason);
 
       // Release global slot so queued jobs can run
-      releaseGlobalSlot();
+      releaseSlot();
+
+      webhooks.emit("memory.rollup", {
+        jobId,
+        profile: profile.name,
+        chunk: path.basename(chunkFile),
+        sizeKB: chunkSizeKB,
+        lines: lineCount,
+        success: code === 0,
+      });
 
       if (code === 0) {
         log(`[Memory] Rollup job ${jobId} completed successfully.`);
@@ -1092,8 +1494,9 @@ DO NOT try to clear or modify the chunk file - the watcher handles cleanup.`;
     });
 
     proc.on("error", (err) => {
+      watchdog.stop();
       finalizeJob(jobId, "error");
-      releaseGlobalSlot();
+      releaseSlot();
       reject(err);
     });
   });
@@ -1160,6 +1563,35 @@ async function convertPdfToText(pdfPath: string): Promise<string> {
   });
 }
 
+// Contacts are re-read for every message, so dashboard edits apply right away
+const CONTACTS_CONFIG_FILE = phouseConfig.paths.contactsConfig;
+
+// The contact who sent a message, by the sender ids its channel reports (getSenderIds in its plugin)
+function findSenderContact(contacts: ContactsConfig, channelName: string, payload: any): Contact | null {
+  try {
+    return findContact(contacts, channelName, channelRegistry.getSenderIds(channelName, payload));
+  } catch (err) {
+    log(`[Contacts] ${channelName} failed to identify a sender: ${err}`);
+    return null;
+  }
+}
+
+// Log an incoming message to short-term memory (JSONL format)
+// Each channel decides what its payloads look like in memory (getMemoryEntry in its plugin)
+function logIncomingMessage(profile: AssistantProfile, channelName: string, payload: any, contact: Contact | null): void {
+  let entry = null;
+  try {
+    entry = channelRegistry.getMemoryEntry(channelName, payload);
+  } catch (err) {
+    log(`[Memory] ${channelName} failed to describe an incoming message: ${err}`);
+  }
+
+  if (entry?.text) {
+    // Known people go in under one name, whichever channel they wrote on
+    logToShortTermMemory(profile, channelName, "in", entry.text, contact?.name ?? entry.from);
+  }
+}
+
 // Handle a single channel event
 async function handleChannelEvent(
   channel: ChannelDefinition,
@@ -1167,38 +1599,37 @@ async function handleChannelEvent(
 ): Promise<void> {
   const { sessionKey, prompt, payload } = event;
 
-  log(`[Watcher] Processing event from ${channel.name}: ${sessionKey}`);
+  // Which assistant answers - its own SOUL.md, memory and credentials
+  const profile = getProfileForSession(channel, sessionKey);
+
+  log(`[Watcher] Processing event from ${channel.name}: ${sessionKey}${profile.name !== DEFAULT_PROFILE ? ` (profile: ${profile.name})` : ""}`);
   log(`[Watcher] Prompt: ${prompt.slice(0, 100)}...`);
 
-  // Log incoming event to short-term memory (JSONL format)
-  let incomingFrom: string | undefined;
-  let incomingMsg = "";
-
-  if (channel.name === "telegram") {
-    incomingFrom = payload.from || "Unknown";
-    if (payload.type === "message") {
-      incomingMsg = payload.text;
-    } else if (payload.type === "photo") {
-      incomingMsg = `[Photo] ${payload.caption || ""}`;
-    } else if (payload.type === "document") {
-      incomingMsg = `[Document: ${payload.file_name}] ${payload.caption || ""}`;
-    }
-  } else if (channel.name === "email") {
-    incomingFrom = payload.from;
-    incomingMsg = `Subject: ${payload.subject} | ${payload.body}`;
-  } else if (channel.name === "gchat") {
-    incomingFrom = payload.sender_name || "Unknown";
-    incomingMsg = payload.text;
-  } else if (channel.name === "discord") {
-    incomingFrom = payload.from || "Unknown";
-    incomingMsg = payload.text;
-  } else if (channel.name === "dashboard") {
-    incomingFrom = "User";
-    incomingMsg = payload.text || payload.message || "";
-  }
-
-  if (incomingMsg) {
-    logToShortTermMemory(channel.name, "in", incomingMsg, incomingFrom);
+  // Log incoming messages to short-term memory (JSONL format) - each one, if several were merged
+  const contacts = loadContacts(CONTACTS_CONFIG_FILE);
+  const senders: Contact[] = [];
+  for (const part of event.parts ?? [event]) {
+    const contact = findSenderContact(contacts, channel.name, part.payload);
+    if (contact && !senders.includes(contact)) {
+      senders.push(contact);
+    }
+    logIncomingMessage(profile, channel.name, part.payload, contact);
+    webhooks.emit("message.received", {
+      channel: channel.name,
+      sessionKey,
+      profile: profile.name,
+      eventId: part.eventId,
+      from: contact?.name ?? part.message?.from,
+      contactId: contact?.id,
+      text: part.message?.text,
+    });
+  }
+
+  // Budgets: an exhausted budget may refuse this job - tell the sender why
+  const budget = checkJobBudget({ kind: "interactive", channel: channel.name, sessionKey });
+  if (!budget.decision.allowed) {
+    sendChannelReply(channel, event, `Sorry, I can't take this on right now. ${budget.decision.reason}.`);
+    return;
   }
 
   // Note: All commands (/stop, /new, /memory, /queue, /restart) are now handled with priority
@@ -1206,16 +1637,18 @@ async function handleChannelEvent(
 
   // Note: Email security filtering is now handled by the email channel itself
 
-  // Handle PDF conversion for documents
+  // Handle PDF conversion for documents (any of the merged messages may carry one)
   let finalPrompt = prompt;
-  if (channel.name === "telegram" && payload.type === "document") {
-    const mimeType = payload.mime_type || "";
-    const fileName = payload.file_name || "";
+  for (const part of event.parts ?? [event]) {
+    const partPayload = part.payload;
+    if (channel.name !== "telegram" || partPayload.type !== "document") continue;
+    const mimeType = partPayload.mime_type || "";
+    const fileName = partPayload.file_name || "";
     if (mimeType === "application/pdf" || fileName.toLowerCase().endsWith(".pdf")) {
       try {
-        const textPath = await convertPdfToText(payload.file_path);
-        finalPrompt = prompt.replace(
-          `The file has been saved to: ${payload.file_path}`,
+        const textPath = await convertPdfToText(partPayload.file_path);
+        finalPrompt = finalPrompt.replace(
+          `The file has been saved to: ${partPayload.file_path}`,
           `The PDF has been converted to text. Use the Read tool to view it at: ${textPath}`
         );
       } catch (err) {
@@ -1224,6 +1657,12 @@ async function handleChannelEvent(
     }
   }
 
+  // Tell Claude who it's talking to - channels only know display names
+  if (senders.length > 0) {
+    const verified = !channelRegistry.hasForgeableSenderIds(channel.name);
+    finalPrompt += `\n\n[From contacts: ${senders.map(contact => describeContact(contact, verified)).join("; ")}]`;
+  }
+
   // Check memory mode
   const memoryMode = getMemoryMode(sessionKey);
   const isTranscriptMode = memoryMode === "transcript";
@@ -1236,7 +1675,7 @@ async function handleChannelEvent(
 
   // In transcript mode, inject recent history into the prompt
   if (isTranscriptMode) {
-    const recentHistory = getRecentTranscriptContext(sessionKey);
+    const recentHistory = getRecentTranscriptContext(profile, sessionKey);
     if (recentHistory) {
       finalPrompt = recentHistory + finalPrompt;
     }
@@ -1261,11 +1700,20 @@ async function handleChannelEvent(
   const responseStyle = getResponseStyle(sessionKey);
   event.payload.verbosity = responseStyle;
 
+  // Per-job limits: channel settings override the global defaults
+  const channelsConfig = loadChannelsConfig();
+  const jobLimits = resolveJobLimits(channelsConfig.global?.limits, channelsConfig.channels[channel.name]?.limits);
+
   // Create handler for this event
   const handler = channel.createHandler(event);
 
+  // Budget warnings go out before the reply
+  for (const notice of budget.notices) {
+    handler.onStreamEvent({ type: "assistant", message: { content: [{ type: "text", text: `Budget warning: ${notice}` }] } });
+  }
+
   // Wait for a global slot if we're at capacity
-  await waitForGlobalSlot(event);
+  const releaseSlot = await jobScheduler.acquire("interactive", sessionKey);
 
   // Signal work is starting (typing indicator, reaction, etc.)
   handler.onWorkStarted?.();
@@ -1279,82 +1727,72 @@ async function handleChannelEvent(
 
   return new Promise((resolve, reject) => {
     // Refresh CLAUDE.md from SOUL.md + SYSTEM.md before each job
-    refreshClaudeMd();
-
-    log(`[Watcher] Spawning Claude with session ${sessionId} (mode: ${memoryMode}, ${useNewSession ? "new" : "resuming"}) [job: ${jobId}]`);
-
-    const sessionArg = useNewSession
-      ? ["--session-id", isTranscriptMode ? generateSessionId(`${sessionKey}-transcript-${Date.now()}`) : sessionId]
-      : ["--resume", sessionId];
-
-    const proc = spawn(
-      "claude",
-      [
-        ...sessionArg,
-        "-p",
-        "--verbose",
-        "--output-format", "stream-json",
-        "--dangerously-skip-permissions",
-        finalPrompt
-      ],
-      {
-        cwd: ASSISTANT_ROOT,
-        env: { ...process.env, FORCE_COLOR: "0" },
-        stdio: ["ignore", "pipe", "pipe"],
-      }
-    );
+    refreshClaudeMd(profile);
+
+    const model = getSessionModel(sessionKey);
+    const persona = getPersonaOverlay(profile, channel.name, sessionKey);
+    log(`[Watcher] Starting ${agentRunner.name} agent with session ${sessionId} (mode: ${memoryMode}, ${useNewSession ? "new" : "resuming"}${model ? `, model: ${model}` : ""}${persona ? ", persona overlay" : ""}) [job: ${jobId}]`);
+
+    const proc = agentRunner.start({
+      prompt: finalPrompt,
+      cwd: profile.paths.root,
+      ...getAgentOptions(profile, jobId),
+      model,
+      appendSystemPrompt: persona,
+      session: useNewSession
+        ? { id: isTranscriptMode ? generateSessionId(`${sessionKey}-transcript-${Date.now()}`) : sessionId, resume: false }
+        : { id: sessionId, resume: true },
+    });
 
     // Track PID in job file and in-memory map, plus session mapping
-    createJobFile(jobId, channel.name, prompt.slice(0, 500), proc.pid, finalPrompt);
+    createJobFile(jobId, channel.name, prompt.slice(0, 500), proc.pid, finalPrompt, {
+      sessionKey,
+      eventId: event.eventId,
+      eventIds: event.parts?.map(p => p.eventId).filter((id): id is string => !!id),
+      profile: profile.name,
+    });
     runningJobs.set(jobId, proc);
     jobToSession.set(jobId, sessionKey);
+    const watchdog = startJobWatchdog(jobId, proc, jobLimits);
 
     let stdout = "";
     let stderr = "";
-    let lineBuffer = "";
     let outgoingTextBuffer = ""; // Buffer for short-term memory logging
     let lastCost: number | undefined;
     let lastDurationMs: number | undefined;
 
-    proc.stdout.on("data", (data) => {
-      const chunk = data.toString();
+    proc.on("stdout", (chunk) => {
       stdout += chunk;
-      lineBuffer += chunk;
-
-      const lines = lineBuffer.split("\n");
-      lineBuffer = lines.pop() || "";
+    });
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const streamEvent = JSON.parse(line);
-          appendJobEvent(jobId, streamEvent);
+    proc.on("event", (streamEvent) => {
+      appendJobEvent(jobId, streamEvent);
+      watchdog.observe(streamEvent);
 
-          // Capture cost/duration from result events
-          if (streamEvent.type === "result") {
-            lastCost = streamEvent.total_cost_usd;
-            lastDurationMs = streamEvent.duration_ms;
-          }
+      // Capture cost/duration from result events
+      if (streamEvent.type === "result") {
+        lastCost = streamEvent.total_cost_usd;
+        lastDurationMs = streamEvent.duration_ms;
+      }
 
-          try {
-            handler.onStreamEvent(streamEvent);
-          } catch (handlerErr) {
-            log(`[Stream] Handler error: ${handlerErr}`);
-          }
+      try {
+        handler.onStreamEvent(streamEvent);
+      } catch (handlerErr) {
+        log(`[Stream] Handler error: ${handlerErr}`);
+      }
 
-          // Accumulate text for short-term memory (at streaming level)
-          const text = extractTextFromStreamEvent(streamEvent);
-          if (text) {
-            outgoingTextBuffer += text;
-          }
-        } catch {
-          log(`[Stream] Non-JSON: ${line}`);
-        }
+      // Accumulate text for short-term memory (at streaming level)
+      const text = extractTextFromStreamEvent(streamEvent);
+      if (text) {
+        outgoingTextBuffer += text;
       }
     });
 
-    proc.stderr.on("data", (data) => {
-      const chunk = data.toString();
+    proc.on("output", (line) => {
+      log(`[Stream] Non-JSON: ${line}`);
+    });
+
+    proc.on("stderr", (chunk) => {
       stderr += chunk;
       fs.appendFileSync(LOG_FILE, "[stderr] " + chunk);
       process.stderr.write(chunk);
@@ -1362,23 +1800,31 @@ async function handleChannelEvent(
 
     proc.on("close", (code, signal) => {
       log(`[Watcher] Claude exited with code ${code}, signal ${signal} [job: ${jobId}]`);
+      watchdog.stop();
+
+      // Let the channel know the job was cut short, not just finished early
+      if (watchdog.breach) {
+        handler.onStreamEvent({
+          type: "assistant",
+          message: { content: [{ type: "text", text: `Stopped automatically: this job ${watchdog.breach.reason}. (job ${jobId})` }] },
+        });
+      }
+
       // Signal work is complete (remove typing indicator, reaction, etc.)
       handler.onWorkComplete?.();
       handler.onComplete(code || 0);
 
-      // Determine status: stopped if killed by signal, otherwise completed/error
-      const wasKilled = signal === "SIGTERM" || signal === "SIGKILL";
-      const status = wasKilled ? "stopped" : (code === 0 ? "completed" : "error");
-      finalizeJob(jobId, status, lastCost, lastDurationMs);
+      // Determine status: timeout/limit if the watchdog killed it, stopped if killed otherwise, else completed/error
+      finalizeJob(jobId, getExitStatus(code, signal, watchdog), lastCost, lastDurationMs, watchdog.breach?.reason);
 
       // Release global slot so queued jobs can run
-      releaseGlobalSlot();
+      releaseSlot();
 
       // Log outgoing response to short-term memory
       if (outgoingTextBuffer.trim()) {
-        logToShortTermMemory(channel.name, "out", outgoingTextBuffer.trim());
+        logToShortTermMemory(profile, channel.name, "out", outgoingTextBuffer.trim());
         // Check if we need to trigger auto-rollup (async, don't block)
-        checkAndTriggerRollup().catch(err => log(`[Memory] Rollup error: ${err}`));
+        checkAndTriggerRollup(profile).catch(err => log(`[Memory] Rollup error: ${err}`));
       }
 
       if (code !== 0) {
@@ -1403,14 +1849,179 @@ async function handleChannelEvent(
 
     proc.on("error", (err) => {
       log(`[Watcher] Claude spawn error: ${err.message}`);
+      watchdog.stop();
       handler.onWorkComplete?.();
       handler.onComplete(1);
       finalizeJob(jobId, "error");
+      releaseSlot();
       reject(err);
     });
   });
 }
 
+// Durable event queue: every accepted channel event is written to events/pending
+// and only acked (moved to events/processed) once it has been fully handled.
+// Anything still pending at startup was lost by a restart or crash and is replayed.
+const CHANNEL_EVENT_TYPE = "channel_event";
+const MAX_EVENT_ATTEMPTS = 3; // Give up on events that keep taking the watcher down
+
+function persistChannelEvent(channel: ChannelDefinition, event: ChannelEvent): void {
+  // Already durable - the inbox channel's events are acked in place
+  if (event.eventId) return;
+  try {
+    // Drop live objects (e.g., Discord's _client) - handlers fall back to the channel's own
+    const payload = Object.fromEntries(
+      Object.entries(event.payload || {}).filter(([key]) => !key.startsWith("_"))
+    );
+    event.eventId = pushEvent(CHANNEL_EVENT_TYPE, getListenerKey(channel.name, channel.profile), {
+      sessionKey: event.sessionKey,
+      prompt: event.prompt,
+      payload,
+      message: event.message,
+      concurrency: event.concurrency,
+      concurrencyGroup: event.concurrencyGroup,
+    });
+  } catch (err) {
+    log(`[Events] Failed to persist ${channel.name} event (processing without durability): ${err}`);
+  }
+}
+
+function ackChannelEvent(event: ChannelEvent, outcome: string): void {
+  // A merged event is acked through the messages it was built from
+  if (event.parts) {
+    for (const part of event.parts) {
+      ackChannelEvent(part, outcome);
+    }
+    return;
+  }
+  if (!event.eventId) return;
+  try {
+    markProcessed(event.eventId, { outcome });
+  } catch (err) {
+    log(`[Events] Failed to ack event ${event.eventId}: ${err}`);
+  }
+}
+
+// Rebuild a ChannelEvent from its durable queue record
+function restoreChannelEvent(stored: StoredEvent): ChannelEvent {
+  const data = stored.payload as Omit<ChannelEvent, "eventId">;
+  return { ...data, eventId: stored.id };
+}
+
+// Events held back by crash recovery, by session key, waiting for /retry
+const heldEvents: Map<string, string[]> = new Map();
+
+// Track held events and tell each sender whose reply was cut off by the crash
+function offerHeldEvents(channels: ChannelDefinition[], newlyHeld: string[]): void {
+  for (const stored of getPendingEvents()) {
+    if (stored.type !== CHANNEL_EVENT_TYPE || !stored.held) continue;
+
+    const event = restoreChannelEvent(stored);
+    if (!heldEvents.has(event.sessionKey)) {
+      heldEvents.set(event.sessionKey, []);
+    }
+    heldEvents.get(event.sessionKey)!.push(stored.id);
+
+    const channel = channels.find(c => getListenerKey(c.name, c.profile) === stored.source);
+    if (channel && newlyHeld.includes(stored.id)) {
+      const snippet = (event.message?.text || "").slice(0, 80);
+      log(`[Events] Offering retry of interrupted event ${stored.id} to ${event.sessionKey}`);
+      sendChannelReply(
+        channel,
+        event,
+        `Sorry - I was restarted while working on your message${snippet ? ` ("${snippet}")` : ""}, so my reply was cut off. Send /retry to run it again.`
+      );
+    }
+  }
+}
+
+// Re-enqueue held events for a session (the /retry command)
+function retryHeldEvents(channel: ChannelDefinition, sessionKey: string): number {
+  const ids = heldEvents.get(sessionKey) || [];
+  heldEvents.delete(sessionKey);
+
+  let retried = 0;
+  for (const id of ids) {
+    const stored = updatePendingEvent(id, { held: false });
+    if (!stored) continue;
+    const event = restoreChannelEvent(stored);
+    log(`[Events] Retrying held event ${id} for ${sessionKey}`);
+    setImmediate(() => processEvent(channel, event).catch((err) => {
+      log(`[Watcher] Error processing retried ${channel.name} event: ${err}`);
+    }));
+    retried++;
+  }
+  return retried;
+}
+
+// The sender moved on without retrying - drop what was held for them
+function dropHeldEvents(sessionKey: string): void {
+  const ids = heldEvents.get(sessionKey);
+  if (!ids) return;
+  heldEvents.delete(sessionKey);
+  for (const id of ids) {
+    markProcessed(id, { outcome: "dropped:not-retried" });
+  }
+}
+
+// Listeners whose events from the previous run have been replayed
+const replayedChannels: Set<string> = new Set();
+
+// Replay a listener's events that were accepted but never acked before the last
+// shutdown - once per run, when the listener first starts (at startup or when
+// enabled later). Its events from this run are never replayed.
+async function replayPendingEvents(channel: ChannelDefinition): Promise<void> {
+  const key = getListenerKey(channel.name, channel.profile);
+  if (replayedChannels.has(key)) return;
+  replayedChannels.add(key);
+
+  const pending = getPendingEvents().filter(e => e.type === CHANNEL_EVENT_TYPE && !e.held && e.source === key);
+  if (pending.length === 0) return;
+
+  log(`[Events] Replaying ${pending.length} unacknowledged ${key} event(s) from previous run`);
+
+  // Replay each session's events one after another so queue/interrupt modes
+  // don't make replayed messages kill each other
+  const byLockKey: Map<string, ChannelEvent[]> = new Map();
+
+  for (const stored of pending) {
+    const attempts = (stored.attempts || 0) + 1;
+    if (attempts > MAX_EVENT_ATTEMPTS) {
+      log(`[Events] Abandoning event ${stored.id} after ${MAX_EVENT_ATTEMPTS} attempts`);
+      markProcessed(stored.id, { outcome: "abandoned" });
+      continue;
+    }
+    updatePendingEvent(stored.id, { attempts });
+
+    const event = restoreChannelEvent(stored);
+    const lockKey = getLockKey(channel, event);
+
+    if (!byLockKey.has(lockKey)) {
+      byLockKey.set(lockKey, []);
+    }
+    byLockKey.get(lockKey)!.push(event);
+  }
+
+  await Promise.all([...byLockKey.values()].map(async (events) => {
+    for (const event of events) {
+      log(`[Events] Replaying event ${event.eventId} for ${event.sessionKey}`);
+      await processEvent(channel, event).catch((err) => {
+        log(`[Watcher] Error processing replayed ${channel.name} event: ${err}`);
+      });
+    }
+  }));
+}
+
+// Events can override their channel's concurrency mode (each inbound hook picks its own)
+function getConcurrency(channel: ChannelDefinition, event: ChannelEvent): ConcurrencyMode {
+  return event.concurrency ?? channel.concurrency;
+}
+
+// What a job holds while it runs: the session, or the whole channel (or hook) for "global"
+function getLockKey(channel: ChannelDefinition, event: ChannelEvent): string {
+  return getConcurrency(channel, event) === "global" ? event.concurrencyGroup ?? channel.name : event.sessionKey;
+}
+
 // Helper to acquire a mutex for a session key
 async function acquireSessionMutex(lockKey: string): Promise<() => void> {
   // Wait for any existing operation on this session to complete
@@ -1432,32 +2043,128 @@ async function acquireSessionMutex(lockKey: string): Promise<() => void> {
 }
 
 // Process event with concurrency control
-async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Promise<void> {
+// Message coalescing: messages for one session that arrive within the channel's
+// window are merged into a single event, so three quick messages become one run
+// instead of two interrupted jobs (interrupt mode) or three paid runs (queue mode).
+// Each new message restarts the window.
+interface CoalescingBuffer {
+  events: ChannelEvent[];
+  timer: NodeJS.Timeout;
+  handler: ChannelEventHandler;  // Shows the typing indicator while we wait
+}
+
+const coalescingBuffers: Map<string, CoalescingBuffer> = new Map();
+
+function getCoalesceWindowMs(channelName: string): number {
+  const channelsConfig = loadChannelsConfig();
+  return channelsConfig.channels[channelName]?.coalesceWindowMs ?? channelsConfig.global?.coalesceWindowMs ?? 0;
+}
+
+function bufferForCoalescing(channel: ChannelDefinition, event: ChannelEvent, windowMs: number): void {
+  const key = `${channel.name}:${event.sessionKey}`;
+  const flush = () => flushCoalescingBuffer(channel, key);
+
+  const buffer = coalescingBuffers.get(key);
+  if (buffer) {
+    clearTimeout(buffer.timer);
+    buffer.events.push(event);
+    buffer.timer = setTimeout(flush, windowMs);
+    log(`[Coalesce] ${buffer.events.length} messages waiting for ${event.sessionKey}`);
+    return;
+  }
+
+  const handler = channel.createHandler(event);
+  handler.onWorkStarted?.();
+  coalescingBuffers.set(key, { events: [event], timer: setTimeout(flush, windowMs), handler });
+}
+
+function flushCoalescingBuffer(channel: ChannelDefinition, key: string): void {
+  const buffer = coalescingBuffers.get(key);
+  if (!buffer) return;
+  coalescingBuffers.delete(key);
+  buffer.handler.onWorkComplete?.();
+
+  const event = mergeChannelEvents(buffer.events);
+  if (event.parts) {
+    log(`[Coalesce] Merged ${event.parts.length} messages for ${event.sessionKey}`);
+  }
+  processEvent(channel, event, { coalesced: true }).catch((err) => {
+    log(`[Watcher] Error processing ${channel.name} event: ${err}`);
+  });
+}
+
+// Every message (and its attachments) in order, numbered when there are several
+function joinPrompts(events: ChannelEvent[]): string {
+  if (events.length === 1) return events[0].prompt;
+  return events.map((e, i) => `--- Message ${i + 1} of ${events.length} ---\n${e.prompt}`).join("\n\n");
+}
+
+// One prompt with every message in order. Replies go to the latest message.
+function mergeChannelEvents(events: ChannelEvent[]): ChannelEvent {
+  if (events.length === 1) return events[0];
+  return combineChannelEvents(
+    events,
+    `The user sent ${events.length} messages in quick succession. Treat them as one request.\n\n${joinPrompts(events)}`
+  );
+}
+
+function combineChannelEvents(events: ChannelEvent[], prompt: string): ChannelEvent {
+  const latest = events[events.length - 1];
+  return {
+    sessionKey: latest.sessionKey,
+    prompt,
+    payload: latest.payload,
+    message: {
+      ...latest.message,
+      text: events.map(e => e.message?.text).filter(Boolean).join("\n"),
+    },
+    parts: events,
+    concurrency: latest.concurrency,
+    concurrencyGroup: latest.concurrencyGroup,
+  };
+}
+
+// Steer mode: everything the session sent while its job ran goes in as one
+// follow-up turn, resuming the same session instead of starting over
+const STEERING_NOTE = "[The following arrived while you were working on the previous request. " +
+  "Take it into account and carry on from where you left off - don't redo finished work.]";
+
+function takeSteeringEvents(queue: ChannelEvent[], first: ChannelEvent): ChannelEvent {
+  // A global-concurrency queue holds other sessions too - only take this one's
+  const steering = [first];
+  for (let i = 0; i < queue.length; ) {
+    if (queue[i].sessionKey === first.sessionKey) {
+      steering.push(...queue.splice(i, 1));
+    } else {
+      i++;
+    }
+  }
+
+  // Built from the individual messages - the coalescing header would contradict the note
+  const parts = steering.flatMap(e => e.parts ?? [e]);
+  log(`[Watcher] Steering ${parts.length} mid-job message(s) into ${first.sessionKey}`);
+  return combineChannelEvents(parts, `${STEERING_NOTE}\n\n${joinPrompts(parts)}`);
+}
+
+async function processEvent(
+  channel: ChannelDefinition,
+  event: ChannelEvent,
+  options: { coalesced?: boolean } = {}  // Already went through commands and the coalescing window
+): Promise<void> {
   const { sessionKey, payload } = event;
-  const lockKey = channel.concurrency === "global" ? channel.name : sessionKey;
+  const lockKey = getLockKey(channel, event);
+  const concurrency = getConcurrency(channel, event);
 
   // PRIORITY: Handle control commands immediately, before queueing
   // This ensures /stop, /new, /memory, /queue bypass all queues
-  if (supportsCommands(channel.name) && event.message?.isMessage) {
+  if (!options.coalesced && channelRegistry.supportsCommands(channel.name) && event.message?.isMessage) {
     const cmd = parseCommand(event.message.text);
 
     if (cmd) {
-      // Helper to send a quick response - works for all channels
-      const sendQuickReply = (message: string) => {
-        if (channel.name === "dashboard") {
-          const assistantMessageId = payload.assistantMessageId;
-          if (assistantMessageId) {
-            sendDashboardCommandResponse(assistantMessageId, message);
-          }
-        } else {
-          const handler = channel.createHandler(event);
-          handler.onStreamEvent({
-            type: "assistant",
-            message: { content: [{ type: "text", text: message }] }
-          });
-          handler.onComplete(0);
-        }
-      };
+      // Commands take effect immediately - ack up front so /restart isn't replayed after the restart
+      ackChannelEvent(event, `command:${cmd.type}`);
+
+      const sendQuickReply = (message: string) => sendChannelReply(channel, event, message);
 
       // Handle all control commands with priority (bypass queues)
       switch (cmd.type) {
@@ -1541,11 +2248,63 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
           sendQuickReply("Queue mode OFF (interrupt). New messages will kill the current job and start fresh.");
           return;
 
+        case "retry": {
+          log(`[Watcher] Processing /retry command with priority (bypassing queue)`);
+          const retried = retryHeldEvents(channel, sessionKey);
+          if (retried === 0) {
+            sendQuickReply("Nothing to retry.");
+          }
+          return;
+        }
+
+        case "budget":
+          log(`[Watcher] Processing /budget command with priority (bypassing queue)`);
+          sendQuickReply(formatBudgetStatus(getCurrentBudgetStatus()));
+          return;
+
+        case "approve":
+        case "deny":
+          log(`[Watcher] Processing /${cmd.type} command with priority (bypassing queue)`);
+          sendQuickReply(answerApprovalCommand(channel, event, cmd));
+          return;
+
+        case "queue_steer":
+          log(`[Watcher] Processing /queue steer command with priority (bypassing queue)`);
+          setQueueMode(sessionKey, "steer");
+          sendQuickReply("Steer mode ON. Messages sent while I'm working get folded into one follow-up once the current job finishes.");
+          return;
+
         case "queue_status": {
           log(`[Watcher] Processing /queue command with priority (bypassing queue)`);
           const currentMode = getQueueMode(sessionKey);
-          const status = currentMode === "queue" ? "ON (messages queue up)" : "OFF (messages interrupt)";
-          sendQuickReply(`Queue mode: ${status}\n\nUse /queue on or /queue off to switch.`);
+          const status = currentMode === "queue"
+            ? "ON (messages queue up)"
+            : currentMode === "steer"
+              ? "STEER (mid-job messages become one follow-up)"
+              : "OFF (messages interrupt)";
+          sendQuickReply(`Queue mode: ${status}\n\nUse /queue on, /queue off or /queue steer to switch.`);
+          return;
+        }
+
+        case "model_set":
+          log(`[Watcher] Processing /model command with priority (bypassing queue)`);
+          setSessionModel(sessionKey, cmd.args!.model!);
+          sendQuickReply(`Model set to ${cmd.args!.model}. Takes effect from the next message.`);
+          return;
+
+        case "model_reset": {
+          log(`[Watcher] Processing /model default command with priority (bypassing queue)`);
+          setSessionModel(sessionKey, null);
+          // A channel-wide setting still applies once the session override is gone
+          const fallbackModel = getSessionModel(sessionKey);
+          sendQuickReply(`Model reset to ${fallbackModel ? `the channel default (${fallbackModel})` : "the default"}.`);
+          return;
+        }
+
+        case "model_status": {
+          log(`[Watcher] Processing /model command with priority (bypassing queue)`);
+          const currentModel = getSessionModel(sessionKey);
+          sendQuickReply(`Model: ${currentModel || "default"}\n\nUse /model <name> or /model default to switch.`);
           return;
         }
 
@@ -1556,8 +2315,17 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
     }
   }
 
+  // Hold messages briefly in case more arrive for the same session
+  if (!options.coalesced && event.message?.isMessage) {
+    const windowMs = getCoalesceWindowMs(channel.name);
+    if (windowMs > 0) {
+      bufferForCoalescing(channel, event, windowMs);
+      return;
+    }
+  }
+
   // Check concurrency - use mutex to prevent race conditions when two messages arrive simultaneously
-  if (channel.concurrency === "session" || channel.concurrency === "global") {
+  if (concurrency === "session" || concurrency === "global") {
     // Acquire mutex before checking/modifying session state
     const releaseMutex = await acquireSessionMutex(lockKey);
 
@@ -1579,16 +2347,13 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
               const exitPromise = new Promise<void>((resolve) => {
                 const onExit = () => {
                   proc.removeListener("close", onExit);
-                  proc.removeListener("exit", onExit);
                   resolve();
                 };
                 proc.once("close", onExit);
-                proc.once("exit", onExit);
 
                 // Timeout fallback - don't wait forever
                 setTimeout(() => {
                   proc.removeListener("close", onExit);
-                  proc.removeListener("exit", onExit);
                   resolve();
                 }, 2000);
               });
@@ -1610,6 +2375,9 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
           const queue = eventQueues.get(lockKey);
           if (queue && queue.length > 0) {
             log(`[Watcher] Clearing ${queue.length} queued events due to interrupt mode`);
+            for (const dropped of queue) {
+              ackChannelEvent(dropped, "dropped:interrupted");
+            }
             eventQueues.delete(lockKey);
           }
 
@@ -1617,12 +2385,12 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
           activeSessions.delete(lockKey);
           sessionOwners.delete(lockKey);
         } else {
-          // Queue mode: queue this event
+          // Queue and steer mode: queue this event (steer merges the queue when the job ends)
           if (!eventQueues.has(lockKey)) {
             eventQueues.set(lockKey, []);
           }
           eventQueues.get(lockKey)!.push(event);
-          log(`[Watcher] Queued event for ${lockKey} (${eventQueues.get(lockKey)!.length} in queue)`);
+          log(`[Watcher] Queued event for ${lockKey} (${eventQueues.get(lockKey)!.length} in queue${queueMode === "steer" ? ", steer mode" : ""})`);
           releaseMutex();
           return;
         }
@@ -1639,8 +2407,13 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
 
   try {
     await handleChannelEvent(channel, event);
+    ackChannelEvent(event, "completed");
+  } catch (err) {
+    // Errors are acked too - replaying a failing event would just fail again
+    ackChannelEvent(event, "error");
+    throw err;
   } finally {
-    if (channel.concurrency === "session" || channel.concurrency === "global") {
+    if (concurrency === "session" || concurrency === "global") {
       // Only release the lock if we still own it
       // This prevents a killed job from releasing the lock that a new job now owns
       if (sessionOwners.get(lockKey) === ownershipToken) {
@@ -1650,9 +2423,12 @@ async function processEvent(channel: ChannelDefinition, event: ChannelEvent): Pr
         // Process next queued event if any
         const queue = eventQueues.get(lockKey);
         if (queue && queue.length > 0) {
-          const nextEvent = queue.shift()!;
+          let nextEvent = queue.shift()!;
+          if (getQueueMode(nextEvent.sessionKey) === "steer") {
+            nextEvent = takeSteeringEvents(queue, nextEvent);
+          }
           log(`[Watcher] Processing next queued event for ${lockKey}`);
-          setImmediate(() => processEvent(channel, nextEvent));
+          setImmediate(() => processEvent(channel, nextEvent, { coalesced: true }));
         }
       } else {
         log(`[Watcher] Skipping cleanup - lock ownership transferred (was killed by interrupt)`);
@@ -1703,29 +2479,44 @@ function parseSchedule(schedule: string): string {
   return schedule;
 }
 
-function loadCronConfig(): CronConfig {
+function loadCronConfig(profile: AssistantProfile): CronConfig {
+  const cronConfigFile = profile.paths.cronConfigFile;
   try {
-    if (fs.existsSync(CRON_CONFIG_FILE)) {
-      const content = fs.readFileSync(CRON_CONFIG_FILE, "utf-8");
+    if (fs.existsSync(cronConfigFile)) {
+      const content = fs.readFileSync(cronConfigFile, "utf-8");
       return JSON.parse(content);
     }
   } catch (err) {
-    log(`[Cron] Error loading config: ${err}`);
+    log(`[Cron] Error loading config for profile ${profile.name}: ${err}`);
   }
   return { jobs: [] };
 }
 
-function saveCronConfig(config: CronConfig): void {
-  fs.writeFileSync(CRON_CONFIG_FILE, JSON.stringify(config, null, 2));
+// Cron jobs have no chat of their own, so notices go to the owner's chat
+function notifyCronOwner(profile: AssistantProfile, message: string): void {
+  const notify = loadCronConfig(profile).notify ?? getApprovalsConfig().notify;
+  if (!notify) {
+    log(`[Cron] No notify chat configured for profile ${profile.name}; notice not sent`);
+    return;
+  }
+  try {
+    sendToReplyTarget(notify, message);
+  } catch (err) {
+    log(`[Cron] Failed to send notice to ${notify.channel}: ${err}`);
+  }
+}
+
+function saveCronConfig(profile: AssistantProfile, config: CronConfig): void {
+  fs.writeFileSync(profile.paths.cronConfigFile, JSON.stringify(config, null, 2));
 }
 
-function deleteJob(jobId: string): void {
-  const config = loadCronConfig();
+function deleteJob(profile: AssistantProfile, jobId: string): void {
+  const config = loadCronConfig(profile);
   const index = config.jobs.findIndex((j) => j.id === jobId);
   if (index !== -1) {
     config.jobs.splice(index, 1);
-    saveCronConfig(config);
-    log(`[Cron] Deleted one-off job: ${jobId}`);
+    saveCronConfig(profile, config);
+    log(`[Cron] Deleted one-off job: ${cronTaskKey(profile, jobId)}`);
   }
 }
 
@@ -1761,11 +2552,17 @@ class CronEventHandler implements ChannelEventHandler {
   }
 }
 
-async function handleCronJob(job: CronJob): Promise<void> {
-  const sessionKey = `cron-${job.id}`;
+async function handleCronJob(profile: AssistantProfile, job: CronJob): Promise<void> {
+  const sessionKey = getCronSessionKey(profile, job.id);
+
+  const budget = checkJobBudget({ kind: "cron", channel: "cron", sessionKey, cronJobId: job.id });
+  if (!budget.decision.allowed) {
+    log(`[Cron] Skipping job ${job.id}: ${budget.decision.reason}`);
+    return;
+  }
 
   // Inject memory context so cron jobs have the same awareness as interactive sessions
-  const memoryContext = getRecentTranscriptContext();
+  const memoryContext = getRecentTranscriptContext(profile);
 
   // Structure: Task FIRST (clear instruction), then context as reference
   // This prevents the model from getting confused by walls of context before seeing what to do
@@ -1794,98 +2591,88 @@ ${memoryContext}`;
   const handler = new CronEventHandler(job.id);
 
   // Wait for a global slot if we're at capacity
-  const dummyEvent: ChannelEvent = { sessionKey, prompt, payload: {}, message: { isMessage: false, text: "" } };
-  await waitForGlobalSlot(dummyEvent);
+  const releaseSlot = await jobScheduler.acquire("cron", `cron ${job.id}`);
 
   // Create a job file for this cron execution
   const jobFileId = generateJobId();
 
   return new Promise((resolve, reject) => {
     // Refresh CLAUDE.md from SOUL.md + SYSTEM.md before each job
-    refreshClaudeMd();
-
-    log(`[Cron] Running job ${job.id}: ${job.description} [job: ${jobFileId}]`);
-
-    const sessionArg = isNewSession
-      ? ["--session-id", sessionId]
-      : ["--resume", sessionId];
-
-    const proc = spawn(
-      "claude",
-      [
-        ...sessionArg,
-        "-p",
-        "--verbose",
-        "--output-format", "stream-json",
-        "--dangerously-skip-permissions",
-        prompt
-      ],
-      {
-        cwd: ASSISTANT_ROOT,
-        env: { ...process.env, FORCE_COLOR: "0" },
-        stdio: ["ignore", "pipe", "pipe"],
-      }
-    );
+    refreshClaudeMd(profile);
+
+    const model = job.model || getSessionModel(sessionKey);
+    log(`[Cron] Running job ${cronTaskKey(profile, job.id)}: ${job.description}${model ? ` (model: ${model})` : ""} [job: ${jobFileId}]`);
+    webhooks.emit("cron.fired", { cronJobId: job.id, description: job.description, profile: profile.name, sessionKey, jobId: jobFileId });
+
+    const proc = agentRunner.start({
+      prompt,
+      cwd: profile.paths.root,
+      ...getAgentOptions(profile, jobFileId),
+      model,
+      appendSystemPrompt: getPersonaOverlay(profile, "cron", sessionKey),
+      session: { id: sessionId, resume: !isNewSession },
+    });
 
     // Track PID in job file and in-memory map
-    createJobFile(jobFileId, "cron", `[${job.description}] ${prompt.slice(0, 400)}`, proc.pid, prompt);
+    createJobFile(jobFileId, "cron", `[${job.description}] ${prompt.slice(0, 400)}`, proc.pid, prompt, { sessionKey, profile: profile.name, cronJobId: job.id });
     runningJobs.set(jobFileId, proc);
+    const watchdog = startJobWatchdog(
+      jobFileId,
+      proc,
+      resolveJobLimits(loadChannelsConfig().global?.limits, loadCronConfig(profile).limits, job.limits)
+    );
 
-    let lineBuffer = "";
     let lastCost: number | undefined;
     let lastDurationMs: number | undefined;
 
-    proc.stdout.on("data", (data) => {
-      const chunk = data.toString();
-      lineBuffer += chunk;
-
-      const lines = lineBuffer.split("\n");
-      lineBuffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const streamEvent = JSON.parse(line);
-          appendJobEvent(jobFileId, streamEvent);
-          handler.onStreamEvent(streamEvent);
+    proc.on("event", (streamEvent) => {
+      appendJobEvent(jobFileId, streamEvent);
+      watchdog.observe(streamEvent);
+      try {
+        handler.onStreamEvent(streamEvent);
+      } catch (handlerErr) {
+        log(`[Cron] Handler error: ${handlerErr}`);
+      }
 
-          // Capture cost/duration from result events
-          if (streamEvent.type === "result") {
-            lastCost = streamEvent.total_cost_usd;
-            lastDurationMs = streamEvent.duration_ms;
-          }
-        } catch {}
+      // Capture cost/duration from result events
+      if (streamEvent.type === "result") {
+        lastCost = streamEvent.total_cost_usd;
+        lastDurationMs = streamEvent.duration_ms;
       }
     });
 
     proc.on("close", (code, signal) => {
+      watchdog.stop();
       handler.onComplete(code || 0);
       if (isNewSession) {
         markSessionKnown(sessionId);
       }
+      if (watchdog.breach) {
+        log(`[Cron] Job ${job.id} stopped automatically: it ${watchdog.breach.reason}`);
+        notifyCronOwner(profile, `Cron job "${job.description}" (${job.id}) was stopped automatically: it ${watchdog.breach.reason}. (job ${jobFileId})`);
+      }
 
-      // Determine status: stopped if killed by signal, otherwise completed/error
-      const wasKilled = signal === "SIGTERM" || signal === "SIGKILL";
-      const status = wasKilled ? "stopped" : (code === 0 ? "completed" : "error");
-      finalizeJob(jobFileId, status, lastCost, lastDurationMs);
+      // Determine status: timeout/limit if the watchdog killed it, stopped if killed otherwise, else completed/error
+      finalizeJob(jobFileId, getExitStatus(code, signal, watchdog), lastCost, lastDurationMs, watchdog.breach?.reason);
 
       // Release global slot so queued jobs can run
-      releaseGlobalSlot();
+      releaseSlot();
 
       // Log cron output to short-term memory
       if (handler.textBuffer.trim()) {
-        logToShortTermMemory("cron", "in", job.prompt, job.description);
-        logToShortTermMemory("cron", "out", handler.textBuffer.trim());
-        checkAndTriggerRollup().catch(err => log(`[Memory] Rollup error: ${err}`));
+        logToShortTermMemory(profile, "cron", "in", job.prompt, job.description);
+        logToShortTermMemory(profile, "cron", "out", handler.textBuffer.trim());
+        checkAndTriggerRollup(profile).catch(err => log(`[Memory] Rollup error: ${err}`));
       }
 
       resolve();
     });
 
     proc.on("error", (err) => {
+      watchdog.stop();
       handler.onComplete(1);
       finalizeJob(jobFileId, "error");
-      releaseGlobalSlot();
+      releaseSlot();
       reject(err);
     });
   });
@@ -1904,141 +2691,453 @@ function scheduleCronJobs(): void {
   }
   activeTimeouts.clear();
 
-  const config = loadCronConfig();
   let recurringCount = 0;
   let oneOffCount = 0;
 
-  for (const job of config.jobs) {
-    if (!job.enabled) {
-      log(`[Cron] Skipping disabled job: ${job.id}`);
-      continue;
-    }
+  for (const profile of getAllProfiles()) {
+    const config = loadCronConfig(profile);
+
+    for (const job of config.jobs) {
+      const key = cronTaskKey(profile, job.id);
+      if (!job.enabled) {
+        log(`[Cron] Skipping disabled job: ${key}`);
+        continue;
+      }
 
-    if (job.run_once && job.run_at) {
-      const runAt = new Date(job.run_at);
-      const now = new Date();
-      const delayMs = runAt.getTime() - now.getTime();
+      if (job.run_once && job.run_at) {
+        const runAt = new Date(job.run_at);
+        const now = new Date();
+        const delayMs = runAt.getTime() - now.getTime();
 
-      if (delayMs <= 0) {
-        log(`[Cron] One-off job ${job.id} is past due, running now`);
-        handleCronJob(job).then(() => deleteJob(job.id));
-      } else {
-        const timeout = setTimeout(() => {
-          log(`[Cron] Triggering one-off job: ${job.id} (${job.description})`);
-          handleCronJob(job).then(() => deleteJob(job.id));
-          activeTimeouts.delete(job.id);
-        }, delayMs);
-
-        activeTimeouts.set(job.id, timeout);
-        const mins = Math.round(delayMs / 60000);
-        log(`[Cron] Scheduled one-off job: ${job.id} to run in ${mins} minutes`);
-        oneOffCount++;
+        if (delayMs <= 0) {
+          log(`[Cron] One-off job ${key} is past due, running now`);
+          handleCronJob(profile, job).then(() => deleteJob(profile, job.id));
+        } else {
+          const timeout = setTimeout(() => {
+            log(`[Cron] Triggering one-off job: ${key} (${job.description})`);
+            handleCronJob(profile, job).then(() => deleteJob(profile, job.id));
+            activeTimeouts.delete(key);
+          }, delayMs);
+
+          activeTimeouts.set(key, timeout);
+          const mins = Math.round(delayMs / 60000);
+          log(`[Cron] Scheduled one-off job: ${key} to run in ${mins} minutes`);
+          oneOffCount++;
+        }
+        continue;
       }
-      continue;
+
+      const cronExpression = parseSchedule(job.schedule);
+
+      if (!cron.validate(cronExpression)) {
+        log(`[Cron] Invalid schedule for job ${key}: ${job.schedule} -> ${cronExpression}`);
+        continue;
+      }
+
+      const task = cron.schedule(cronExpression, () => {
+        log(`[Cron] Triggering job: ${key} (${job.description})`);
+        handleCronJob(profile, job);
+      }, { timezone: phouseConfig.timezone });
+
+      activeCronTasks.set(key, task);
+      log(`[Cron] Scheduled job: ${key} with schedule "${job.schedule}" -> "${cronExpression}"`);
+      recurringCount++;
     }
+  }
 
-    const cronExpression = parseSchedule(job.schedule);
+  log(`[Cron] ${recurringCount} recurring jobs, ${oneOffCount} one-off tasks scheduled`);
+}
 
-    if (!cron.validate(cronExpression)) {
-      log(`[Cron] Invalid schedule for job ${job.id}: ${job.schedule} -> ${cronExpression}`);
-      continue;
+// Cron config directories being watched for changes, one per profile root
+const watchedCronDirs: Map<string, fs.FSWatcher> = new Map();
+
+function watchCronConfigs(): void {
+  for (const profile of getAllProfiles()) {
+    const dir = path.dirname(profile.paths.cronConfigFile);
+    if (watchedCronDirs.has(dir) || !fs.existsSync(dir)) continue;
+    const watcher = fs.watch(dir, (eventType, filename) => {
+      if (filename === "cron.json") {
+        log(`[Cron] Config file changed in ${dir}, reloading...`);
+        scheduleCronJobs();
+      }
+    });
+    watchedCronDirs.set(dir, watcher);
+  }
+}
+
+// Running listeners by key (see getListenerKey), how to stop each one, and the
+// settings (and profile credentials) it started with
+const liveChannels: Map<string, { channel: ChannelDefinition; stop: () => void; settings: string }> = new Map();
+// Config reloads run one at a time so a listener is never started twice
+let channelsConfigUpdate: Promise<void> = Promise.resolve();
+const CHANNELS_RELOAD_DEBOUNCE_MS = 500;
+
+function getLiveChannels(): ChannelDefinition[] {
+  return [...liveChannels.values()].map(live => live.channel);
+}
+
+// "telegram" for the shared listener, "telegram@work" for the work profile's own bot.
+// Persisted events record it as their source, so each is replayed on its own listener.
+function getListenerKey(name: string, profile?: string): string {
+  return profile ? `${name}@${profile}` : name;
+}
+
+// A profile's own listener, if its .env has credentials for the channel
+interface ProfileListener {
+  profile: string;
+  credentials: Record<string, string>;
+}
+
+async function startChannel(plugin: ChannelPlugin, settings: ChannelSettings, profileListener?: ProfileListener): Promise<void> {
+  const name = getListenerKey(plugin.manifest.name, profileListener?.profile);
+  const problems = validateChannelSettings(plugin.manifest, settings);
+  if (problems.length > 0) {
+    log(`[Watcher] Not starting ${name}: ${problems.join("; ")}`);
+    return;
+  }
+
+  try {
+    log(`[Watcher] Starting ${name} listener...`);
+    const channel = profileListener && plugin.createProfileChannel
+      ? plugin.createProfileChannel(settings, profileListener.profile, profileListener.credentials)
+      : plugin.createChannel(settings);
+    const stop = await channel.startListener((event) => {
+      persistChannelEvent(channel, event);
+      // A new message means the sender didn't want an interrupted one retried
+      if (event.message?.isMessage && !parseCommand(event.message.text)) {
+        dropHeldEvents(event.sessionKey);
+      }
+      processEvent(channel, event).catch((err) => {
+        log(`[Watcher] Error processing ${channel.name} event: ${err}`);
+        // Don't rethrow - the watcher should keep running
+      });
+    });
+    liveChannels.set(name, { channel, stop, settings: JSON.stringify({ settings, credentials: profileListener?.credentials }) });
+    log(`[Watcher] ${name} listener started`);
+    replayPendingEvents(channel).catch((err) => {
+      log(`[Events] Replay failed for ${name}: ${err}`);
+    });
+  } catch (err) {
+    log(`[Watcher] Failed to start ${name} listener: ${err}`);
+  }
+}
+
+// Stop listening for new events. Jobs already running for the channel finish normally.
+function stopChannel(name: string): void {
+  const live = liveChannels.get(name);
+  if (!live) return;
+  try {
+    live.stop();
+    log(`[Watcher] ${name} listener stopped`);
+  } catch (err) {
+    log(`[Watcher] Failed to stop ${name} listener: ${err}`);
+  }
+  liveChannels.delete(name);
+}
+
+// Bring listeners and the slot pool in line with channels.json
+function applyChannelsConfig(): Promise<void> {
+  channelsConfigUpdate = channelsConfigUpdate.then(async () => {
+    const channelsConfig = loadChannelsConfig();
+
+    applySchedulerConfig(channelsConfig.global);
+    const schedulerOptions = jobScheduler.getOptions();
+    log(`[Watcher] Max concurrent jobs: ${schedulerOptions.maxConcurrentJobs} (${schedulerOptions.reservedInteractiveSlots} reserved for interactive)`);
+
+    for (const plugin of channelRegistry.list()) {
+      const name = plugin.manifest.name;
+      const channelConfig = channelsConfig.channels[name];
+      // Default to the manifest's choice (enabled for the built-ins) if not specified
+      const enabled = channelConfig?.enabled ?? plugin.manifest.defaultEnabled !== false;
+      const settings = channelConfig?.settings || {};
+
+      // The shared listener, then one per profile with its own credentials
+      const wanted: Map<string, ProfileListener | undefined> = new Map([[name, undefined]]);
+      if (plugin.profileCredentialKeys && plugin.createProfileChannel) {
+        const claimed: Map<string, string> = new Map();
+        for (const profile of getAllProfiles()) {
+          const credentials = getProfileChannelCredentials(profile.paths, plugin.profileCredentialKeys, process.env);
+          if (!credentials) continue;
+          // Two listeners on one bot would fight over its updates
+          const signature = JSON.stringify(credentials);
+          if (claimed.has(signature)) {
+            log(`[Watcher] Not starting a ${name} listener for ${profile.name}: it uses the same credentials as ${claimed.get(signature)}`);
+            continue;
+          }
+          claimed.set(signature, profile.name);
+          wanted.set(getListenerKey(name, profile.name), { profile: profile.name, credentials });
+        }
+      }
+
+      for (const [key, live] of liveChannels) {
+        if (live.channel.name === name && !wanted.has(key)) {
+          stopChannel(key);
+        }
+      }
+
+      for (const [key, profileListener] of wanted) {
+        const live = liveChannels.get(key);
+        const signature = JSON.stringify({ settings, credentials: profileListener?.credentials });
+        if (enabled && live && live.settings !== signature) {
+          log(`[Watcher] ${key} settings changed, restarting listener`);
+          stopChannel(key);
+          await startChannel(plugin, settings, profileListener);
+        } else if (enabled && !live) {
+          await startChannel(plugin, settings, profileListener);
+        } else if (!enabled) {
+          if (live) {
+            stopChannel(key);
+          } else if (!profileListener) {
+            log(`[Watcher] Skipping ${name} (disabled in config)`);
+          }
+        }
+      }
     }
+    log(`[Watcher] Live channels: ${[...liveChannels.keys()].join(", ") || "none"}`);
+  });
+  return channelsConfigUpdate;
+}
+
+// Control socket - live state and job control for the dashboard API (see control.ts)
+const CONTROL_SOCKET = getControlSocketPath();
+const watcherStartedAt = new Date().toISOString();
+
+function getWatcherState(): WatcherState {
+  const jobs = [...runningJobs].map(([jobId, proc]) => {
+    const summary = jobStore.readSummary(jobId);
+    return {
+      id: jobId,
+      channel: summary?.channel || "unknown",
+      trigger: summary?.trigger || "",
+      startTime: summary?.startTime || "",
+      sessionKey: jobToSession.get(jobId) || summary?.sessionKey,
+      pid: proc.pid,
+    };
+  });
+
+  const lockKeys = new Set([...activeSessions, ...eventQueues.keys()]);
+  const sessions = [...lockKeys].map(lockKey => ({
+    lockKey,
+    active: activeSessions.has(lockKey),
+    queued: eventQueues.get(lockKey)?.length || 0,
+  }));
+
+  const cronJobs = new Map<string, CronJob>();
+  for (const profile of getAllProfiles()) {
+    for (const job of loadCronConfig(profile).jobs) {
+      cronJobs.set(cronTaskKey(profile, job.id), job);
+    }
+  }
+  const describeCron = (id: string, kind: "recurring" | "one-off") => {
+    const job = cronJobs.get(id);
+    return { id, kind, schedule: kind === "one-off" ? job?.run_at : job?.schedule, description: job?.description };
+  };
 
-    const task = cron.schedule(cronExpression, () => {
-      log(`[Cron] Triggering job: ${job.id} (${job.description})`);
-      handleCronJob(job);
-    }, { timezone: "America/Toronto" });
+  const options = jobScheduler.getOptions();
+  return {
+    pid: process.pid,
+    startedAt: watcherStartedAt,
+    runningJobs: jobs,
+    sessions,
+    scheduler: {
+      running: jobScheduler.running,
+      maxConcurrentJobs: options.maxConcurrentJobs,
+      reservedInteractiveSlots: options.reservedInteractiveSlots,
+      queued: jobScheduler.getQueue(),
+    },
+    cronTasks: [
+      ...[...activeCronTasks.keys()].map(id => describeCron(id, "recurring")),
+      ...[...activeTimeouts.keys()].map(id => describeCron(id, "one-off")),
+    ],
+    heldEvents: [...heldEvents.values()].reduce((sum, ids) => sum + ids.length, 0),
+    pendingApprovals: approvalGate.pending().length,
+    channels: [...liveChannels.keys()],
+  };
+}
 
-    activeCronTasks.set(job.id, task);
-    log(`[Cron] Scheduled job: ${job.id} with schedule "${job.schedule}" -> "${cronExpression}"`);
-    recurringCount++;
+// Drop queued events for one session (or all of them). Running jobs are left alone.
+function clearEventQueues(lockKey?: string): number {
+  let cleared = 0;
+  for (const [key, queue] of eventQueues) {
+    if (lockKey !== undefined && key !== lockKey) continue;
+    for (const dropped of queue) {
+      ackChannelEvent(dropped, "dropped:cleared");
+    }
+    cleared += queue.length;
+    eventQueues.delete(key);
+  }
+  if (cleared > 0) {
+    log(`[Control] Cleared ${cleared} queued event(s)${lockKey ? ` for ${lockKey}` : ""}`);
   }
+  return cleared;
+}
 
-  log(`[Cron] ${recurringCount} recurring jobs, ${oneOffCount} one-off tasks scheduled`);
+// Re-read config files that are otherwise only loaded at startup
+function reloadWatcherConfig(): string[] {
+  log("[Control] Reloading config...");
+  // Profiles first - cron, memory settings and CLAUDE.md are all per profile.
+  // A broken profiles.json keeps the current profiles rather than merging them.
+  const reloaded: string[] = [];
+  try {
+    profilesConfig = loadProfilesConfig(ASSISTANT_ROOT);
+    reloaded.push("profiles");
+  } catch (err) {
+    log(`[Profiles] ${err instanceof Error ? err.message : err} - keeping the current profiles`);
+  }
+  assistantProfiles.clear();
+  scheduleCronJobs();
+  watchCronConfigs();
+  applyChannelsConfig().catch((err) => {
+    log(`[Channels] Reload failed: ${err}`);
+  });
+  for (const profile of getAllProfiles()) {
+    refreshClaudeMd(profile);
+  }
+  return [...reloaded, "cron", "channels", "memory settings", "CLAUDE.md"];
 }
 
 // Main watcher function
 async function watch(): Promise<void> {
   log("[Watcher] Starting unified watcher...");
 
+  // Refuse to start on a config that can't work, rather than failing later in odd ways
+  const configProblems = validatePhouseConfig(phouseConfig);
+  for (const warning of configProblems.warnings) {
+    log(`[Config] Warning: ${warning}`);
+  }
+  try {
+    profilesConfig = loadProfilesConfig(ASSISTANT_ROOT);
+  } catch (err) {
+    configProblems.errors.push(err instanceof Error ? err.message : String(err));
+  }
+  if (configProblems.errors.length > 0) {
+    for (const error of configProblems.errors) {
+      log(`[Config] Error: ${error}`);
+    }
+    throw new Error("Invalid configuration - see the errors above");
+  }
+  const migratedConfigs = migrateLegacyConfigFiles(phouseConfig);
+  if (migratedConfigs.length > 0) {
+    log(`[Config] Copied ${migratedConfigs.join(", ")} from the old project config to ${phouseConfig.paths.configDir}`);
+  }
+
   // Write PID file
   fs.writeFileSync(PID_FILE, process.pid.toString(), "utf-8");
   log(`[Watcher] PID file written: ${PID_FILE} (PID: ${process.pid})`);
 
-  // Load channel config
-  const channelsConfig = loadChannelsConfig();
+  const profileNames = Object.keys(profilesConfig.profiles);
+  if (profileNames.length > 1) {
+    log(`[Watcher] Hosting profiles: ${profileNames.join(", ")} (default: ${profilesConfig.defaultProfile})`);
+  }
 
-  // Apply global settings
-  if (channelsConfig.global?.maxConcurrentJobs !== undefined) {
-    maxConcurrentJobs = channelsConfig.global.maxConcurrentJobs;
-  }
-  log(`[Watcher] Max concurrent jobs: ${maxConcurrentJobs}`);
-
-  // All available channels
-  const allChannels: ChannelDefinition[] = [
-    TelegramChannel,
-    EmailChannel,
-    GChatChannel,
-    DiscordChannel,
-    DashboardChannel,
-  ];
-
-  // Filter to only enabled channels
-  const channels = allChannels.filter(channel => {
-    const config = channelsConfig.channels[channel.name];
-    const enabled = config?.enabled !== false; // Default to enabled if not specified
-    if (!enabled) {
-      log(`[Watcher] Skipping ${channel.name} (disabled in config)`);
-    }
-    return enabled;
-  });
+  // Job files from before the event log split are converted once
+  const migratedJobs = jobStore.migrateLegacyJobs();
+  if (migratedJobs > 0) {
+    log(`[Jobs] Migrated ${migratedJobs} job file(s) to the summary + event log format`);
+  }
 
-  const stopFunctions: (() => void)[] = [];
+  // Crash recovery - settle jobs the previous run left behind
+  const heldEventIds = reconcileOrphanedJobs();
+  if (heldEventIds.length > 0) {
+    log(`[Watcher] Holding ${heldEventIds.length} interrupted event(s) for /retry`);
+  }
+  const staleApprovals = approvalGate.settleLeftovers("Watcher restarted while the request was pending");
+  if (staleApprovals > 0) {
+    log(`[Approvals] Cancelled ${staleApprovals} request(s) left pending by the previous run`);
+  }
 
-  // Start enabled channel listeners
-  for (const channel of channels) {
-    try {
-      log(`[Watcher] Starting ${channel.name} listener...`);
-      const stop = await channel.startListener((event) => {
-        processEvent(channel, event).catch((err) => {
-          log(`[Watcher] Error processing ${channel.name} event: ${err}`);
-          // Don't rethrow - the watcher should keep running
-        });
-      });
-      stopFunctions.push(stop);
-      log(`[Watcher] ${channel.name} listener started`);
-    } catch (err) {
-      log(`[Watcher] Failed to start ${channel.name} listener: ${err}`);
+  // Built-in channels, then any plugins
+  for (const plugin of BUILTIN_CHANNELS) {
+    channelRegistry.register(plugin);
+  }
+  const pluginChannels = await loadChannelPlugins(phouseConfig.paths.channelPluginsDir, channelRegistry, log);
+  if (pluginChannels.length > 0) {
+    log(`[Watcher] Loaded channel plugins: ${pluginChannels.join(", ")}`);
+  }
+
+  // Start enabled channel listeners and apply global settings
+  await applyChannelsConfig();
+  const channels = getLiveChannels();
+
+  // Offer interrupted jobs for retry. Events that were accepted but never started
+  // before the last shutdown are replayed as their channels start.
+  offerHeldEvents(channels, heldEventIds);
+  for (const stored of getPendingEvents()) {
+    if (stored.type === CHANNEL_EVENT_TYPE && !stored.held && !liveChannels.has(stored.source)) {
+      log(`[Events] Leaving event ${stored.id} pending until channel ${stored.source} is enabled`);
     }
   }
 
+  // Deliveries still being retried when the watcher last stopped
+  const resumedDeliveries = webhooks.resumePending();
+  if (resumedDeliveries > 0) {
+    log(`[Webhooks] Resuming ${resumedDeliveries} pending deliveries`);
+  }
+
   // Initialize cron jobs
   scheduleCronJobs();
 
-  // Watch cron config for changes
-  if (fs.existsSync(CRON_CONFIG_FILE)) {
-    fs.watch(path.dirname(CRON_CONFIG_FILE), (eventType, filename) => {
-      if (filename === "cron.json") {
-        log("[Cron] Config file changed, reloading...");
-        scheduleCronJobs();
-      }
+  // Archive old jobs now and nightly
+  runJobRetention();
+  const retentionTask = cron.schedule("30 3 * * *", runJobRetention);
+
+  // Watch each profile's cron config for changes
+  watchCronConfigs();
+
+  // Watch channels config for changes - editors and the API write it in
+  // several steps, so wait for it to settle before applying
+  if (fs.existsSync(path.dirname(CHANNELS_CONFIG_FILE))) {
+    let reloadTimer: NodeJS.Timeout | null = null;
+    fs.watch(path.dirname(CHANNELS_CONFIG_FILE), (eventType, filename) => {
+      if (filename !== "channels.json") return;
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        log("[Channels] Config file changed, reloading...");
+        applyChannelsConfig().catch((err) => {
+          log(`[Channels] Reload failed: ${err}`);
+        });
+      }, CHANNELS_RELOAD_DEBOUNCE_MS);
     });
   }
 
+  const stopControlServer = startControlServer(CONTROL_SOCKET, {
+    getState: getWatcherState,
+    stopJob: (jobId) => {
+      log(`[Control] Stop requested for job ${jobId}`);
+      return runningJobs.has(jobId) && killJob(jobId);
+    },
+    clearQueue: clearEventQueues,
+    reload: reloadWatcherConfig,
+    requestApproval,
+    decideApproval: (id, approved, by, reason) => approvalGate.decide(id, approved, by, reason),
+    // Sent from here, like every other delivery, so resumePending() never races another process
+    replayWebhookDelivery: (id) => {
+      log(`[Webhooks] Replay requested for delivery ${id}`);
+      return webhooks.replay(id);
+    },
+  }, log);
+
   log("[Watcher] Ready and waiting for events...");
 
   // Handle shutdown
   const shutdown = () => {
     log("[Watcher] Shutting down...");
-    for (const stop of stopFunctions) {
-      stop();
+    for (const [, live] of liveChannels) {
+      live.stop();
     }
     for (const [, task] of activeCronTasks) {
       task.stop();
     }
+    retentionTask.stop();
+    stopControlServer();
     for (const [, timeout] of activeTimeouts) {
       clearTimeout(timeout);
     }
+    for (const [, watcher] of watchedCronDirs) {
+      watcher.close();
+    }
+    webhooks.stop();
     // Remove PID file
     try {
       if (fs.existsSync(PID_FILE)) {
@@ -0,0 +1,334 @@
+/**
+ * Outbound webhooks
+ *
+ * Lifecycle events are POSTed to the endpoints in config/webhooks.json:
+ *
+ *   {
+ *     "endpoints": [
+ *       { "id": "ops", "url": "https://example.com/hooks/phouse", "secret": "...",
+ *         "events": ["job.failed", "cron.fired"], "enabled": true }
+ *     ],
+ *     "maxAttempts": 5
+ *   }
+ *
+ * An endpoint with no events (or "*") gets all of them. The body is
+ * { id, event, timestamp, data } and is signed with the endpoint's secret:
+ *
+ *   X-Phouse-Signature: sha256=HMAC-SHA256(secret, "<X-Phouse-Timestamp>.<body>")
+ *
+ * Failed deliveries (network error or non-2xx) are retried with backoff.
+ * Every delivery is a JSON file in the deliveries directory, so the dashboard
+ * can show the log and replay a failed one with its original body - receivers
+ * can use the id to drop duplicates.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+export const WEBHOOK_EVENTS = [
+  "message.received",
+  "job.started",
+  "job.completed",  // Job exited cleanly
+  "job.failed",     // Any other final status - error, stopped, timeout, limit, orphaned
+  "cron.fired",
+  "memory.rollup",
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events?: string[];       // Event types to send, "*" or empty for all
+  enabled?: boolean;       // Default: true
+  description?: string;
+}
+
+export interface WebhooksConfig {
+  endpoints: WebhookEndpoint[];
+  maxAttempts?: number;    // Including the first. Default: 5
+}
+
+export interface WebhookAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: string;
+  body: string;            // Exactly what was sent, so a replay is byte-identical
+  createdAt: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Wait before each retry; the last delay repeats if maxAttempts is higher
+const RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000, 30 * 60_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_STORED_DELIVERIES = 500;
+
+export function loadWebhooksConfig(configFile: string): WebhooksConfig {
+  try {
+    if (fs.existsSync(configFile)) {
+      const data = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+      return { ...data, endpoints: Array.isArray(data.endpoints) ? data.endpoints : [] };
+    }
+  } catch {
+    // Fall through to no webhooks
+  }
+  return { endpoints: [] };
+}
+
+/**
+ * Problems with a webhooks config, or an empty list if it's usable
+ */
+export function validateWebhooksConfig(config: WebhooksConfig): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  for (const endpoint of config.endpoints) {
+    const name = endpoint.id || endpoint.url || "(unnamed)";
+    if (!endpoint.id || !/^[\w-]+$/.test(endpoint.id)) {
+      errors.push(`Endpoint ${name} needs an id (letters, digits, - and _)`);
+    } else if (ids.has(endpoint.id)) {
+      errors.push(`Duplicate endpoint id: ${endpoint.id}`);
+    }
+    ids.add(endpoint.id);
+    if (!/^https?:\/\//.test(endpoint.url || "")) {
+      errors.push(`Endpoint ${name} needs an http(s) URL`);
+    }
+    if (!endpoint.secret) {
+      errors.push(`Endpoint ${name} needs a signing secret`);
+    }
+    for (const event of endpoint.events || []) {
+      if (event !== "*" && !(WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+        errors.push(`Endpoint ${name} subscribes to unknown event ${event}`);
+      }
+    }
+  }
+  if (config.maxAttempts !== undefined && (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1)) {
+    errors.push("maxAttempts must be a whole number of at least 1");
+  }
+  return errors;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function endpointWants(endpoint: WebhookEndpoint, event: string): boolean {
+  if (endpoint.enabled === false) return false;
+  const events = endpoint.events || [];
+  return events.length === 0 || events.includes("*") || events.includes(event);
+}
+
+// Time-prefixed so file names sort oldest first
+function generateDeliveryId(): string {
+  return `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export class WebhookDispatcher {
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private configFile: string,
+    readonly deliveriesDir: string,
+    private log: (message: string) => void = () => {}
+  ) {}
+
+  /**
+   * Send an event to every endpoint subscribed to it. Never throws - a broken
+   * endpoint must not get in the way of the job that fired the event.
+   */
+  emit(event: WebhookEventType, data: Record<string, unknown>): void {
+    try {
+      const config = loadWebhooksConfig(this.configFile);
+      for (const endpoint of config.endpoints) {
+        if (!endpointWants(endpoint, event)) continue;
+        const id = generateDeliveryId();
+        const delivery: WebhookDelivery = {
+          id,
+          endpointId: endpoint.id,
+          url: endpoint.url,
+          event,
+          body: JSON.stringify({ id, event, timestamp: new Date().toISOString(), data }),
+          createdAt: new Date().toISOString(),
+          status: "pending",
+          attempts: [],
+        };
+        this.save(delivery);
+        this.schedule(delivery, 0);
+      }
+      this.prune();
+    } catch (err) {
+      this.log(`[Webhooks] Failed to queue ${event}: ${err}`);
+    }
+  }
+
+  /**
+   * Send a delivery again with its original body, starting a fresh round of retries
+   */
+  replay(deliveryId: string): WebhookDelivery {
+    const delivery = this.read(deliveryId);
+    if (!delivery) {
+      throw new Error(`Delivery not found: ${deliveryId}`);
+    }
+    if (delivery.status === "pending") {
+      throw new Error("Delivery is still being retried");
+    }
+    const endpoint = loadWebhooksConfig(this.configFile).endpoints.find(e => e.id === delivery.endpointId);
+    if (!endpoint) {
+      throw new Error(`Endpoint ${delivery.endpointId} no longer exists`);
+    }
+    delivery.status = "pending";
+    delivery.url = endpoint.url;
+    delivery.attempts = [];
+    this.save(delivery);
+    this.schedule(delivery, 0);
+    return delivery;
+  }
+
+  /**
+   * Pick up deliveries that were still being retried when the process stopped
+   */
+  resumePending(): number {
+    let resumed = 0;
+    // All of them - pending ones outlive the log limit
+    for (const delivery of this.list(Infinity)) {
+      if (delivery.status !== "pending" || this.retryTimers.has(delivery.id)) continue;
+      const wait = delivery.nextAttemptAt ? Math.max(0, Date.parse(delivery.nextAttemptAt) - Date.now()) : 0;
+      this.schedule(delivery, wait);
+      resumed++;
+    }
+    return resumed;
+  }
+
+  /**
+   * Stored deliveries, newest first
+   */
+  list(limit = MAX_STORED_DELIVERIES): WebhookDelivery[] {
+    const deliveries: WebhookDelivery[] = [];
+    for (const id of this.listIds().slice(0, limit)) {
+      const delivery = this.read(id);
+      if (delivery) deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  read(deliveryId: string): WebhookDelivery | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.deliveryPath(deliveryId), "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    this.retryTimers.delete(delivery.id);
+    const config = loadWebhooksConfig(this.configFile);
+    const endpoint = config.endpoints.find(e => e.id === delivery.endpointId);
+    const maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    const started = Date.now();
+    const result: WebhookAttempt = { at: new Date().toISOString(), durationMs: 0 };
+    if (!endpoint) {
+      result.error = "Endpoint was removed";
+    } else {
+      const timestamp = String(Math.floor(started / 1000));
+      try {
+        const res = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "pHouseClawd-Webhooks",
+            "X-Phouse-Event": delivery.event,
+            "X-Phouse-Delivery": delivery.id,
+            "X-Phouse-Timestamp": timestamp,
+            "X-Phouse-Signature": signWebhookPayload(endpoint.secret, timestamp, delivery.body),
+          },
+          body: delivery.body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        result.statusCode = res.status;
+        if (!res.ok) {
+          result.error = `HTTP ${res.status}`;
+        }
+      } catch (err) {
+        result.error = String(err);
+      }
+    }
+    result.durationMs = Date.now() - started;
+    delivery.attempts.push(result);
+
+    if (!result.error) {
+      delivery.status = "delivered";
+      delete delivery.nextAttemptAt;
+    } else if (!endpoint || delivery.attempts.length >= maxAttempts) {
+      delivery.status = "failed";
+      delete delivery.nextAttemptAt;
+      this.log(`[Webhooks] ${delivery.event} to ${delivery.endpointId} failed after ${delivery.attempts.length} attempt(s): ${result.error}`);
+    } else {
+      const delay = RETRY_DELAYS_MS[Math.min(delivery.attempts.length - 1, RETRY_DELAYS_MS.length - 1)];
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      this.schedule(delivery, delay);
+    }
+    this.save(delivery);
+  }
+
+  private schedule(delivery: WebhookDelivery, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.attempt(delivery).catch((err) => {
+        this.log(`[Webhooks] Delivery ${delivery.id} crashed: ${err}`);
+      });
+    }, delayMs);
+    // Pending retries shouldn't keep the process alive on shutdown
+    timer.unref();
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  private deliveryPath(deliveryId: string): string {
+    return path.join(this.deliveriesDir, `${path.basename(deliveryId)}.json`);
+  }
+
+  private listIds(): string[] {
+    if (!fs.existsSync(this.deliveriesDir)) return [];
+    return fs.readdirSync(this.deliveriesDir)
+      .filter(f => f.endsWith(".json"))
+      .map(f => f.slice(0, -".json".length))
+      .sort()
+      .reverse();
+  }
+
+  private save(delivery: WebhookDelivery): void {
+    fs.mkdirSync(this.deliveriesDir, { recursive: true });
+    const file = this.deliveryPath(delivery.id);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(delivery, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  // Keep the log bounded - oldest deliveries go first, but not ones still being retried
+  private prune(): void {
+    for (const id of this.listIds().slice(MAX_STORED_DELIVERIES)) {
+      if (this.read(id)?.status === "pending") continue;
+      fs.rmSync(this.deliveryPath(id), { force: true });
+    }
+  }
+}
@@ -7,6 +7,8 @@ import Home from "@/routes/Home";
 import Chat from "@/routes/Chat";
 import Jobs from "@/routes/Jobs";
 import JobDetail from "@/routes/JobDetail";
+import Budget from "@/routes/Budget";
+import Approvals from "@/routes/Approvals";
 import Memory from "@/routes/Memory";
 import MemoryFile from "@/routes/MemoryFile";
 import ShortTermMemory from "@/routes/ShortTermMemory";
@@ -20,6 +22,10 @@ import Cron from "@/routes/Cron";
 import Config from "@/routes/Config";
 import ClaudeMd from "@/routes/ClaudeMd";
 import SoulMd from "@/routes/SoulMd";
+import Personas from "@/routes/Personas";
+import Profiles from "@/routes/Profiles";
+import Webhooks from "@/routes/Webhooks";
+import Contacts from "@/routes/Contacts";
 import Sites from "@/routes/Sites";
 import SiteLogs from "@/routes/SiteLogs";
 import Processes from "@/routes/Processes";
@@ -37,6 +43,8 @@ export default function App() {
             <Route path="/chat" element={<Chat />} />
             <Route path="/jobs" element={<Jobs />} />
             <Route path="/jobs/:id" element={<JobDetail />} />
+            <Route path="/budget" element={<Budget />} />
+            <Route path="/approvals" element={<Approvals />} />
             <Route path="/memory" element={<Memory />} />
             <Route path="/memory/files/:name" element={<MemoryFile />} />
             <Route path="/memory/short-term" element={<ShortTermMemory />} />
@@ -50,6 +58,10 @@ export default function App() {
             <Route path="/config" element={<Config />} />
             <Route path="/config/claude-md" element={<ClaudeMd />} />
             <Route path="/config/soul-md" element={<SoulMd />} />
+            <Route path="/config/personas" element={<Personas />} />
+            <Route path="/config/profiles" element={<Profiles />} />
+            <Route path="/config/webhooks" element={<Webhooks />} />
+            <Route path="/config/contacts" element={<Contacts />} />
             <Route path="/sites" element={<Sites />} />
             <Route path="/sites/:name/logs/:type" element={<SiteLogs />} />
             <Route path="/processes" element={<Processes />} />
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "./AuthProvider";
-import { authFetch } from "@/lib/auth";
+import { authFetch, getSelectedProfile, setSelectedProfile } from "@/lib/auth";
 
 interface NavItem {
   href: string;
@@ -9,11 +9,18 @@ interface NavItem {
   icon: string;
 }
 
+interface ProfileOption {
+  name: string;
+  label: string;
+}
+
 // Fallback nav items if API fails
 const DEFAULT_NAV_ITEMS: NavItem[] = [
   { href: "/", label: "Home", icon: "home" },
   { href: "/chat", label: "Chat", icon: "chat" },
   { href: "/jobs", label: "Jobs", icon: "briefcase" },
+  { href: "/budget", label: "Budget", icon: "currency" },
+  { href: "/approvals", label: "Approvals", icon: "shield" },
   { href: "/memory", label: "Memory", icon: "brain" },
   { href: "/system", label: "System", icon: "book" },
   { href: "/skills", label: "Skills", icon: "bolt" },
@@ -100,6 +107,16 @@ const icons: Record<string, React.ReactNode> = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
     </svg>
   ),
+  currency: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+  shield: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+    </svg>
+  ),
   more: (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h.01M12 12h.01M19 12h.01M6 12a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0z" />
@@ -129,6 +146,34 @@ export default function Sidebar() {
   const [moreOpen, setMoreOpen] = useState(false);
   const [primaryItems, setPrimaryItems] = useState<NavItem[]>(DEFAULT_NAV_ITEMS);
   const [secondaryItems, setSecondaryItems] = useState<NavItem[]>([]);
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [currentProfile, setCurrentProfile] = useState<string>("");
+
+  // Fetch assistant profiles - the switcher only shows when there's more than one
+  useEffect(() => {
+    authFetch("/api/profiles")
+      .then((res) => res.ok ? res.json() : null)
+      .then((data) => {
+        if (!data?.profiles) return;
+        setProfiles(data.profiles);
+        const selected = getSelectedProfile();
+        const known = data.profiles.some((p: ProfileOption) => p.name === selected);
+        // A renamed or deleted profile - the API refuses it, so start over on the default
+        if (selected && !known) {
+          setSelectedProfile(null);
+          window.location.reload();
+          return;
+        }
+        setCurrentProfile(selected && known ? selected : data.config.defaultProfile);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Every page loads its data for the selected profile, so start over
+  const switchProfile = (profile: string) => {
+    setSelectedProfile(profile);
+    window.location.reload();
+  };
 
   // Fetch nav config on mount
   useEffect(() => {
@@ -177,6 +222,32 @@ export default function Sidebar() {
     );
   };
 
+  const renderProfileSwitcher = (isMobile: boolean) => {
+    if (profiles.length < 2) return null;
+
+    return (
+      <div className={`${isMobile ? "px-3 py-2" : "px-4 py-3"} border-b border-zinc-800`}>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs text-zinc-500">Assistant</label>
+          <Link to="/config/profiles" onClick={closeMobile} className="text-xs text-zinc-500 hover:text-white">
+            Manage
+          </Link>
+        </div>
+        <select
+          value={currentProfile}
+          onChange={(e) => switchProfile(e.target.value)}
+          className="w-full px-2 py-1.5 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600"
+        >
+          {profiles.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
   const renderMoreSection = (isMobile: boolean) => {
     if (secondaryItems.length === 0) return null;
 
@@ -253,6 +324,7 @@ export default function Sidebar() {
             </svg>
           </button>
         </div>
+        {renderProfileSwitcher(true)}
         <nav className="flex-1 p-3 overflow-y-auto">
           <ul className="space-y-1">
             {primaryItems.map((item) => renderNavItem(item, true))}
@@ -281,6 +353,7 @@ export default function Sidebar() {
           <h1 className="text-xl font-bold text-white">AI Dashboard</h1>
           <p className="text-sm text-zinc-500 mt-1">pHouseClawd</p>
         </div>
+        {renderProfileSwitcher(false)}
         <nav className="flex-1 p-4 overflow-y-auto">
           <ul className="space-y-1">
             {primaryItems.map((item) => renderNavItem(item, false))}
@@ -1,4 +1,5 @@
 const AUTH_KEY = "phouse_dash_auth";
+const PROFILE_KEY = "phouse_dash_profile";
 
 export function getStoredPassword(): string | null {
   return localStorage.getItem(AUTH_KEY);
@@ -12,6 +13,19 @@ export function clearStoredPassword(): void {
   localStorage.removeItem(AUTH_KEY);
 }
 
+// Assistant profile the dashboard is showing (SOUL.md, personas, cron...)
+export function getSelectedProfile(): string | null {
+  return localStorage.getItem(PROFILE_KEY);
+}
+
+export function setSelectedProfile(profile: string | null): void {
+  if (profile) {
+    localStorage.setItem(PROFILE_KEY, profile);
+  } else {
+    localStorage.removeItem(PROFILE_KEY);
+  }
+}
+
 export async function authFetch(
   url: string,
   options: RequestInit = {}
@@ -25,6 +39,11 @@ export async function authFetch(
     headers.set("X-Dashboard-Auth", password);
   }
 
+  const profile = getSelectedProfile();
+  if (profile) {
+    headers.set("X-Assistant-Profile", profile);
+  }
+
   // When body is FormData, don't set Content-Type - browser will set it with boundary
   if (options.body instanceof FormData) {
     headers.delete("Content-Type");
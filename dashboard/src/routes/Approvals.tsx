@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { authFetch } from "@/lib/auth";
+
+interface ApprovalRequest {
+  id: string;
+  jobId: string;
+  channel?: string;
+  tool: string;
+  input: Record<string, unknown>;
+  rule: string;
+  status: "pending" | "approved" | "denied" | "expired" | "cancelled";
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  reason?: string;
+}
+
+const EXAMPLE_CONFIG = {
+  rules: [
+    { tool: "mcp__gmail__send_*", description: "Sends email" },
+    { tool: "mcp__discord__*", match: "send|post", description: "Posts to Discord" },
+    { tool: "Bash", match: "\\b(rm|git push|curl|ssh)\\b", description: "Destructive or networked shell command" },
+  ],
+  timeoutSeconds: 600,
+  notify: { channel: "telegram", to: "123456789" },
+};
+
+const statusColors: Record<string, string> = {
+  pending: "bg-yellow-600/20 text-yellow-400",
+  approved: "bg-green-600/20 text-green-400",
+  denied: "bg-red-600/20 text-red-400",
+  expired: "bg-zinc-700 text-zinc-300",
+  cancelled: "bg-zinc-700 text-zinc-300",
+};
+
+function describeInput(input: Record<string, unknown>): string {
+  return typeof input.command === "string" ? input.command : JSON.stringify(input, null, 2);
+}
+
+export default function Approvals() {
+  const [pending, setPending] = useState<ApprovalRequest[]>([]);
+  const [recent, setRecent] = useState<ApprovalRequest[]>([]);
+  const [configText, setConfigText] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchApprovals = async (includeConfig: boolean) => {
+    try {
+      const res = await authFetch("/api/approvals");
+      if (res.ok) {
+        const data = await res.json();
+        setPending(data.pending);
+        setRecent(data.recent);
+        if (data.config.error) {
+          setMessage({ type: "error", text: `${data.config.error} - tools are blocked until the rules are saved again` });
+        }
+        if (includeConfig) {
+          const hasConfig = data.config.rules.length > 0 || data.config.notify;
+          setConfigText(JSON.stringify(hasConfig ? data.config : EXAMPLE_CONFIG, null, 2));
+        }
+      }
+    } catch (err) {
+      console.error("Failed to fetch approvals:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const decide = async (request: ApprovalRequest, decision: "approve" | "deny") => {
+    setDeciding(request.id);
+    setMessage(null);
+    try {
+      const res = await authFetch(`/api/approvals/${request.id}/${decision}`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Done" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to answer the request" });
+      }
+      fetchApprovals(false);
+    } catch {
+      setMessage({ type: "error", text: "Failed to answer the request" });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const saveConfig = async () => {
+    setMessage(null);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(configText);
+    } catch {
+      setMessage({ type: "error", text: "Config is not valid JSON" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await authFetch("/api/approvals/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApprovals(true);
+    // Requests come and go while jobs run
+    const interval = setInterval(() => fetchApprovals(false), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading approvals...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Approvals</h2>
+        <p className="text-zinc-500 mt-1">Tool calls that wait for your sign-off before a job may use them</p>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg p-4 ${message.type === "success" ? "bg-green-600/20 border border-green-600/30 text-green-400" : "bg-red-600/20 border border-red-600/30 text-red-400"}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+        <h3 className="font-semibold text-white p-4">Waiting</h3>
+        {pending.length === 0 ? (
+          <div className="p-4 text-sm text-zinc-500">Nothing is waiting for approval</div>
+        ) : (
+          pending.map((request) => (
+            <div key={request.id} className="p-4 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-medium">{request.tool}</span>
+                  <span className="text-zinc-500">{request.rule}</span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => decide(request, "approve")}
+                    disabled={deciding === request.id}
+                    className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-500 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => decide(request, "deny")}
+                    disabled={deciding === request.id}
+                    className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-500 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Deny
+                  </button>
+                </div>
+              </div>
+              <pre className="text-xs text-zinc-300 bg-zinc-800 rounded p-2 whitespace-pre-wrap break-all max-h-48 overflow-auto">
+                {describeInput(request.input)}
+              </pre>
+              <div className="text-xs text-zinc-500">
+                <Link to={`/jobs/${request.jobId}`} className="hover:text-white">
+                  Job {request.jobId}
+                </Link>
+                {request.channel && ` · ${request.channel}`} · denied automatically at{" "}
+                {new Date(request.expiresAt).toLocaleTimeString()}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+          <h3 className="font-semibold text-white p-4">Recent Decisions</h3>
+          {recent.map((request) => (
+            <div key={request.id} className="p-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className={`px-2 py-0.5 rounded text-xs ${statusColors[request.status]}`}>{request.status}</span>
+              <span className="text-white">{request.tool}</span>
+              <span className="text-zinc-500 truncate max-w-md">{describeInput(request.input)}</span>
+              <span className="ml-auto text-xs text-zinc-500">
+                {request.decidedBy && `${request.decidedBy} · `}
+                {request.decidedAt && new Date(request.decidedAt).toLocaleString()} ·{" "}
+                <Link to={`/jobs/${request.jobId}`} className="hover:text-white">
+                  job
+                </Link>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold text-white">Approval Rules</h3>
+            <p className="text-xs text-zinc-500 mt-1">
+              tool: name with * wildcards. match: optional regex on the input (the command for Bash). Requests go to
+              notify (telegram, discord or gchat) - answer with /approve or /deny. Unanswered requests are denied
+              after timeoutSeconds.
+            </p>
+          </div>
+          <button
+            onClick={saveConfig}
+            disabled={saving}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+        <textarea
+          value={configText}
+          onChange={(e) => setConfigText(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white font-mono text-sm focus:outline-none focus:border-zinc-600"
+        />
+      </div>
+    </div>
+  );
+}
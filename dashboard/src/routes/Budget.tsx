@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { authFetch } from "@/lib/auth";
+
+interface SpendTotals {
+  total: number;
+  byChannel: Record<string, number>;
+  byCronJob: Record<string, number>;
+}
+
+interface BudgetScopeStatus {
+  scope: string;
+  period: "daily" | "monthly";
+  spent: number;
+  limit: number;
+  state: "ok" | "warning" | "exceeded";
+  action: "warn" | "degrade" | "stop";
+}
+
+interface BudgetStatus {
+  day: string;
+  month: string;
+  spend: { daily: SpendTotals; monthly: SpendTotals };
+  scopes: BudgetScopeStatus[];
+  error?: string;
+}
+
+const EXAMPLE_CONFIG = {
+  warnAt: 0.8,
+  onExceeded: "degrade",
+  owners: ["telegram-123456789"],
+  global: { daily: 10, monthly: 150 },
+  channels: { telegram: { daily: 5 } },
+  cronJobs: { "morning-briefing": { daily: 1, onExceeded: "stop" } },
+};
+
+const stateColors: Record<string, string> = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  exceeded: "bg-red-500",
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+export default function Budget() {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const [configText, setConfigText] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchBudget = async () => {
+    try {
+      const res = await authFetch("/api/budget");
+      if (res.ok) {
+        const data = await res.json();
+        setStatus(data.status);
+        if (data.error) {
+          // Show the broken file as it is, so it can be fixed here
+          setMessage({ type: "error", text: `${data.error} - the watcher keeps the budgets it last loaded, or pauses jobs until it is fixed` });
+          setConfigText(data.raw ?? "");
+          return;
+        }
+        const hasConfig = data.config && Object.keys(data.config).length > 0;
+        setConfigText(JSON.stringify(hasConfig ? data.config : EXAMPLE_CONFIG, null, 2));
+      }
+    } catch (err) {
+      console.error("Failed to fetch budget:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveConfig = async () => {
+    setMessage(null);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(configText);
+    } catch {
+      setMessage({ type: "error", text: "Config is not valid JSON" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await authFetch("/api/budget/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+        fetchBudget();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBudget();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading budget...</div>
+      </div>
+    );
+  }
+
+  const channelSpend = status
+    ? Object.entries(status.spend.monthly.byChannel).sort((a, b) => b[1] - a[1])
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Budget</h2>
+        <p className="text-zinc-500 mt-1">Spend computed from job costs</p>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg p-4 ${message.type === "success" ? "bg-green-600/20 border border-green-600/30 text-green-400" : "bg-red-600/20 border border-red-600/30 text-red-400"}`}>
+          {message.text}
+        </div>
+      )}
+
+      {status && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+            <div className="text-sm text-zinc-400">Today ({status.day})</div>
+            <div className="text-2xl font-bold text-white mt-1">{formatUsd(status.spend.daily.total)}</div>
+          </div>
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+            <div className="text-sm text-zinc-400">This month ({status.month})</div>
+            <div className="text-2xl font-bold text-white mt-1">{formatUsd(status.spend.monthly.total)}</div>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+          <h3 className="font-semibold text-white p-4">Budgets</h3>
+          {status.scopes.length === 0 ? (
+            <div className="p-4 text-sm text-zinc-500">No budgets configured</div>
+          ) : (
+            status.scopes.map((s) => (
+              <div key={`${s.scope}-${s.period}`} className="p-4 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${stateColors[s.state]}`} />
+                    <span className="text-white">{s.scope}</span>
+                    <span className="text-zinc-500">{s.period}</span>
+                  </div>
+                  <div className="text-zinc-400">
+                    {formatUsd(s.spent)} / {formatUsd(s.limit)}
+                    {s.state === "exceeded" && <span className="ml-2 text-red-400">exceeded ({s.action})</span>}
+                  </div>
+                </div>
+                <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${stateColors[s.state]}`}
+                    style={{ width: `${Math.min(100, (s.spent / s.limit) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {channelSpend.length > 0 && (
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+          <h3 className="font-semibold text-white p-4">Spend by Channel (this month)</h3>
+          {channelSpend.map(([channel, spent]) => (
+            <div key={channel} className="p-4 flex items-center justify-between text-sm">
+              <span className="text-white">{channel}</span>
+              <span className="text-zinc-400">
+                {formatUsd(status!.spend.daily.byChannel[channel] || 0)} today · {formatUsd(spent)} month
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold text-white">Budget Config</h3>
+            <p className="text-xs text-zinc-500 mt-1">
+              Amounts in USD. onExceeded: warn, degrade (no cron, owner sessions only) or stop (no new jobs).
+            </p>
+          </div>
+          <button
+            onClick={saveConfig}
+            disabled={saving}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+        <textarea
+          value={configText}
+          onChange={(e) => setConfigText(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white font-mono text-sm focus:outline-none focus:border-zinc-600"
+        />
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,78 @@ interface ConfigSchema {
   sensitive?: boolean;
 }
 
+// Settings field declared in a channel plugin's manifest (core/src/channels/registry.ts)
+interface ChannelConfigField {
+  type: "string" | "number" | "boolean" | "string[]";
+  label: string;
+  description?: string;
+  required?: boolean;
+  sensitive?: boolean;
+}
+
+interface ChannelPluginManifest {
+  name: string;
+  description?: string;
+  defaultResponseStyle?: string;
+  defaultEnabled?: boolean;
+  configSchema?: Record<string, ChannelConfigField>;
+}
+
+type ChannelSettings = Record<string, unknown>;
+
+// An inbound hook for the webhook channel (core/src/inbound-hooks.ts)
+interface InboundHook {
+  name: string;
+  secret: string;
+  prompt: string;
+  sessionKey?: string;
+  reply?: { channel: string; to: string };
+  concurrency?: "none" | "global" | "session";
+  enabled?: boolean;
+}
+
+// The webhook channel's own settings (its manifest lives in core/src/channels/webhook.ts)
+const WEBHOOK_CHANNEL_SETTINGS: ChannelPluginManifest = {
+  name: "webhook",
+  defaultEnabled: false,
+  configSchema: {
+    port: { type: "number", label: "Port", description: "Default: 3200" },
+    host: { type: "string", label: "Listen address", description: "Default: 127.0.0.1 (local only) - use 0.0.0.0 or a reverse proxy to accept outside requests" },
+  },
+};
+
+// The inbox channel's own settings (its manifest lives in core/src/channels/inbox.ts)
+const INBOX_CHANNEL_SETTINGS: ChannelPluginManifest = {
+  name: "inbox",
+  defaultEnabled: false,
+  configSchema: {
+    pollSeconds: { type: "number", label: "Check every (seconds)", description: "Default: 2" },
+  },
+};
+
+// telegram-security.json - no allowed users or chats means anyone may talk to the bot
+interface TelegramSecurity {
+  allowedUserIds: string[];
+  allowedChatIds: string[];
+  unknownSenderPolicy: "ignore" | "reply" | "forward";
+  unknownSenderReply?: string;
+  ownerChatId?: string;
+  groupMentionOnly: boolean;
+}
+
+const DEFAULT_TELEGRAM_SECURITY: TelegramSecurity = {
+  allowedUserIds: [],
+  allowedChatIds: [],
+  unknownSenderPolicy: "ignore",
+  groupMentionOnly: true,
+};
+
+interface ChannelEntry {
+  enabled: boolean;
+  coalesceWindowMs?: number;
+  settings?: ChannelSettings;
+}
+
 interface ConfigData {
   schema: {
     telegram: Record<string, ConfigSchema>;
@@ -40,8 +112,10 @@ interface ConfigData {
     raw: string;
   };
   channels: {
-    channels: Record<string, { enabled: boolean }>;
+    channels: Record<string, ChannelEntry>;
   } | null;
+  channelPlugins?: ChannelPluginManifest[];
+  inboundHooks?: { hooks: InboundHook[] };
   emailSecurity: {
     trustedEmailAddresses: string[];
     forwardUntrustedTo: string[];
@@ -56,6 +130,7 @@ interface ConfigData {
     myUserId: string | null;
     userNames: Record<string, string>;
   } | null;
+  telegramSecurity?: TelegramSecurity | null;
   claudeMd: string;
 }
 
@@ -64,6 +139,7 @@ interface SessionSettings {
   queueModes: Record<string, string>;
   transcriptLines: Record<string, number>;
   responseStyles: Record<string, string>;
+  models: Record<string, string>;
 }
 
 // =============================================================================
@@ -75,12 +151,14 @@ interface SessionSettings {
  * - Toggle switch (on/off)
  * - Custom config area (channel-specific)
  * - Session settings (memory mode, queue mode)
+ * - Message coalescing window
  * - Optional setup instructions
  */
 function ChannelSection({
   channelKey,
   displayName,
   enabled,
+  live,
   canEnable,
   disableReason,
   onToggle,
@@ -90,10 +168,14 @@ function ChannelSection({
   sessionSettings,
   onSaveSessionSetting,
   setSessionSettings,
+  coalesceWindowMs,
+  onSaveCoalesceWindow,
+  defaultResponseStyle,
 }: {
   channelKey: string;
   displayName: string;
   enabled: boolean;
+  live?: boolean;  // Whether the watcher has a listener running (unknown if the watcher is down)
   canEnable: boolean;
   disableReason?: string;
   onToggle: () => void;
@@ -103,6 +185,9 @@ function ChannelSection({
   sessionSettings: SessionSettings | null;
   onSaveSessionSetting: (type: string, channel: string, value: string | number) => Promise<void>;
   setSessionSettings: React.Dispatch<React.SetStateAction<SessionSettings | null>>;
+  coalesceWindowMs?: number;
+  onSaveCoalesceWindow: (ms: number) => void;
+  defaultResponseStyle?: string;
 }) {
   return (
     <div className="border-b border-zinc-800 last:border-0 py-4 first:pt-0 last:pb-0">
@@ -110,6 +195,11 @@ function ChannelSection({
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <span className="text-white font-medium">{displayName}</span>
+          {live !== undefined && (enabled || live) && (
+            <span className={`text-xs px-2 py-0.5 rounded ${live ? "text-green-400 bg-green-400/10" : "text-zinc-400 bg-zinc-400/10"}`}>
+              {live ? "live" : "not running"}
+            </span>
+          )}
           {!canEnable && (
             <span className="text-xs text-yellow-400 bg-yellow-400/10 px-2 py-0.5 rounded">
               {disableReason}
@@ -145,6 +235,14 @@ function ChannelSection({
         </div>
       )}
 
+      {/* Message coalescing (when enabled) */}
+      {enabled && (
+        <CoalesceWindowInput
+          coalesceWindowMs={coalesceWindowMs}
+          onSave={onSaveCoalesceWindow}
+        />
+      )}
+
       {/* Session settings (when enabled and session key exists) */}
       {enabled && sessionKey && sessionSettings && (
         <SessionSettingsPanel
@@ -153,6 +251,7 @@ function ChannelSection({
           onSaveSessionSetting={onSaveSessionSetting}
           setSessionSettings={setSessionSettings}
           channelKey={channelKey}
+          defaultResponseStyle={defaultResponseStyle}
         />
       )}
     </div>
@@ -160,7 +259,7 @@ function ChannelSection({
 }
 
 /**
- * Session settings panel with memory mode, queue mode, and transcript lines
+ * Session settings panel with memory mode, queue mode, response style, model and transcript lines
  */
 function SessionSettingsPanel({
   sessionKey,
@@ -168,20 +267,34 @@ function SessionSettingsPanel({
   onSaveSessionSetting,
   setSessionSettings,
   channelKey,
+  defaultResponseStyle: channelDefaultStyle,
 }: {
   sessionKey: string;
   sessionSettings: SessionSettings;
   onSaveSessionSetting: (type: string, channel: string, value: string | number) => Promise<void>;
   setSessionSettings: React.Dispatch<React.SetStateAction<SessionSettings | null>>;
   channelKey: string;
+  defaultResponseStyle?: string;  // From a plugin's manifest
 }) {
   const memoryMode = sessionSettings.modes[sessionKey] || "session";
   const queueMode = sessionSettings.queueModes[sessionKey] || "interrupt";
   const transcriptLines = sessionSettings.transcriptLines[sessionKey] || 100;
 
   // Default response styles: streaming for real-time channels, final for email
-  const defaultResponseStyle = channelKey === "email" ? "final" : "streaming";
+  const defaultResponseStyle = channelDefaultStyle || (channelKey === "email" ? "final" : "streaming");
   const responseStyle = sessionSettings.responseStyles[sessionKey] || defaultResponseStyle;
+  // Only channels that can edit their messages support live replies
+  const supportsLive = channelKey === "telegram" || channelKey === "discord";
+
+  // Saved on blur/Enter; empty means the CLI default model
+  const savedModel = sessionSettings.models?.[sessionKey] || "";
+  const [model, setModel] = useState(savedModel);
+  useEffect(() => setModel(savedModel), [savedModel]);
+  const saveModel = () => {
+    if (model.trim() !== savedModel) {
+      onSaveSessionSetting("model", sessionKey, model.trim());
+    }
+  };
 
   return (
     <div className="mt-4 pt-4 border-t border-zinc-700">
@@ -243,6 +356,17 @@ function SessionSettingsPanel({
             >
               Queue
             </button>
+            <button
+              onClick={() => onSaveSessionSetting("queueMode", sessionKey, "steer")}
+              className={`px-2.5 py-1 text-xs rounded ${
+                queueMode === "steer"
+                  ? "bg-green-600 text-white"
+                  : "bg-zinc-700 text-zinc-300 hover:bg-zinc-600"
+              }`}
+              title="Messages sent mid-job become one follow-up turn in the same session"
+            >
+              Steer
+            </button>
           </div>
         </div>
 
@@ -283,9 +407,37 @@ function SessionSettingsPanel({
             >
               Final
             </button>
+            {supportsLive && (
+              <button
+                onClick={() => onSaveSessionSetting("responseStyle", sessionKey, "live")}
+                className={`px-2.5 py-1 text-xs rounded ${
+                  responseStyle === "live"
+                    ? "bg-green-600 text-white"
+                    : "bg-zinc-700 text-zinc-300 hover:bg-zinc-600"
+                }`}
+                title="One message, edited as the reply grows"
+              >
+                Live
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Model */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <label className="text-zinc-500 text-xs w-28 shrink-0">Model</label>
+          <input
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            onBlur={saveModel}
+            onKeyDown={(e) => e.key === "Enter" && saveModel()}
+            placeholder="default"
+            className="px-2.5 py-1 text-xs bg-zinc-700 border border-zinc-600 rounded text-white placeholder-zinc-400 focus:outline-none focus:border-zinc-500 w-48"
+            title="e.g. sonnet, opus or a full model name (same as /model)"
+          />
+        </div>
+
         {/* Transcript Lines (only show when in transcript mode) */}
         {memoryMode === "transcript" && (
           <div className="flex flex-col sm:flex-row sm:items-center gap-2">
@@ -323,6 +475,162 @@ function SessionSettingsPanel({
   );
 }
 
+/**
+ * Coalescing window: messages for a session that arrive this close together
+ * are merged into one prompt. Shown in seconds, stored in milliseconds.
+ */
+function CoalesceWindowInput({
+  coalesceWindowMs,
+  onSave,
+}: {
+  coalesceWindowMs?: number;
+  onSave: (ms: number) => void;
+}) {
+  const savedSeconds = String((coalesceWindowMs || 0) / 1000);
+  const [seconds, setSeconds] = useState(savedSeconds);
+  useEffect(() => setSeconds(savedSeconds), [savedSeconds]);
+
+  const save = () => {
+    const value = parseFloat(seconds);
+    if (isNaN(value) || value < 0 || value > 60) {
+      setSeconds(savedSeconds);
+      return;
+    }
+    const ms = Math.round(value * 1000);
+    if (ms !== (coalesceWindowMs || 0)) {
+      onSave(ms);
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+      <label className="text-zinc-500 text-xs w-28 shrink-0">Coalesce Window</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          max="60"
+          step="0.5"
+          value={seconds}
+          onChange={(e) => setSeconds(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+          className="px-2.5 py-1 text-xs bg-zinc-700 border border-zinc-600 rounded text-white focus:outline-none focus:border-zinc-500 w-20"
+        />
+        <span className="text-zinc-500 text-xs">seconds (0 = off). Quick follow-up messages are merged into one prompt.</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Settings form for a plugin channel, built from its manifest's configSchema
+ */
+function PluginChannelConfig({
+  manifest,
+  settings,
+  onSave,
+}: {
+  manifest: ChannelPluginManifest;
+  settings: ChannelSettings;
+  onSave: (settings: ChannelSettings) => Promise<void>;
+}) {
+  // Inputs hold strings; lists are edited one item per line
+  const toInput = (field: ChannelConfigField, value: unknown) => {
+    if (value === undefined || value === null) return field.type === "boolean" ? "false" : "";
+    return Array.isArray(value) ? value.join("\n") : String(value);
+  };
+  const initialValues = () =>
+    Object.fromEntries(
+      Object.entries(manifest.configSchema || {}).map(([key, field]) => [key, toInput(field, settings[key])])
+    );
+  const [values, setValues] = useState<Record<string, string>>(initialValues);
+  const [saving, setSaving] = useState(false);
+  const savedKey = JSON.stringify(settings);
+  useEffect(() => setValues(initialValues()), [savedKey]);
+
+  const fields = Object.entries(manifest.configSchema || {});
+  if (fields.length === 0) {
+    return manifest.description ? <p className="text-zinc-400 text-sm">{manifest.description}</p> : null;
+  }
+
+  const handleSave = async () => {
+    const next: ChannelSettings = { ...settings };
+    for (const [key, field] of fields) {
+      const raw = values[key] ?? "";
+      if (field.type === "boolean") {
+        next[key] = raw === "true";
+      } else if (raw.trim() === "") {
+        delete next[key];
+      } else if (field.type === "number") {
+        next[key] = Number(raw);
+      } else if (field.type === "string[]") {
+        next[key] = raw.split("\n").map((line) => line.trim()).filter(Boolean);
+      } else {
+        next[key] = raw.trim();
+      }
+    }
+    setSaving(true);
+    try {
+      await onSave(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "flex-1 px-3 py-2 bg-zinc-800 border border-zinc-600 rounded text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500";
+
+  return (
+    <div className="space-y-3">
+      {manifest.description && <p className="text-zinc-400 text-sm">{manifest.description}</p>}
+      {fields.map(([key, field]) => (
+        <div key={key}>
+          <label className="text-zinc-300 text-sm">
+            {field.label}
+            {field.required && <span className="text-red-400"> *</span>}
+          </label>
+          {field.description && <p className="text-zinc-500 text-xs mt-1">{field.description}</p>}
+          <div className="mt-2 flex">
+            {field.type === "boolean" ? (
+              <select
+                value={values[key]}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                className={inputClass}
+              >
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            ) : field.type === "string[]" ? (
+              <textarea
+                value={values[key]}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                placeholder="One per line"
+                rows={3}
+                className={`${inputClass} font-mono`}
+              />
+            ) : (
+              <input
+                type={field.sensitive ? "password" : field.type === "number" ? "number" : "text"}
+                value={values[key]}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                className={inputClass}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm rounded disabled:opacity-50"
+      >
+        {saving ? "Saving..." : "Save Settings"}
+      </button>
+    </div>
+  );
+}
+
 /**
  * Bot token input with edit/save functionality
  */
@@ -842,6 +1150,272 @@ function DiscordChannelSelector({
   );
 }
 
+/**
+ * Telegram allowlist - picks from the chats and senders the bot has heard from
+ */
+function TelegramSecuritySelector({
+  config,
+  onSave,
+}: {
+  config: TelegramSecurity;
+  onSave: (config: TelegramSecurity) => Promise<void>;
+}) {
+  const [chats, setChats] = useState<{ id: string; type: string; title: string; lastSeen: string }[]>([]);
+  const [users, setUsers] = useState<{ id: string; name: string; username?: string; lastSeen: string }[]>([]);
+  const [selectedChats, setSelectedChats] = useState<Set<string>>(new Set(config.allowedChatIds));
+  const [selectedUsers, setSelectedUsers] = useState<Set<string>>(new Set(config.allowedUserIds));
+  const [policy, setPolicy] = useState(config.unknownSenderPolicy);
+  const [reply, setReply] = useState(config.unknownSenderReply || "");
+  const [ownerChatId, setOwnerChatId] = useState(config.ownerChatId || "");
+  const [mentionOnly, setMentionOnly] = useState(config.groupMentionOnly);
+  const [manualId, setManualId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchChats = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await authFetch("/api/telegram/chats");
+      const data = await res.json();
+      if (data.error) {
+        setError(data.error);
+      } else {
+        setChats(data.chats || []);
+        setUsers(data.users || []);
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchChats();
+  }, []);
+
+  const toggle = (set: Set<string>, setter: (s: Set<string>) => void, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setter(next);
+  };
+
+  // IDs typed in by hand - negative ones are groups
+  const addManualId = () => {
+    const id = manualId.trim();
+    if (!/^-?\d+$/.test(id)) return;
+    if (id.startsWith("-")) {
+      setSelectedChats(new Set(selectedChats).add(id));
+    } else {
+      setSelectedUsers(new Set(selectedUsers).add(id));
+    }
+    setManualId("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        allowedUserIds: Array.from(selectedUsers),
+        allowedChatIds: Array.from(selectedChats),
+        unknownSenderPolicy: policy,
+        ...(reply.trim() ? { unknownSenderReply: reply.trim() } : {}),
+        ...(ownerChatId.trim() ? { ownerChatId: ownerChatId.trim() } : {}),
+        groupMentionOnly: mentionOnly,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasChanges =
+    JSON.stringify(Array.from(selectedChats).sort()) !== JSON.stringify([...config.allowedChatIds].sort()) ||
+    JSON.stringify(Array.from(selectedUsers).sort()) !== JSON.stringify([...config.allowedUserIds].sort()) ||
+    policy !== config.unknownSenderPolicy ||
+    reply !== (config.unknownSenderReply || "") ||
+    ownerChatId !== (config.ownerChatId || "") ||
+    mentionOnly !== config.groupMentionOnly;
+
+  // Allowed IDs the bot hasn't seen (yet) still show, so they can be removed
+  const unseenChats = Array.from(selectedChats).filter((id) => !chats.some((c) => c.id === id));
+  const unseenUsers = Array.from(selectedUsers).filter((id) => !users.some((u) => u.id === id));
+  const checkboxClass = "w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-green-500 focus:ring-green-500 focus:ring-offset-0";
+  const inputClass = "px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600";
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-zinc-400 text-xs font-medium">Who May Talk to the Bot</label>
+          <button
+            onClick={fetchChats}
+            disabled={loading}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-500/10 border border-red-500/20 rounded text-xs text-red-400 mb-2">
+            {error}
+          </div>
+        )}
+
+        {selectedChats.size === 0 && selectedUsers.size === 0 && (
+          <div className="p-2 bg-yellow-500/10 border border-yellow-500/20 rounded text-xs text-yellow-400 mb-2">
+            Nobody is selected, so anyone who finds the bot can use it.
+          </div>
+        )}
+
+        {chats.length === 0 && users.length === 0 && !loading && !error && (
+          <p className="text-zinc-500 text-sm mb-2">No messages yet. Send the bot a message (or add it to a group), then refresh.</p>
+        )}
+
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {(users.length > 0 || unseenUsers.length > 0) && (
+            <div className="bg-zinc-800 rounded p-2">
+              <div className="text-sm text-white font-medium mb-1">People</div>
+              <div className="text-xs text-zinc-500 mb-2">Allowed in any chat, including groups</div>
+              <div className="space-y-1 pl-2">
+                {users.map((user) => (
+                  <label key={user.id} className="flex items-center gap-3 p-1.5 rounded cursor-pointer hover:bg-zinc-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedUsers.has(user.id)}
+                      onChange={() => toggle(selectedUsers, setSelectedUsers, user.id)}
+                      className={checkboxClass}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-zinc-300">
+                        {user.name}
+                        {user.username && <span className="text-zinc-500"> @{user.username}</span>}
+                      </div>
+                      <div className="text-xs text-zinc-500 font-mono">{user.id}</div>
+                    </div>
+                  </label>
+                ))}
+                {unseenUsers.map((id) => (
+                  <label key={id} className="flex items-center gap-3 p-1.5 rounded cursor-pointer hover:bg-zinc-700">
+                    <input type="checkbox" checked onChange={() => toggle(selectedUsers, setSelectedUsers, id)} className={checkboxClass} />
+                    <div className="text-xs text-zinc-500 font-mono">{id}</div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {(chats.length > 0 || unseenChats.length > 0) && (
+            <div className="bg-zinc-800 rounded p-2">
+              <div className="text-sm text-white font-medium mb-1">Chats</div>
+              <div className="text-xs text-zinc-500 mb-2">Everyone in these chats may talk to the bot</div>
+              <div className="space-y-1 pl-2">
+                {chats.map((chat) => (
+                  <label key={chat.id} className="flex items-center gap-3 p-1.5 rounded cursor-pointer hover:bg-zinc-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedChats.has(chat.id)}
+                      onChange={() => toggle(selectedChats, setSelectedChats, chat.id)}
+                      className={checkboxClass}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-zinc-300">
+                        {chat.title} <span className="text-zinc-500 text-xs">({chat.type})</span>
+                      </div>
+                      <div className="text-xs text-zinc-500 font-mono">{chat.id}</div>
+                    </div>
+                  </label>
+                ))}
+                {unseenChats.map((id) => (
+                  <label key={id} className="flex items-center gap-3 p-1.5 rounded cursor-pointer hover:bg-zinc-700">
+                    <input type="checkbox" checked onChange={() => toggle(selectedChats, setSelectedChats, id)} className={checkboxClass} />
+                    <div className="text-xs text-zinc-500 font-mono">{id}</div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={manualId}
+            onChange={(e) => setManualId(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addManualId()}
+            placeholder="Add a user or chat ID"
+            className={`${inputClass} flex-1 font-mono`}
+          />
+          <button
+            onClick={addManualId}
+            className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-zinc-400 text-xs font-medium block">Messages From Anyone Else</label>
+        <select value={policy} onChange={(e) => setPolicy(e.target.value as TelegramSecurity["unknownSenderPolicy"])} className={inputClass}>
+          <option value="ignore">Ignore</option>
+          <option value="reply">Auto-reply (once an hour per chat)</option>
+          <option value="forward">Forward to me</option>
+        </select>
+        {policy === "reply" && (
+          <input
+            type="text"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Sorry, I only talk to people I know."
+            className={`${inputClass} w-full`}
+          />
+        )}
+        {policy === "forward" && (
+          <select value={ownerChatId} onChange={(e) => setOwnerChatId(e.target.value)} className={`${inputClass} w-full`}>
+            <option value="">Forward to...</option>
+            {chats
+              .filter((chat) => chat.type === "private" || chat.id === ownerChatId)
+              .map((chat) => (
+                <option key={chat.id} value={chat.id}>
+                  {chat.title} ({chat.id})
+                </option>
+              ))}
+          </select>
+        )}
+      </div>
+
+      <label className="flex items-center gap-3 p-2 bg-zinc-800 rounded cursor-pointer">
+        <input
+          type="checkbox"
+          checked={mentionOnly}
+          onChange={(e) => setMentionOnly(e.target.checked)}
+          className={checkboxClass}
+        />
+        <div className="flex-1">
+          <div className="text-sm text-zinc-300">Only answer in groups when addressed</div>
+          <div className="text-xs text-zinc-500">Group messages need an @mention, a reply to the bot, or a /command</div>
+        </div>
+      </label>
+
+      {hasChanges && (
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm rounded disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Changes"}
+        </button>
+      )}
+    </div>
+  );
+}
+
 // =============================================================================
 // CHANNEL-SPECIFIC CONFIG COMPONENTS
 // =============================================================================
@@ -849,18 +1423,30 @@ function DiscordChannelSelector({
 function TelegramConfig({
   config,
   onSaveEnvVar,
+  onSaveTelegramSecurity,
+  enabled,
 }: {
   config: ConfigData;
   onSaveEnvVar: (key: string, value: string) => Promise<void>;
+  onSaveTelegramSecurity: (security: TelegramSecurity) => Promise<void>;
+  enabled: boolean;
 }) {
   return (
-    <BotTokenInput
-      label="Bot Token"
-      envKey="TELEGRAM_BOT_TOKEN"
-      currentValue={config.telegram.TELEGRAM_BOT_TOKEN || ""}
-      schema={config.schema.telegram.TELEGRAM_BOT_TOKEN}
-      onSave={onSaveEnvVar}
-    />
+    <div className="space-y-4">
+      <BotTokenInput
+        label="Bot Token"
+        envKey="TELEGRAM_BOT_TOKEN"
+        currentValue={config.telegram.TELEGRAM_BOT_TOKEN || ""}
+        schema={config.schema.telegram.TELEGRAM_BOT_TOKEN}
+        onSave={onSaveEnvVar}
+      />
+      {enabled && (
+        <TelegramSecuritySelector
+          config={{ ...DEFAULT_TELEGRAM_SECURITY, ...config.telegramSecurity }}
+          onSave={onSaveTelegramSecurity}
+        />
+      )}
+    </div>
   );
 }
 
@@ -899,6 +1485,188 @@ function EmailConfig({
   );
 }
 
+// 24 random bytes, hex encoded
+function generateHookSecret(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Inbound hooks editor - each hook is POST /hooks/<name> on the webhook channel's port
+ */
+function InboundHooksConfig({
+  hooks: savedHooks,
+  onSave,
+}: {
+  hooks: InboundHook[];
+  onSave: (hooks: InboundHook[]) => Promise<void>;
+}) {
+  const [hooks, setHooks] = useState<InboundHook[]>(savedHooks);
+  const [saving, setSaving] = useState(false);
+  const savedKey = JSON.stringify(savedHooks);
+  useEffect(() => setHooks(savedHooks), [savedKey]);
+
+  const updateHook = (index: number, changes: Partial<InboundHook>) => {
+    setHooks(hooks.map((h, i) => (i === index ? { ...h, ...changes } : h)));
+  };
+
+  // "hook" and "request" are fixed strategies; anything else is a template
+  const sessionStrategy = (hook: InboundHook) =>
+    !hook.sessionKey || hook.sessionKey === "hook" ? "hook" : hook.sessionKey === "request" ? "request" : "template";
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(hooks.map((h) => ({ ...h, name: h.name.trim() })));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "px-2.5 py-1 text-xs bg-zinc-700 border border-zinc-600 rounded text-white focus:outline-none focus:border-zinc-500";
+
+  return (
+    <div className="space-y-3">
+      <label className="text-zinc-400 text-xs font-medium block">Hooks</label>
+      <p className="text-zinc-500 text-xs">
+        Authenticate with <code>Authorization: Bearer &lt;secret&gt;</code> or a GitHub-style{" "}
+        <code>X-Hub-Signature-256</code>. Templates fill <code>{"{{field.path}}"}</code> from the JSON body;{" "}
+        <code>{"{{body}}"}</code> is the whole body.
+      </p>
+      {hooks.map((hook, index) => (
+        <div key={index} className="p-3 bg-zinc-800/50 rounded border border-zinc-700 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-zinc-500 text-xs font-mono">POST /hooks/</span>
+            <input
+              type="text"
+              value={hook.name}
+              onChange={(e) => updateHook(index, { name: e.target.value })}
+              placeholder="github"
+              className={`${inputClass} w-32 font-mono`}
+            />
+            <label className="flex items-center gap-1 text-xs text-zinc-400">
+              <input
+                type="checkbox"
+                checked={hook.enabled !== false}
+                onChange={(e) => updateHook(index, { enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+            <button
+              onClick={() => setHooks(hooks.filter((_, i) => i !== index))}
+              className="ml-auto px-2 py-1 text-xs text-zinc-500 hover:text-red-400 transition-colors"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="password"
+              value={hook.secret}
+              onChange={(e) => updateHook(index, { secret: e.target.value })}
+              placeholder="Secret"
+              className={`${inputClass} flex-1 min-w-48 font-mono`}
+            />
+            <button
+              onClick={() => navigator.clipboard.writeText(hook.secret)}
+              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => updateHook(index, { secret: generateHookSecret() })}
+              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+            >
+              Regenerate
+            </button>
+          </div>
+          <textarea
+            value={hook.prompt}
+            onChange={(e) => updateHook(index, { prompt: e.target.value })}
+            placeholder="New push to {{repository.full_name}} by {{pusher.name}}: {{head_commit.message}}"
+            rows={3}
+            className={`${inputClass} w-full font-mono`}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-zinc-500 text-xs">Session</label>
+            <select
+              value={sessionStrategy(hook)}
+              onChange={(e) =>
+                updateHook(index, { sessionKey: e.target.value === "template" ? "{{id}}" : e.target.value })
+              }
+              className={inputClass}
+            >
+              <option value="hook">One per hook</option>
+              <option value="request">New per request</option>
+              <option value="template">From the body</option>
+            </select>
+            {sessionStrategy(hook) === "template" && (
+              <input
+                type="text"
+                value={hook.sessionKey}
+                onChange={(e) => updateHook(index, { sessionKey: e.target.value })}
+                placeholder="{{repository.name}}"
+                className={`${inputClass} w-44 font-mono`}
+              />
+            )}
+            <label className="text-zinc-500 text-xs ml-2">Concurrency</label>
+            <select
+              value={hook.concurrency || "session"}
+              onChange={(e) => updateHook(index, { concurrency: e.target.value as InboundHook["concurrency"] })}
+              className={inputClass}
+            >
+              <option value="session">One at a time per session</option>
+              <option value="global">One at a time for this hook</option>
+              <option value="none">All in parallel</option>
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-zinc-500 text-xs">Reply to</label>
+            <select
+              value={hook.reply?.channel || ""}
+              onChange={(e) =>
+                updateHook(index, { reply: e.target.value ? { channel: e.target.value, to: hook.reply?.to || "" } : undefined })
+              }
+              className={inputClass}
+            >
+              <option value="">Nowhere (job log only)</option>
+              <option value="telegram">Telegram chat</option>
+              <option value="discord">Discord channel</option>
+              <option value="gchat">Google Chat space</option>
+            </select>
+            {hook.reply && (
+              <input
+                type="text"
+                value={hook.reply.to}
+                onChange={(e) => updateHook(index, { reply: { channel: hook.reply!.channel, to: e.target.value } })}
+                placeholder={hook.reply.channel === "gchat" ? "spaces/AAAA..." : hook.reply.channel === "telegram" ? "Chat ID" : "Channel ID"}
+                className={`${inputClass} w-44 font-mono`}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setHooks([...hooks, { name: "", secret: generateHookSecret(), prompt: "" }])}
+          className="px-3 py-1.5 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+        >
+          Add hook
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 text-xs bg-green-600 hover:bg-green-700 text-white rounded disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Hooks"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function GChatConfig({
   config,
   onSaveGchatSecurity,
@@ -951,6 +1719,7 @@ function DiscordConfig({
 export default function ChannelsPage() {
   const [config, setConfig] = useState<ConfigData | null>(null);
   const [sessionSettings, setSessionSettings] = useState<SessionSettings | null>(null);
+  const [liveChannels, setLiveChannels] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
@@ -966,6 +1735,17 @@ export default function ChannelsPage() {
     }
   };
 
+  // Which listeners the watcher is actually running (it picks up config changes on its own)
+  const fetchLiveChannels = async () => {
+    try {
+      const res = await authFetch("/api/status");
+      const data = await res.json();
+      setLiveChannels(data.watcher?.state?.channels ?? null);
+    } catch (err) {
+      console.error("Failed to fetch watcher status:", err);
+    }
+  };
+
   const fetchSessionSettings = async () => {
     try {
       const res = await authFetch("/api/sessions");
@@ -979,6 +1759,7 @@ export default function ChannelsPage() {
   useEffect(() => {
     fetchConfig();
     fetchSessionSettings();
+    fetchLiveChannels();
   }, []);
 
   const showMessage = (type: "success" | "error", text: string) => {
@@ -987,7 +1768,7 @@ export default function ChannelsPage() {
   };
 
   // Save handlers
-  const saveChannels = async (channels: Record<string, { enabled: boolean }>) => {
+  const saveChannels = async (channels: Record<string, ChannelEntry>) => {
     try {
       const res = await authFetch("/api/config", {
         method: "POST",
@@ -998,6 +1779,8 @@ export default function ChannelsPage() {
       if (data.success) {
         showMessage("success", data.message);
         fetchConfig();
+        // Give the watcher a moment to start or stop the listener
+        setTimeout(fetchLiveChannels, 2000);
       } else {
         showMessage("error", data.error || "Failed to save");
       }
@@ -1082,6 +1865,44 @@ export default function ChannelsPage() {
     }
   };
 
+  const saveTelegramSecurity = async (telegramSecurity: TelegramSecurity) => {
+    try {
+      const res = await authFetch("/api/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "telegramSecurity", data: telegramSecurity }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        showMessage("success", data.message);
+        fetchConfig();
+      } else {
+        showMessage("error", data.error || "Failed to save");
+      }
+    } catch (err) {
+      showMessage("error", String(err));
+    }
+  };
+
+  const saveInboundHooks = async (hooks: InboundHook[]) => {
+    try {
+      const res = await authFetch("/api/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "inboundHooks", data: { hooks } }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        showMessage("success", data.message);
+        fetchConfig();
+      } else {
+        showMessage("error", data.error || "Failed to save");
+      }
+    } catch (err) {
+      showMessage("error", String(err));
+    }
+  };
+
   const saveSessionSetting = async (type: string, channel: string, value: string | number) => {
     try {
       const res = await authFetch("/api/sessions", {
@@ -1109,6 +1930,8 @@ export default function ChannelsPage() {
       case "gchat": return "Google Chat";
       case "discord": return "Discord";
       case "dashboard": return "Dashboard Chat";
+      case "webhook": return "Webhooks";
+      case "inbox": return "Event Inbox";
       default: return channel.charAt(0).toUpperCase() + channel.slice(1);
     }
   };
@@ -1179,10 +2002,26 @@ export default function ChannelsPage() {
     if (!canEnable && !currentEnabled) return;
 
     const newChannels = { ...config!.channels!.channels };
-    newChannels[channel] = { enabled: !currentEnabled };
+    newChannels[channel] = { ...newChannels[channel], enabled: !currentEnabled };
     saveChannels(newChannels);
   };
 
+  const saveCoalesceWindow = (channel: string, ms: number) => {
+    const newChannels = { ...config!.channels!.channels };
+    newChannels[channel] = { ...newChannels[channel], coalesceWindowMs: ms };
+    saveChannels(newChannels);
+  };
+
+  // Plugin channels may not be in channels.json yet - the manifest says whether they start enabled
+  const isPluginEnabled = (manifest: ChannelPluginManifest) =>
+    config?.channels?.channels[manifest.name]?.enabled ?? manifest.defaultEnabled !== false;
+
+  const savePluginSettings = async (manifest: ChannelPluginManifest, settings: ChannelSettings) => {
+    const newChannels = { ...config!.channels!.channels };
+    newChannels[manifest.name] = { ...newChannels[manifest.name], enabled: isPluginEnabled(manifest), settings };
+    await saveChannels(newChannels);
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -1215,6 +2054,7 @@ export default function ChannelsPage() {
 
   // Channel definitions
   const channels = config.channels?.channels || {};
+  const isLive = (channel: string) => (liveChannels ? liveChannels.includes(channel) : undefined);
 
   return (
     <div className="space-y-4">
@@ -1248,8 +2088,11 @@ export default function ChannelsPage() {
           {channels.telegram && (
             <ChannelSection
               channelKey="telegram"
+              coalesceWindowMs={channels.telegram?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("telegram", ms)}
               displayName={getChannelDisplayName("telegram")}
               enabled={channels.telegram.enabled}
+              live={isLive("telegram")}
               canEnable={canEnableChannel("telegram").canEnable}
               disableReason={canEnableChannel("telegram").reason}
               onToggle={() => toggleChannel("telegram", channels.telegram.enabled)}
@@ -1258,7 +2101,12 @@ export default function ChannelsPage() {
               onSaveSessionSetting={saveSessionSetting}
               setSessionSettings={setSessionSettings}
             >
-              <TelegramConfig config={config} onSaveEnvVar={saveEnvVar} />
+              <TelegramConfig
+                config={config}
+                onSaveEnvVar={saveEnvVar}
+                onSaveTelegramSecurity={saveTelegramSecurity}
+                enabled={channels.telegram.enabled}
+              />
             </ChannelSection>
           )}
 
@@ -1266,8 +2114,11 @@ export default function ChannelsPage() {
           {channels.email && (
             <ChannelSection
               channelKey="email"
+              coalesceWindowMs={channels.email?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("email", ms)}
               displayName={getChannelDisplayName("email")}
               enabled={channels.email.enabled}
+              live={isLive("email")}
               canEnable={canEnableChannel("email").canEnable}
               disableReason={canEnableChannel("email").reason}
               onToggle={() => toggleChannel("email", channels.email.enabled)}
@@ -1286,8 +2137,11 @@ export default function ChannelsPage() {
           {channels.gchat && (
             <ChannelSection
               channelKey="gchat"
+              coalesceWindowMs={channels.gchat?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("gchat", ms)}
               displayName={getChannelDisplayName("gchat")}
               enabled={channels.gchat.enabled}
+              live={isLive("gchat")}
               canEnable={canEnableChannel("gchat").canEnable}
               disableReason={canEnableChannel("gchat").reason}
               onToggle={() => toggleChannel("gchat", channels.gchat.enabled)}
@@ -1316,8 +2170,11 @@ export default function ChannelsPage() {
           {channels.discord && (
             <ChannelSection
               channelKey="discord"
+              coalesceWindowMs={channels.discord?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("discord", ms)}
               displayName={getChannelDisplayName("discord")}
               enabled={channels.discord.enabled}
+              live={isLive("discord")}
               canEnable={canEnableChannel("discord").canEnable}
               disableReason={canEnableChannel("discord").reason}
               onToggle={() => toggleChannel("discord", channels.discord.enabled)}
@@ -1350,8 +2207,11 @@ export default function ChannelsPage() {
           {channels.dashboard && (
             <ChannelSection
               channelKey="dashboard"
+              coalesceWindowMs={channels.dashboard?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("dashboard", ms)}
               displayName={getChannelDisplayName("dashboard")}
               enabled={channels.dashboard.enabled}
+              live={isLive("dashboard")}
               canEnable={canEnableChannel("dashboard").canEnable}
               disableReason={canEnableChannel("dashboard").reason}
               onToggle={() => toggleChannel("dashboard", channels.dashboard.enabled)}
@@ -1367,6 +2227,91 @@ export default function ChannelsPage() {
               )}
             </ChannelSection>
           )}
+
+          {/* Inbound webhooks */}
+          {channels.webhook && (
+            <ChannelSection
+              channelKey="webhook"
+              coalesceWindowMs={channels.webhook?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("webhook", ms)}
+              displayName={getChannelDisplayName("webhook")}
+              enabled={channels.webhook.enabled}
+              live={isLive("webhook")}
+              canEnable={true}
+              onToggle={() => toggleChannel("webhook", channels.webhook.enabled)}
+              sessionKey={getSessionKeyForChannel("webhook")}
+              sessionSettings={sessionSettings}
+              onSaveSessionSetting={saveSessionSetting}
+              setSessionSettings={setSessionSettings}
+              defaultResponseStyle="final"
+            >
+              <PluginChannelConfig
+                manifest={WEBHOOK_CHANNEL_SETTINGS}
+                settings={channels.webhook.settings || {}}
+                onSave={(settings) => savePluginSettings(WEBHOOK_CHANNEL_SETTINGS, settings)}
+              />
+              <InboundHooksConfig hooks={config.inboundHooks?.hooks || []} onSave={saveInboundHooks} />
+            </ChannelSection>
+          )}
+
+          {/* Event inbox */}
+          {channels.inbox && (
+            <ChannelSection
+              channelKey="inbox"
+              coalesceWindowMs={channels.inbox?.coalesceWindowMs}
+              onSaveCoalesceWindow={(ms) => saveCoalesceWindow("inbox", ms)}
+              displayName={getChannelDisplayName("inbox")}
+              enabled={channels.inbox.enabled}
+              live={isLive("inbox")}
+              canEnable={true}
+              onToggle={() => toggleChannel("inbox", channels.inbox.enabled)}
+              sessionKey={getSessionKeyForChannel("inbox")}
+              sessionSettings={sessionSettings}
+              onSaveSessionSetting={saveSessionSetting}
+              setSessionSettings={setSessionSettings}
+              defaultResponseStyle="final"
+            >
+              <p className="text-zinc-400 text-sm mb-3">
+                Local scripts, MCP servers and cron jobs drop JSON events of type <code className="text-zinc-300">inbox</code> in{" "}
+                <code className="text-zinc-300">events/pending</code>. The reply is written to{" "}
+                <code className="text-zinc-300">events/processed</code>.
+              </p>
+              <PluginChannelConfig
+                manifest={INBOX_CHANNEL_SETTINGS}
+                settings={channels.inbox.settings || {}}
+                onSave={(settings) => savePluginSettings(INBOX_CHANNEL_SETTINGS, settings)}
+              />
+            </ChannelSection>
+          )}
+
+          {/* Plugin channels (from the channel plugins directory) */}
+          {(config.channelPlugins || []).map((manifest) => {
+            const enabled = isPluginEnabled(manifest);
+            return (
+              <ChannelSection
+                key={manifest.name}
+                channelKey={manifest.name}
+                coalesceWindowMs={channels[manifest.name]?.coalesceWindowMs}
+                onSaveCoalesceWindow={(ms) => saveCoalesceWindow(manifest.name, ms)}
+                displayName={getChannelDisplayName(manifest.name)}
+                enabled={enabled}
+                live={isLive(manifest.name)}
+                canEnable={true}
+                onToggle={() => toggleChannel(manifest.name, enabled)}
+                sessionKey={getSessionKeyForChannel(manifest.name)}
+                sessionSettings={sessionSettings}
+                onSaveSessionSetting={saveSessionSetting}
+                setSessionSettings={setSessionSettings}
+                defaultResponseStyle={manifest.defaultResponseStyle}
+              >
+                <PluginChannelConfig
+                  manifest={manifest}
+                  settings={channels[manifest.name]?.settings || {}}
+                  onSave={(settings) => savePluginSettings(manifest, settings)}
+                />
+              </ChannelSection>
+            );
+          })}
         </div>
       </div>
     </div>
@@ -83,9 +83,18 @@ interface MemorySettings {
   longTermFileMaxSize: number;
 }
 
+interface JobRetention {
+  maxAgeDays: number;
+  maxJobs: number;
+  archiveMaxMonths: number;
+  processedEventsMaxAgeDays: number;
+  maxProcessedEvents: number;
+}
+
 interface ChannelsConfig {
   global: {
     maxConcurrentJobs: number;
+    reservedInteractiveSlots?: number;
   };
   channels: Record<string, { enabled: boolean }>;
 }
@@ -103,7 +112,15 @@ export default function Config() {
     chunkSizeBytes: 25600,
     longTermFileMaxSize: 30720,
   });
+  const [jobRetention, setJobRetention] = useState<JobRetention>({
+    maxAgeDays: 30,
+    maxJobs: 1000,
+    archiveMaxMonths: 0,
+    processedEventsMaxAgeDays: 14,
+    maxProcessedEvents: 5000,
+  });
   const [maxConcurrentJobs, setMaxConcurrentJobs] = useState(2);
+  const [reservedInteractiveSlots, setReservedInteractiveSlots] = useState(0);
   const [saving, setSaving] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
@@ -117,9 +134,15 @@ export default function Config() {
           if (data.memorySettings) {
             setMemorySettings(data.memorySettings);
           }
+          if (data.jobRetention) {
+            setJobRetention(data.jobRetention);
+          }
           if (data.channels?.global?.maxConcurrentJobs) {
             setMaxConcurrentJobs(data.channels.global.maxConcurrentJobs);
           }
+          if (data.channels?.global?.reservedInteractiveSlots !== undefined) {
+            setReservedInteractiveSlots(data.channels.global.reservedInteractiveSlots);
+          }
         }
       } catch (err) {
         console.error("Failed to fetch config:", err);
@@ -152,6 +175,28 @@ export default function Config() {
     }
   };
 
+  const saveJobRetention = async () => {
+    setSaving("retention");
+    setMessage(null);
+    try {
+      const res = await authFetch("/api/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "jobRetention", data: jobRetention }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(null);
+    }
+  };
+
   const saveMaxConcurrentJobs = async () => {
     setSaving("jobs");
     setMessage(null);
@@ -162,6 +207,7 @@ export default function Config() {
         channels: {},
       };
       channelsConfig.global.maxConcurrentJobs = maxConcurrentJobs;
+      channelsConfig.global.reservedInteractiveSlots = reservedInteractiveSlots;
 
       const res = await authFetch("/api/config", {
         method: "POST",
@@ -276,6 +322,18 @@ export default function Config() {
                 className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
               />
             </div>
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Reserved Interactive Slots</label>
+              <p className="text-xs text-zinc-500 mb-2">Slots kept free for chat messages so cron jobs and memory rollups can't fill every slot</p>
+              <input
+                type="number"
+                min={0}
+                max={Math.max(0, maxConcurrentJobs - 1)}
+                value={reservedInteractiveSlots}
+                onChange={(e) => setReservedInteractiveSlots(parseInt(e.target.value) || 0)}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
           </div>
         </div>
 
@@ -340,6 +398,92 @@ export default function Config() {
           </div>
         </div>
 
+        {/* Job Retention */}
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-white">Job Retention</h3>
+            <button
+              onClick={saveJobRetention}
+              disabled={saving === "retention"}
+              className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving === "retention" ? "Saving..." : "Save"}
+            </button>
+          </div>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Archive After (days)</label>
+              <p className="text-xs text-zinc-500 mb-2">Finished jobs older than this are gzipped into monthly archives (0 = never)</p>
+              <input
+                type="number"
+                min={0}
+                value={jobRetention.maxAgeDays}
+                onChange={(e) => setJobRetention({
+                  ...jobRetention,
+                  maxAgeDays: parseInt(e.target.value) || 0,
+                })}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Max Unarchived Jobs</label>
+              <p className="text-xs text-zinc-500 mb-2">Older jobs beyond this count are archived too (0 = no limit)</p>
+              <input
+                type="number"
+                min={0}
+                value={jobRetention.maxJobs}
+                onChange={(e) => setJobRetention({
+                  ...jobRetention,
+                  maxJobs: parseInt(e.target.value) || 0,
+                })}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Keep Archives (months)</label>
+              <p className="text-xs text-zinc-500 mb-2">Archives older than this are deleted (0 = keep forever)</p>
+              <input
+                type="number"
+                min={0}
+                value={jobRetention.archiveMaxMonths}
+                onChange={(e) => setJobRetention({
+                  ...jobRetention,
+                  archiveMaxMonths: parseInt(e.target.value) || 0,
+                })}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Keep Processed Events (days)</label>
+              <p className="text-xs text-zinc-500 mb-2">Handled messages and inbox results in events/processed are deleted after this (0 = never)</p>
+              <input
+                type="number"
+                min={0}
+                value={jobRetention.processedEventsMaxAgeDays}
+                onChange={(e) => setJobRetention({
+                  ...jobRetention,
+                  processedEventsMaxAgeDays: parseInt(e.target.value) || 0,
+                })}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Max Processed Events</label>
+              <p className="text-xs text-zinc-500 mb-2">Older processed events beyond this count are deleted too (0 = no limit)</p>
+              <input
+                type="number"
+                min={0}
+                value={jobRetention.maxProcessedEvents}
+                onChange={(e) => setJobRetention({
+                  ...jobRetention,
+                  maxProcessedEvents: parseInt(e.target.value) || 0,
+                })}
+                className="w-24 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+            </div>
+          </div>
+        </div>
+
         {/* Google OAuth */}
         <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
           <h3 className="font-semibold text-white mb-2">Google OAuth</h3>
@@ -363,6 +507,33 @@ export default function Config() {
           <p className="text-sm text-zinc-400">Edit the system instructions</p>
         </Link>
 
+        {/* Assistant profiles */}
+        <Link
+          to="/config/profiles"
+          className="bg-zinc-900 rounded-lg border border-zinc-800 p-4 hover:bg-zinc-800/50 transition-colors block"
+        >
+          <h3 className="font-semibold text-white mb-2">Assistant Profiles</h3>
+          <p className="text-sm text-zinc-400">Host several assistants and route channels to them</p>
+        </Link>
+
+        {/* Outbound webhooks */}
+        <Link
+          to="/config/webhooks"
+          className="bg-zinc-900 rounded-lg border border-zinc-800 p-4 hover:bg-zinc-800/50 transition-colors block"
+        >
+          <h3 className="font-semibold text-white mb-2">Webhooks</h3>
+          <p className="text-sm text-zinc-400">Send job and message events to your own tools, and replay failed deliveries</p>
+        </Link>
+
+        {/* Contacts directory */}
+        <Link
+          to="/config/contacts"
+          className="bg-zinc-900 rounded-lg border border-zinc-800 p-4 hover:bg-zinc-800/50 transition-colors block"
+        >
+          <h3 className="font-semibold text-white mb-2">Contacts</h3>
+          <p className="text-sm text-zinc-400">Link each person's Telegram, email, Discord and Google Chat identities</p>
+        </Link>
+
         {/* API Keys */}
         <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
           <h3 className="font-semibold text-white mb-4">API Keys</h3>
@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { authFetch } from "@/lib/auth";
+
+interface Identity {
+  channel: string;
+  id: string;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+  identities: Identity[];
+  trust: string;
+  notes?: string;
+}
+
+interface SuggestedIdentity {
+  channel: string;
+  id: string;
+  name: string;
+}
+
+// What each channel uses as a sender id (see getSenderIds in the channel modules)
+const CHANNEL_ID_HINTS: Record<string, string> = {
+  telegram: "User id or @username",
+  email: "jane@example.com",
+  discord: "User id or username",
+  gchat: "users/112233445566",
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  telegram: "Telegram",
+  email: "Email",
+  discord: "Discord",
+  gchat: "Google Chat",
+};
+
+function toContactId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export default function Contacts() {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [trustLevels, setTrustLevels] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<SuggestedIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchContacts = async () => {
+    try {
+      const res = await authFetch("/api/contacts");
+      if (res.ok) {
+        const data = await res.json();
+        setContacts(
+          data.contacts.map((c: Partial<Contact>) => ({
+            ...c,
+            identities: c.identities || [],
+            trust: c.trust || "known",
+          }))
+        );
+        setTrustLevels(data.trustLevels);
+        setSuggestions(data.suggestions);
+      }
+    } catch (err) {
+      console.error("Failed to fetch contacts:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchContacts();
+  }, []);
+
+  const updateContact = (index: number, changes: Partial<Contact>) => {
+    setContacts(contacts.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const updateIdentity = (index: number, identityIndex: number, changes: Partial<Identity>) => {
+    updateContact(index, {
+      identities: contacts[index].identities.map((identity, i) =>
+        i === identityIndex ? { ...identity, ...changes } : identity
+      ),
+    });
+  };
+
+  // A suggestion becomes a new contact, or another identity of an existing one
+  const addSuggestion = (suggestion: SuggestedIdentity, contactIndex: number | null) => {
+    const identity = { channel: suggestion.channel, id: suggestion.id };
+    if (contactIndex === null) {
+      setContacts([
+        ...contacts,
+        { id: toContactId(suggestion.name), name: suggestion.name, identities: [identity], trust: "known" },
+      ]);
+    } else {
+      updateContact(contactIndex, { identities: [...contacts[contactIndex].identities, identity] });
+    }
+    setSuggestions(suggestions.filter((s) => s !== suggestion));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const body = {
+        contacts: contacts.map((c) => ({
+          id: c.id.trim(),
+          name: c.name.trim(),
+          identities: c.identities
+            .filter((i) => i.id.trim())
+            .map((i) => ({ channel: i.channel, id: i.id.trim() })),
+          trust: c.trust,
+          ...(c.notes?.trim() ? { notes: c.notes.trim() } : {}),
+        })),
+      };
+      const res = await authFetch("/api/contacts", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading...</div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    "px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/config" className="text-zinc-400 hover:text-white text-sm">
+            ← Back to Config
+          </Link>
+          <h2 className="text-2xl font-bold text-white">Contacts</h2>
+          <p className="text-zinc-500 mt-1">
+            One entry per person, whichever channel they write on. Their name, trust level and notes go along with
+            every message they send - except email, where anyone can fake a From address, so only the name goes
+            along, marked unverified.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-600/20 text-green-400"
+              : "bg-red-600/20 text-red-400"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <h3 className="font-semibold text-white mb-3">People</h3>
+        {contacts.length === 0 && <p className="text-sm text-zinc-500 mb-3">No contacts yet</p>}
+        <div className="space-y-4">
+          {contacts.map((contact, index) => (
+            <div key={index} className="border border-zinc-800 rounded p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={contact.name}
+                  onChange={(e) => updateContact(index, { name: e.target.value })}
+                  onBlur={() => !contact.id && updateContact(index, { id: toContactId(contact.name) })}
+                  placeholder="Jane Doe"
+                  className={`${inputClass} flex-1 min-w-40`}
+                />
+                <input
+                  type="text"
+                  value={contact.id}
+                  onChange={(e) => updateContact(index, { id: e.target.value })}
+                  placeholder="jane"
+                  className={`${inputClass} w-28 font-mono`}
+                />
+                <select
+                  value={contact.trust}
+                  onChange={(e) => updateContact(index, { trust: e.target.value })}
+                  className={inputClass}
+                >
+                  {trustLevels.map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setContacts(contacts.filter((_, i) => i !== index))}
+                  className="px-2 py-1 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                value={contact.notes || ""}
+                onChange={(e) => updateContact(index, { notes: e.target.value })}
+                placeholder="Notes for the assistant - who they are, how to treat their requests"
+                rows={2}
+                className={`${inputClass} w-full`}
+              />
+              <div className="space-y-1">
+                {contact.identities.map((identity, identityIndex) => (
+                  <div key={identityIndex} className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={identity.channel}
+                      onChange={(e) => updateIdentity(index, identityIndex, { channel: e.target.value })}
+                      className={`${inputClass} w-32`}
+                    >
+                      {Object.entries(CHANNEL_LABELS).map(([channel, label]) => (
+                        <option key={channel} value={channel}>
+                          {label}
+                        </option>
+                      ))}
+                      {!CHANNEL_LABELS[identity.channel] && (
+                        <option value={identity.channel}>{identity.channel}</option>
+                      )}
+                    </select>
+                    <input
+                      type="text"
+                      value={identity.id}
+                      onChange={(e) => updateIdentity(index, identityIndex, { id: e.target.value })}
+                      placeholder={CHANNEL_ID_HINTS[identity.channel] || "Sender id"}
+                      className={`${inputClass} flex-1 min-w-48 font-mono`}
+                    />
+                    <button
+                      onClick={() =>
+                        updateContact(index, {
+                          identities: contact.identities.filter((_, i) => i !== identityIndex),
+                        })
+                      }
+                      className="px-2 py-1 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() =>
+                    updateContact(index, { identities: [...contact.identities, { channel: "telegram", id: "" }] })
+                  }
+                  className="px-2 py-1 text-xs text-zinc-400 hover:text-white transition-colors"
+                >
+                  + Add identity
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setContacts([...contacts, { id: "", name: "", identities: [], trust: "known" }])}
+          className="mt-3 px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+        >
+          Add contact
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+          <h3 className="font-semibold text-white mb-1">Not Linked Yet</h3>
+          <p className="text-sm text-zinc-500 mb-3">
+            Names from the Discord and Google Chat user name maps that don't belong to a contact
+          </p>
+          <div className="divide-y divide-zinc-800">
+            {suggestions.map((suggestion) => (
+              <div key={`${suggestion.channel}:${suggestion.id}`} className="py-2 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-white">{suggestion.name}</span>
+                <span className="text-zinc-500">
+                  {CHANNEL_LABELS[suggestion.channel] || suggestion.channel} · <span className="font-mono">{suggestion.id}</span>
+                </span>
+                <div className="ml-auto flex gap-2">
+                  {contacts.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && addSuggestion(suggestion, Number(e.target.value))}
+                      className={inputClass}
+                    >
+                      <option value="">Link to...</option>
+                      {contacts.map((c, i) => (
+                        <option key={i} value={i}>
+                          {c.name || c.id || "(unnamed)"}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => addSuggestion(suggestion, null)}
+                    className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+                  >
+                    New contact
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ interface CronJob {
   description: string;
   prompt: string;
   enabled: boolean;
+  model?: string;
   nextRun?: string;
   lastRun?: string;
 }
@@ -150,6 +151,9 @@ export default function Cron() {
                   </div>
                   <div className="text-sm text-zinc-400 mb-2">
                     <code className="bg-zinc-800 px-2 py-0.5 rounded text-xs">{job.schedule}</code>
+                    {job.model && (
+                      <code className="ml-2 bg-zinc-800 px-2 py-0.5 rounded text-xs text-blue-300">{job.model}</code>
+                    )}
                     {job.nextRun && (
                       <span className="ml-2 text-zinc-500">
                         Next: {new Date(job.nextRun).toLocaleString()}
@@ -223,6 +227,7 @@ function JobEditor({
   const [description, setDescription] = useState(job?.description || "");
   const [prompt, setPrompt] = useState(job?.prompt || "");
   const [enabled, setEnabled] = useState(job?.enabled ?? true);
+  const [model, setModel] = useState(job?.model || "");
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -232,6 +237,7 @@ function JobEditor({
       description,
       prompt,
       enabled,
+      model: model.trim(),
     });
   };
 
@@ -285,6 +291,20 @@ function JobEditor({
               />
             </div>
 
+            <div>
+              <label className="text-sm text-zinc-400 block mb-2">Model</label>
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="default"
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-600"
+              />
+              <p className="text-xs text-zinc-500 mt-1">
+                e.g. sonnet, opus or a full model name. Leave empty for the default.
+              </p>
+            </div>
+
             <div className="flex items-center gap-2">
               <button
                 type="button"
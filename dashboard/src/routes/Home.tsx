@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { authFetch } from "@/lib/auth";
 
 interface SystemStats {
@@ -19,8 +20,19 @@ interface SystemStats {
   };
 }
 
+interface WatcherState {
+  startedAt: string;
+  runningJobs: Array<{ id: string; channel: string; trigger: string; startTime: string }>;
+  sessions: Array<{ lockKey: string; active: boolean; queued: number }>;
+  scheduler: { running: number; maxConcurrentJobs: number; queued: Array<{ label: string }> };
+  cronTasks: Array<{ id: string; kind: "recurring" | "one-off" }>;
+  heldEvents: number;
+  pendingApprovals?: number;
+  channels: string[];
+}
+
 interface ServiceStatus {
-  watcher: { running: boolean; pid?: number };
+  watcher: { running: boolean; pid?: number; state?: WatcherState };
   dashboard: { running: boolean; pid?: number };
   mcp: { total: number; healthy: number; error: number };
 }
@@ -60,6 +72,7 @@ export default function Home() {
   const [stats, setStats] = useState<SystemStats | null>(null);
   const [status, setStatus] = useState<ServiceStatus | null>(null);
   const [loading, setLoading] = useState(true);
+  const [controlMessage, setControlMessage] = useState<string | null>(null);
 
   const fetchData = async () => {
     try {
@@ -81,6 +94,22 @@ export default function Home() {
     }
   };
 
+  const sendWatcherCommand = async (command: "reload" | "clear-queue", body?: object) => {
+    setControlMessage(null);
+    try {
+      const res = await authFetch(`/api/watcher/${command}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await res.json();
+      setControlMessage(res.ok ? data.message : data.error || "Command failed");
+      fetchData();
+    } catch {
+      setControlMessage("Command failed");
+    }
+  };
+
   useEffect(() => {
     fetchData();
     const interval = setInterval(fetchData, 30000);
@@ -127,6 +156,74 @@ export default function Home() {
         </div>
       )}
 
+      {/* Live watcher state (from its control socket) */}
+      {status?.watcher.state && (
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-white">Watcher</h3>
+            <button
+              onClick={() => sendWatcherCommand("reload")}
+              className="px-3 py-1.5 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Reload config
+            </button>
+          </div>
+          {controlMessage && <div className="text-xs text-zinc-400">{controlMessage}</div>}
+          <div className="text-xs text-zinc-500">
+            Live channels: {status.watcher.state.channels.join(", ") || "none"}
+          </div>
+          {!!status.watcher.state.pendingApprovals && (
+            <Link to="/approvals" className="block text-sm text-yellow-400 hover:text-yellow-300">
+              {status.watcher.state.pendingApprovals} tool call(s) waiting for approval →
+            </Link>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div>
+              <div className="text-zinc-500 text-xs">Job slots</div>
+              <div className="text-white">{status.watcher.state.scheduler.running}/{status.watcher.state.scheduler.maxConcurrentJobs}</div>
+            </div>
+            <div>
+              <div className="text-zinc-500 text-xs">Waiting for a slot</div>
+              <div className="text-white">{status.watcher.state.scheduler.queued.length}</div>
+            </div>
+            <div>
+              <div className="text-zinc-500 text-xs">Cron tasks</div>
+              <div className="text-white">{status.watcher.state.cronTasks.length}</div>
+            </div>
+            <div>
+              <div className="text-zinc-500 text-xs">Held for /retry</div>
+              <div className="text-white">{status.watcher.state.heldEvents}</div>
+            </div>
+          </div>
+          {status.watcher.state.runningJobs.length > 0 && (
+            <div className="space-y-1">
+              {status.watcher.state.runningJobs.map((job) => (
+                <Link key={job.id} to={`/jobs/${job.id}`} className="flex items-center gap-2 text-sm hover:text-white">
+                  <span className="w-2 h-2 rounded-full bg-blue-500" />
+                  <span className="text-white">{job.channel}</span>
+                  <span className="text-zinc-500 truncate">{job.trigger}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+          {status.watcher.state.sessions.some((s) => s.queued > 0) && (
+            <div className="space-y-1">
+              {status.watcher.state.sessions.filter((s) => s.queued > 0).map((s) => (
+                <div key={s.lockKey} className="flex items-center justify-between text-sm">
+                  <span className="text-zinc-400">{s.lockKey}: {s.queued} queued</span>
+                  <button
+                    onClick={() => sendWatcherCommand("clear-queue", { lockKey: s.lockKey })}
+                    className="text-xs text-red-400 hover:text-red-300"
+                  >
+                    Clear
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Stats Grid - 2x2 on mobile */}
       {stats && (
         <div className="grid grid-cols-2 gap-3">
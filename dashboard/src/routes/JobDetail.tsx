@@ -48,12 +48,14 @@ interface Job {
   endTime?: string;
   channel: string;
   status: string;
+  statusReason?: string;
   triggerText?: string;
   fullPrompt?: string;
   steps: JobStep[];
   toolCount: number;
   cost?: number;
   durationMs?: number;
+  archived?: boolean;
 }
 
 export default function JobDetail() {
@@ -136,6 +138,8 @@ export default function JobDetail() {
 
       <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-zinc-400">
         <span className="px-2 py-1 bg-zinc-800 rounded">{job.status}</span>
+        {job.archived && <span className="px-2 py-1 bg-zinc-800 rounded text-zinc-500">archived</span>}
+        {job.statusReason && <span className="text-orange-400">{job.statusReason}</span>}
         <span>{job.toolCount} tools</span>
         {job.cost && <span>${job.cost.toFixed(4)}</span>}
         {job.durationMs && <span>{(job.durationMs / 1000).toFixed(1)}s</span>}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Link, useSearchParams } from "react-router-dom";
 import { authFetch } from "@/lib/auth";
 
@@ -7,11 +7,13 @@ interface Job {
   startTime: string;
   endTime?: string;
   channel: string;
-  status: "running" | "completed" | "error" | "stopped";
+  profile?: string;
+  status: "running" | "completed" | "error" | "stopped" | "timeout" | "limit" | "orphaned";
   triggerText?: string;
   toolCount: number;
   cost?: number;
   durationMs?: number;
+  archived?: boolean;
 }
 
 const PAGE_SIZE = 10;
@@ -21,13 +23,17 @@ export default function Jobs() {
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(false);
+  const [query, setQuery] = useState("");
+  // Read by the refresh interval, which keeps the first render's closure
+  const queryRef = useRef("");
   const [searchParams] = useSearchParams();
   const selectedJobId = searchParams.get("job");
 
   const fetchJobs = async (limit = PAGE_SIZE, append = false) => {
     try {
       if (append) setLoadingMore(true);
-      const res = await authFetch(`/api/jobs?limit=${limit}&offset=0`);
+      const q = queryRef.current.trim();
+      const res = await authFetch(`/api/jobs?limit=${limit}&offset=0${q ? `&q=${encodeURIComponent(q)}` : ""}`);
       if (res.ok) {
         const data = await res.json();
         if (append) {
@@ -58,6 +64,13 @@ export default function Jobs() {
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    if (query === queryRef.current) return;
+    queryRef.current = query;
+    const timeout = setTimeout(() => fetchJobs(PAGE_SIZE, false), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
   const loadMore = () => {
     fetchJobs(jobs.length + PAGE_SIZE, true);
   };
@@ -72,6 +85,9 @@ export default function Jobs() {
     completed: "bg-green-500",
     error: "bg-red-500",
     stopped: "bg-yellow-500",
+    timeout: "bg-orange-500",
+    limit: "bg-orange-500",
+    orphaned: "bg-zinc-500",
   };
 
   if (loading) {
@@ -89,9 +105,17 @@ export default function Jobs() {
         <p className="text-zinc-500 mt-1">Recent job history</p>
       </div>
 
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search jobs, including archived ones..."
+        className="w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white text-sm focus:outline-none focus:border-zinc-600"
+      />
+
       <div className="bg-zinc-900 rounded-lg border border-zinc-800 divide-y divide-zinc-800">
         {jobs.length === 0 ? (
-          <div className="p-8 text-center text-zinc-500">No jobs yet</div>
+          <div className="p-8 text-center text-zinc-500">{query ? "No matching jobs" : "No jobs yet"}</div>
         ) : (
           jobs.map((job) => (
             <Link
@@ -107,6 +131,10 @@ export default function Jobs() {
                     <div className={`w-2 h-2 rounded-full ${statusColors[job.status]}`} />
                     <span className="text-sm font-medium text-white">{job.channel}</span>
                     <span className="text-xs text-zinc-500">{job.status}</span>
+                    {job.profile && job.profile !== "default" && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">{job.profile}</span>
+                    )}
+                    {job.archived && <span className="text-xs px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">archived</span>}
                   </div>
                   <p className="text-sm text-zinc-400 truncate">{job.triggerText || "No trigger text"}</p>
                   <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-zinc-500">
@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { authFetch } from "@/lib/auth";
+
+interface PersonaInfo {
+  name: string;
+  size: number;
+  updatedAt: string;
+}
+
+export default function Personas() {
+  const [personas, setPersonas] = useState<PersonaInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchPersonas = async () => {
+    try {
+      const res = await authFetch("/api/personas");
+      if (res.ok) {
+        const data = await res.json();
+        setPersonas(data.personas || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch personas:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPersonas();
+  }, []);
+
+  const openPersona = async (name: string) => {
+    setMessage(null);
+    try {
+      const res = await authFetch(`/api/personas/${encodeURIComponent(name)}`);
+      const data = await res.json();
+      if (res.ok) {
+        setSelected(name);
+        setContent(data.content || "");
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to load" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to load" });
+    }
+  };
+
+  const createPersona = () => {
+    const name = newName.trim();
+    if (!/^[\w-][\w.-]*$/.test(name)) {
+      setMessage({ type: "error", text: "Use a channel name (gchat) or session key (discord-123456789)" });
+      return;
+    }
+    setNewName("");
+    if (personas.some((p) => p.name === name)) {
+      openPersona(name);
+      return;
+    }
+    // Not written until the first save
+    setSelected(name);
+    setContent("");
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await authFetch(`/api/personas/${encodeURIComponent(selected)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+        fetchPersonas();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete personas/${selected}.md?`)) return;
+    try {
+      const res = await authFetch(`/api/personas/${encodeURIComponent(selected)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Deleted" });
+        setSelected(null);
+        setContent("");
+        fetchPersonas();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to delete" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to delete" });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading...</div>
+      </div>
+    );
+  }
+
+  const isSaved = selected !== null && personas.some((p) => p.name === selected);
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-5.5rem)] md:h-[calc(100vh-3rem)]">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <Link to="/config/soul-md" className="text-zinc-400 hover:text-white text-sm">
+            ← Back to SOUL.md
+          </Link>
+          <h2 className="text-2xl font-bold text-white">Persona Overlays</h2>
+          <p className="text-zinc-500 mt-1">
+            Added on top of SOUL.md for one channel (<code className="text-xs">gchat</code>) or one conversation (
+            <code className="text-xs">discord-&lt;channel id&gt;</code>)
+          </p>
+        </div>
+        {selected && (
+          <div className="flex gap-2">
+            {isSaved && (
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-zinc-700 hover:bg-red-600 text-white rounded-lg transition-colors"
+              >
+                Delete
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg mb-4 ${
+            message.type === "success"
+              ? "bg-green-600/20 text-green-400"
+              : "bg-red-600/20 text-red-400"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4 flex-1 min-h-0">
+        <div className="md:w-64 shrink-0 bg-zinc-900 border border-zinc-800 rounded-lg flex flex-col">
+          <div className="p-3 border-b border-zinc-800 flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && createPersona()}
+              placeholder="gchat, telegram-123..."
+              className="flex-1 min-w-0 px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600"
+            />
+            <button
+              onClick={createPersona}
+              className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto">
+            {personas.length === 0 ? (
+              <p className="p-3 text-sm text-zinc-500">No overlays yet</p>
+            ) : (
+              personas.map((p) => (
+                <button
+                  key={p.name}
+                  onClick={() => openPersona(p.name)}
+                  className={`w-full text-left px-3 py-2 text-sm font-mono transition-colors ${
+                    selected === p.name
+                      ? "bg-zinc-800 text-white"
+                      : "text-zinc-400 hover:text-white hover:bg-zinc-800/50"
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {selected ? (
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="w-full flex-1 min-h-0 bg-zinc-900 border border-zinc-800 rounded-lg p-4 text-zinc-100 font-mono text-sm resize-none focus:outline-none focus:border-zinc-700"
+            placeholder={`# personas/${selected}.md\n\nHow the assistant should behave here...`}
+          />
+        ) : (
+          <div className="flex-1 flex items-center justify-center bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-500 text-sm">
+            Select an overlay or add one
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { authFetch } from "@/lib/auth";
+
+interface ProfileRow {
+  name: string;
+  label: string;
+  root: string;
+  exists?: boolean;
+}
+
+interface RouteRow {
+  match: string;
+  profile: string;
+}
+
+export default function Profiles() {
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [routes, setRoutes] = useState<RouteRow[]>([]);
+  const [defaultProfile, setDefaultProfile] = useState("");
+  const [configured, setConfigured] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchProfiles = async () => {
+    try {
+      const res = await authFetch("/api/profiles");
+      if (res.ok) {
+        const data = await res.json();
+        setProfiles(
+          data.profiles.map((p: ProfileRow) => ({ ...p, label: p.label === p.name ? "" : p.label }))
+        );
+        setRoutes(data.config.routes || []);
+        setDefaultProfile(data.config.defaultProfile);
+        setConfigured(data.configured);
+        if (data.error) {
+          setMessage({ type: "error", text: `${data.error}. The watcher keeps its current profiles until this is saved again.` });
+        }
+      }
+    } catch (err) {
+      console.error("Failed to fetch profiles:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const updateProfile = (index: number, changes: Partial<ProfileRow>) => {
+    setProfiles(profiles.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const removeProfile = (index: number) => {
+    setProfiles(profiles.filter((_, i) => i !== index));
+  };
+
+  const updateRoute = (index: number, changes: Partial<RouteRow>) => {
+    setRoutes(routes.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  // Rules are checked top to bottom, so order matters
+  const moveRoute = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= routes.length) return;
+    const next = [...routes];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRoutes(next);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const body = {
+        defaultProfile,
+        profiles: Object.fromEntries(
+          profiles.map((p) => [p.name.trim(), { root: p.root.trim(), ...(p.label.trim() ? { label: p.label.trim() } : {}) }])
+        ),
+        routes: routes.map((r) => ({ match: r.match.trim(), profile: r.profile })),
+      };
+      const res = await authFetch("/api/profiles", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+        fetchProfiles();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading...</div>
+      </div>
+    );
+  }
+
+  const profileNames = profiles.map((p) => p.name).filter(Boolean);
+  const inputClass =
+    "px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/config" className="text-zinc-400 hover:text-white text-sm">
+            ← Back to Config
+          </Link>
+          <h2 className="text-2xl font-bold text-white">Assistant Profiles</h2>
+          <p className="text-zinc-500 mt-1">
+            Each profile is its own assistant directory with its own SOUL.md, memory, cron.json and .env
+          </p>
+          <p className="text-zinc-500 text-sm mt-1">
+            Routing decides which profile answers the shared bots and accounts. A profile that sets its own
+            TELEGRAM_BOT_TOKEN or DISCORD_BOT_TOKEN in its .env also gets its own bot, which always answers as that profile.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-600/20 text-green-400"
+              : "bg-red-600/20 text-red-400"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {!configured && (
+        <p className="text-sm text-zinc-500">
+          No profiles.json yet - everything runs as the single "default" profile. Add a profile and save to create it.
+        </p>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <h3 className="font-semibold text-white mb-3">Profiles</h3>
+        <div className="space-y-2">
+          {profiles.map((profile, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile(index, { name: e.target.value })}
+                placeholder="work"
+                className={`${inputClass} w-32 font-mono`}
+              />
+              <input
+                type="text"
+                value={profile.label}
+                onChange={(e) => updateProfile(index, { label: e.target.value })}
+                placeholder="Label"
+                className={`${inputClass} w-32`}
+              />
+              <input
+                type="text"
+                value={profile.root}
+                onChange={(e) => updateProfile(index, { root: e.target.value })}
+                placeholder="/home/ubuntu/assistant-work"
+                className={`${inputClass} flex-1 min-w-48 font-mono`}
+              />
+              <label className="flex items-center gap-1 text-sm text-zinc-400">
+                <input
+                  type="radio"
+                  checked={defaultProfile === profile.name}
+                  onChange={() => setDefaultProfile(profile.name)}
+                />
+                Default
+              </label>
+              {profile.exists === false && (
+                <span className="text-xs text-yellow-500">Directory not found</span>
+              )}
+              <button
+                onClick={() => removeProfile(index)}
+                className="px-2 py-1 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setProfiles([...profiles, { name: "", label: "", root: "" }])}
+          className="mt-3 px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+        >
+          Add profile
+        </button>
+      </div>
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <h3 className="font-semibold text-white mb-1">Routing</h3>
+        <p className="text-sm text-zinc-500 mb-3">
+          First match wins. Match a channel (<code className="text-xs">gchat</code>) or a session key (
+          <code className="text-xs">discord-123*</code>); <code className="text-xs">*</code> is a wildcard. Anything
+          else goes to the default profile.
+        </p>
+        <div className="space-y-2">
+          {routes.map((route, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={route.match}
+                onChange={(e) => updateRoute(index, { match: e.target.value })}
+                placeholder="gchat"
+                className={`${inputClass} flex-1 min-w-48 font-mono`}
+              />
+              <span className="text-zinc-500 text-sm">→</span>
+              <select
+                value={route.profile}
+                onChange={(e) => updateRoute(index, { profile: e.target.value })}
+                className={inputClass}
+              >
+                {profileNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveRoute(index, -1)}
+                className="px-2 py-1 text-sm text-zinc-500 hover:text-white transition-colors"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveRoute(index, 1)}
+                className="px-2 py-1 text-sm text-zinc-500 hover:text-white transition-colors"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setRoutes(routes.filter((_, i) => i !== index))}
+                className="px-2 py-1 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setRoutes([...routes, { match: "", profile: profileNames[0] || "" }])}
+          disabled={profileNames.length === 0}
+          className="mt-3 px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors disabled:opacity-50"
+        >
+          Add rule
+        </button>
+      </div>
+    </div>
+  );
+}
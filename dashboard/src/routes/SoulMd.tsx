@@ -65,13 +65,21 @@ export default function SoulMd() {
           <h2 className="text-2xl font-bold text-white">SOUL.md</h2>
           <p className="text-zinc-500 mt-1">Assistant personality and preferences</p>
         </div>
-        <button
-          onClick={handleSave}
-          disabled={saving}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
-        >
-          {saving ? "Saving..." : "Save"}
-        </button>
+        <div className="flex gap-2">
+          <Link
+            to="/config/personas"
+            className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg transition-colors text-sm flex items-center"
+          >
+            Persona Overlays
+          </Link>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
       </div>
 
       {message && (
@@ -52,12 +52,20 @@ export default function SystemInstructions() {
           <h2 className="text-2xl font-bold text-white">System Instructions</h2>
           <p className="text-zinc-500 mt-1">View assistant configuration and personality</p>
         </div>
-        <Link
-          to="/config/soul-md"
-          className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors text-sm"
-        >
-          Edit SOUL.md
-        </Link>
+        <div className="flex gap-2">
+          <Link
+            to="/config/personas"
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors text-sm"
+          >
+            Persona Overlays
+          </Link>
+          <Link
+            to="/config/soul-md"
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors text-sm"
+          >
+            Edit SOUL.md
+          </Link>
+        </div>
       </div>
 
       {/* Tabs */}
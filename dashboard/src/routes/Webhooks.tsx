@@ -0,0 +1,365 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { authFetch } from "@/lib/auth";
+
+interface Endpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  description?: string;
+}
+
+interface Attempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+interface Delivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: string;
+  body: string;
+  createdAt: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: Attempt[];
+  nextAttemptAt?: string;
+}
+
+const STATUS_STYLES: Record<Delivery["status"], string> = {
+  delivered: "text-green-400 bg-green-400/10",
+  pending: "text-yellow-400 bg-yellow-400/10",
+  failed: "text-red-400 bg-red-400/10",
+};
+
+// 32 random bytes, hex encoded
+function generateSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export default function Webhooks() {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"all" | Delivery["status"]>("all");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchWebhooks = async (includeConfig = true) => {
+    try {
+      const res = await authFetch("/api/webhooks");
+      if (res.ok) {
+        const data = await res.json();
+        if (includeConfig) {
+          setEndpoints(
+            data.config.endpoints.map((e: Partial<Endpoint>) => ({
+              ...e,
+              events: e.events || [],
+              enabled: e.enabled !== false,
+            }))
+          );
+          setMaxAttempts(data.config.maxAttempts ? String(data.config.maxAttempts) : "");
+          setEventTypes(data.events);
+        }
+        setDeliveries(data.deliveries);
+      }
+    } catch (err) {
+      console.error("Failed to fetch webhooks:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+    // Keep the delivery log fresh without clobbering unsaved endpoint edits
+    const interval = setInterval(() => fetchWebhooks(false), 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const updateEndpoint = (index: number, changes: Partial<Endpoint>) => {
+    setEndpoints(endpoints.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+  };
+
+  const toggleEvent = (index: number, event: string) => {
+    const events = endpoints[index].events;
+    updateEndpoint(index, {
+      events: events.includes(event) ? events.filter((e) => e !== event) : [...events, event],
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const body = {
+        endpoints: endpoints.map((e) => ({
+          id: e.id.trim(),
+          url: e.url.trim(),
+          secret: e.secret,
+          events: e.events,
+          enabled: e.enabled,
+          ...(e.description?.trim() ? { description: e.description.trim() } : {}),
+        })),
+        ...(maxAttempts.trim() ? { maxAttempts: Number(maxAttempts) } : {}),
+      };
+      const res = await authFetch("/api/webhooks", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Saved!" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReplay = async (id: string) => {
+    setMessage(null);
+    try {
+      const res = await authFetch(`/api/webhooks/deliveries/${encodeURIComponent(id)}/replay`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: data.message || "Delivery queued" });
+        // Give the first attempt a moment to finish
+        setTimeout(() => fetchWebhooks(false), 2000);
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to replay" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Failed to replay" });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading...</div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    "px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-zinc-600";
+  const shownDeliveries = statusFilter === "all" ? deliveries : deliveries.filter((d) => d.status === statusFilter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/config" className="text-zinc-400 hover:text-white text-sm">
+            ← Back to Config
+          </Link>
+          <h2 className="text-2xl font-bold text-white">Webhooks</h2>
+          <p className="text-zinc-500 mt-1">
+            POST signed lifecycle events (messages, jobs, cron, memory rollups) to your own tooling
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-600/20 text-green-400"
+              : "bg-red-600/20 text-red-400"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <h3 className="font-semibold text-white mb-1">Endpoints</h3>
+        <p className="text-sm text-zinc-500 mb-3">
+          Each request carries <code className="text-xs">X-Phouse-Signature: sha256=…</code>, an HMAC-SHA256 of{" "}
+          <code className="text-xs">&lt;X-Phouse-Timestamp&gt;.&lt;body&gt;</code> with the endpoint's secret. No events
+          selected means all of them.
+        </p>
+        <div className="space-y-4">
+          {endpoints.map((endpoint, index) => (
+            <div key={index} className="border border-zinc-800 rounded p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={endpoint.id}
+                  onChange={(e) => updateEndpoint(index, { id: e.target.value })}
+                  placeholder="ops"
+                  className={`${inputClass} w-28 font-mono`}
+                />
+                <input
+                  type="text"
+                  value={endpoint.url}
+                  onChange={(e) => updateEndpoint(index, { url: e.target.value })}
+                  placeholder="https://example.com/hooks/phouse"
+                  className={`${inputClass} flex-1 min-w-48 font-mono`}
+                />
+                <label className="flex items-center gap-1 text-sm text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={endpoint.enabled}
+                    onChange={(e) => updateEndpoint(index, { enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+                <button
+                  onClick={() => setEndpoints(endpoints.filter((_, i) => i !== index))}
+                  className="px-2 py-1 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="password"
+                  value={endpoint.secret}
+                  onChange={(e) => updateEndpoint(index, { secret: e.target.value })}
+                  placeholder="Signing secret"
+                  className={`${inputClass} flex-1 min-w-48 font-mono`}
+                />
+                <button
+                  onClick={() => updateEndpoint(index, { secret: generateSecret() })}
+                  className="px-2 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+                >
+                  Generate
+                </button>
+                <button
+                  onClick={() => navigator.clipboard.writeText(endpoint.secret)}
+                  disabled={!endpoint.secret}
+                  className="px-2 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors disabled:opacity-50"
+                >
+                  Copy
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {eventTypes.map((event) => (
+                  <label key={event} className="flex items-center gap-1 text-xs text-zinc-400 font-mono">
+                    <input
+                      type="checkbox"
+                      checked={endpoint.events.includes(event)}
+                      onChange={() => toggleEvent(index, event)}
+                    />
+                    {event}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-4">
+          <button
+            onClick={() =>
+              setEndpoints([...endpoints, { id: "", url: "", secret: generateSecret(), events: [], enabled: true }])
+            }
+            className="px-3 py-1 text-sm bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+          >
+            Add endpoint
+          </button>
+          <label className="flex items-center gap-2 text-sm text-zinc-400">
+            Attempts per delivery
+            <input
+              type="number"
+              min="1"
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(e.target.value)}
+              placeholder="5"
+              className={`${inputClass} w-16`}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-white">Recent Deliveries</h3>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className={inputClass}
+          >
+            <option value="all">All</option>
+            <option value="failed">Failed</option>
+            <option value="pending">Retrying</option>
+            <option value="delivered">Delivered</option>
+          </select>
+        </div>
+        {shownDeliveries.length === 0 ? (
+          <p className="text-sm text-zinc-500">No deliveries yet</p>
+        ) : (
+          <div className="divide-y divide-zinc-800">
+            {shownDeliveries.map((delivery) => {
+              const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+              return (
+                <div key={delivery.id} className="py-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                    <span className="font-mono text-zinc-300">{delivery.event}</span>
+                    <span className="text-zinc-500">→ {delivery.endpointId}</span>
+                    <span className="text-zinc-500 text-xs">{new Date(delivery.createdAt).toLocaleString()}</span>
+                    {lastAttempt && (
+                      <span className="text-zinc-500 text-xs">
+                        {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? "" : "s"}
+                        {lastAttempt.error ? ` · ${lastAttempt.error}` : ` · HTTP ${lastAttempt.statusCode}`}
+                      </span>
+                    )}
+                    {delivery.nextAttemptAt && (
+                      <span className="text-zinc-500 text-xs">
+                        next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                      </span>
+                    )}
+                    <div className="ml-auto flex gap-2">
+                      <button
+                        onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}
+                        className="px-2 py-1 text-xs text-zinc-400 hover:text-white transition-colors"
+                      >
+                        {expanded === delivery.id ? "Hide" : "Payload"}
+                      </button>
+                      {delivery.status !== "pending" && (
+                        <button
+                          onClick={() => handleReplay(delivery.id)}
+                          className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded transition-colors"
+                        >
+                          Replay
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {expanded === delivery.id && (
+                    <pre className="mt-2 p-2 bg-zinc-950 rounded text-xs text-zinc-400 overflow-x-auto">
+                      {JSON.stringify(JSON.parse(delivery.body), null, 2)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -241,8 +241,9 @@ fi
 
 # API server
 if [ -d "api" ]; then
-    print_step "Installing API dependencies and building..."
-    cd api && npm install && npm run build && cd ..
+    # No build step - the API runs from source with tsx (it imports TypeScript from core)
+    print_step "Installing API dependencies..."
+    cd api && npm install && cd ..
 fi
 
 # Dashboard
@@ -495,8 +496,8 @@ sudo systemctl start mcp-servers
 cd "$SCRIPT_DIR"
 pm2 start "npx tsx core/src/watcher.ts" --name watcher --cwd "$SCRIPT_DIR"
 
-# Start dashboard API
-pm2 start "node dist/index.js" --name dashboard-api --cwd "$SCRIPT_DIR/api"
+# Start dashboard API (runs via tsx so it can import shared modules from core)
+pm2 start "npx tsx src/index.ts" --name dashboard-api --cwd "$SCRIPT_DIR/api"
 
 # Save PM2 config so it restarts on reboot
 pm2 save
@@ -17,7 +17,8 @@ if (!channelId || !message) {
   process.exit(1);
 }
 
-const botToken = process.env.DISCORD_BOT_TOKEN;
+// A profile's own bot, passed by the watcher, wins over the shared .env
+const botToken = process.env.DISCORD_PROFILE_BOT_TOKEN || process.env.DISCORD_BOT_TOKEN;
 if (!botToken) {
   console.error("DISCORD_BOT_TOKEN not set");
   process.exit(1);